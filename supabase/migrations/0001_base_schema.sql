@@ -0,0 +1,142 @@
+-- 0001 base schema: profiles, jobs, claims, RLS, new-user trigger, realtime.
+-- Policies use is_admin() (SECURITY DEFINER) so the profiles policy no longer
+-- queries profiles under its own RLS (which recursed).
+
+create extension if not exists "uuid-ossp";
+create extension if not exists pgcrypto;
+
+-- 1) enum
+do $$ begin
+  if not exists (select 1 from pg_type where typname = 'job_status') then
+    create type job_status as enum ('open','assigned','complete','canceled');
+  end if;
+end $$;
+
+-- 2) profiles (maps 1:1 to auth.users)
+create table if not exists public.profiles (
+  id uuid primary key references auth.users(id) on delete cascade,
+  full_name text,
+  role text check (role in ('admin','guide')) default 'guide',
+  certs text[] default '{}',
+  is_active boolean default true,
+  created_at timestamptz default now()
+);
+
+-- 3) jobs
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  date date not null,
+  call_time time not null,
+  dock_time time,
+  location text,
+  boat text,
+  requirements text[] default '{}',
+  pay numeric(10,2),
+  notes text,
+  status job_status not null default 'open',
+  claimed_by uuid references public.profiles(id),
+  claimed_at timestamptz,
+  created_by uuid references public.profiles(id) not null,
+  created_at timestamptz default now()
+);
+
+-- 4) claims (first writer wins)
+create table if not exists public.claims (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz default now(),
+  unique(job_id) -- ensures only one claim per job
+);
+
+-- indexes
+create index if not exists idx_jobs_status_date on public.jobs(status, date);
+create index if not exists idx_claims_guide_id on public.claims(guide_id);
+
+-- 5) admin check used by every policy and RPC
+create or replace function public.is_admin()
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role = 'admin'
+  );
+end;
+$$;
+
+revoke all on function public.is_admin() from public;
+grant execute on function public.is_admin() to authenticated;
+
+-- Row Level Security
+alter table public.profiles enable row level security;
+alter table public.jobs enable row level security;
+alter table public.claims enable row level security;
+
+-- profiles: user can see/update their own profile; admins can see all
+drop policy if exists "read own or admin all" on public.profiles;
+create policy "read own or admin all" on public.profiles
+  for select using (auth.uid() = id or is_admin());
+
+drop policy if exists "update own" on public.profiles;
+create policy "update own" on public.profiles
+  for update using (auth.uid() = id);
+
+-- jobs: guides can read open jobs and jobs they've claimed; admins read/write all
+drop policy if exists "read open or own assignments" on public.jobs;
+create policy "read open or own assignments" on public.jobs
+  for select using (status = 'open' or claimed_by = auth.uid() or is_admin());
+
+drop policy if exists "insert jobs admin only" on public.jobs;
+create policy "insert jobs admin only" on public.jobs
+  for insert with check (is_admin());
+
+drop policy if exists "update jobs admin only" on public.jobs;
+create policy "update jobs admin only" on public.jobs
+  for update using (is_admin());
+
+-- claims: user can insert a claim for themselves; read their own claims; admin can read all
+drop policy if exists "insert own claim" on public.claims;
+create policy "insert own claim" on public.claims
+  for insert with check (guide_id = auth.uid());
+
+drop policy if exists "read own claims or admin" on public.claims;
+create policy "read own claims or admin" on public.claims
+  for select using (guide_id = auth.uid() or is_admin());
+
+-- 6) Auto-create a profile row whenever a new auth user signs up
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, full_name)
+  values (new.id, coalesce(new.raw_user_meta_data->>'full_name', ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- 7) Enable realtime for these tables
+do $$ begin
+  begin
+    alter publication supabase_realtime add table public.jobs;
+  exception when others then null;
+  end;
+  begin
+    alter publication supabase_realtime add table public.claims;
+  exception when others then null;
+  end;
+end $$;
@@ -1,23 +1,4 @@
--- Add a separate table for customer contact info so we don't leak PII on open jobs.
--- Run this in Supabase SQL Editor.
-
--- Make sure the helper exists (safe to re-run)
-create or replace function public.is_admin()
-returns boolean
-language plpgsql
-security definer
-set search_path = public
-as $$
-begin
-  return exists (
-    select 1 from public.profiles
-    where id = auth.uid() and role = 'admin'
-  );
-end;
-$$;
-
-revoke all on function public.is_admin() from public;
-grant execute on function public.is_admin() to authenticated;
+-- 0002 job_contacts: customer contact info in its own table so open jobs don't leak PII.
 
 -- 1) Table
 create table if not exists public.job_contacts (
@@ -0,0 +1,122 @@
+-- 0003 guide certifications: verified certs gate claiming and assignment
+-- (claim_job_v2 / assign_job_v2 in 0004 call guide_missing_certs()).
+--
+-- guide_certs is the source of truth for what a guide holds. A cert only counts
+-- toward jobs.requirements once an admin has verified it and it has not expired.
+-- Card photos live in the private "cert-cards" storage bucket under <guide_id>/...
+
+-- 1) Table
+create table if not exists public.guide_certs (
+  id uuid primary key default gen_random_uuid(),
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  cert text not null,
+  expires_on date,
+  card_path text,
+  verified_at timestamptz,
+  verified_by uuid references public.profiles(id),
+  created_at timestamptz default now(),
+  unique (guide_id, cert)
+);
+
+create index if not exists idx_guide_certs_guide_id on public.guide_certs(guide_id);
+
+-- Carry over any certs already typed into profiles.certs (unverified)
+insert into public.guide_certs (guide_id, cert)
+select p.id, c
+  from public.profiles p, unnest(p.certs) as c
+ where coalesce(c, '') <> ''
+on conflict (guide_id, cert) do nothing;
+
+-- 2) Only admins may set or keep verification. Any guide edit resets it.
+create or replace function public.guide_certs_guard()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    new.verified_at := null;
+    new.verified_by := null;
+  elsif new.verified_at is not null and new.verified_by is null then
+    new.verified_by := auth.uid();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guide_certs_guard on public.guide_certs;
+create trigger guide_certs_guard
+  before insert or update on public.guide_certs
+  for each row execute function public.guide_certs_guard();
+
+-- 3) RLS: guides manage their own certs, admins see and verify everyone's
+alter table public.guide_certs enable row level security;
+
+drop policy if exists "read own certs or admin" on public.guide_certs;
+create policy "read own certs or admin" on public.guide_certs
+  for select using (guide_id = auth.uid() or is_admin());
+
+drop policy if exists "insert own certs or admin" on public.guide_certs;
+create policy "insert own certs or admin" on public.guide_certs
+  for insert with check (guide_id = auth.uid() or is_admin());
+
+drop policy if exists "update own certs or admin" on public.guide_certs;
+create policy "update own certs or admin" on public.guide_certs
+  for update using (guide_id = auth.uid() or is_admin())
+  with check (guide_id = auth.uid() or is_admin());
+
+drop policy if exists "delete own certs or admin" on public.guide_certs;
+create policy "delete own certs or admin" on public.guide_certs
+  for delete using (guide_id = auth.uid() or is_admin());
+
+-- 4) Storage bucket for card photos (private; path starts with the guide's id)
+insert into storage.buckets (id, name, public)
+values ('cert-cards', 'cert-cards', false)
+on conflict (id) do nothing;
+
+drop policy if exists "cert cards read own or admin" on storage.objects;
+create policy "cert cards read own or admin" on storage.objects
+  for select using (
+    bucket_id = 'cert-cards'
+    and ((storage.foldername(name))[1] = auth.uid()::text or public.is_admin())
+  );
+
+drop policy if exists "cert cards upload own" on storage.objects;
+create policy "cert cards upload own" on storage.objects
+  for insert with check (
+    bucket_id = 'cert-cards'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "cert cards delete own or admin" on storage.objects;
+create policy "cert cards delete own or admin" on storage.objects
+  for delete using (
+    bucket_id = 'cert-cards'
+    and ((storage.foldername(name))[1] = auth.uid()::text or public.is_admin())
+  );
+
+-- 5) Which of a job's requirements the guide does not hold (case-insensitive).
+-- Empty array means the guide is eligible.
+create or replace function public.guide_missing_certs(p_guide_id uuid, p_job_id uuid)
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(r order by r), '{}')
+    from public.jobs j, unnest(coalesce(j.requirements, '{}')) as r
+   where j.id = p_job_id
+     and coalesce(r, '') <> ''
+     and not exists (
+       select 1 from public.guide_certs gc
+        where gc.guide_id = p_guide_id
+          and lower(gc.cert) = lower(r)
+          and gc.verified_at is not null
+          and (gc.expires_on is null or gc.expires_on >= current_date)
+     );
+$$;
+
+revoke all on function public.guide_missing_certs(uuid, uuid) from public;
+grant execute on function public.guide_missing_certs(uuid, uuid) to authenticated;
@@ -0,0 +1,261 @@
+-- 0004 job RPCs v2: one family that returns a structured result instead of a bare boolean.
+-- Replaces the earlier claim_job variants (claims-table and lock-based) with a single definition.
+--
+-- Every *_v2 function returns jsonb:
+--   { ok: boolean, reason: text | null, job: <jobs row> | null, ...extra }
+-- reason codes: not_found | forbidden | not_open | already_claimed | not_claimed | missing_cert
+-- missing_cert results also carry "missing": text[] (requirements the guide lacks).
+-- The old boolean RPCs stay as thin wrappers so older clients keep working.
+
+-- Shared result builder (reads the row after the change, so "job" is the updated row)
+create or replace function public.job_result(
+  p_ok boolean,
+  p_reason text,
+  p_job_id uuid,
+  p_extra jsonb default '{}'::jsonb
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'ok', p_ok,
+    'reason', p_reason,
+    'job', (select to_jsonb(j) from public.jobs j where j.id = p_job_id)
+  ) || coalesce(p_extra, '{}'::jsonb);
+$$;
+
+revoke all on function public.job_result(boolean, text, uuid, jsonb) from public;
+
+-- CLAIM: lock-safe, first come first served, cert-gated
+create or replace function public.claim_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_missing text[];
+begin
+  select * into v_job
+    from public.jobs
+   where id = p_job_id
+   for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+
+  if v_job.claimed_by is not null then
+    return public.job_result(false, 'already_claimed', p_job_id);
+  end if;
+  if v_job.status <> 'open' then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(auth.uid(), p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  update public.jobs
+     set claimed_by = auth.uid(),
+         claimed_at = now(),
+         status = 'assigned'
+   where id = p_job_id;
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.claim_job_v2(uuid) from public;
+grant execute on function public.claim_job_v2(uuid) to authenticated;
+
+-- UNCLAIM: admin or current claimer returns the job to the pool
+create or replace function public.unclaim_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_claimed_by uuid;
+begin
+  select claimed_by into v_claimed_by
+    from public.jobs
+   where id = p_job_id
+   for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+
+  if v_claimed_by is null then
+    return public.job_result(false, 'not_claimed', p_job_id);
+  end if;
+  if not (public.is_admin() or v_claimed_by = auth.uid()) then
+    return public.job_result(false, 'forbidden', p_job_id);
+  end if;
+
+  update public.jobs
+     set claimed_by = null,
+         claimed_at = null,
+         status = 'open'
+   where id = p_job_id;
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.unclaim_job_v2(uuid) from public;
+grant execute on function public.unclaim_job_v2(uuid) to authenticated;
+
+-- ASSIGN: admin sets a specific guide as claimer, refused when certs are missing
+create or replace function public.assign_job_v2(p_job_id uuid, p_guide_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_missing text[];
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(p_guide_id, p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  update public.jobs
+     set claimed_by = p_guide_id,
+         claimed_at = now(),
+         status = 'assigned'
+   where id = p_job_id;
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.assign_job_v2(uuid, uuid) from public;
+grant execute on function public.assign_job_v2(uuid, uuid) to authenticated;
+
+-- COMPLETE: admin or the assigned guide
+create or replace function public.complete_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_claimed_by uuid;
+begin
+  select claimed_by into v_claimed_by
+    from public.jobs
+   where id = p_job_id
+   for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+
+  if not (public.is_admin() or coalesce(v_claimed_by = auth.uid(), false)) then
+    return public.job_result(false, 'forbidden', p_job_id);
+  end if;
+
+  update public.jobs
+     set status = 'complete'
+   where id = p_job_id;
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.complete_job_v2(uuid) from public;
+grant execute on function public.complete_job_v2(uuid) to authenticated;
+
+-- CANCEL: admin only; clears the claimer
+create or replace function public.cancel_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+
+  update public.jobs
+     set status = 'canceled',
+         claimed_by = null
+   where id = p_job_id;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.cancel_job_v2(uuid) from public;
+grant execute on function public.cancel_job_v2(uuid) to authenticated;
+
+-- Boolean wrappers for older clients
+create or replace function public.claim_job(p_job_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select (public.claim_job_v2(p_job_id)->>'ok')::boolean;
+$$;
+
+create or replace function public.unclaim_job(p_job_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select (public.unclaim_job_v2(p_job_id)->>'ok')::boolean;
+$$;
+
+create or replace function public.assign_job(p_job_id uuid, p_guide_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select (public.assign_job_v2(p_job_id, p_guide_id)->>'ok')::boolean;
+$$;
+
+create or replace function public.complete_job(p_job_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select (public.complete_job_v2(p_job_id)->>'ok')::boolean;
+$$;
+
+create or replace function public.cancel_job(p_job_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select (public.cancel_job_v2(p_job_id)->>'ok')::boolean;
+$$;
+
+revoke all on function public.claim_job(uuid) from public;
+revoke all on function public.unclaim_job(uuid) from public;
+revoke all on function public.assign_job(uuid, uuid) from public;
+revoke all on function public.complete_job(uuid) from public;
+revoke all on function public.cancel_job(uuid) from public;
+grant execute on function public.claim_job(uuid) to authenticated;
+grant execute on function public.unclaim_job(uuid) to authenticated;
+grant execute on function public.assign_job(uuid, uuid) to authenticated;
+grant execute on function public.complete_job(uuid) to authenticated;
+grant execute on function public.cancel_job(uuid) to authenticated;
@@ -0,0 +1,109 @@
+-- 0005 job lifecycle audit log: append-only job_events, written by a trigger on jobs
+-- so every path (RPCs, admin edits, SQL editor) is recorded the same way.
+--
+-- action is derived from the change:
+--   created | claimed (actor took it) | assigned (someone else put a guide on it)
+--   reassigned | unclaimed | completed | canceled | status_changed | edited
+-- details holds the changed columns as { column: { old, new } }.
+
+create table if not exists public.job_events (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  actor uuid references public.profiles(id),
+  action text not null check (action in (
+    'created','claimed','assigned','reassigned','unclaimed',
+    'completed','canceled','status_changed','edited'
+  )),
+  old_status job_status,
+  new_status job_status,
+  old_claimed_by uuid,
+  new_claimed_by uuid,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_events_job_id on public.job_events(job_id, created_at);
+create index if not exists idx_job_events_created_at on public.job_events(created_at);
+create index if not exists idx_job_events_actor on public.job_events(actor);
+
+-- 1) Record job changes
+create or replace function public.log_job_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_action text;
+  v_details jsonb;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, new_status, new_claimed_by)
+    values (new.id, auth.uid(), 'created', new.status, new.claimed_by);
+    return new;
+  end if;
+
+  select jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+    into v_details
+    from jsonb_each(to_jsonb(new)) n
+    join jsonb_each(to_jsonb(old)) o using (key)
+   where n.value is distinct from o.value;
+  if v_details is null then
+    return new;
+  end if;
+
+  v_action := case
+    when new.status = 'canceled' and old.status <> 'canceled' then 'canceled'
+    when new.status = 'complete' and old.status <> 'complete' then 'completed'
+    when old.claimed_by is null and new.claimed_by is not null then
+      case when new.claimed_by = auth.uid() then 'claimed' else 'assigned' end
+    when old.claimed_by is not null and new.claimed_by is null then 'unclaimed'
+    when old.claimed_by is distinct from new.claimed_by then 'reassigned'
+    when old.status is distinct from new.status then 'status_changed'
+    else 'edited'
+  end;
+
+  insert into public.job_events (
+    job_id, actor, action, old_status, new_status, old_claimed_by, new_claimed_by, details
+  ) values (
+    new.id, auth.uid(), v_action, old.status, new.status, old.claimed_by, new.claimed_by, v_details
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_log_event on public.jobs;
+create trigger jobs_log_event
+  after insert or update on public.jobs
+  for each row execute function public.log_job_event();
+
+-- 2) Append-only: no updates or deletes, whoever asks (job deletes still cascade)
+create or replace function public.job_events_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' and not exists (select 1 from public.jobs where id = old.job_id) then
+    return old; -- cascade from a deleted job
+  end if;
+  raise exception 'job_events is append-only';
+end;
+$$;
+
+drop trigger if exists job_events_append_only on public.job_events;
+create trigger job_events_append_only
+  before update or delete on public.job_events
+  for each row execute function public.job_events_append_only();
+
+-- 3) RLS: admins read everything; a guide reads the history of jobs they hold.
+-- No insert/update/delete policies: only the trigger writes.
+alter table public.job_events enable row level security;
+
+drop policy if exists "read events admin or assigned guide" on public.job_events;
+create policy "read events admin or assigned guide" on public.job_events
+  for select using (
+    is_admin() or exists (
+      select 1 from public.jobs j
+      where j.id = job_id and j.claimed_by = auth.uid()
+    )
+  );
@@ -0,0 +1,444 @@
+-- 0006 multi-guide jobs: jobs.slots + one claims row per filled slot.
+--
+-- claims is now the crew list (unique per job + guide instead of per job).
+-- jobs.status is 'open' while slots remain and 'assigned' once full;
+-- jobs.claimed_by/claimed_at mirror the lead guide (earliest claim) so
+-- single-slot jobs behave exactly as before. sync_job_crew() keeps them in step.
+
+alter table public.jobs add column if not exists slots int not null default 1;
+
+do $$ begin
+  if not exists (select 1 from pg_constraint where conname = 'jobs_slots_check') then
+    alter table public.jobs add constraint jobs_slots_check check (slots >= 1);
+  end if;
+end $$;
+
+-- 1) Backfill claims from jobs.claimed_by (once: while the old one-claim-per-job key exists).
+-- The lock-safe claim_job never wrote claims, so rows there may be stale.
+do $$ begin
+  if exists (select 1 from pg_constraint where conname = 'claims_job_id_key') then
+    delete from public.claims c
+     using public.jobs j
+     where j.id = c.job_id and c.guide_id is distinct from j.claimed_by;
+    insert into public.claims (job_id, guide_id, created_at)
+    select id, claimed_by, coalesce(claimed_at, now())
+      from public.jobs
+     where claimed_by is not null
+    on conflict (job_id) do nothing;
+    alter table public.claims drop constraint claims_job_id_key;
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'claims_job_guide_key') then
+    alter table public.claims add constraint claims_job_guide_key unique (job_id, guide_id);
+  end if;
+end $$;
+
+create index if not exists idx_claims_job_id on public.claims(job_id, created_at);
+
+-- 2) Crew helpers
+create or replace function public.is_on_job(p_job_id uuid, p_guide_id uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.claims
+     where job_id = p_job_id and guide_id = p_guide_id
+  );
+$$;
+
+revoke all on function public.is_on_job(uuid, uuid) from public;
+grant execute on function public.is_on_job(uuid, uuid) to authenticated;
+
+-- open <-> assigned follows the crew size; complete/canceled are left alone
+create or replace function public.crew_status(p_status job_status, p_filled int, p_slots int)
+returns job_status
+language sql
+immutable
+as $$
+  select case
+    when p_status not in ('open', 'assigned') then p_status
+    when p_filled >= p_slots then 'assigned'::job_status
+    else 'open'::job_status
+  end;
+$$;
+
+create or replace function public.sync_job_crew(p_job_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_filled int;
+  v_lead uuid;
+  v_lead_at timestamptz;
+begin
+  select count(*) into v_filled from public.claims where job_id = p_job_id;
+  select guide_id, created_at into v_lead, v_lead_at
+    from public.claims
+   where job_id = p_job_id
+   order by created_at, id
+   limit 1;
+
+  update public.jobs
+     set claimed_by = v_lead,
+         claimed_at = v_lead_at,
+         status = public.crew_status(status, v_filled, slots)
+   where id = p_job_id;
+end;
+$$;
+
+revoke all on function public.sync_job_crew(uuid) from public;
+
+-- Changing slots re-derives open/assigned and can't drop below the current crew
+create or replace function public.jobs_check_slots()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_filled int;
+begin
+  select count(*) into v_filled from public.claims where job_id = new.id;
+  if new.slots < v_filled then
+    raise exception 'job has % guides; remove some before reducing slots to %', v_filled, new.slots;
+  end if;
+  new.status := public.crew_status(new.status, v_filled, new.slots);
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_check_slots on public.jobs;
+create trigger jobs_check_slots
+  before update of slots on public.jobs
+  for each row when (new.slots is distinct from old.slots)
+  execute function public.jobs_check_slots();
+
+-- Names + claim time of everyone on the given jobs, for jobs the caller can see
+create or replace function public.job_guides(p_job_ids uuid[])
+returns table (job_id uuid, guide_id uuid, full_name text, claimed_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.job_id, c.guide_id, p.full_name, c.created_at
+    from public.claims c
+    join public.jobs j on j.id = c.job_id
+    left join public.profiles p on p.id = c.guide_id
+   where c.job_id = any(p_job_ids)
+     and (j.status = 'open' or public.is_admin() or public.is_on_job(c.job_id))
+   order by c.job_id, c.created_at, c.id;
+$$;
+
+revoke all on function public.job_guides(uuid[]) from public;
+grant execute on function public.job_guides(uuid[]) to authenticated;
+
+-- 3) RLS: every guide on the job can see it, its contacts, its crew and its history.
+-- Claims are only written by the RPCs.
+drop policy if exists "read open or own assignments" on public.jobs;
+create policy "read open or own assignments" on public.jobs
+  for select using (status = 'open' or is_on_job(id) or is_admin());
+
+drop policy if exists "read contacts admin or assigned guide" on public.job_contacts;
+create policy "read contacts admin or assigned guide" on public.job_contacts
+  for select using (is_admin() or is_on_job(job_id));
+
+drop policy if exists "read events admin or assigned guide" on public.job_events;
+create policy "read events admin or assigned guide" on public.job_events
+  for select using (is_admin() or is_on_job(job_id));
+
+drop policy if exists "insert own claim" on public.claims;
+
+drop policy if exists "read own claims or admin" on public.claims;
+create policy "read own claims or admin" on public.claims
+  for select using (guide_id = auth.uid() or is_admin() or is_on_job(job_id));
+
+-- 4) Events: per-guide claim/assign/unclaim come from claims; the jobs trigger
+-- no longer logs claimer columns or open/assigned flips that just follow the crew size.
+create or replace function public.log_claim_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, new_claimed_by)
+    values (
+      new.job_id, auth.uid(),
+      case when new.guide_id = auth.uid() then 'claimed' else 'assigned' end,
+      new.guide_id
+    );
+    return new;
+  end if;
+
+  -- the job is being deleted or canceled: that event already tells the story
+  if not exists (select 1 from public.jobs where id = old.job_id and status <> 'canceled') then
+    return old;
+  end if;
+  insert into public.job_events (job_id, actor, action, old_claimed_by)
+  values (old.job_id, auth.uid(), 'unclaimed', old.guide_id);
+  return old;
+end;
+$$;
+
+drop trigger if exists claims_log_event on public.claims;
+create trigger claims_log_event
+  after insert or delete on public.claims
+  for each row execute function public.log_claim_event();
+
+create or replace function public.log_job_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_action text;
+  v_details jsonb;
+  v_filled int;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, new_status, new_claimed_by)
+    values (new.id, auth.uid(), 'created', new.status, new.claimed_by);
+    return new;
+  end if;
+
+  select count(*) into v_filled from public.claims where job_id = new.id;
+
+  select jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+    into v_details
+    from jsonb_each(to_jsonb(new)) n
+    join jsonb_each(to_jsonb(old)) o using (key)
+   where n.value is distinct from o.value
+     and n.key not in ('claimed_by', 'claimed_at')
+     and not (
+       n.key = 'status'
+       and old.status in ('open', 'assigned')
+       and new.status = public.crew_status(old.status, v_filled, new.slots)
+     );
+  if v_details is null then
+    return new;
+  end if;
+
+  v_action := case
+    when new.status = 'canceled' and old.status <> 'canceled' then 'canceled'
+    when new.status = 'complete' and old.status <> 'complete' then 'completed'
+    when v_details ? 'status' then 'status_changed'
+    else 'edited'
+  end;
+
+  insert into public.job_events (
+    job_id, actor, action, old_status, new_status, old_claimed_by, new_claimed_by, details
+  ) values (
+    new.id, auth.uid(), v_action, old.status, new.status, old.claimed_by, new.claimed_by, v_details
+  );
+  return new;
+end;
+$$;
+
+-- 5) RPCs. job_result now also returns the crew.
+create or replace function public.job_result(
+  p_ok boolean,
+  p_reason text,
+  p_job_id uuid,
+  p_extra jsonb default '{}'::jsonb
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'ok', p_ok,
+    'reason', p_reason,
+    'job', (select to_jsonb(j) from public.jobs j where j.id = p_job_id),
+    'crew', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+               'guide_id', c.guide_id, 'full_name', p.full_name, 'claimed_at', c.created_at
+             ) order by c.created_at, c.id), '[]'::jsonb)
+        from public.claims c
+        left join public.profiles p on p.id = c.guide_id
+       where c.job_id = p_job_id
+    )
+  ) || coalesce(p_extra, '{}'::jsonb);
+$$;
+
+revoke all on function public.job_result(boolean, text, uuid, jsonb) from public;
+
+-- Shared slot-filling step for claim and assign (caller holds the job row lock)
+create or replace function public.fill_job_slot(p_job_id uuid, p_guide_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_filled int;
+  v_missing text[];
+begin
+  select * into v_job from public.jobs where id = p_job_id;
+  if v_job.status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if public.is_on_job(p_job_id, p_guide_id) then
+    return public.job_result(false, 'already_on_job', p_job_id);
+  end if;
+
+  select count(*) into v_filled from public.claims where job_id = p_job_id;
+  if v_filled >= v_job.slots then
+    return public.job_result(false, 'already_claimed', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(p_guide_id, p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  insert into public.claims (job_id, guide_id) values (p_job_id, p_guide_id);
+  perform public.sync_job_crew(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.fill_job_slot(uuid, uuid) from public;
+
+-- CLAIM: take a free slot. The row lock serializes claims on the same job.
+create or replace function public.claim_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  return public.fill_job_slot(p_job_id, auth.uid());
+end;
+$$;
+
+-- ASSIGN: admin adds a specific guide to a free slot
+create or replace function public.assign_job_v2(p_job_id uuid, p_guide_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  return public.fill_job_slot(p_job_id, p_guide_id);
+end;
+$$;
+
+-- UNCLAIM: a guide gives up their own slot; an admin removes p_guide_id,
+-- or with no guide given (and not on the crew themselves) returns the whole job to the pool.
+drop function if exists public.unclaim_job_v2(uuid);
+create or replace function public.unclaim_job_v2(p_job_id uuid, p_guide_id uuid default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status job_status;
+  v_is_admin boolean := public.is_admin();
+begin
+  select status into v_status from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if v_status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+
+  if p_guide_id is null and v_is_admin and not public.is_on_job(p_job_id) then
+    delete from public.claims where job_id = p_job_id;
+  else
+    if not (v_is_admin or coalesce(p_guide_id, auth.uid()) = auth.uid()) then
+      return public.job_result(false, 'forbidden', p_job_id);
+    end if;
+    delete from public.claims
+     where job_id = p_job_id and guide_id = coalesce(p_guide_id, auth.uid());
+  end if;
+  if not found then
+    return public.job_result(false, 'not_claimed', p_job_id);
+  end if;
+
+  perform public.sync_job_crew(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.unclaim_job_v2(uuid, uuid) from public;
+grant execute on function public.unclaim_job_v2(uuid, uuid) to authenticated;
+
+-- COMPLETE: admin or any guide on the job
+create or replace function public.complete_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if not (public.is_admin() or public.is_on_job(p_job_id)) then
+    return public.job_result(false, 'forbidden', p_job_id);
+  end if;
+
+  update public.jobs
+     set status = 'complete'
+   where id = p_job_id;
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+-- CANCEL: admin only; releases every slot
+create or replace function public.cancel_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+
+  update public.jobs
+     set status = 'canceled',
+         claimed_by = null,
+         claimed_at = null
+   where id = p_job_id;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  delete from public.claims where job_id = p_job_id;
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+create or replace function public.unclaim_job(p_job_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select (public.unclaim_job_v2(p_job_id)->>'ok')::boolean;
+$$;
@@ -0,0 +1,188 @@
+-- 0007 schedule conflicts: a guide can't hold two jobs whose call-to-dock windows overlap.
+--
+-- A job without dock_time lasts app_settings.default_trip_length. claim_job_v2 refuses
+-- with reason 'schedule_conflict' (+ "conflicts": the overlapping jobs); assign_job_v2
+-- does the same unless the admin passes p_override, which is kept on the claims row
+-- and in the 'assigned' job event.
+
+-- 1) App-wide settings (single row)
+create table if not exists public.app_settings (
+  id boolean primary key default true check (id),
+  default_trip_length interval not null default '8 hours',
+  updated_at timestamptz default now()
+);
+
+insert into public.app_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.app_settings enable row level security;
+
+drop policy if exists "read settings" on public.app_settings;
+create policy "read settings" on public.app_settings
+  for select using (auth.uid() is not null);
+
+drop policy if exists "update settings admin only" on public.app_settings;
+create policy "update settings admin only" on public.app_settings
+  for update using (is_admin()) with check (is_admin());
+
+-- 2) Time window a job occupies: [date + call_time, dock) where a dock earlier
+-- than the call means the boat comes back after midnight
+create or replace function public.job_window(p_date date, p_call time, p_dock time)
+returns tsrange
+language sql
+stable
+set search_path = public
+as $$
+  select tsrange(
+    p_date + p_call,
+    case
+      when p_dock is null then p_date + p_call + coalesce(
+        (select default_trip_length from public.app_settings limit 1), interval '8 hours')
+      when p_dock > p_call then p_date + p_dock
+      else (p_date + 1) + p_dock
+    end,
+    '[)'
+  );
+$$;
+
+-- Open/assigned jobs the guide is already on that overlap p_job_id
+create or replace function public.guide_schedule_conflicts(p_guide_id uuid, p_job_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'id', o.id, 'title', o.title, 'date', o.date,
+           'call_time', o.call_time, 'dock_time', o.dock_time
+         ) order by o.date, o.call_time), '[]'::jsonb)
+    from public.jobs j
+    join public.claims c on c.guide_id = p_guide_id and c.job_id <> j.id
+    join public.jobs o on o.id = c.job_id and o.status in ('open', 'assigned')
+   where j.id = p_job_id
+     and public.job_window(o.date, o.call_time, o.dock_time)
+      && public.job_window(j.date, j.call_time, j.dock_time);
+$$;
+
+revoke all on function public.guide_schedule_conflicts(uuid, uuid) from public;
+grant execute on function public.guide_schedule_conflicts(uuid, uuid) to authenticated;
+
+-- 3) Overrides are kept with the slot they let through
+alter table public.claims add column if not exists schedule_override jsonb;
+
+create or replace function public.log_claim_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, new_claimed_by, details)
+    values (
+      new.job_id, auth.uid(),
+      case when new.guide_id = auth.uid() then 'claimed' else 'assigned' end,
+      new.guide_id,
+      case when new.schedule_override is not null
+        then jsonb_build_object('schedule_override', new.schedule_override) end
+    );
+    return new;
+  end if;
+
+  -- the job is being deleted or canceled: that event already tells the story
+  if not exists (select 1 from public.jobs where id = old.job_id and status <> 'canceled') then
+    return old;
+  end if;
+  insert into public.job_events (job_id, actor, action, old_claimed_by)
+  values (old.job_id, auth.uid(), 'unclaimed', old.guide_id);
+  return old;
+end;
+$$;
+
+-- 4) Slot filling with the conflict check
+drop function if exists public.fill_job_slot(uuid, uuid);
+create or replace function public.fill_job_slot(p_job_id uuid, p_guide_id uuid, p_override boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_filled int;
+  v_missing text[];
+  v_conflicts jsonb;
+begin
+  select * into v_job from public.jobs where id = p_job_id;
+  if v_job.status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if public.is_on_job(p_job_id, p_guide_id) then
+    return public.job_result(false, 'already_on_job', p_job_id);
+  end if;
+
+  select count(*) into v_filled from public.claims where job_id = p_job_id;
+  if v_filled >= v_job.slots then
+    return public.job_result(false, 'already_claimed', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(p_guide_id, p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  v_conflicts := public.guide_schedule_conflicts(p_guide_id, p_job_id);
+  if jsonb_array_length(v_conflicts) > 0 and not p_override then
+    return public.job_result(false, 'schedule_conflict', p_job_id, jsonb_build_object('conflicts', v_conflicts));
+  end if;
+
+  insert into public.claims (job_id, guide_id, schedule_override)
+  values (
+    p_job_id, p_guide_id,
+    case when jsonb_array_length(v_conflicts) > 0 then v_conflicts end
+  );
+  perform public.sync_job_crew(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.fill_job_slot(uuid, uuid, boolean) from public;
+
+-- CLAIM: guides never override
+create or replace function public.claim_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  return public.fill_job_slot(p_job_id, auth.uid());
+end;
+$$;
+
+-- ASSIGN: p_override lets an admin book a guide onto overlapping jobs
+drop function if exists public.assign_job_v2(uuid, uuid);
+create or replace function public.assign_job_v2(p_job_id uuid, p_guide_id uuid, p_override boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  return public.fill_job_slot(p_job_id, p_guide_id, coalesce(p_override, false));
+end;
+$$;
+
+revoke all on function public.assign_job_v2(uuid, uuid, boolean) from public;
+grant execute on function public.assign_job_v2(uuid, uuid, boolean) to authenticated;
@@ -0,0 +1,558 @@
+-- 0008 standby queue: guides line up for a full job and freed slots go to them first.
+--
+-- When a slot frees up, the first guide in line is offered it for
+-- app_settings.standby_offer_window. While the offer stands the slot is held
+-- (the job stays 'assigned' and nobody else can take it). Claiming uses it;
+-- declining, or letting it run out, passes it to the next guide, and once the
+-- queue is empty the slot opens to everyone.
+--
+-- Offers run out lazily: expire_standby_offers() sweeps every job (the app
+-- calls it when loading jobs; schedule it with pg_cron for tighter timing).
+
+alter table public.app_settings
+  add column if not exists standby_offer_window interval not null default '2 hours';
+
+-- 1) The queue. position is 1-based and renumbered on every change.
+create table if not exists public.job_standby (
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  position int not null,
+  offer_expires_at timestamptz, -- set while a freed slot is held for this guide
+  created_at timestamptz not null default now(),
+  primary key (job_id, guide_id)
+);
+
+create index if not exists idx_job_standby_guide_id on public.job_standby(guide_id);
+create index if not exists idx_job_standby_offer on public.job_standby(offer_expires_at)
+  where offer_expires_at is not null;
+
+-- RLS: a guide sees their own places; admins see every queue. Only the RPCs write.
+alter table public.job_standby enable row level security;
+
+drop policy if exists "read own standby or admin" on public.job_standby;
+create policy "read own standby or admin" on public.job_standby
+  for select using (guide_id = auth.uid() or is_admin());
+
+-- Guides can see full jobs so they can queue for them (contacts stay crew-only)
+drop policy if exists "read open or own assignments" on public.jobs;
+create policy "read open or own assignments" on public.jobs
+  for select using (status in ('open', 'assigned') or is_on_job(id) or is_admin());
+
+-- ...and see who is already on them
+create or replace function public.job_guides(p_job_ids uuid[])
+returns table (job_id uuid, guide_id uuid, full_name text, claimed_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.job_id, c.guide_id, p.full_name, c.created_at
+    from public.claims c
+    join public.jobs j on j.id = c.job_id
+    left join public.profiles p on p.id = c.guide_id
+   where c.job_id = any(p_job_ids)
+     and (j.status in ('open', 'assigned') or public.is_admin() or public.is_on_job(c.job_id))
+   order by c.job_id, c.created_at, c.id;
+$$;
+
+do $$ begin
+  begin
+    alter publication supabase_realtime add table public.job_standby;
+  exception when others then null;
+  end;
+end $$;
+
+-- 2) Events for offers
+alter table public.job_events drop constraint if exists job_events_action_check;
+alter table public.job_events add constraint job_events_action_check check (action in (
+  'created','claimed','assigned','reassigned','unclaimed',
+  'completed','canceled','status_changed','edited',
+  'offered','offer_expired'
+));
+
+-- 3) Slots in use: the crew plus live offers (except p_except's own offer)
+create or replace function public.job_taken_slots(p_job_id uuid, p_except uuid default null)
+returns int
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (select count(*) from public.claims where job_id = p_job_id)::int
+       + (select count(*) from public.job_standby
+           where job_id = p_job_id
+             and offer_expires_at > now()
+             and guide_id is distinct from p_except)::int;
+$$;
+
+revoke all on function public.job_taken_slots(uuid, uuid) from public;
+
+create or replace function public.sync_job_crew(p_job_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lead uuid;
+  v_lead_at timestamptz;
+begin
+  select guide_id, created_at into v_lead, v_lead_at
+    from public.claims
+   where job_id = p_job_id
+   order by created_at, id
+   limit 1;
+
+  update public.jobs
+     set claimed_by = v_lead,
+         claimed_at = v_lead_at,
+         status = public.crew_status(status, public.job_taken_slots(p_job_id), slots)
+   where id = p_job_id;
+end;
+$$;
+
+create or replace function public.jobs_check_slots()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_filled int;
+begin
+  select count(*) into v_filled from public.claims where job_id = new.id;
+  if new.slots < v_filled then
+    raise exception 'job has % guides; remove some before reducing slots to %', v_filled, new.slots;
+  end if;
+  new.status := public.crew_status(new.status, public.job_taken_slots(new.id), new.slots);
+  return new;
+end;
+$$;
+
+-- open/assigned flips caused by offers aren't logged as status changes either
+create or replace function public.log_job_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_action text;
+  v_details jsonb;
+  v_taken int;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, new_status, new_claimed_by)
+    values (new.id, auth.uid(), 'created', new.status, new.claimed_by);
+    return new;
+  end if;
+
+  v_taken := public.job_taken_slots(new.id);
+
+  select jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+    into v_details
+    from jsonb_each(to_jsonb(new)) n
+    join jsonb_each(to_jsonb(old)) o using (key)
+   where n.value is distinct from o.value
+     and n.key not in ('claimed_by', 'claimed_at')
+     and not (
+       n.key = 'status'
+       and old.status in ('open', 'assigned')
+       and new.status = public.crew_status(old.status, v_taken, new.slots)
+     );
+  if v_details is null then
+    return new;
+  end if;
+
+  v_action := case
+    when new.status = 'canceled' and old.status <> 'canceled' then 'canceled'
+    when new.status = 'complete' and old.status <> 'complete' then 'completed'
+    when v_details ? 'status' then 'status_changed'
+    else 'edited'
+  end;
+
+  insert into public.job_events (
+    job_id, actor, action, old_status, new_status, old_claimed_by, new_claimed_by, details
+  ) values (
+    new.id, auth.uid(), v_action, old.status, new.status, old.claimed_by, new.claimed_by, v_details
+  );
+  return new;
+end;
+$$;
+
+-- A finished or canceled job has nothing left to wait for
+create or replace function public.jobs_clear_standby()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.job_standby where job_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_clear_standby on public.jobs;
+create trigger jobs_clear_standby
+  after update of status on public.jobs
+  for each row when (new.status in ('complete', 'canceled'))
+  execute function public.jobs_clear_standby();
+
+-- 4) Queue upkeep (caller holds the job row lock)
+create or replace function public.renumber_standby(p_job_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.job_standby s
+     set position = r.rn
+    from (
+      select guide_id, row_number() over (order by position, created_at) as rn
+        from public.job_standby
+       where job_id = p_job_id
+    ) r
+   where s.job_id = p_job_id
+     and s.guide_id = r.guide_id
+     and s.position <> r.rn;
+$$;
+
+revoke all on function public.renumber_standby(uuid) from public;
+
+-- Drop expired offers, offer free slots down the queue, then re-derive the job
+create or replace function public.advance_standby(p_job_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_window interval;
+  v_next uuid;
+  v_expires timestamptz;
+begin
+  select * into v_job from public.jobs where id = p_job_id;
+  if not found then
+    return;
+  end if;
+
+  with gone as (
+    delete from public.job_standby
+     where job_id = p_job_id and offer_expires_at <= now()
+    returning guide_id
+  )
+  insert into public.job_events (job_id, actor, action, old_claimed_by)
+  select p_job_id, auth.uid(), 'offer_expired', guide_id from gone;
+
+  if v_job.status in ('open', 'assigned') then
+    select coalesce(standby_offer_window, interval '2 hours') into v_window
+      from public.app_settings limit 1;
+    v_expires := now() + coalesce(v_window, interval '2 hours');
+
+    while public.job_taken_slots(p_job_id) < v_job.slots loop
+      update public.job_standby
+         set offer_expires_at = v_expires
+       where job_id = p_job_id
+         and guide_id = (
+           select guide_id from public.job_standby
+            where job_id = p_job_id and offer_expires_at is null
+            order by position
+            limit 1
+         )
+      returning guide_id into v_next;
+      exit when not found;
+
+      insert into public.job_events (job_id, actor, action, new_claimed_by, details)
+      values (p_job_id, auth.uid(), 'offered', v_next, jsonb_build_object('expires_at', v_expires));
+    end loop;
+  end if;
+
+  perform public.renumber_standby(p_job_id);
+  perform public.sync_job_crew(p_job_id);
+end;
+$$;
+
+revoke all on function public.advance_standby(uuid) from public;
+
+-- Sweep every job with an expired offer. Safe for anyone to call.
+create or replace function public.expire_standby_offers()
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job_id uuid;
+  v_count int := 0;
+begin
+  for v_job_id in
+    select distinct job_id from public.job_standby where offer_expires_at <= now()
+  loop
+    perform 1 from public.jobs where id = v_job_id for update;
+    perform public.advance_standby(v_job_id);
+    v_count := v_count + 1;
+  end loop;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.expire_standby_offers() from public;
+grant execute on function public.expire_standby_offers() to authenticated;
+
+-- 5) Slot filling respects held slots; taking a slot ends the guide's wait
+create or replace function public.fill_job_slot(p_job_id uuid, p_guide_id uuid, p_override boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_missing text[];
+  v_conflicts jsonb;
+begin
+  select * into v_job from public.jobs where id = p_job_id;
+  if v_job.status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if public.is_on_job(p_job_id, p_guide_id) then
+    return public.job_result(false, 'already_on_job', p_job_id);
+  end if;
+
+  if public.job_taken_slots(p_job_id, p_guide_id) >= v_job.slots then
+    return public.job_result(false, 'already_claimed', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(p_guide_id, p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  v_conflicts := public.guide_schedule_conflicts(p_guide_id, p_job_id);
+  if jsonb_array_length(v_conflicts) > 0 and not p_override then
+    return public.job_result(false, 'schedule_conflict', p_job_id, jsonb_build_object('conflicts', v_conflicts));
+  end if;
+
+  insert into public.claims (job_id, guide_id, schedule_override)
+  values (
+    p_job_id, p_guide_id,
+    case when jsonb_array_length(v_conflicts) > 0 then v_conflicts end
+  );
+  delete from public.job_standby where job_id = p_job_id and guide_id = p_guide_id;
+  perform public.renumber_standby(p_job_id);
+  perform public.sync_job_crew(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+-- CLAIM / ASSIGN: settle expired offers first so the check sees who really holds a slot
+create or replace function public.claim_job_v2(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  perform public.advance_standby(p_job_id);
+  return public.fill_job_slot(p_job_id, auth.uid());
+end;
+$$;
+
+create or replace function public.assign_job_v2(p_job_id uuid, p_guide_id uuid, p_override boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  perform public.advance_standby(p_job_id);
+  return public.fill_job_slot(p_job_id, p_guide_id, coalesce(p_override, false));
+end;
+$$;
+
+-- UNCLAIM: the freed slot goes down the standby queue before it opens to everyone
+create or replace function public.unclaim_job_v2(p_job_id uuid, p_guide_id uuid default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status job_status;
+  v_is_admin boolean := public.is_admin();
+begin
+  select status into v_status from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if v_status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+
+  if p_guide_id is null and v_is_admin and not public.is_on_job(p_job_id) then
+    delete from public.claims where job_id = p_job_id;
+  else
+    if not (v_is_admin or coalesce(p_guide_id, auth.uid()) = auth.uid()) then
+      return public.job_result(false, 'forbidden', p_job_id);
+    end if;
+    delete from public.claims
+     where job_id = p_job_id and guide_id = coalesce(p_guide_id, auth.uid());
+  end if;
+  if not found then
+    return public.job_result(false, 'not_claimed', p_job_id);
+  end if;
+
+  perform public.advance_standby(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+-- 6) Standby RPCs (same result shape as the job RPCs, plus "position")
+
+-- JOIN: only full jobs have a queue; open jobs are claimed directly
+create or replace function public.join_standby(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status job_status;
+  v_missing text[];
+  v_position int;
+begin
+  select status into v_status from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if v_status = 'open' then
+    return public.job_result(false, 'not_full', p_job_id);
+  end if;
+  if v_status <> 'assigned' then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if public.is_on_job(p_job_id) then
+    return public.job_result(false, 'already_on_job', p_job_id);
+  end if;
+  if exists (select 1 from public.job_standby where job_id = p_job_id and guide_id = auth.uid()) then
+    return public.job_result(false, 'already_on_standby', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(auth.uid(), p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  insert into public.job_standby (job_id, guide_id, position)
+  select p_job_id, auth.uid(), coalesce(max(position), 0) + 1
+    from public.job_standby where job_id = p_job_id
+  returning position into v_position;
+
+  return public.job_result(true, null, p_job_id, jsonb_build_object('position', v_position));
+end;
+$$;
+
+-- LEAVE: a guide leaves (or declines an offer); an admin removes p_guide_id
+create or replace function public.leave_standby(p_job_id uuid, p_guide_id uuid default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if not (public.is_admin() or coalesce(p_guide_id, auth.uid()) = auth.uid()) then
+    return public.job_result(false, 'forbidden', p_job_id);
+  end if;
+
+  delete from public.job_standby
+   where job_id = p_job_id and guide_id = coalesce(p_guide_id, auth.uid());
+  if not found then
+    return public.job_result(false, 'not_on_standby', p_job_id);
+  end if;
+
+  perform public.advance_standby(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+-- REORDER (admin): p_guide_ids in their new order; anyone left out keeps their
+-- relative order after them. A live offer stays with whoever holds it.
+create or replace function public.reorder_standby(p_job_id uuid, p_guide_ids uuid[])
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+
+  update public.job_standby s
+     set position = r.rn
+    from (
+      select guide_id,
+             row_number() over (
+               order by array_position(p_guide_ids, guide_id) nulls last, position, created_at
+             ) as rn
+        from public.job_standby
+       where job_id = p_job_id
+    ) r
+   where s.job_id = p_job_id
+     and s.guide_id = r.guide_id;
+
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+-- CLEAR (admin): empties the queue, releasing any held slot
+create or replace function public.clear_standby(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+
+  delete from public.job_standby where job_id = p_job_id;
+  perform public.sync_job_crew(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.join_standby(uuid) from public;
+revoke all on function public.leave_standby(uuid, uuid) from public;
+revoke all on function public.reorder_standby(uuid, uuid[]) from public;
+revoke all on function public.clear_standby(uuid) from public;
+grant execute on function public.join_standby(uuid) to authenticated;
+grant execute on function public.leave_standby(uuid, uuid) to authenticated;
+grant execute on function public.reorder_standby(uuid, uuid[]) to authenticated;
+grant execute on function public.clear_standby(uuid) to authenticated;
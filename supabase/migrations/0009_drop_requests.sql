@@ -0,0 +1,281 @@
+-- 0009 unclaim cutoff: inside app_settings.unclaim_cutoff before call time a guide
+-- can no longer just drop a job. Their unclaim becomes a drop request that an
+-- admin approves (the slot is released, through standby as usual) or denies.
+-- Approved requests are the guide's late drops.
+--
+-- Call times are wall-clock times at the shop, so app_settings.time_zone says
+-- where; the deadline is (date + call_time) there, minus the cutoff.
+
+alter table public.app_settings
+  add column if not exists unclaim_cutoff interval not null default '48 hours',
+  add column if not exists time_zone text not null default 'UTC';
+
+do $$ begin
+  if not exists (select 1 from pg_constraint where conname = 'app_settings_unclaim_cutoff_check') then
+    alter table public.app_settings
+      add constraint app_settings_unclaim_cutoff_check check (unclaim_cutoff >= interval '0');
+  end if;
+  -- an unknown zone name fails here instead of in every unclaim
+  if not exists (select 1 from pg_constraint where conname = 'app_settings_time_zone_check') then
+    alter table public.app_settings
+      add constraint app_settings_time_zone_check
+      check ((timestamp '2000-01-01' at time zone time_zone) is not null);
+  end if;
+end $$;
+
+-- 1) Deadline for a free unclaim. Also a computed column: select=...,unclaim_deadline
+create or replace function public.unclaim_deadline(j public.jobs)
+returns timestamptz
+language sql
+stable
+set search_path = public
+as $$
+  select ((j.date + j.call_time)
+           at time zone coalesce((select time_zone from public.app_settings limit 1), 'UTC'))
+         - coalesce((select unclaim_cutoff from public.app_settings limit 1), interval '48 hours');
+$$;
+
+-- 2) Drop requests
+create table if not exists public.drop_requests (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  note text,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'denied', 'withdrawn')),
+  requested_at timestamptz not null default now(),
+  decided_at timestamptz,
+  decided_by uuid references public.profiles(id)
+);
+
+create unique index if not exists drop_requests_one_pending
+  on public.drop_requests(job_id, guide_id) where status = 'pending';
+create index if not exists idx_drop_requests_guide_id on public.drop_requests(guide_id, status);
+
+-- RLS: guides read their own requests, admins read all. Only the RPCs write.
+alter table public.drop_requests enable row level security;
+
+drop policy if exists "read own drop requests or admin" on public.drop_requests;
+create policy "read own drop requests or admin" on public.drop_requests
+  for select using (guide_id = auth.uid() or is_admin());
+
+do $$ begin
+  begin
+    alter publication supabase_realtime add table public.drop_requests;
+  exception when others then null;
+  end;
+end $$;
+
+-- 3) Events: requested / approved / denied go into the job's history
+alter table public.job_events drop constraint if exists job_events_action_check;
+alter table public.job_events add constraint job_events_action_check check (action in (
+  'created','claimed','assigned','reassigned','unclaimed',
+  'completed','canceled','status_changed','edited',
+  'offered','offer_expired',
+  'drop_requested','drop_approved','drop_denied'
+));
+
+create or replace function public.log_drop_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, old_claimed_by, details)
+    values (
+      new.job_id, auth.uid(), 'drop_requested', new.guide_id,
+      case when new.note is not null then jsonb_build_object('note', new.note) end
+    );
+  elsif new.status in ('approved', 'denied') and old.status = 'pending' then
+    insert into public.job_events (job_id, actor, action, old_claimed_by)
+    values (
+      new.job_id, auth.uid(),
+      case new.status when 'approved' then 'drop_approved' else 'drop_denied' end,
+      new.guide_id
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists drop_requests_log_event on public.drop_requests;
+create trigger drop_requests_log_event
+  after insert or update of status on public.drop_requests
+  for each row execute function public.log_drop_event();
+
+-- A guide who leaves the job some other way (admin removal, cancel) has nothing left to drop
+create or replace function public.claims_close_drop_requests()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.drop_requests
+     set status = 'withdrawn', decided_at = now()
+   where job_id = old.job_id and guide_id = old.guide_id and status = 'pending';
+  return old;
+end;
+$$;
+
+drop trigger if exists claims_close_drop_requests on public.claims;
+create trigger claims_close_drop_requests
+  after delete on public.claims
+  for each row execute function public.claims_close_drop_requests();
+
+-- 4) RPCs (same result shape as the job RPCs, plus "drop_request")
+
+-- REQUEST: a guide asks to be let off a job inside the cutoff. Idempotent.
+create or replace function public.request_drop(p_job_id uuid, p_note text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_request public.drop_requests%rowtype;
+begin
+  select * into v_job from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if v_job.status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if not public.is_on_job(p_job_id) then
+    return public.job_result(false, 'not_claimed', p_job_id);
+  end if;
+  if now() < public.unclaim_deadline(v_job) then
+    return public.job_result(false, 'before_cutoff', p_job_id);
+  end if;
+
+  update public.drop_requests
+     set note = coalesce(note, nullif(trim(p_note), ''))
+   where job_id = p_job_id and guide_id = auth.uid() and status = 'pending'
+  returning * into v_request;
+  if not found then
+    insert into public.drop_requests (job_id, guide_id, note)
+    values (p_job_id, auth.uid(), nullif(trim(p_note), ''))
+    returning * into v_request;
+  end if;
+
+  return public.job_result(true, null, p_job_id, jsonb_build_object('drop_request', to_jsonb(v_request)));
+end;
+$$;
+
+-- DECIDE (admin): approve releases the slot; deny keeps the guide on the job
+create or replace function public.decide_drop(p_request_id bigint, p_approve boolean)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.drop_requests%rowtype;
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+  select * into v_request from public.drop_requests where id = p_request_id;
+  if not found then
+    return public.job_result(false, 'not_found', null);
+  end if;
+  -- re-read under the job lock: another admin may have just decided it
+  perform 1 from public.jobs where id = v_request.job_id for update;
+  select * into v_request from public.drop_requests where id = p_request_id;
+  if v_request.status <> 'pending' then
+    return public.job_result(false, 'not_pending', v_request.job_id,
+      jsonb_build_object('drop_request', to_jsonb(v_request)));
+  end if;
+
+  update public.drop_requests
+     set status = case when p_approve then 'approved' else 'denied' end,
+         decided_at = now(),
+         decided_by = auth.uid()
+   where id = p_request_id
+  returning * into v_request;
+
+  if p_approve then
+    delete from public.claims where job_id = v_request.job_id and guide_id = v_request.guide_id;
+    perform public.advance_standby(v_request.job_id);
+  end if;
+
+  return public.job_result(true, null, v_request.job_id,
+    jsonb_build_object('drop_request', to_jsonb(v_request)));
+end;
+$$;
+
+-- WITHDRAW: the guide changes their mind
+create or replace function public.withdraw_drop(p_request_id bigint)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.drop_requests%rowtype;
+begin
+  update public.drop_requests
+     set status = 'withdrawn', decided_at = now()
+   where id = p_request_id and guide_id = auth.uid() and status = 'pending'
+  returning * into v_request;
+  if not found then
+    return public.job_result(false, 'not_pending', null);
+  end if;
+  return public.job_result(true, null, v_request.job_id,
+    jsonb_build_object('drop_request', to_jsonb(v_request)));
+end;
+$$;
+
+-- UNCLAIM: a guide inside the cutoff files a drop request instead (admins are exempt)
+create or replace function public.unclaim_job_v2(p_job_id uuid, p_guide_id uuid default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_is_admin boolean := public.is_admin();
+  v_request jsonb;
+begin
+  select * into v_job from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if v_job.status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+
+  if p_guide_id is null and v_is_admin and not public.is_on_job(p_job_id) then
+    delete from public.claims where job_id = p_job_id;
+  else
+    if not (v_is_admin or coalesce(p_guide_id, auth.uid()) = auth.uid()) then
+      return public.job_result(false, 'forbidden', p_job_id);
+    end if;
+    if not v_is_admin and public.is_on_job(p_job_id) and now() >= public.unclaim_deadline(v_job) then
+      v_request := public.request_drop(p_job_id);
+      return public.job_result(false, 'drop_requested', p_job_id,
+        jsonb_build_object('drop_request', v_request->'drop_request'));
+    end if;
+    delete from public.claims
+     where job_id = p_job_id and guide_id = coalesce(p_guide_id, auth.uid());
+  end if;
+  if not found then
+    return public.job_result(false, 'not_claimed', p_job_id);
+  end if;
+
+  perform public.advance_standby(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.request_drop(uuid, text) from public;
+revoke all on function public.decide_drop(bigint, boolean) from public;
+revoke all on function public.withdraw_drop(bigint) from public;
+grant execute on function public.request_drop(uuid, text) to authenticated;
+grant execute on function public.decide_drop(bigint, boolean) to authenticated;
+grant execute on function public.withdraw_drop(bigint) to authenticated;
@@ -0,0 +1,221 @@
+-- 0010 job templates and recurring series.
+--
+-- A template holds the values an admin would otherwise type into Create Job
+-- (including the customer contact). A series applies a template on chosen
+-- weekdays between two dates and creates one jobs row (+ job_contacts) per day;
+-- jobs.series_id ties them together so later edits/cancels can cover
+-- this job, this and future jobs, or the whole series.
+
+-- 1) Templates
+create table if not exists public.job_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  title text not null,
+  call_time time not null,
+  dock_time time,
+  location text,
+  boat text,
+  requirements text[] default '{}',
+  pay numeric(10,2),
+  slots int not null default 1 check (slots >= 1),
+  notes text,
+  customer_name text,
+  customer_phone text,
+  customer_email text,
+  created_by uuid references public.profiles(id),
+  created_at timestamptz default now()
+);
+
+-- 2) Series: the rule a batch of jobs came from. weekdays are ISO (1 = Mon … 7 = Sun).
+create table if not exists public.job_series (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid references public.job_templates(id) on delete set null,
+  weekdays smallint[] not null check (weekdays <@ array[1,2,3,4,5,6,7]::smallint[] and cardinality(weekdays) > 0),
+  starts_on date not null,
+  ends_on date not null,
+  created_by uuid references public.profiles(id),
+  created_at timestamptz default now(),
+  check (ends_on >= starts_on)
+);
+
+alter table public.jobs add column if not exists series_id uuid references public.job_series(id) on delete set null;
+create index if not exists idx_jobs_series_id on public.jobs(series_id, date);
+
+-- RLS: admin only
+alter table public.job_templates enable row level security;
+alter table public.job_series enable row level security;
+
+drop policy if exists "templates admin only" on public.job_templates;
+create policy "templates admin only" on public.job_templates
+  for all using (is_admin()) with check (is_admin());
+
+drop policy if exists "series admin only" on public.job_series;
+create policy "series admin only" on public.job_series
+  for all using (is_admin()) with check (is_admin());
+
+-- 3) Dates a rule produces (at most a year of them)
+create or replace function public.series_dates(p_weekdays smallint[], p_starts_on date, p_ends_on date)
+returns setof date
+language sql
+immutable
+as $$
+  select d::date
+    from generate_series(p_starts_on, least(p_ends_on, p_starts_on + 366), interval '1 day') d
+   where extract(isodow from d)::smallint = any(p_weekdays)
+   order by 1;
+$$;
+
+-- PREVIEW (admin): what generate_series_jobs would do. A day that already has a job
+-- with the same title and call time is skipped.
+create or replace function public.preview_series_jobs(
+  p_template_id uuid,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_ends_on date
+)
+returns table (date date, title text, call_time time, existing_job_id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select d, t.title, t.call_time,
+         (select j.id from public.jobs j
+           where j.date = d and j.title = t.title and j.call_time = t.call_time
+             and j.status <> 'canceled'
+           limit 1)
+    from public.job_templates t
+   cross join public.series_dates(p_weekdays, p_starts_on, p_ends_on) d
+   where t.id = p_template_id
+     and public.is_admin()
+   order by d;
+$$;
+
+-- GENERATE (admin): one job + contact per previewed day that isn't skipped.
+-- Returns { ok, reason, series_id, created, skipped }.
+create or replace function public.generate_series_jobs(
+  p_template_id uuid,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_ends_on date
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_t public.job_templates%rowtype;
+  v_series_id uuid;
+  v_job_id uuid;
+  v_day record;
+  v_created int := 0;
+  v_skipped int := 0;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  select * into v_t from public.job_templates where id = p_template_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if p_ends_on < p_starts_on or cardinality(p_weekdays) = 0 then
+    return jsonb_build_object('ok', false, 'reason', 'invalid_rule');
+  end if;
+
+  insert into public.job_series (template_id, weekdays, starts_on, ends_on, created_by)
+  values (p_template_id, p_weekdays, p_starts_on, p_ends_on, auth.uid())
+  returning id into v_series_id;
+
+  for v_day in
+    select * from public.preview_series_jobs(p_template_id, p_weekdays, p_starts_on, p_ends_on)
+  loop
+    if v_day.existing_job_id is not null then
+      v_skipped := v_skipped + 1;
+      continue;
+    end if;
+
+    insert into public.jobs (
+      title, date, call_time, dock_time, location, boat, requirements, pay, slots, notes,
+      status, created_by, series_id
+    ) values (
+      v_t.title, v_day.date, v_t.call_time, v_t.dock_time, v_t.location, v_t.boat,
+      v_t.requirements, v_t.pay, v_t.slots, v_t.notes,
+      'open', auth.uid(), v_series_id
+    )
+    returning id into v_job_id;
+
+    insert into public.job_contacts (job_id, customer_name, customer_phone, customer_email)
+    values (v_job_id, v_t.customer_name, v_t.customer_phone, v_t.customer_email);
+
+    v_created := v_created + 1;
+  end loop;
+
+  return jsonb_build_object(
+    'ok', true, 'reason', null,
+    'series_id', v_series_id, 'created', v_created, 'skipped', v_skipped
+  );
+end;
+$$;
+
+-- Jobs of p_job_id's series in scope: 'this' | 'future' (same day or later) | 'all'.
+-- Finished and canceled jobs are left alone.
+create or replace function public.series_scope_jobs(p_job_id uuid, p_scope text)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select o.id
+    from public.jobs j
+    join public.jobs o
+      on o.id = j.id
+      or (p_scope in ('future', 'all') and o.series_id = j.series_id)
+   where j.id = p_job_id
+     and (o.id = j.id or o.status in ('open', 'assigned'))
+     and (p_scope <> 'future' or o.date >= j.date)
+   order by o.date;
+$$;
+
+revoke all on function public.series_scope_jobs(uuid, text) from public;
+grant execute on function public.series_scope_jobs(uuid, text) to authenticated;
+
+-- CANCEL (admin) with a series scope. Returns { ok, reason, canceled }.
+create or replace function public.cancel_series_jobs(p_job_id uuid, p_scope text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+  v_canceled int := 0;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if p_scope not in ('this', 'future', 'all') then
+    return jsonb_build_object('ok', false, 'reason', 'invalid_scope');
+  end if;
+  perform 1 from public.jobs where id = p_job_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  for v_id in select * from public.series_scope_jobs(p_job_id, p_scope) loop
+    if (public.cancel_job_v2(v_id)->>'ok')::boolean then
+      v_canceled := v_canceled + 1;
+    end if;
+  end loop;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'canceled', v_canceled);
+end;
+$$;
+
+revoke all on function public.preview_series_jobs(uuid, smallint[], date, date) from public;
+revoke all on function public.generate_series_jobs(uuid, smallint[], date, date) from public;
+revoke all on function public.cancel_series_jobs(uuid, text) from public;
+grant execute on function public.preview_series_jobs(uuid, smallint[], date, date) to authenticated;
+grant execute on function public.generate_series_jobs(uuid, smallint[], date, date) to authenticated;
+grant execute on function public.cancel_series_jobs(uuid, text) to authenticated;
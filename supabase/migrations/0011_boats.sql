@@ -0,0 +1,139 @@
+-- 0011 boats registry. jobs.boat_id links a job to a boat; the old free-text
+-- jobs.boat values are turned into boats once and linked.
+-- boat_conflicts() lists other jobs booked on the same boat in an overlapping
+-- call-to-dock window (the app warns, it doesn't block).
+
+create table if not exists public.boats (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  capacity int check (capacity > 0),          -- passengers
+  home_port text,
+  guides_needed int not null default 1 check (guides_needed >= 1),
+  is_active boolean not null default true,
+  created_at timestamptz default now()
+);
+
+alter table public.jobs add column if not exists boat_id uuid references public.boats(id) on delete set null;
+alter table public.job_templates add column if not exists boat_id uuid references public.boats(id) on delete set null;
+create index if not exists idx_jobs_boat_id on public.jobs(boat_id, date);
+
+-- 1) Backfill from the free-text column (jobs.boat is kept, but nothing writes it now)
+insert into public.boats (name)
+select distinct trim(boat) from public.jobs
+ where nullif(trim(boat), '') is not null
+on conflict (name) do nothing;
+
+update public.jobs j
+   set boat_id = b.id
+  from public.boats b
+ where j.boat_id is null and b.name = trim(j.boat);
+
+update public.job_templates t
+   set boat_id = b.id
+  from public.boats b
+ where t.boat_id is null and b.name = trim(t.boat);
+
+-- 2) RLS: everyone signed in can read boats (job cards show them); admins manage them
+alter table public.boats enable row level security;
+
+drop policy if exists "read boats" on public.boats;
+create policy "read boats" on public.boats
+  for select using (auth.uid() is not null);
+
+drop policy if exists "write boats admin only" on public.boats;
+create policy "write boats admin only" on public.boats
+  for all using (is_admin()) with check (is_admin());
+
+-- 3) Open/assigned jobs on p_boat_id overlapping the given window (p_job_id: the job being edited)
+create or replace function public.boat_conflicts(
+  p_boat_id uuid,
+  p_date date,
+  p_call time,
+  p_dock time,
+  p_job_id uuid default null
+)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'id', o.id, 'title', o.title, 'date', o.date,
+           'call_time', o.call_time, 'dock_time', o.dock_time
+         ) order by o.date, o.call_time), '[]'::jsonb)
+    from public.jobs o
+   where o.boat_id = p_boat_id
+     and o.id is distinct from p_job_id
+     and o.status in ('open', 'assigned')
+     and public.job_window(o.date, o.call_time, o.dock_time)
+      && public.job_window(p_date, p_call, p_dock);
+$$;
+
+revoke all on function public.boat_conflicts(uuid, date, time, time, uuid) from public;
+grant execute on function public.boat_conflicts(uuid, date, time, time, uuid) to authenticated;
+
+-- 4) Series generation carries the template's boat
+create or replace function public.generate_series_jobs(
+  p_template_id uuid,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_ends_on date
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_t public.job_templates%rowtype;
+  v_series_id uuid;
+  v_job_id uuid;
+  v_day record;
+  v_created int := 0;
+  v_skipped int := 0;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  select * into v_t from public.job_templates where id = p_template_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if p_ends_on < p_starts_on or cardinality(p_weekdays) = 0 then
+    return jsonb_build_object('ok', false, 'reason', 'invalid_rule');
+  end if;
+
+  insert into public.job_series (template_id, weekdays, starts_on, ends_on, created_by)
+  values (p_template_id, p_weekdays, p_starts_on, p_ends_on, auth.uid())
+  returning id into v_series_id;
+
+  for v_day in
+    select * from public.preview_series_jobs(p_template_id, p_weekdays, p_starts_on, p_ends_on)
+  loop
+    if v_day.existing_job_id is not null then
+      v_skipped := v_skipped + 1;
+      continue;
+    end if;
+
+    insert into public.jobs (
+      title, date, call_time, dock_time, location, boat_id, requirements, pay, slots, notes,
+      status, created_by, series_id
+    ) values (
+      v_t.title, v_day.date, v_t.call_time, v_t.dock_time, v_t.location, v_t.boat_id,
+      v_t.requirements, v_t.pay, v_t.slots, v_t.notes,
+      'open', auth.uid(), v_series_id
+    )
+    returning id into v_job_id;
+
+    insert into public.job_contacts (job_id, customer_name, customer_phone, customer_email)
+    values (v_job_id, v_t.customer_name, v_t.customer_phone, v_t.customer_email);
+
+    v_created := v_created + 1;
+  end loop;
+
+  return jsonb_build_object(
+    'ok', true, 'reason', null,
+    'series_id', v_series_id, 'created', v_created, 'skipped', v_skipped
+  );
+end;
+$$;
@@ -0,0 +1,186 @@
+-- 0012 payroll ledger. Completing a job writes one 'job' entry per guide on it,
+-- at jobs.pay (pay is per guide). Admins add adjustments: tips, cancellation
+-- fees, mileage, other (negative amounts are deductions).
+--
+-- An entry is pending until an admin marks a pay period paid: that stamps the
+-- period on every pending entry dated on or before its end (so late entries roll
+-- into the next payout). Entries in a paid period are locked; later edits to
+-- jobs.pay only reach pending entries.
+
+-- 1) Paid periods (a period only exists once it's paid)
+create table if not exists public.pay_periods (
+  id uuid primary key default gen_random_uuid(),
+  starts_on date not null,
+  ends_on date not null,
+  paid_at timestamptz not null default now(),
+  paid_by uuid references public.profiles(id),
+  check (ends_on >= starts_on)
+);
+
+do $$ begin
+  if not exists (select 1 from pg_constraint where conname = 'pay_periods_no_overlap') then
+    alter table public.pay_periods
+      add constraint pay_periods_no_overlap
+      exclude using gist (daterange(starts_on, ends_on, '[]') with &&);
+  end if;
+end $$;
+
+-- 2) Ledger
+create table if not exists public.pay_entries (
+  id bigint generated always as identity primary key,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  job_id uuid references public.jobs(id) on delete set null,
+  kind text not null check (kind in ('job', 'tip', 'cancellation_fee', 'mileage', 'other')),
+  amount numeric(10,2) not null,
+  work_date date not null,
+  note text,
+  period_id uuid references public.pay_periods(id),
+  created_by uuid references public.profiles(id),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists pay_entries_one_job_entry
+  on public.pay_entries(job_id, guide_id) where kind = 'job';
+create index if not exists idx_pay_entries_guide_id on public.pay_entries(guide_id, work_date);
+create index if not exists idx_pay_entries_period_id on public.pay_entries(period_id);
+
+-- RLS: guides read their own lines, admins everything. Admins write adjustments;
+-- 'job' lines and period stamps come from the triggers / mark_period_paid.
+alter table public.pay_periods enable row level security;
+alter table public.pay_entries enable row level security;
+
+drop policy if exists "read pay periods" on public.pay_periods;
+create policy "read pay periods" on public.pay_periods
+  for select using (auth.uid() is not null);
+
+drop policy if exists "read own pay entries or admin" on public.pay_entries;
+create policy "read own pay entries or admin" on public.pay_entries
+  for select using (guide_id = auth.uid() or is_admin());
+
+drop policy if exists "insert adjustments admin only" on public.pay_entries;
+create policy "insert adjustments admin only" on public.pay_entries
+  for insert with check (is_admin() and kind <> 'job' and period_id is null);
+
+drop policy if exists "update pay entries admin only" on public.pay_entries;
+create policy "update pay entries admin only" on public.pay_entries
+  for update using (is_admin()) with check (is_admin());
+
+drop policy if exists "delete adjustments admin only" on public.pay_entries;
+create policy "delete adjustments admin only" on public.pay_entries
+  for delete using (is_admin() and kind <> 'job');
+
+do $$ begin
+  begin
+    alter publication supabase_realtime add table public.pay_entries;
+  exception when others then null;
+  end;
+end $$;
+
+-- 3) Paid entries are history
+create or replace function public.pay_entries_guard()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if old.period_id is not null then
+    raise exception 'pay entry % is in a paid period', old.id using errcode = 'check_violation';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists pay_entries_guard on public.pay_entries;
+create trigger pay_entries_guard
+  before update or delete on public.pay_entries
+  for each row execute function public.pay_entries_guard();
+
+-- 4) Job lines follow the job: written on complete, kept in step with pay/date
+-- while pending, removed if the job is reopened
+create or replace function public.jobs_sync_pay_entries()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'complete' and old.status <> 'complete' then
+    insert into public.pay_entries (guide_id, job_id, kind, amount, work_date, created_by)
+    select c.guide_id, new.id, 'job', coalesce(new.pay, 0), new.date, auth.uid()
+      from public.claims c
+     where c.job_id = new.id
+    on conflict (job_id, guide_id) where kind = 'job' do nothing;
+  elsif new.status = 'complete' then
+    update public.pay_entries
+       set amount = coalesce(new.pay, 0), work_date = new.date
+     where job_id = new.id and kind = 'job' and period_id is null
+       and (amount, work_date) is distinct from (coalesce(new.pay, 0), new.date);
+  elsif old.status = 'complete' then
+    delete from public.pay_entries
+     where job_id = new.id and kind = 'job' and period_id is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_sync_pay_entries on public.jobs;
+create trigger jobs_sync_pay_entries
+  after update of status, pay, date on public.jobs
+  for each row execute function public.jobs_sync_pay_entries();
+
+-- Backfill jobs completed before the ledger existed
+insert into public.pay_entries (guide_id, job_id, kind, amount, work_date)
+select c.guide_id, j.id, 'job', coalesce(j.pay, 0), j.date
+  from public.jobs j
+  join public.claims c on c.job_id = j.id
+ where j.status = 'complete'
+on conflict (job_id, guide_id) where kind = 'job' do nothing;
+
+-- 5) MARK PAID (admin): close a period and lock its entries.
+-- Returns { ok, reason, period, entries, total }.
+create or replace function public.mark_period_paid(p_starts_on date, p_ends_on date)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_period public.pay_periods%rowtype;
+  v_entries int;
+  v_total numeric;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if p_ends_on < p_starts_on then
+    return jsonb_build_object('ok', false, 'reason', 'invalid_range');
+  end if;
+  lock table public.pay_periods in exclusive mode;
+  if exists (
+    select 1 from public.pay_periods
+     where daterange(starts_on, ends_on, '[]') && daterange(p_starts_on, p_ends_on, '[]')
+  ) then
+    return jsonb_build_object('ok', false, 'reason', 'period_overlaps');
+  end if;
+
+  insert into public.pay_periods (starts_on, ends_on, paid_by)
+  values (p_starts_on, p_ends_on, auth.uid())
+  returning * into v_period;
+
+  with paid as (
+    update public.pay_entries
+       set period_id = v_period.id
+     where period_id is null and work_date <= p_ends_on
+    returning amount
+  )
+  select count(*), coalesce(sum(amount), 0) into v_entries, v_total from paid;
+
+  return jsonb_build_object(
+    'ok', true, 'reason', null,
+    'period', to_jsonb(v_period), 'entries', v_entries, 'total', v_total
+  );
+end;
+$$;
+
+revoke all on function public.mark_period_paid(date, date) from public;
+grant execute on function public.mark_period_paid(date, date) to authenticated;
@@ -0,0 +1,158 @@
+-- 0013 per-guide iCalendar feed. Each guide gets a secret token; phone calendars
+-- subscribe to
+--   <SUPABASE_URL>/rest/v1/rpc/ical_feed?p_token=<token>&apikey=<anon key>
+-- (the anon key is the public one the web app ships with; the token is what
+-- picks and protects the guide). The feed is built on every fetch from the
+-- guide's claims, so unclaimed and canceled jobs drop out and edited times show
+-- up on the next refresh. UIDs are the job ids; SEQUENCE counts the job's edits.
+
+-- 1) text/calendar responses: PostgREST serves a function returning this domain
+-- with that Content-Type
+do $$ begin
+  if not exists (select 1 from pg_type where typname = 'text/calendar') then
+    create domain "text/calendar" as text;
+  end if;
+end $$;
+
+-- 2) Feed tokens, one per guide
+create table if not exists public.calendar_feeds (
+  guide_id uuid primary key references public.profiles(id) on delete cascade,
+  token uuid not null unique default gen_random_uuid(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "read own calendar feed" on public.calendar_feeds;
+create policy "read own calendar feed" on public.calendar_feeds
+  for select using (guide_id = auth.uid());
+
+-- The caller's token, created on first use; p_rotate = true replaces it (old URLs stop working)
+create or replace function public.calendar_feed_token(p_rotate boolean default false)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in' using errcode = '42501';
+  end if;
+  insert into public.calendar_feeds (guide_id)
+  values (auth.uid())
+  on conflict (guide_id) do update
+    set token = case when p_rotate then gen_random_uuid() else calendar_feeds.token end,
+        created_at = case when p_rotate then now() else calendar_feeds.created_at end
+  returning token into v_token;
+  return v_token;
+end;
+$$;
+
+-- 3) iCalendar helpers (RFC 5545): escape a TEXT value, fold a content line at 75 chars
+create or replace function public.ical_text(p_value text)
+returns text
+language sql
+immutable
+as $$
+  select replace(replace(replace(replace(replace(coalesce(p_value, ''),
+    '\', '\\'), ';', '\;'), ',', '\,'), E'\r', ''), E'\n', '\n');
+$$;
+
+create or replace function public.ical_fold(p_line text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(p_line, '(.{74})(?=.)', E'\\1\r\n ', 'g');
+$$;
+
+-- Shop wall-clock time -> UTC "20300101T143000Z"
+create or replace function public.ical_utc(p_local timestamp, p_time_zone text)
+returns text
+language sql
+stable
+as $$
+  select to_char((p_local at time zone p_time_zone) at time zone 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+$$;
+
+-- 4) FEED (anon, by token): the guide's open/assigned/completed jobs from 90 days back
+create or replace function public.ical_feed(p_token uuid)
+returns "text/calendar"
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_guide public.profiles%rowtype;
+  v_tz text := coalesce((select time_zone from public.app_settings limit 1), 'UTC');
+  v_lines text[];
+  v_job record;
+begin
+  select p.* into v_guide
+    from public.calendar_feeds f
+    join public.profiles p on p.id = f.guide_id
+   where f.token = p_token;
+  if not found then
+    raise exception 'unknown calendar feed' using errcode = 'P0002';
+  end if;
+
+  v_lines := array[
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Dive Guide Claim//Jobs//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:' || public.ical_text('Dive jobs' || coalesce(' · ' || v_guide.full_name, '')),
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+
+  for v_job in
+    select j.id, j.title, j.date, j.call_time, j.dock_time, j.location, j.status, b.name as boat,
+           public.job_window(j.date, j.call_time, j.dock_time) as w,
+           (select count(*) from public.job_events e where e.job_id = j.id and e.action = 'edited') as seq,
+           (select max(e.created_at) from public.job_events e where e.job_id = j.id) as modified
+      from public.claims c
+      join public.jobs j on j.id = c.job_id
+      left join public.boats b on b.id = j.boat_id
+     where c.guide_id = v_guide.id
+       and j.status in ('open', 'assigned', 'complete')
+       and j.date >= current_date - 90
+     order by j.date, j.call_time
+  loop
+    v_lines := v_lines || array[
+      'BEGIN:VEVENT',
+      'UID:' || v_job.id || '@dive-guide-claim',
+      'DTSTAMP:' || public.ical_utc(now() at time zone 'UTC', 'UTC'),
+      'DTSTART:' || public.ical_utc(lower(v_job.w), v_tz),
+      'DTEND:' || public.ical_utc(upper(v_job.w), v_tz),
+      'SEQUENCE:' || v_job.seq,
+      'SUMMARY:' || public.ical_text(v_job.title),
+      'DESCRIPTION:' || public.ical_text(concat_ws(E'\n',
+        'Call ' || to_char(v_job.call_time, 'HH24:MI'),
+        'Dock ' || to_char(v_job.dock_time, 'HH24:MI'),
+        'Boat: ' || v_job.boat,
+        'Location: ' || v_job.location)),
+      'STATUS:CONFIRMED'
+    ];
+    if v_job.location is not null then
+      v_lines := v_lines || ('LOCATION:' || public.ical_text(v_job.location));
+    end if;
+    if v_job.modified is not null then
+      v_lines := v_lines || ('LAST-MODIFIED:' || public.ical_utc(v_job.modified at time zone 'UTC', 'UTC'));
+    end if;
+    v_lines := v_lines || 'END:VEVENT'::text;
+  end loop;
+
+  v_lines := v_lines || 'END:VCALENDAR'::text;
+  return (select string_agg(public.ical_fold(l), E'\r\n') from unnest(v_lines) l) || E'\r\n';
+end;
+$$;
+
+revoke all on function public.calendar_feed_token(boolean) from public;
+revoke all on function public.ical_feed(uuid) from public;
+grant execute on function public.calendar_feed_token(boolean) to authenticated;
+grant execute on function public.ical_feed(uuid) to anon, authenticated;
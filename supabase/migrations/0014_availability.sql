@@ -0,0 +1,251 @@
+-- 0014 guide availability. Guides record the weekdays (and optionally hours) they
+-- work, plus one-off blackout dates. A guide who hasn't recorded any weekdays is
+-- treated as available every day; blackouts always count.
+--
+-- Claiming a job you're unavailable for is refused; admins assigning get the
+-- same refusal and may override it, like a schedule conflict (kept on the claim).
+-- rank_guides() orders the assign picker: available, certified, unbooked first.
+
+-- 1) Weekly pattern: one row per working weekday (ISO, 1 = Mon … 7 = Sun); no hours = all day
+create table if not exists public.guide_availability (
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  weekday smallint not null check (weekday between 1 and 7),
+  starts_at time,
+  ends_at time,
+  primary key (guide_id, weekday),
+  check (starts_at is null or ends_at is null or ends_at > starts_at)
+);
+
+-- 2) Blackouts: whole days off, inclusive
+create table if not exists public.guide_blackouts (
+  id bigint generated always as identity primary key,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  starts_on date not null,
+  ends_on date not null,
+  note text,
+  created_at timestamptz not null default now(),
+  check (ends_on >= starts_on)
+);
+
+create index if not exists idx_guide_blackouts_guide_id on public.guide_blackouts(guide_id, starts_on);
+
+-- RLS: a guide manages their own; admins see and manage everyone's
+alter table public.guide_availability enable row level security;
+alter table public.guide_blackouts enable row level security;
+
+drop policy if exists "own availability or admin" on public.guide_availability;
+create policy "own availability or admin" on public.guide_availability
+  for all using (guide_id = auth.uid() or is_admin())
+  with check (guide_id = auth.uid() or is_admin());
+
+drop policy if exists "own blackouts or admin" on public.guide_blackouts;
+create policy "own blackouts or admin" on public.guide_blackouts
+  for all using (guide_id = auth.uid() or is_admin())
+  with check (guide_id = auth.uid() or is_admin());
+
+-- 3) Why the guide can't work p_job_id, or null when they can:
+--   { reason: 'blackout', starts_on, ends_on, note }
+--   { reason: 'weekly', weekday, starts_at, ends_at }   (times null = day not worked)
+create or replace function public.guide_unavailability(p_guide_id uuid, p_job_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_window tsrange;
+  v_blackout public.guide_blackouts%rowtype;
+  v_day public.guide_availability%rowtype;
+  v_weekday smallint;
+begin
+  select * into v_job from public.jobs where id = p_job_id;
+  if not found then
+    return null;
+  end if;
+  v_window := public.job_window(v_job.date, v_job.call_time, v_job.dock_time);
+
+  select * into v_blackout
+    from public.guide_blackouts b
+   where b.guide_id = p_guide_id
+     and daterange(b.starts_on, b.ends_on, '[]')
+      && daterange(lower(v_window)::date, (upper(v_window) - interval '1 microsecond')::date, '[]')
+   order by b.starts_on
+   limit 1;
+  if found then
+    return jsonb_build_object(
+      'reason', 'blackout', 'starts_on', v_blackout.starts_on,
+      'ends_on', v_blackout.ends_on, 'note', v_blackout.note
+    );
+  end if;
+
+  if not exists (select 1 from public.guide_availability where guide_id = p_guide_id) then
+    return null;
+  end if;
+  v_weekday := extract(isodow from v_job.date)::smallint;
+  select * into v_day from public.guide_availability where guide_id = p_guide_id and weekday = v_weekday;
+  if not found then
+    return jsonb_build_object('reason', 'weekly', 'weekday', v_weekday, 'starts_at', null, 'ends_at', null);
+  end if;
+  if (v_day.starts_at is not null and lower(v_window) < v_job.date + v_day.starts_at)
+     or (v_day.ends_at is not null and upper(v_window) > v_job.date + v_day.ends_at) then
+    return jsonb_build_object(
+      'reason', 'weekly', 'weekday', v_weekday, 'starts_at', v_day.starts_at, 'ends_at', v_day.ends_at
+    );
+  end if;
+  return null;
+end;
+$$;
+
+revoke all on function public.guide_unavailability(uuid, uuid) from public;
+grant execute on function public.guide_unavailability(uuid, uuid) to authenticated;
+
+-- The caller's own answer, as a computed column: select=...,my_unavailability
+create or replace function public.my_unavailability(j public.jobs)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select public.guide_unavailability(auth.uid(), j.id);
+$$;
+
+-- 4) Overrides are kept with the slot, next to schedule_override
+alter table public.claims add column if not exists availability_override jsonb;
+
+create or replace function public.log_claim_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, new_claimed_by, details)
+    values (
+      new.job_id, auth.uid(),
+      case when new.guide_id = auth.uid() then 'claimed' else 'assigned' end,
+      new.guide_id,
+      nullif(jsonb_strip_nulls(jsonb_build_object(
+        'schedule_override', new.schedule_override,
+        'availability_override', new.availability_override
+      )), '{}'::jsonb)
+    );
+    return new;
+  end if;
+
+  -- the job is being deleted or canceled: that event already tells the story
+  if not exists (select 1 from public.jobs where id = old.job_id and status <> 'canceled') then
+    return old;
+  end if;
+  insert into public.job_events (job_id, actor, action, old_claimed_by)
+  values (old.job_id, auth.uid(), 'unclaimed', old.guide_id);
+  return old;
+end;
+$$;
+
+-- 5) Slot filling also checks availability. When the guide both overlaps another job
+-- and is unavailable, the result carries both so one override covers them.
+create or replace function public.fill_job_slot(p_job_id uuid, p_guide_id uuid, p_override boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_missing text[];
+  v_conflicts jsonb;
+  v_unavailable jsonb;
+begin
+  select * into v_job from public.jobs where id = p_job_id;
+  if v_job.status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if public.is_on_job(p_job_id, p_guide_id) then
+    return public.job_result(false, 'already_on_job', p_job_id);
+  end if;
+
+  if public.job_taken_slots(p_job_id, p_guide_id) >= v_job.slots then
+    return public.job_result(false, 'already_claimed', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(p_guide_id, p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  v_conflicts := public.guide_schedule_conflicts(p_guide_id, p_job_id);
+  v_unavailable := public.guide_unavailability(p_guide_id, p_job_id);
+  if (jsonb_array_length(v_conflicts) > 0 or v_unavailable is not null) and not p_override then
+    return public.job_result(
+      false,
+      case when jsonb_array_length(v_conflicts) > 0 then 'schedule_conflict' else 'unavailable' end,
+      p_job_id,
+      jsonb_strip_nulls(jsonb_build_object(
+        'conflicts', case when jsonb_array_length(v_conflicts) > 0 then v_conflicts end,
+        'unavailable', v_unavailable
+      ))
+    );
+  end if;
+
+  insert into public.claims (job_id, guide_id, schedule_override, availability_override)
+  values (
+    p_job_id, p_guide_id,
+    case when jsonb_array_length(v_conflicts) > 0 then v_conflicts end,
+    v_unavailable
+  );
+  delete from public.job_standby where job_id = p_job_id and guide_id = p_guide_id;
+  perform public.renumber_standby(p_job_id);
+  perform public.sync_job_crew(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+-- 6) RANK (admin): guides for the assign picker, best fit first. Load counts the
+-- guide's open/assigned/completed jobs on the job's date and in its ISO week.
+create or replace function public.rank_guides(p_job_id uuid)
+returns table (
+  guide_id uuid,
+  full_name text,
+  unavailable jsonb,
+  missing text[],
+  conflicts jsonb,
+  jobs_that_day int,
+  jobs_that_week int
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.*
+    from public.jobs j
+   cross join lateral (
+     select p.id, p.full_name,
+            public.guide_unavailability(p.id, j.id),
+            public.guide_missing_certs(p.id, j.id),
+            public.guide_schedule_conflicts(p.id, j.id),
+            (select count(*)::int from public.claims c join public.jobs o on o.id = c.job_id
+              where c.guide_id = p.id and o.date = j.date and o.id <> j.id
+                and o.status in ('open', 'assigned', 'complete')),
+            (select count(*)::int from public.claims c join public.jobs o on o.id = c.job_id
+              where c.guide_id = p.id and date_trunc('week', o.date) = date_trunc('week', j.date)
+                and o.id <> j.id and o.status in ('open', 'assigned', 'complete'))
+       from public.profiles p
+      where p.role = 'guide'
+        and not public.is_on_job(j.id, p.id)
+   ) r (guide_id, full_name, unavailable, missing, conflicts, jobs_that_day, jobs_that_week)
+   where j.id = p_job_id
+     and public.is_admin()
+   order by r.unavailable is not null,
+            cardinality(r.missing) > 0,
+            jsonb_array_length(r.conflicts) > 0,
+            r.jobs_that_day,
+            r.jobs_that_week,
+            r.full_name nulls last;
+$$;
+
+revoke all on function public.rank_guides(uuid) from public;
+grant execute on function public.rank_guides(uuid) to authenticated;
@@ -0,0 +1,247 @@
+-- 0015 notifications outbox. Job lifecycle triggers queue one row per guide per
+-- enabled channel (email / sms / push); the dispatcher (supabase/tools/notify.ts)
+-- delivers them, retrying with backoff, and records the outcome on the row.
+--
+--   new_job       a new open job the guide is certified and available for
+--                 (jobs generated by a series don't announce themselves one by one)
+--   assigned      an admin put the guide on a job
+--   canceled      a job the guide was on was canceled
+--   time_changed  date, call or dock time of a job the guide is on changed
+--   reminder      the day before (queued by enqueue_job_reminders(), which the
+--                 dispatcher calls on every pass)
+
+-- 1) Preferences: one row per guide; no row = email only
+create table if not exists public.notification_prefs (
+  guide_id uuid primary key references public.profiles(id) on delete cascade,
+  email boolean not null default true,
+  sms boolean not null default false,
+  push boolean not null default false,
+  phone text,               -- E.164, for sms
+  updated_at timestamptz not null default now()
+);
+
+-- Browser push subscriptions (a guide can have several devices)
+create table if not exists public.push_subscriptions (
+  id bigint generated always as identity primary key,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_push_subscriptions_guide_id on public.push_subscriptions(guide_id);
+
+-- 2) Outbox
+create table if not exists public.notifications (
+  id bigint generated always as identity primary key,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  job_id uuid references public.jobs(id) on delete cascade,
+  kind text not null check (kind in ('new_job', 'assigned', 'canceled', 'time_changed', 'reminder')),
+  channel text not null check (channel in ('email', 'sms', 'push')),
+  subject text not null,
+  body text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  attempts int not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_notifications_due on public.notifications(next_attempt_at) where status = 'pending';
+create index if not exists idx_notifications_guide_id on public.notifications(guide_id, created_at desc);
+-- one reminder per guide, job and channel
+create unique index if not exists notifications_one_reminder
+  on public.notifications(job_id, guide_id, channel) where kind = 'reminder';
+
+-- RLS: guides manage their own prefs and devices and can read their own notifications.
+-- Only triggers and the dispatcher (service connection) write the outbox.
+alter table public.notification_prefs enable row level security;
+alter table public.push_subscriptions enable row level security;
+alter table public.notifications enable row level security;
+
+drop policy if exists "own notification prefs" on public.notification_prefs;
+create policy "own notification prefs" on public.notification_prefs
+  for all using (guide_id = auth.uid()) with check (guide_id = auth.uid());
+
+drop policy if exists "own push subscriptions" on public.push_subscriptions;
+create policy "own push subscriptions" on public.push_subscriptions
+  for all using (guide_id = auth.uid()) with check (guide_id = auth.uid());
+
+drop policy if exists "read own notifications or admin" on public.notifications;
+create policy "read own notifications or admin" on public.notifications
+  for select using (guide_id = auth.uid() or is_admin());
+
+-- 3) Queue a message on every channel the guide has turned on
+create or replace function public.enqueue_notification(
+  p_guide_id uuid,
+  p_kind text,
+  p_job_id uuid,
+  p_subject text,
+  p_body text
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (guide_id, job_id, kind, channel, subject, body)
+  select p_guide_id, p_job_id, p_kind, ch.channel, p_subject, p_body
+    from public.profiles g
+    left join public.notification_prefs np on np.guide_id = g.id
+   cross join lateral (values
+     ('email', coalesce(np.email, true)),
+     ('sms', coalesce(np.sms, false)),
+     ('push', coalesce(np.push, false))
+   ) ch (channel, enabled)
+   where g.id = p_guide_id and ch.enabled
+  on conflict do nothing;
+$$;
+
+revoke all on function public.enqueue_notification(uuid, text, uuid, text, text) from public;
+
+-- "Sat 4 Jan 2030 · 06:30–12:00 · Vision · Breakwater"
+create or replace function public.job_summary(p_job public.jobs)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select concat_ws(' · ',
+    to_char(p_job.date, 'Dy FMDD Mon YYYY'),
+    to_char(p_job.call_time, 'HH24:MI') || coalesce('–' || to_char(p_job.dock_time, 'HH24:MI'), ''),
+    (select name from public.boats where id = p_job.boat_id),
+    p_job.location);
+$$;
+
+-- 4) Triggers
+create or replace function public.jobs_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_guide uuid;
+begin
+  if tg_op = 'INSERT' then
+    if new.status = 'open' and new.series_id is null then
+      for v_guide in
+        select p.id from public.profiles p
+         where p.role = 'guide'
+           and cardinality(public.guide_missing_certs(p.id, new.id)) = 0
+           and public.guide_unavailability(p.id, new.id) is null
+      loop
+        perform public.enqueue_notification(v_guide, 'new_job', new.id,
+          'New job: ' || new.title,
+          public.job_summary(new) || E'\nOpen the app to claim it.');
+      end loop;
+    end if;
+    return new;
+  end if;
+
+  if new.status = 'canceled' and old.status in ('open', 'assigned') then
+    for v_guide in select guide_id from public.claims where job_id = new.id loop
+      perform public.enqueue_notification(v_guide, 'canceled', new.id,
+        'Canceled: ' || new.title,
+        public.job_summary(new) || E'\nThis job was canceled.');
+    end loop;
+  elsif new.status in ('open', 'assigned')
+        and (new.date, new.call_time, new.dock_time) is distinct from (old.date, old.call_time, old.dock_time) then
+    for v_guide in select guide_id from public.claims where job_id = new.id loop
+      perform public.enqueue_notification(v_guide, 'time_changed', new.id,
+        'Time changed: ' || new.title,
+        'Now ' || public.job_summary(new) || E'\nWas ' || public.job_summary(old) || '.');
+    end loop;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_notify on public.jobs;
+create trigger jobs_notify
+  after insert or update of status, date, call_time, dock_time on public.jobs
+  for each row execute function public.jobs_notify();
+
+-- Someone else (an admin) put the guide on the job
+create or replace function public.claims_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+begin
+  if new.guide_id is distinct from auth.uid() then
+    select * into v_job from public.jobs where id = new.job_id;
+    perform public.enqueue_notification(new.guide_id, 'assigned', new.job_id,
+      'You''re on: ' || v_job.title,
+      public.job_summary(v_job) || E'\nYou were assigned to this job.');
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists claims_notify on public.claims;
+create trigger claims_notify
+  after insert on public.claims
+  for each row execute function public.claims_notify();
+
+-- 5) Reminders for tomorrow's jobs (shop time zone); safe to call as often as you like
+create or replace function public.enqueue_job_reminders()
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tomorrow date := (now() at time zone
+    coalesce((select time_zone from public.app_settings limit 1), 'UTC'))::date + 1;
+  v_row record;
+  v_before int;
+  v_after int;
+begin
+  select count(*) into v_before from public.notifications where kind = 'reminder';
+  for v_row in
+    select j, c.guide_id
+      from public.jobs j
+      join public.claims c on c.job_id = j.id
+     where j.date = v_tomorrow and j.status in ('open', 'assigned')
+  loop
+    perform public.enqueue_notification(v_row.guide_id, 'reminder', (v_row.j).id,
+      'Tomorrow: ' || (v_row.j).title,
+      public.job_summary(v_row.j));
+  end loop;
+  select count(*) into v_after from public.notifications where kind = 'reminder';
+  return v_after - v_before;
+end;
+$$;
+
+revoke all on function public.enqueue_job_reminders() from public;
+
+-- 6) Dispatcher side. Claim a batch of due rows (skipping rows another worker holds;
+-- 'sending' rows older than 10 minutes belong to a worker that died).
+create or replace function public.next_notifications(p_limit int default 50)
+returns setof public.notifications
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notifications n
+     set status = 'sending', attempts = n.attempts + 1, updated_at = now()
+   where n.id in (
+     select id from public.notifications
+      where (status = 'pending' and next_attempt_at <= now())
+         or (status = 'sending' and updated_at < now() - interval '10 minutes')
+      order by next_attempt_at
+      limit p_limit
+      for update skip locked
+   )
+  returning n.*;
+$$;
+
+revoke all on function public.next_notifications(int) from public;
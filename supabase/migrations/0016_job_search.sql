@@ -0,0 +1,12 @@
+-- 0016 job search. The Open and All Jobs lists filter, sort and page on the server
+-- (web/src/jobFilters.ts); this adds full-text search over title + notes and an
+-- index for the requirements filter. Status/date and boat already have theirs.
+
+-- 1) Search vector, kept up to date by Postgres itself
+alter table public.jobs add column if not exists search tsvector
+  generated always as (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(notes, ''))) stored;
+
+create index if not exists idx_jobs_search on public.jobs using gin (search);
+
+-- 2) Requirements filter: requirements @> '{Nitrox}'
+create index if not exists idx_jobs_requirements on public.jobs using gin (requirements);
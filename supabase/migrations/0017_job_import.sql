@@ -0,0 +1,111 @@
+-- 0017 job import. Admins bring in bookings from the reservation system as CSV
+-- (web/src/jobImport.ts parses and validates the file). Rows arrive here as a JSON
+-- array of job + contact fields:
+--   { title, date, call_time, dock_time, location, boat_id, pay, slots, requirements,
+--     notes, customer_name, customer_phone, customer_email }
+-- A row is a duplicate when a live job has the same date, call time and title
+-- (title compared case-insensitively); duplicates are skipped, as in series generation.
+
+-- 1) Existing job a row would duplicate
+create or replace function public.import_duplicate(p_row jsonb)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select j.id
+    from public.jobs j
+   where j.date = (p_row->>'date')::date
+     and j.call_time = (p_row->>'call_time')::time
+     and lower(trim(j.title)) = lower(trim(p_row->>'title'))
+     and j.status <> 'canceled'
+   limit 1;
+$$;
+
+revoke all on function public.import_duplicate(jsonb) from public;
+
+-- 2) PREVIEW (admin): the existing job each row duplicates (null = would be created).
+-- idx is the row's 0-based position in p_rows.
+create or replace function public.preview_job_import(p_rows jsonb)
+returns table (idx int, existing_job_id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (r.ord - 1)::int, public.import_duplicate(r.value)
+    from jsonb_array_elements(p_rows) with ordinality as r(value, ord)
+   where public.is_admin()
+   order by r.ord;
+$$;
+
+revoke all on function public.preview_job_import(jsonb) from public;
+grant execute on function public.preview_job_import(jsonb) to authenticated;
+
+-- 3) IMPORT (admin): one open job (+ contact, when there's a customer name) per row
+-- that isn't a duplicate. All or nothing: a bad value rolls the whole file back.
+-- Returns { ok, reason, created, skipped }.
+create or replace function public.import_jobs(p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row jsonb;
+  v_job_id uuid;
+  v_created int := 0;
+  v_skipped int := 0;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if jsonb_typeof(p_rows) <> 'array' or jsonb_array_length(p_rows) = 0 then
+    return jsonb_build_object('ok', false, 'reason', 'empty');
+  end if;
+
+  for v_row in select value from jsonb_array_elements(p_rows)
+  loop
+    -- Checked row by row, so repeats within the file are caught too
+    if public.import_duplicate(v_row) is not null then
+      v_skipped := v_skipped + 1;
+      continue;
+    end if;
+
+    insert into public.jobs (
+      title, date, call_time, dock_time, location, boat_id, requirements, pay, slots, notes,
+      status, created_by
+    ) values (
+      trim(v_row->>'title'),
+      (v_row->>'date')::date,
+      (v_row->>'call_time')::time,
+      nullif(v_row->>'dock_time', '')::time,
+      nullif(trim(v_row->>'location'), ''),
+      nullif(v_row->>'boat_id', '')::uuid,
+      case when jsonb_array_length(coalesce(v_row->'requirements', '[]')) > 0
+           then array(select jsonb_array_elements_text(v_row->'requirements')) end,
+      (v_row->>'pay')::numeric,
+      greatest(1, coalesce((v_row->>'slots')::int, 1)),
+      nullif(v_row->>'notes', ''),
+      'open', auth.uid()
+    )
+    returning id into v_job_id;
+
+    if nullif(trim(v_row->>'customer_name'), '') is not null then
+      insert into public.job_contacts (job_id, customer_name, customer_phone, customer_email)
+      values (
+        v_job_id, trim(v_row->>'customer_name'),
+        nullif(trim(v_row->>'customer_phone'), ''), nullif(trim(v_row->>'customer_email'), '')
+      );
+    end if;
+
+    v_created := v_created + 1;
+  end loop;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'created', v_created, 'skipped', v_skipped);
+end;
+$$;
+
+revoke all on function public.import_jobs(jsonb) from public;
+grant execute on function public.import_jobs(jsonb) to authenticated;
@@ -0,0 +1,270 @@
+-- 0018 booking requests. Customers ask for a dive through the public form at /book,
+-- without an account: they call submit_booking_request() with the anon key and get a
+-- secret token back, which is their status link (/book?request=<token>). Admins
+-- approve a request into a real job + contact, or decline it, from the Bookings inbox.
+--
+-- Abuse control, since anyone can call the RPCs:
+-- - a challenge stand-in for a captcha: booking_challenge() hands out a small sum,
+--   single use, valid for 30 minutes and not answerable in under 3 seconds
+-- - rate limits per client IP (from PostgREST's X-Forwarded-For) and per contact
+
+-- 1) Requests
+create table if not exists public.booking_requests (
+  id uuid primary key default gen_random_uuid(),
+  token uuid not null unique default gen_random_uuid(), -- the customer's status link
+  customer_name text not null,
+  customer_phone text,
+  customer_email text,
+  party_size int not null check (party_size between 1 and 50),
+  preferred_date date not null,
+  dive_type text not null,
+  message text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'declined')),
+  decline_reason text,                  -- shown to the customer
+  job_id uuid references public.jobs(id) on delete set null,
+  client_ip text,
+  created_at timestamptz not null default now(),
+  decided_at timestamptz,
+  decided_by uuid references public.profiles(id)
+);
+
+create index if not exists idx_booking_requests_status on public.booking_requests(status, created_at);
+create index if not exists idx_booking_requests_ip on public.booking_requests(client_ip, created_at);
+
+alter table public.booking_requests enable row level security;
+
+-- Customers only go through the RPCs below
+drop policy if exists "read booking requests admin only" on public.booking_requests;
+create policy "read booking requests admin only" on public.booking_requests
+  for select using (is_admin());
+
+-- 2) Challenges (captcha stand-in; swap booking_challenge/check for a real provider later)
+create table if not exists public.booking_challenges (
+  id uuid primary key default gen_random_uuid(),
+  answer int not null,
+  client_ip text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_booking_challenges_ip on public.booking_challenges(client_ip, created_at);
+
+alter table public.booking_challenges enable row level security; -- no policies: RPCs only
+
+-- The caller's IP as the API gateway saw it (null outside PostgREST)
+create or replace function public.request_ip()
+returns text
+language sql
+stable
+as $$
+  select nullif(trim(split_part(
+    coalesce(current_setting('request.headers', true), '{}')::json->>'x-forwarded-for', ',', 1)), '');
+$$;
+
+-- Returns { ok, reason, id, question }
+create or replace function public.booking_challenge()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_a int := 2 + floor(random() * 8)::int;
+  v_b int := 2 + floor(random() * 8)::int;
+  v_id uuid;
+begin
+  delete from public.booking_challenges where created_at < now() - interval '1 day';
+  if (select count(*) from public.booking_challenges
+       where client_ip is not distinct from public.request_ip()
+         and created_at > now() - interval '1 hour') >= 30 then
+    return jsonb_build_object('ok', false, 'reason', 'rate_limited');
+  end if;
+  insert into public.booking_challenges (answer, client_ip)
+  values (v_a + v_b, public.request_ip())
+  returning id into v_id;
+  return jsonb_build_object('ok', true, 'reason', null, 'id', v_id, 'question', format('What is %s + %s?', v_a, v_b));
+end;
+$$;
+
+-- 3) SUBMIT (anon). Returns { ok, reason, token }.
+-- reason: bad_challenge | rate_limited | invalid | date_past
+create or replace function public.submit_booking_request(
+  p_challenge_id uuid,
+  p_answer int,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_email text,
+  p_party_size int,
+  p_preferred_date date,
+  p_dive_type text,
+  p_message text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ip text := public.request_ip();
+  v_ch public.booking_challenges%rowtype;
+  v_email text := nullif(lower(trim(p_customer_email)), '');
+  v_phone text := nullif(trim(p_customer_phone), '');
+  v_token uuid;
+begin
+  -- Single use, right or wrong
+  delete from public.booking_challenges where id = p_challenge_id returning * into v_ch;
+  if not found or v_ch.answer is distinct from p_answer
+     or v_ch.created_at < now() - interval '30 minutes'
+     or v_ch.created_at > now() - interval '3 seconds' then
+    return jsonb_build_object('ok', false, 'reason', 'bad_challenge');
+  end if;
+
+  if (select count(*) from public.booking_requests
+       where client_ip is not distinct from v_ip and created_at > now() - interval '1 hour') >= 5
+     or (select count(*) from public.booking_requests
+          where created_at > now() - interval '1 day'
+            and ((v_email is not null and lower(customer_email) = v_email)
+              or (v_phone is not null and customer_phone = v_phone))) >= 3 then
+    return jsonb_build_object('ok', false, 'reason', 'rate_limited');
+  end if;
+
+  if nullif(trim(p_customer_name), '') is null or length(p_customer_name) > 120
+     or (v_email is null and v_phone is null)
+     or (v_email is not null and v_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$')
+     or length(coalesce(v_phone, '')) > 40
+     or p_party_size is null or p_party_size not between 1 and 50
+     or nullif(trim(p_dive_type), '') is null or length(p_dive_type) > 80
+     or length(coalesce(p_message, '')) > 2000
+     or p_preferred_date is null then
+    return jsonb_build_object('ok', false, 'reason', 'invalid');
+  end if;
+
+  if p_preferred_date < (now() at time zone (select time_zone from public.app_settings limit 1))::date then
+    return jsonb_build_object('ok', false, 'reason', 'date_past');
+  end if;
+
+  insert into public.booking_requests (
+    customer_name, customer_phone, customer_email, party_size, preferred_date, dive_type, message, client_ip
+  ) values (
+    trim(p_customer_name), v_phone, v_email, p_party_size, p_preferred_date, trim(p_dive_type),
+    nullif(trim(p_message), ''), v_ip
+  )
+  returning token into v_token;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'token', v_token);
+end;
+$$;
+
+-- 4) STATUS (anon, by token): what the customer's link shows. No contact details.
+create or replace function public.booking_request_status(p_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+           'status', case when r.status = 'approved' and j.status = 'canceled' then 'canceled' else r.status end,
+           'party_size', r.party_size,
+           'preferred_date', r.preferred_date,
+           'dive_type', r.dive_type,
+           'created_at', r.created_at,
+           'decline_reason', r.decline_reason,
+           'job_date', j.date,
+           'call_time', j.call_time,
+           'location', j.location)
+    from public.booking_requests r
+    left join public.jobs j on j.id = r.job_id
+   where r.token = p_token;
+$$;
+
+-- 5) APPROVE (admin): a new open job + contact from the request.
+-- Returns { ok, reason, job_id }; reason: forbidden | not_found | already_decided
+create or replace function public.approve_booking_request(
+  p_id uuid,
+  p_title text,
+  p_date date,
+  p_call_time time,
+  p_dock_time time default null,
+  p_location text default null,
+  p_boat_id uuid default null,
+  p_pay numeric default null,
+  p_slots int default 1,
+  p_requirements text[] default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_r public.booking_requests%rowtype;
+  v_job_id uuid;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  select * into v_r from public.booking_requests where id = p_id for update;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if v_r.status <> 'pending' then
+    return jsonb_build_object('ok', false, 'reason', 'already_decided');
+  end if;
+
+  insert into public.jobs (
+    title, date, call_time, dock_time, location, boat_id, requirements, pay, slots, notes, status, created_by
+  ) values (
+    trim(p_title), p_date, p_call_time, p_dock_time, nullif(trim(p_location), ''), p_boat_id,
+    p_requirements, p_pay, greatest(1, coalesce(p_slots, 1)), nullif(p_notes, ''), 'open', auth.uid()
+  )
+  returning id into v_job_id;
+
+  insert into public.job_contacts (job_id, customer_name, customer_phone, customer_email)
+  values (v_job_id, v_r.customer_name, v_r.customer_phone, v_r.customer_email);
+
+  update public.booking_requests
+     set status = 'approved', job_id = v_job_id, decided_at = now(), decided_by = auth.uid()
+   where id = p_id;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'job_id', v_job_id);
+end;
+$$;
+
+-- 6) DECLINE (admin); p_reason is shown to the customer
+create or replace function public.decline_booking_request(p_id uuid, p_reason text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  select status into v_status from public.booking_requests where id = p_id for update;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if v_status <> 'pending' then
+    return jsonb_build_object('ok', false, 'reason', 'already_decided');
+  end if;
+  update public.booking_requests
+     set status = 'declined', decline_reason = nullif(trim(p_reason), ''), decided_at = now(), decided_by = auth.uid()
+   where id = p_id;
+  return jsonb_build_object('ok', true, 'reason', null);
+end;
+$$;
+
+revoke all on function public.booking_challenge() from public;
+revoke all on function public.submit_booking_request(uuid, int, text, text, text, int, date, text, text) from public;
+revoke all on function public.booking_request_status(uuid) from public;
+revoke all on function public.approve_booking_request(uuid, text, date, time, time, text, uuid, numeric, int, text[], text) from public;
+revoke all on function public.decline_booking_request(uuid, text) from public;
+grant execute on function public.booking_challenge() to anon, authenticated;
+grant execute on function public.submit_booking_request(uuid, int, text, text, text, int, date, text, text) to anon, authenticated;
+grant execute on function public.booking_request_status(uuid) to anon, authenticated;
+grant execute on function public.approve_booking_request(uuid, text, date, time, time, text, uuid, numeric, int, text[], text) to authenticated;
+grant execute on function public.decline_booking_request(uuid, text) to authenticated;
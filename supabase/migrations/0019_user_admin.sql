@@ -0,0 +1,436 @@
+-- 0019 user management. Admins invite people, change roles and deactivate accounts
+-- from the Users screen instead of editing profiles in SQL.
+--
+-- - Invites: invite_user() records the email with a name and role; the web app then
+--   emails a sign-in link. handle_new_user() gives the new profile the invited role.
+-- - profiles.is_active = false: the guide can't claim, be assigned, join standby or
+--   be notified, and drops out of guide lists. Deactivating can also hand their
+--   upcoming jobs back to the pool. A deactivated admin is no longer an admin.
+-- - Only admins change role or is_active (users can still edit their own name).
+
+-- 1) is_active is always set
+update public.profiles set is_active = true where is_active is null;
+alter table public.profiles alter column is_active set default true;
+alter table public.profiles alter column is_active set not null;
+
+create or replace function public.is_admin()
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role = 'admin' and is_active
+  );
+end;
+$$;
+
+create or replace function public.is_active_user(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select is_active from public.profiles where id = p_user_id), false);
+$$;
+
+revoke all on function public.is_active_user(uuid) from public;
+grant execute on function public.is_active_user(uuid) to authenticated;
+
+-- 2) "update own" lets users edit their row; role and is_active are admin-only.
+-- Direct database sessions (no JWT: SQL editor, migrations) are not restricted.
+create or replace function public.profiles_guard()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and not public.is_admin()
+     and (new.role is distinct from old.role or new.is_active is distinct from old.is_active) then
+    raise exception 'only admins can change roles or deactivate accounts' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard on public.profiles;
+create trigger profiles_guard
+  before update on public.profiles
+  for each row execute function public.profiles_guard();
+
+drop policy if exists "update profiles admin" on public.profiles;
+create policy "update profiles admin" on public.profiles
+  for update using (is_admin()) with check (is_admin());
+
+-- 3) Invites
+create table if not exists public.profile_invites (
+  email text primary key check (email = lower(email)),
+  full_name text,
+  role text not null default 'guide' check (role in ('admin', 'guide')),
+  invited_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz
+);
+
+alter table public.profile_invites enable row level security;
+
+drop policy if exists "read invites admin only" on public.profile_invites;
+create policy "read invites admin only" on public.profile_invites
+  for select using (is_admin());
+
+drop policy if exists "delete invites admin only" on public.profile_invites;
+create policy "delete invites admin only" on public.profile_invites
+  for delete using (is_admin());
+
+-- A profile for every new auth user; invited emails get the invite's name and role
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.profile_invites%rowtype;
+begin
+  update public.profile_invites
+     set accepted_at = now()
+   where email = lower(new.email) and accepted_at is null
+  returning * into v_invite;
+
+  insert into public.profiles (id, full_name, role)
+  values (
+    new.id,
+    coalesce(nullif(new.raw_user_meta_data->>'full_name', ''), v_invite.full_name, ''),
+    coalesce(v_invite.role, 'guide')
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+-- INVITE (admin). Returns { ok, reason }; reason: forbidden | invalid | already_user.
+-- Inviting the same email again updates the pending invite.
+create or replace function public.invite_user(p_email text, p_full_name text default null, p_role text default 'guide')
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(trim(p_email));
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if v_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' or p_role not in ('admin', 'guide') then
+    return jsonb_build_object('ok', false, 'reason', 'invalid');
+  end if;
+  if exists (select 1 from auth.users where lower(email) = v_email) then
+    return jsonb_build_object('ok', false, 'reason', 'already_user');
+  end if;
+
+  insert into public.profile_invites (email, full_name, role, invited_by)
+  values (v_email, nullif(trim(p_full_name), ''), p_role, auth.uid())
+  on conflict (email) do update
+    set full_name = excluded.full_name, role = excluded.role,
+        invited_by = excluded.invited_by, created_at = now(), accepted_at = null;
+  return jsonb_build_object('ok', true, 'reason', null);
+end;
+$$;
+
+-- 4) LIST (admin): every profile with its sign-in email and upcoming jobs
+create or replace function public.list_users()
+returns table (
+  id uuid,
+  full_name text,
+  email text,
+  role text,
+  is_active boolean,
+  created_at timestamptz,
+  last_sign_in_at timestamptz,
+  upcoming_jobs int
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.full_name, u.email, p.role, p.is_active, p.created_at, u.last_sign_in_at,
+         (select count(*)::int from public.claims c join public.jobs j on j.id = c.job_id
+           where c.guide_id = p.id and j.status in ('open', 'assigned')
+             and j.date >= (now() at time zone (select time_zone from public.app_settings limit 1))::date)
+    from public.profiles p
+    left join auth.users u on u.id = p.id
+   where public.is_admin()
+   order by p.is_active desc, p.role, p.full_name nulls last;
+$$;
+
+-- 5) ROLE (admin). Returns { ok, reason }; reason: forbidden | invalid | not_found | last_admin
+create or replace function public.set_user_role(p_user_id uuid, p_role text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if p_role not in ('admin', 'guide') then
+    return jsonb_build_object('ok', false, 'reason', 'invalid');
+  end if;
+  perform 1 from public.profiles where id = p_user_id for update;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if p_role = 'guide' and not exists (
+    select 1 from public.profiles where role = 'admin' and is_active and id <> p_user_id
+  ) then
+    return jsonb_build_object('ok', false, 'reason', 'last_admin');
+  end if;
+  update public.profiles set role = p_role where id = p_user_id;
+  return jsonb_build_object('ok', true, 'reason', null);
+end;
+$$;
+
+-- 6) ACTIVATE / DEACTIVATE (admin). Deactivating takes the guide off every standby
+-- queue; p_release_jobs also takes them off their upcoming open/assigned jobs (the
+-- slots go down the standby line, then back to the pool).
+-- Returns { ok, reason, released }; reason: forbidden | not_found | self
+create or replace function public.set_user_active(p_user_id uuid, p_active boolean, p_release_jobs boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_today date := (now() at time zone (select time_zone from public.app_settings limit 1))::date;
+  v_job uuid;
+  v_released int := 0;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if p_user_id = auth.uid() and not p_active then
+    return jsonb_build_object('ok', false, 'reason', 'self');
+  end if;
+  update public.profiles set is_active = p_active where id = p_user_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  if not p_active then
+    for v_job in
+      delete from public.job_standby where guide_id = p_user_id returning job_id
+    loop
+      perform public.renumber_standby(v_job);
+    end loop;
+
+    if p_release_jobs then
+      for v_job in
+        select c.job_id from public.claims c join public.jobs j on j.id = c.job_id
+         where c.guide_id = p_user_id and j.status in ('open', 'assigned') and j.date >= v_today
+         order by j.id
+         for update of j
+      loop
+        delete from public.claims where job_id = v_job and guide_id = p_user_id;
+        perform public.advance_standby(v_job);
+        v_released := v_released + 1;
+      end loop;
+    end if;
+  end if;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'released', v_released);
+end;
+$$;
+
+-- 7) Deactivated guides can't take work: checked where every claim, assignment and
+-- standby offer acceptance ends up
+create or replace function public.fill_job_slot(p_job_id uuid, p_guide_id uuid, p_override boolean default false)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.jobs%rowtype;
+  v_missing text[];
+  v_conflicts jsonb;
+  v_unavailable jsonb;
+begin
+  select * into v_job from public.jobs where id = p_job_id;
+  if v_job.status not in ('open', 'assigned') then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if not public.is_active_user(p_guide_id) then
+    return public.job_result(false, 'inactive', p_job_id);
+  end if;
+  if public.is_on_job(p_job_id, p_guide_id) then
+    return public.job_result(false, 'already_on_job', p_job_id);
+  end if;
+
+  if public.job_taken_slots(p_job_id, p_guide_id) >= v_job.slots then
+    return public.job_result(false, 'already_claimed', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(p_guide_id, p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  v_conflicts := public.guide_schedule_conflicts(p_guide_id, p_job_id);
+  v_unavailable := public.guide_unavailability(p_guide_id, p_job_id);
+  if (jsonb_array_length(v_conflicts) > 0 or v_unavailable is not null) and not p_override then
+    return public.job_result(
+      false,
+      case when jsonb_array_length(v_conflicts) > 0 then 'schedule_conflict' else 'unavailable' end,
+      p_job_id,
+      jsonb_strip_nulls(jsonb_build_object(
+        'conflicts', case when jsonb_array_length(v_conflicts) > 0 then v_conflicts end,
+        'unavailable', v_unavailable
+      ))
+    );
+  end if;
+
+  insert into public.claims (job_id, guide_id, schedule_override, availability_override)
+  values (
+    p_job_id, p_guide_id,
+    case when jsonb_array_length(v_conflicts) > 0 then v_conflicts end,
+    v_unavailable
+  );
+  delete from public.job_standby where job_id = p_job_id and guide_id = p_guide_id;
+  perform public.renumber_standby(p_job_id);
+  perform public.sync_job_crew(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+create or replace function public.join_standby(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status job_status;
+  v_missing text[];
+  v_position int;
+begin
+  select status into v_status from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if not public.is_active_user(auth.uid()) then
+    return public.job_result(false, 'inactive', p_job_id);
+  end if;
+  if v_status = 'open' then
+    return public.job_result(false, 'not_full', p_job_id);
+  end if;
+  if v_status <> 'assigned' then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  if public.is_on_job(p_job_id) then
+    return public.job_result(false, 'already_on_job', p_job_id);
+  end if;
+  if exists (select 1 from public.job_standby where job_id = p_job_id and guide_id = auth.uid()) then
+    return public.job_result(false, 'already_on_standby', p_job_id);
+  end if;
+
+  v_missing := public.guide_missing_certs(auth.uid(), p_job_id);
+  if cardinality(v_missing) > 0 then
+    return public.job_result(false, 'missing_cert', p_job_id, jsonb_build_object('missing', v_missing));
+  end if;
+
+  insert into public.job_standby (job_id, guide_id, position)
+  select p_job_id, auth.uid(), coalesce(max(position), 0) + 1
+    from public.job_standby where job_id = p_job_id
+  returning position into v_position;
+
+  return public.job_result(true, null, p_job_id, jsonb_build_object('position', v_position));
+end;
+$$;
+
+-- The assign picker only offers active guides
+create or replace function public.rank_guides(p_job_id uuid)
+returns table (
+  guide_id uuid,
+  full_name text,
+  unavailable jsonb,
+  missing text[],
+  conflicts jsonb,
+  jobs_that_day int,
+  jobs_that_week int
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.*
+    from public.jobs j
+   cross join lateral (
+     select p.id, p.full_name,
+            public.guide_unavailability(p.id, j.id),
+            public.guide_missing_certs(p.id, j.id),
+            public.guide_schedule_conflicts(p.id, j.id),
+            (select count(*)::int from public.claims c join public.jobs o on o.id = c.job_id
+              where c.guide_id = p.id and o.date = j.date and o.id <> j.id
+                and o.status in ('open', 'assigned', 'complete')),
+            (select count(*)::int from public.claims c join public.jobs o on o.id = c.job_id
+              where c.guide_id = p.id and date_trunc('week', o.date) = date_trunc('week', j.date)
+                and o.id <> j.id and o.status in ('open', 'assigned', 'complete'))
+       from public.profiles p
+      where p.role = 'guide'
+        and p.is_active
+        and not public.is_on_job(j.id, p.id)
+   ) r (guide_id, full_name, unavailable, missing, conflicts, jobs_that_day, jobs_that_week)
+   where j.id = p_job_id
+     and public.is_admin()
+   order by r.unavailable is not null,
+            cardinality(r.missing) > 0,
+            jsonb_array_length(r.conflicts) > 0,
+            r.jobs_that_day,
+            r.jobs_that_week,
+            r.full_name nulls last;
+$$;
+
+-- Nothing is sent to deactivated accounts
+create or replace function public.enqueue_notification(
+  p_guide_id uuid,
+  p_kind text,
+  p_job_id uuid,
+  p_subject text,
+  p_body text
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (guide_id, job_id, kind, channel, subject, body)
+  select p_guide_id, p_job_id, p_kind, ch.channel, p_subject, p_body
+    from public.profiles g
+    left join public.notification_prefs np on np.guide_id = g.id
+   cross join lateral (values
+     ('email', coalesce(np.email, true)),
+     ('sms', coalesce(np.sms, false)),
+     ('push', coalesce(np.push, false))
+   ) ch (channel, enabled)
+   where g.id = p_guide_id and g.is_active and ch.enabled
+  on conflict do nothing;
+$$;
+
+revoke all on function public.profiles_guard() from public;
+revoke all on function public.invite_user(text, text, text) from public;
+revoke all on function public.list_users() from public;
+revoke all on function public.set_user_role(uuid, text) from public;
+revoke all on function public.set_user_active(uuid, boolean, boolean) from public;
+grant execute on function public.invite_user(text, text, text) to authenticated;
+grant execute on function public.list_users() to authenticated;
+grant execute on function public.set_user_role(uuid, text) to authenticated;
+grant execute on function public.set_user_active(uuid, boolean, boolean) to authenticated;
@@ -0,0 +1,192 @@
+-- 0020 job state machine. Which status changes are allowed lives in one table and a
+-- trigger enforces it for every write path: the job RPCs, set_job_status() and plain
+-- updates through PostgREST alike.
+--
+-- - open <-> assigned still follows the crew (sync_job_crew); a manual change to
+--   either has to match how many slots are taken.
+-- - complete is final except for canceling; canceled can be reinstated as open.
+-- - claimed_by is the crew lead: a guide with a claim on the job, and only empty on
+--   an open/assigned job when nobody is on it.
+-- - Guides can only be added to open or assigned jobs.
+
+-- 1) Allowed transitions (a status may always be "changed" to itself)
+create table if not exists public.job_status_transitions (
+  from_status job_status not null,
+  to_status job_status not null,
+  primary key (from_status, to_status),
+  check (from_status <> to_status)
+);
+
+insert into public.job_status_transitions (from_status, to_status) values
+  ('open', 'assigned'),
+  ('open', 'complete'),
+  ('open', 'canceled'),
+  ('assigned', 'open'),
+  ('assigned', 'complete'),
+  ('assigned', 'canceled'),
+  ('complete', 'canceled'),
+  ('canceled', 'open')
+on conflict do nothing;
+
+alter table public.job_status_transitions enable row level security;
+
+drop policy if exists "read job status transitions" on public.job_status_transitions;
+create policy "read job status transitions" on public.job_status_transitions
+  for select using (auth.uid() is not null);
+
+create or replace function public.job_transition_allowed(p_from job_status, p_to job_status)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_from = p_to or exists (
+    select 1 from public.job_status_transitions
+     where from_status = p_from and to_status = p_to
+  );
+$$;
+
+-- Statuses the job can move to right now: the table, narrowed to whichever of
+-- open/assigned matches its crew
+create or replace function public.job_next_statuses(p_job_id uuid)
+returns job_status[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(t.to_status order by t.to_status), '{}')
+    from public.jobs j
+    join public.job_status_transitions t on t.from_status = j.status
+   where j.id = p_job_id
+     and (j.status = 'open' or public.is_on_job(j.id) or public.is_admin())
+     and (t.to_status not in ('open', 'assigned')
+          or t.to_status = public.crew_status(t.to_status, public.job_taken_slots(j.id), j.slots));
+$$;
+
+-- 2) The guard. Runs after jobs_check_slots, which may already have flipped
+-- open/assigned for a new slot count.
+create or replace function public.jobs_guard_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_taken int;
+begin
+  if new.status is distinct from old.status then
+    if not public.job_transition_allowed(old.status, new.status) then
+      raise exception 'a % job can''t be set to %', old.status, new.status
+        using errcode = 'check_violation',
+              hint = 'allowed: ' || coalesce((
+                select string_agg(to_status::text, ', ' order by to_status)
+                  from public.job_status_transitions where from_status = old.status
+              ), 'none');
+    end if;
+    if new.status in ('open', 'assigned') then
+      v_taken := public.job_taken_slots(new.id);
+      if new.status <> public.crew_status(new.status, v_taken, new.slots) then
+        raise exception 'job has % of % slots taken, so it can''t be %', v_taken, new.slots, new.status
+          using errcode = 'check_violation',
+                hint = 'assign or remove guides instead';
+      end if;
+    end if;
+  end if;
+
+  if new.claimed_by is distinct from old.claimed_by or new.status is distinct from old.status then
+    if new.claimed_by is not null
+       and not exists (select 1 from public.claims where job_id = new.id and guide_id = new.claimed_by) then
+      raise exception 'claimed_by must be a guide on the job' using errcode = 'check_violation';
+    end if;
+    if new.claimed_by is null and new.status in ('open', 'assigned')
+       and exists (select 1 from public.claims where job_id = new.id) then
+      raise exception 'job has guides but no claimed_by' using errcode = 'check_violation';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_guard_status on public.jobs;
+create trigger jobs_guard_status
+  before update of status, claimed_by on public.jobs
+  for each row execute function public.jobs_guard_status();
+
+-- 3) Claims only land on jobs that are still running. fill_job_slot already says
+-- not_open; this covers everything else.
+create or replace function public.claims_check_job_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status job_status;
+begin
+  select status into v_status from public.jobs where id = new.job_id;
+  if v_status not in ('open', 'assigned') then
+    raise exception 'job is %; guides can only be added to open or assigned jobs', v_status
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists claims_check_job_status on public.claims;
+create trigger claims_check_job_status
+  before insert or update of job_id on public.claims
+  for each row execute function public.claims_check_job_status();
+
+-- 4) SET STATUS (admin): the status select in the edit form. Complete and cancel go
+-- through their own RPCs so they behave exactly like the buttons.
+-- illegal_transition carries { from, to, allowed }.
+create or replace function public.set_job_status(p_job_id uuid, p_status job_status)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status job_status;
+  v_allowed job_status[];
+begin
+  if not public.is_admin() then
+    return public.job_result(false, 'forbidden', null);
+  end if;
+  select status into v_status from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if v_status = p_status then
+    return public.job_result(true, null, p_job_id);
+  end if;
+
+  v_allowed := public.job_next_statuses(p_job_id);
+  if not p_status = any(v_allowed) then
+    return public.job_result(false, 'illegal_transition', p_job_id, jsonb_build_object(
+      'from', v_status, 'to', p_status, 'allowed', to_jsonb(v_allowed)
+    ));
+  end if;
+
+  if p_status = 'complete' then
+    return public.complete_job_v2(p_job_id);
+  elsif p_status = 'canceled' then
+    return public.cancel_job_v2(p_job_id);
+  end if;
+
+  update public.jobs set status = p_status where id = p_job_id;
+  perform public.advance_standby(p_job_id);
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+revoke all on function public.job_transition_allowed(job_status, job_status) from public;
+revoke all on function public.job_next_statuses(uuid) from public;
+revoke all on function public.jobs_guard_status() from public;
+revoke all on function public.claims_check_job_status() from public;
+revoke all on function public.set_job_status(uuid, job_status) from public;
+grant execute on function public.job_transition_allowed(job_status, job_status) to authenticated;
+grant execute on function public.job_next_statuses(uuid) to authenticated;
+grant execute on function public.set_job_status(uuid, job_status) to authenticated;
@@ -0,0 +1,22 @@
+-- 0021 anonymous access. Supabase's default privileges give the anon role (the web
+-- app's API key before sign-in) every table and function in public, and the
+-- "revoke all ... from public" lines in earlier migrations don't touch those grants.
+-- RLS kept most rows hidden, but anyone with the key could list open jobs and call
+-- the job RPCs. Found by the SQL tests (supabase/tests).
+--
+-- Anonymous callers now get only the public booking form and the calendar feed.
+
+-- 1) Nothing by default, now or for objects later migrations create
+revoke all on all tables in schema public from anon;
+revoke all on all sequences in schema public from anon;
+revoke execute on all functions in schema public from anon;
+
+alter default privileges in schema public revoke all on tables from anon;
+alter default privileges in schema public revoke all on sequences from anon;
+alter default privileges in schema public revoke execute on functions from anon;
+
+-- 2) What the signed-out pages use (all security definer)
+grant execute on function public.ical_feed(uuid) to anon;
+grant execute on function public.booking_challenge() to anon;
+grant execute on function public.submit_booking_request(uuid, int, text, text, text, int, date, text, text) to anon;
+grant execute on function public.booking_request_status(uuid) to anon;
@@ -0,0 +1,178 @@
+-- 0022 job messages and post-trip reports. Each job has a message thread for the
+-- admins and the guides on it (handoff notes, a changed meeting point, "running
+-- late"), under the same rule as job_contacts: admin or on the crew. Unread counts
+-- come from a per-user read marker, as a computed column on jobs.
+--
+-- After the trip every guide on it files a report: dive sites, conditions,
+-- incidents, and whether the customer didn't show. One per guide per job; the guide
+-- can correct it afterwards. Admins and the rest of the crew read it.
+
+-- 1) Messages. Only job_id and body are written by the caller; the author and time
+-- are the defaults, so nobody posts as someone else or backdates a message.
+create table if not exists public.job_messages (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  author_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  body text not null check (length(btrim(body)) between 1 and 2000),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_messages_job_id on public.job_messages(job_id, created_at);
+
+alter table public.job_messages enable row level security;
+
+drop policy if exists "read messages admin or assigned guide" on public.job_messages;
+create policy "read messages admin or assigned guide" on public.job_messages
+  for select using (is_admin() or is_on_job(job_id));
+
+drop policy if exists "post messages admin or assigned guide" on public.job_messages;
+create policy "post messages admin or assigned guide" on public.job_messages
+  for insert with check (author_id = auth.uid() and (is_admin() or is_on_job(job_id)));
+
+revoke all on public.job_messages from authenticated;
+grant select on public.job_messages to authenticated;
+grant insert (job_id, body) on public.job_messages to authenticated;
+
+do $$ begin
+  begin
+    alter publication supabase_realtime add table public.job_messages;
+  exception when others then null;
+  end;
+end $$;
+
+-- The thread with its authors' names (guides can't read admins' profiles), oldest first
+create or replace function public.job_thread(p_job_id uuid)
+returns table (id bigint, author_id uuid, author_name text, author_is_admin boolean, body text, created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.id, m.author_id, p.full_name, coalesce(p.role = 'admin', false), m.body, m.created_at
+    from public.job_messages m
+    left join public.profiles p on p.id = m.author_id
+   where m.job_id = p_job_id
+     and (public.is_admin() or public.is_on_job(p_job_id))
+   order by m.created_at, m.id;
+$$;
+
+-- 2) Read markers: the last time each user opened a job's thread
+create table if not exists public.job_message_reads (
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  read_at timestamptz not null default now(),
+  primary key (job_id, user_id)
+);
+
+alter table public.job_message_reads enable row level security;
+
+drop policy if exists "read own message reads" on public.job_message_reads;
+create policy "read own message reads" on public.job_message_reads
+  for select using (user_id = auth.uid());
+
+create or replace function public.mark_job_messages_read(p_job_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.job_message_reads (job_id, user_id, read_at)
+  select p_job_id, auth.uid(), now()
+   where public.is_admin() or public.is_on_job(p_job_id)
+  on conflict (job_id, user_id) do update set read_at = excluded.read_at;
+$$;
+
+-- Messages from others since the caller last read the thread. A computed column:
+-- select=...,unread_messages. Runs as the caller, so jobs whose thread they can't
+-- read count 0.
+create or replace function public.unread_messages(j public.jobs)
+returns int
+language sql
+stable
+set search_path = public
+as $$
+  select count(*)::int
+    from public.job_messages m
+   where m.job_id = j.id
+     and m.author_id <> auth.uid()
+     and m.created_at > coalesce(
+       (select r.read_at from public.job_message_reads r where r.job_id = j.id and r.user_id = auth.uid()),
+       '-infinity');
+$$;
+
+-- 3) Post-trip reports. Only save_job_report writes.
+create table if not exists public.job_reports (
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  guide_id uuid not null references public.profiles(id) on delete cascade,
+  dive_sites text[] not null default '{}',
+  conditions text,
+  incidents text,
+  customer_no_show boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (job_id, guide_id)
+);
+
+alter table public.job_reports enable row level security;
+
+drop policy if exists "read reports admin or assigned guide" on public.job_reports;
+create policy "read reports admin or assigned guide" on public.job_reports
+  for select using (is_admin() or is_on_job(job_id));
+
+-- 4) SAVE REPORT (guide on the job, from the trip's date on). Blank fields are stored
+-- as null, blank dive sites dropped.
+-- Returns { ok, reason, report }; reason: not_found | forbidden | too_early
+create or replace function public.save_job_report(
+  p_job_id uuid,
+  p_dive_sites text[],
+  p_conditions text,
+  p_incidents text,
+  p_customer_no_show boolean
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_today date := (now() at time zone coalesce((select time_zone from public.app_settings limit 1), 'UTC'))::date;
+  v_date date;
+  v_report public.job_reports;
+begin
+  select date into v_date from public.jobs where id = p_job_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if not public.is_on_job(p_job_id) then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if v_date > v_today then
+    return jsonb_build_object('ok', false, 'reason', 'too_early');
+  end if;
+
+  insert into public.job_reports (job_id, guide_id, dive_sites, conditions, incidents, customer_no_show)
+  values (
+    p_job_id, auth.uid(),
+    array(select btrim(s) from unnest(coalesce(p_dive_sites, '{}')) s where btrim(s) <> ''),
+    nullif(btrim(p_conditions), ''),
+    nullif(btrim(p_incidents), ''),
+    coalesce(p_customer_no_show, false)
+  )
+  on conflict (job_id, guide_id) do update
+     set dive_sites = excluded.dive_sites,
+         conditions = excluded.conditions,
+         incidents = excluded.incidents,
+         customer_no_show = excluded.customer_no_show,
+         updated_at = now()
+  returning * into v_report;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'report', to_jsonb(v_report));
+end;
+$$;
+
+revoke all on function public.job_thread(uuid) from public;
+revoke all on function public.mark_job_messages_read(uuid) from public;
+revoke all on function public.save_job_report(uuid, text[], text, text, boolean) from public;
+grant execute on function public.job_thread(uuid) to authenticated;
+grant execute on function public.mark_job_messages_read(uuid) to authenticated;
+grant execute on function public.save_job_report(uuid, text[], text, text, boolean) to authenticated;
@@ -0,0 +1,202 @@
+-- 0023 dive logs and incident reports. Completing a job can now carry a short dive
+-- log (max depth, bottom time, gas, number of divers) and, when something happened,
+-- an incident report (type, severity, who was involved, what was done). With
+-- app_settings.require_dive_log on, a job can't be completed without its log, and a
+-- log that says something happened needs its incident report.
+--
+-- Dive logs are read by admins and the crew. Incidents are for admins only: they
+-- review them (open -> in_review -> closed) and export them for the insurer.
+
+-- 1) Setting (off by default, so existing shops complete jobs as before)
+alter table public.app_settings
+  add column if not exists require_dive_log boolean not null default false;
+
+-- 2) Dive logs, one per job. Only complete_job_v2 writes.
+create table if not exists public.dive_logs (
+  job_id uuid primary key references public.jobs(id) on delete cascade,
+  max_depth_m numeric(5,1) not null check (max_depth_m > 0 and max_depth_m <= 150),
+  bottom_time_min int not null check (bottom_time_min between 1 and 600),
+  gas text not null check (gas in ('air', 'nitrox', 'trimix', 'rebreather')),
+  diver_count int not null check (diver_count between 0 and 200),
+  had_incident boolean not null default false,
+  logged_by uuid references public.profiles(id) on delete set null,
+  logged_at timestamptz not null default now()
+);
+
+alter table public.dive_logs enable row level security;
+
+drop policy if exists "read dive logs admin or assigned guide" on public.dive_logs;
+create policy "read dive logs admin or assigned guide" on public.dive_logs
+  for select using (is_admin() or is_on_job(job_id));
+
+-- 3) Incidents. Kept when the job is deleted: the insurer may ask for them years on.
+-- Only complete_job_v2 and review_incident write.
+create table if not exists public.incidents (
+  id bigint generated always as identity primary key,
+  job_id uuid references public.jobs(id) on delete set null,
+  kind text not null check (kind in (
+    'injury', 'dci_suspected', 'equipment_failure', 'out_of_air', 'lost_diver', 'near_miss', 'other'
+  )),
+  severity text not null check (severity in ('minor', 'moderate', 'serious', 'critical')),
+  people_involved text not null check (length(btrim(people_involved)) between 1 and 2000),
+  actions_taken text not null check (length(btrim(actions_taken)) between 1 and 4000),
+  description text check (length(description) <= 4000),
+  reported_by uuid references public.profiles(id) on delete set null,
+  reported_at timestamptz not null default now(),
+  status text not null default 'open' check (status in ('open', 'in_review', 'closed')),
+  reviewed_by uuid references public.profiles(id) on delete set null,
+  reviewed_at timestamptz,
+  review_notes text
+);
+
+create index if not exists idx_incidents_reported_at on public.incidents(reported_at);
+create index if not exists idx_incidents_job_id on public.incidents(job_id);
+
+alter table public.incidents enable row level security;
+
+drop policy if exists "read incidents admin" on public.incidents;
+create policy "read incidents admin" on public.incidents
+  for select using (is_admin());
+
+revoke all on public.dive_logs from authenticated;
+revoke all on public.incidents from authenticated;
+grant select on public.dive_logs to authenticated;
+grant select on public.incidents to authenticated;
+
+-- 4) COMPLETE with a dive log and an incident report. Both are jsonb with the
+-- tables' column names ({max_depth_m, bottom_time_min, gas, diver_count,
+-- had_incident} and {kind, severity, people_involved, actions_taken, description});
+-- either may be null. Completing again replaces the log; each call with an
+-- incident files a new one.
+-- Returns job_result; reason: not_found | forbidden | dive_log_required |
+-- incident_required | invalid_dive_log | invalid_incident
+create or replace function public.complete_job_v2(p_job_id uuid, p_dive_log jsonb, p_incident jsonb default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_log public.dive_logs;
+  v_incident public.incidents;
+begin
+  perform 1 from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if not (public.is_admin() or public.is_on_job(p_job_id)) then
+    return public.job_result(false, 'forbidden', p_job_id);
+  end if;
+
+  -- Unknown keys are ignored; a value of the wrong type is invalid input, not an error
+  begin
+    v_log := jsonb_populate_record(null::public.dive_logs, p_dive_log);
+  exception when data_exception then
+    return public.job_result(false, 'invalid_dive_log', p_job_id);
+  end;
+  begin
+    v_incident := jsonb_populate_record(null::public.incidents, p_incident);
+  exception when data_exception then
+    return public.job_result(false, 'invalid_incident', p_job_id);
+  end;
+
+  if p_dive_log is null then
+    if (select require_dive_log from public.app_settings limit 1) then
+      return public.job_result(false, 'dive_log_required', p_job_id);
+    end if;
+  elsif v_log.max_depth_m is null or not (v_log.max_depth_m > 0 and v_log.max_depth_m <= 150)
+     or v_log.bottom_time_min is null or not v_log.bottom_time_min between 1 and 600
+     or v_log.gas is null or not v_log.gas in ('air', 'nitrox', 'trimix', 'rebreather')
+     or v_log.diver_count is null or not v_log.diver_count between 0 and 200 then
+    return public.job_result(false, 'invalid_dive_log', p_job_id);
+  end if;
+
+  if p_incident is null then
+    if coalesce(v_log.had_incident, false) then
+      return public.job_result(false, 'incident_required', p_job_id);
+    end if;
+  elsif v_incident.kind is null
+     or not v_incident.kind in ('injury', 'dci_suspected', 'equipment_failure', 'out_of_air', 'lost_diver', 'near_miss', 'other')
+     or v_incident.severity is null or not v_incident.severity in ('minor', 'moderate', 'serious', 'critical')
+     or coalesce(btrim(v_incident.people_involved), '') = '' or length(v_incident.people_involved) > 2000
+     or coalesce(btrim(v_incident.actions_taken), '') = '' or length(v_incident.actions_taken) > 4000
+     or length(v_incident.description) > 4000 then
+    return public.job_result(false, 'invalid_incident', p_job_id);
+  end if;
+
+  update public.jobs
+     set status = 'complete'
+   where id = p_job_id;
+
+  if p_dive_log is not null then
+    insert into public.dive_logs (job_id, max_depth_m, bottom_time_min, gas, diver_count, had_incident, logged_by)
+    values (p_job_id, v_log.max_depth_m, v_log.bottom_time_min, v_log.gas, v_log.diver_count,
+            coalesce(v_log.had_incident, false) or p_incident is not null, auth.uid())
+    on conflict (job_id) do update
+       set max_depth_m = excluded.max_depth_m,
+           bottom_time_min = excluded.bottom_time_min,
+           gas = excluded.gas,
+           diver_count = excluded.diver_count,
+           had_incident = excluded.had_incident,
+           logged_by = excluded.logged_by,
+           logged_at = now();
+  end if;
+
+  if p_incident is not null then
+    insert into public.incidents (job_id, kind, severity, people_involved, actions_taken, description, reported_by)
+    values (p_job_id, v_incident.kind, v_incident.severity, btrim(v_incident.people_involved),
+            btrim(v_incident.actions_taken), nullif(btrim(v_incident.description), ''), auth.uid());
+  end if;
+
+  return public.job_result(true, null, p_job_id);
+end;
+$$;
+
+-- Without a log: the old call, still used by complete_job, set_job_status and older
+-- clients. Refused with dive_log_required when the setting is on.
+create or replace function public.complete_job_v2(p_job_id uuid)
+returns jsonb
+language sql
+security definer
+set search_path = public
+as $$
+  select public.complete_job_v2(p_job_id, null::jsonb, null::jsonb);
+$$;
+
+-- 5) REVIEW (admin): move an incident through open -> in_review -> closed (or back),
+-- with the reviewer's notes. Blank notes keep the current ones.
+-- Returns { ok, reason }; reason: forbidden | not_found | invalid_status
+create or replace function public.review_incident(p_incident_id bigint, p_status text, p_notes text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if p_status is null or not p_status in ('open', 'in_review', 'closed') then
+    return jsonb_build_object('ok', false, 'reason', 'invalid_status');
+  end if;
+
+  update public.incidents
+     set status = p_status,
+         review_notes = coalesce(nullif(btrim(p_notes), ''), review_notes),
+         reviewed_by = auth.uid(),
+         reviewed_at = now()
+   where id = p_incident_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  return jsonb_build_object('ok', true, 'reason', null);
+end;
+$$;
+
+revoke all on function public.complete_job_v2(uuid, jsonb, jsonb) from public;
+revoke all on function public.complete_job_v2(uuid) from public;
+revoke all on function public.review_incident(bigint, text, text) from public;
+grant execute on function public.complete_job_v2(uuid, jsonb, jsonb) to authenticated;
+grant execute on function public.complete_job_v2(uuid) to authenticated;
+grant execute on function public.review_incident(bigint, text, text) to authenticated;
@@ -0,0 +1,7 @@
+-- 0024 job_result is internal. It's security definer so the RPCs can return the row
+-- after their change, but Supabase's default privileges also let any signed-in user
+-- call it directly, and "revoke all ... from public" in 0004/0006 doesn't touch that
+-- grant. Called directly it returned any job and its crew's names, past the jobs RLS.
+-- Only the job RPCs (which run as the owner) call it now.
+
+revoke execute on function public.job_result(boolean, text, uuid, jsonb) from authenticated, anon;
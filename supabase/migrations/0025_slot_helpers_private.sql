@@ -0,0 +1,11 @@
+-- 0025 the slot and standby helpers are internal. They're security definer and skip
+-- every check the RPCs make (admin, certs, schedule, availability) as well as the job
+-- row lock the RPCs take first, but Supabase's default privileges let any signed-in
+-- user call them: a guide could put another guide on a job with fill_job_slot. Only
+-- the RPCs and triggers that run as the owner call them now.
+
+revoke execute on function public.fill_job_slot(uuid, uuid, boolean) from authenticated, anon;
+revoke execute on function public.sync_job_crew(uuid) from authenticated, anon;
+revoke execute on function public.advance_standby(uuid) from authenticated, anon;
+revoke execute on function public.renumber_standby(uuid) from authenticated, anon;
+revoke execute on function public.job_taken_slots(uuid, uuid) from authenticated, anon;
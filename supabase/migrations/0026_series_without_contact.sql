@@ -0,0 +1,72 @@
+-- 0026 series from a template without a customer. generate_series_jobs (0010, 0011)
+-- always added a job_contacts row from the template's customer, but customer_name is
+-- optional on templates and required on contacts, so a template with no customer
+-- failed with a not-null violation. The contact is added only when there's a name,
+-- as import_jobs does.
+
+create or replace function public.generate_series_jobs(
+  p_template_id uuid,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_ends_on date
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_t public.job_templates%rowtype;
+  v_series_id uuid;
+  v_job_id uuid;
+  v_day record;
+  v_created int := 0;
+  v_skipped int := 0;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  select * into v_t from public.job_templates where id = p_template_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if p_ends_on < p_starts_on or cardinality(p_weekdays) = 0 then
+    return jsonb_build_object('ok', false, 'reason', 'invalid_rule');
+  end if;
+
+  insert into public.job_series (template_id, weekdays, starts_on, ends_on, created_by)
+  values (p_template_id, p_weekdays, p_starts_on, p_ends_on, auth.uid())
+  returning id into v_series_id;
+
+  for v_day in
+    select * from public.preview_series_jobs(p_template_id, p_weekdays, p_starts_on, p_ends_on)
+  loop
+    if v_day.existing_job_id is not null then
+      v_skipped := v_skipped + 1;
+      continue;
+    end if;
+
+    insert into public.jobs (
+      title, date, call_time, dock_time, location, boat_id, requirements, pay, slots, notes,
+      status, created_by, series_id
+    ) values (
+      v_t.title, v_day.date, v_t.call_time, v_t.dock_time, v_t.location, v_t.boat_id,
+      v_t.requirements, v_t.pay, v_t.slots, v_t.notes,
+      'open', auth.uid(), v_series_id
+    )
+    returning id into v_job_id;
+
+    if nullif(btrim(v_t.customer_name), '') is not null then
+      insert into public.job_contacts (job_id, customer_name, customer_phone, customer_email)
+      values (v_job_id, btrim(v_t.customer_name), v_t.customer_phone, v_t.customer_email);
+    end if;
+
+    v_created := v_created + 1;
+  end loop;
+
+  return jsonb_build_object(
+    'ok', true, 'reason', null,
+    'series_id', v_series_id, 'created', v_created, 'skipped', v_skipped
+  );
+end;
+$$;
@@ -0,0 +1,23 @@
+-- 0027 guides' availability and schedules are private. guide_unavailability (0014)
+-- and guide_schedule_conflicts (0007) are security definer and were granted to every
+-- signed-in user, so any guide could read another guide's blackout dates, their notes
+-- and which jobs they hold. Both are internal now: claim, assign, rank_guides,
+-- standby offers and notifications call them as the owner, where the checks on who
+-- may act already ran. A caller only reads their own answer, through the
+-- my_unavailability computed column, which now runs as the owner for auth.uid().
+
+revoke execute on function public.guide_unavailability(uuid, uuid) from authenticated, anon;
+revoke execute on function public.guide_schedule_conflicts(uuid, uuid) from authenticated, anon;
+
+create or replace function public.my_unavailability(j public.jobs)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.guide_unavailability(auth.uid(), j.id);
+$$;
+
+revoke all on function public.my_unavailability(public.jobs) from public, anon;
+grant execute on function public.my_unavailability(public.jobs) to authenticated;
@@ -0,0 +1,14 @@
+-- 0028 the outbox functions are the dispatcher's. 0015 revoked them only from public,
+-- and Supabase's default privileges still let any signed-in user call them: a guide
+-- could queue a message with their own subject and body to another guide (sent from
+-- the shop's email and SMS accounts), or claim a batch of everyone's outbox and hold
+-- up delivery. Triggers call enqueue_notification as the owner; the dispatcher
+-- connects as the service role (or the database owner).
+
+revoke execute on function public.enqueue_notification(uuid, text, uuid, text, text) from authenticated, anon;
+revoke execute on function public.enqueue_job_reminders() from authenticated, anon;
+revoke execute on function public.next_notifications(int) from authenticated, anon;
+
+grant execute on function public.enqueue_notification(uuid, text, uuid, text, text) to service_role;
+grant execute on function public.enqueue_job_reminders() to service_role;
+grant execute on function public.next_notifications(int) to service_role;
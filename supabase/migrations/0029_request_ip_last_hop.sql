@@ -0,0 +1,13 @@
+-- 0029 request_ip() took the leftmost X-Forwarded-For entry. The client writes that one
+-- itself: sending a different made-up address each time reset the per-IP rate limits
+-- on the booking form. Each proxy appends the address it saw, so the rightmost entry
+-- is the one the API gateway added, and the only one a client can't choose.
+
+create or replace function public.request_ip()
+returns text
+language sql
+stable
+as $$
+  select nullif(trim(reverse(split_part(reverse(
+    coalesce(current_setting('request.headers', true), '{}')::json->>'x-forwarded-for'), ',', 1))), '');
+$$;
@@ -0,0 +1,20 @@
+-- 0031 signed-in access to functions. 0021 took everything away from anon; signed-in
+-- users still got every function in public through Supabase's default privileges,
+-- plus a few helpers earlier migrations granted on purpose. Those only serve other
+-- functions, and some answer questions about any guide (guide_missing_certs tells
+-- you which certs a colleague lacks). supabase/tests/claims.test.ts lists the
+-- security definer functions the authenticated role may run; anything new has to be
+-- granted explicitly and added there.
+
+-- 1) No execute by default for functions later migrations create
+alter default privileges in schema public revoke execute on functions from authenticated;
+
+-- 2) Internal helpers
+revoke execute on function public.guide_missing_certs(uuid, uuid) from authenticated, anon;
+revoke execute on function public.import_duplicate(jsonb) from authenticated, anon;
+revoke execute on function public.is_active_user(uuid) from authenticated, anon;
+revoke execute on function public.job_transition_allowed(job_status, job_status) from authenticated, anon;
+
+-- 3) The web app's series scope lookup (admin edits) runs with the caller's rights:
+-- jobs RLS decides what it lists. cancel_series_jobs calls it as the owner.
+alter function public.series_scope_jobs(uuid, text) security invoker;
@@ -0,0 +1,75 @@
+-- 0032 incidents belong in incident reports. job_reports.incidents (0022) was free
+-- text the whole crew could read, next to the admin-only incidents table (0023).
+-- What guides wrote there moves into incidents, one report each (kind other, with
+-- the people and actions marked as not recorded, for an admin to fill in during
+-- review); then the column and save_job_report's p_incidents go. Incidents are filed
+-- with Mark complete.
+
+-- 1) Move what's there
+do $$
+begin
+  if exists (select 1 from information_schema.columns
+              where table_schema = 'public' and table_name = 'job_reports' and column_name = 'incidents') then
+    insert into public.incidents (job_id, kind, severity, people_involved, actions_taken, description, reported_by, reported_at)
+    select r.job_id, 'other', 'minor',
+           '(not recorded: from a post-trip report)', '(not recorded: from a post-trip report)',
+           left(r.incidents, 4000), r.guide_id, r.updated_at
+      from public.job_reports r
+     where nullif(btrim(r.incidents), '') is not null;
+  end if;
+end;
+$$;
+
+drop function if exists public.save_job_report(uuid, text[], text, text, boolean);
+alter table public.job_reports drop column if exists incidents;
+
+-- 2) SAVE REPORT (guide on the job, from the trip's date on). Blank fields are stored
+-- as null, blank dive sites dropped.
+-- Returns { ok, reason, report }; reason: not_found | forbidden | too_early
+create or replace function public.save_job_report(
+  p_job_id uuid,
+  p_dive_sites text[],
+  p_conditions text,
+  p_customer_no_show boolean
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_today date := (now() at time zone coalesce((select time_zone from public.app_settings limit 1), 'UTC'))::date;
+  v_date date;
+  v_report public.job_reports;
+begin
+  select date into v_date from public.jobs where id = p_job_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+  if not public.is_on_job(p_job_id) then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden');
+  end if;
+  if v_date > v_today then
+    return jsonb_build_object('ok', false, 'reason', 'too_early');
+  end if;
+
+  insert into public.job_reports (job_id, guide_id, dive_sites, conditions, customer_no_show)
+  values (
+    p_job_id, auth.uid(),
+    array(select btrim(s) from unnest(coalesce(p_dive_sites, '{}')) s where btrim(s) <> ''),
+    nullif(btrim(p_conditions), ''),
+    coalesce(p_customer_no_show, false)
+  )
+  on conflict (job_id, guide_id) do update
+     set dive_sites = excluded.dive_sites,
+         conditions = excluded.conditions,
+         customer_no_show = excluded.customer_no_show,
+         updated_at = now()
+  returning * into v_report;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'report', to_jsonb(v_report));
+end;
+$$;
+
+revoke all on function public.save_job_report(uuid, text[], text, boolean) from public, anon;
+grant execute on function public.save_job_report(uuid, text[], text, boolean) to authenticated;
@@ -0,0 +1,105 @@
+-- 0033 a completion queued offline still delivers its dive log and incident report
+-- when a crewmate completed the job first. The app used to drop them without a word.
+-- complete_job_v2 on a job that is already complete now:
+-- - files the incident report, as for any completion
+-- - adds the dive log if the job has none; one already there is kept (dive_log_kept)
+-- - doesn't ask for a log when Settings require one: the job is done either way
+-- and says so with already_complete. Everything else is as in 0030.
+
+create or replace function public.complete_job_v2(p_job_id uuid, p_dive_log jsonb, p_incident jsonb default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status job_status;
+  v_done boolean;
+  v_log_kept boolean := false;
+  v_log public.dive_logs;
+  v_incident public.incidents;
+begin
+  select status into v_status from public.jobs where id = p_job_id for update;
+  if not found then
+    return public.job_result(false, 'not_found', p_job_id);
+  end if;
+  if not (public.is_admin() or public.is_on_job(p_job_id)) then
+    return public.job_result(false, 'forbidden', p_job_id);
+  end if;
+  if v_status = 'canceled' then
+    return public.job_result(false, 'not_open', p_job_id);
+  end if;
+  v_done := v_status = 'complete';
+
+  -- Unknown keys are ignored; a value of the wrong type is invalid input, not an error
+  begin
+    v_log := jsonb_populate_record(null::public.dive_logs, p_dive_log);
+  exception when data_exception then
+    return public.job_result(false, 'invalid_dive_log', p_job_id);
+  end;
+  begin
+    v_incident := jsonb_populate_record(null::public.incidents, p_incident);
+  exception when data_exception then
+    return public.job_result(false, 'invalid_incident', p_job_id);
+  end;
+
+  if p_dive_log is null then
+    if not v_done and (select require_dive_log from public.app_settings limit 1) then
+      return public.job_result(false, 'dive_log_required', p_job_id);
+    end if;
+  elsif v_log.max_depth_m is null or not (v_log.max_depth_m > 0 and v_log.max_depth_m <= 150)
+     or v_log.bottom_time_min is null or not v_log.bottom_time_min between 1 and 600
+     or v_log.gas is null or not v_log.gas in ('air', 'nitrox', 'trimix', 'rebreather')
+     or v_log.diver_count is null or not v_log.diver_count between 0 and 200 then
+    return public.job_result(false, 'invalid_dive_log', p_job_id);
+  end if;
+
+  if p_incident is null then
+    if coalesce(v_log.had_incident, false) then
+      return public.job_result(false, 'incident_required', p_job_id);
+    end if;
+  elsif v_incident.kind is null
+     or not v_incident.kind in ('injury', 'dci_suspected', 'equipment_failure', 'out_of_air', 'lost_diver', 'near_miss', 'other')
+     or v_incident.severity is null or not v_incident.severity in ('minor', 'moderate', 'serious', 'critical')
+     or coalesce(btrim(v_incident.people_involved), '') = '' or length(v_incident.people_involved) > 2000
+     or coalesce(btrim(v_incident.actions_taken), '') = '' or length(v_incident.actions_taken) > 4000
+     or length(v_incident.description) > 4000 then
+    return public.job_result(false, 'invalid_incident', p_job_id);
+  end if;
+
+  if not v_done then
+    update public.jobs
+       set status = 'complete'
+     where id = p_job_id;
+  end if;
+
+  if v_done and exists (select 1 from public.dive_logs where job_id = p_job_id) then
+    v_log_kept := p_dive_log is not null;
+    if p_incident is not null then
+      update public.dive_logs set had_incident = true where job_id = p_job_id;
+    end if;
+  elsif p_dive_log is not null then
+    insert into public.dive_logs (job_id, max_depth_m, bottom_time_min, gas, diver_count, had_incident, logged_by)
+    values (p_job_id, v_log.max_depth_m, v_log.bottom_time_min, v_log.gas, v_log.diver_count,
+            coalesce(v_log.had_incident, false) or p_incident is not null, auth.uid())
+    on conflict (job_id) do update
+       set max_depth_m = excluded.max_depth_m,
+           bottom_time_min = excluded.bottom_time_min,
+           gas = excluded.gas,
+           diver_count = excluded.diver_count,
+           had_incident = excluded.had_incident,
+           logged_by = excluded.logged_by,
+           logged_at = now();
+  end if;
+
+  if p_incident is not null then
+    insert into public.incidents (job_id, kind, severity, people_involved, actions_taken, description, reported_by)
+    values (p_job_id, v_incident.kind, v_incident.severity, btrim(v_incident.people_involved),
+            btrim(v_incident.actions_taken), nullif(btrim(v_incident.description), ''), auth.uid());
+  end if;
+
+  return public.job_result(true, null, p_job_id, case when v_done then
+    jsonb_build_object('already_complete', true, 'dive_log_kept', v_log_kept)
+  end);
+end;
+$$;
@@ -0,0 +1,54 @@
+-- 0034 the audit log leaves out jobs.search. The tsvector 0016 generates from title and
+-- notes changes with every edit to either, so log_job_event (0008) diffed it too:
+-- job_events.details carried the whole vector and the timeline read "edited title,
+-- search". It's left out like claimed_by/claimed_at; otherwise as in 0008.
+
+create or replace function public.log_job_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_action text;
+  v_details jsonb;
+  v_taken int;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.job_events (job_id, actor, action, new_status, new_claimed_by)
+    values (new.id, auth.uid(), 'created', new.status, new.claimed_by);
+    return new;
+  end if;
+
+  v_taken := public.job_taken_slots(new.id);
+
+  select jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+    into v_details
+    from jsonb_each(to_jsonb(new)) n
+    join jsonb_each(to_jsonb(old)) o using (key)
+   where n.value is distinct from o.value
+     and n.key not in ('claimed_by', 'claimed_at', 'search')
+     and not (
+       n.key = 'status'
+       and old.status in ('open', 'assigned')
+       and new.status = public.crew_status(old.status, v_taken, new.slots)
+     );
+  if v_details is null then
+    return new;
+  end if;
+
+  v_action := case
+    when new.status = 'canceled' and old.status <> 'canceled' then 'canceled'
+    when new.status = 'complete' and old.status <> 'complete' then 'completed'
+    when v_details ? 'status' then 'status_changed'
+    else 'edited'
+  end;
+
+  insert into public.job_events (
+    job_id, actor, action, old_status, new_status, old_claimed_by, new_claimed_by, details
+  ) values (
+    new.id, auth.uid(), v_action, old.status, new.status, old.claimed_by, new.claimed_by, v_details
+  );
+  return new;
+end;
+$$;
@@ -0,0 +1,8 @@
+-- 0035 admins can delete a job's contact. Jobs don't all have one (a series or an
+-- imported row without a customer), and clearing the customer fields in Edit Job now
+-- removes the row rather than failing on customer_name's not-null. 0002 only had
+-- select, insert and update policies, so the delete matched nothing.
+
+drop policy if exists "delete contacts admin only" on public.job_contacts;
+create policy "delete contacts admin only" on public.job_contacts
+  for delete using (is_admin());
@@ -0,0 +1,56 @@
+-- 0036 Create Job saves the job and its contact in one call. The web app inserted the
+-- job, then the contact, and deleted the job again when the contact failed; but no
+-- policy lets anyone delete jobs, so that cleanup matched nothing and left the job
+-- behind. Here both inserts share the call's transaction.
+-- p_job has the jobs columns the form edits, plus the contact fields:
+--   { title, date, call_time, dock_time, location, boat_id, pay, slots, requirements,
+--     notes, customer_name, customer_phone, customer_email }
+-- The contact is left out when there's no customer name, as in import_jobs (0017).
+
+-- 1) CREATE (admin): one open job (+ contact). Returns { ok, reason, job_id }.
+create or replace function public.create_job(p_job jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job_id uuid;
+begin
+  if not public.is_admin() then
+    return jsonb_build_object('ok', false, 'reason', 'forbidden', 'job_id', null);
+  end if;
+
+  insert into public.jobs (
+    title, date, call_time, dock_time, location, boat_id, requirements, pay, slots, notes,
+    status, created_by
+  ) values (
+    trim(p_job->>'title'),
+    (p_job->>'date')::date,
+    (p_job->>'call_time')::time,
+    nullif(p_job->>'dock_time', '')::time,
+    nullif(trim(p_job->>'location'), ''),
+    nullif(p_job->>'boat_id', '')::uuid,
+    case when jsonb_array_length(coalesce(nullif(p_job->'requirements', 'null'), '[]')) > 0
+         then array(select jsonb_array_elements_text(p_job->'requirements')) end,
+    (p_job->>'pay')::numeric,
+    greatest(1, coalesce((p_job->>'slots')::int, 1)),
+    nullif(p_job->>'notes', ''),
+    'open', auth.uid()
+  )
+  returning id into v_job_id;
+
+  if nullif(trim(p_job->>'customer_name'), '') is not null then
+    insert into public.job_contacts (job_id, customer_name, customer_phone, customer_email)
+    values (
+      v_job_id, trim(p_job->>'customer_name'),
+      nullif(trim(p_job->>'customer_phone'), ''), nullif(trim(p_job->>'customer_email'), '')
+    );
+  end if;
+
+  return jsonb_build_object('ok', true, 'reason', null, 'job_id', v_job_id);
+end;
+$$;
+
+revoke all on function public.create_job(jsonb) from public, anon;
+grant execute on function public.create_job(jsonb) to authenticated;
@@ -0,0 +1,80 @@
+-- 0037 signed-in users can only ask whether they themselves are on a job. 0006 made
+-- is_on_job(job, guide default auth.uid()) one function so the RLS policies could call
+-- is_on_job(job_id), and granted it to authenticated, which let any guide ask about any
+-- other guide's jobs. It's split in two:
+--   is_on_job(job)         the caller; for the policies and the client, granted
+--   is_on_job(job, guide)  anyone; only the definer RPCs (fill_job_slot, rank_guides) call it
+-- The old function can't just lose its default (Postgres won't drop one in place), and a
+-- one-argument overload next to it would make is_on_job(job_id) ambiguous. So it's
+-- renamed out of the way, the policies are pointed at the new one, and it's dropped.
+
+-- 1) Set the old function aside (the policies follow it by oid until step 3)
+do $$
+begin
+  if exists (
+    select 1 from pg_proc
+     where oid = to_regprocedure('public.is_on_job(uuid, uuid)') and pronargdefaults > 0
+  ) then
+    alter function public.is_on_job(uuid, uuid) rename to is_on_job_0006;
+  end if;
+end $$;
+
+-- 2) The two functions
+create or replace function public.is_on_job(p_job_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.claims
+     where job_id = p_job_id and guide_id = auth.uid()
+  );
+$$;
+
+revoke all on function public.is_on_job(uuid) from public, anon;
+grant execute on function public.is_on_job(uuid) to authenticated;
+
+create or replace function public.is_on_job(p_job_id uuid, p_guide_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.claims
+     where job_id = p_job_id and guide_id = p_guide_id
+  );
+$$;
+
+revoke all on function public.is_on_job(uuid, uuid) from public, anon, authenticated;
+
+-- 3) Policies, as they were, now on is_on_job(job)
+alter policy "read open or own assignments" on public.jobs
+  using (status in ('open', 'assigned') or is_on_job(id) or is_admin());
+
+alter policy "read own claims or admin" on public.claims
+  using (guide_id = auth.uid() or is_admin() or is_on_job(job_id));
+
+alter policy "read contacts admin or assigned guide" on public.job_contacts
+  using (is_admin() or is_on_job(job_id));
+
+alter policy "read events admin or assigned guide" on public.job_events
+  using (is_admin() or is_on_job(job_id));
+
+alter policy "read messages admin or assigned guide" on public.job_messages
+  using (is_admin() or is_on_job(job_id));
+
+alter policy "post messages admin or assigned guide" on public.job_messages
+  with check (author_id = auth.uid() and (is_admin() or is_on_job(job_id)));
+
+alter policy "read reports admin or assigned guide" on public.job_reports
+  using (is_admin() or is_on_job(job_id));
+
+alter policy "read dive logs admin or assigned guide" on public.dive_logs
+  using (is_admin() or is_on_job(job_id));
+
+-- Fails if anything still depends on it
+drop function if exists public.is_on_job_0006(uuid, uuid);
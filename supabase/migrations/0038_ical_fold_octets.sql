@@ -0,0 +1,32 @@
+-- 0038 the calendar feed folds lines by octets. RFC 5545 caps a content line at 75
+-- octets, not characters; 0013's ical_fold cut every 74 characters, so a title or
+-- location in accented letters, emoji or a guide's name in another script ran past
+-- the limit, and strict calendar clients dropped or mangled the event. Each output
+-- line now holds at most 75 octets (a continuation line's leading space included),
+-- and a multibyte character is never split.
+
+create or replace function public.ical_fold(p_line text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  v_out text := '';
+  v_octets int := 0;  -- on the current output line
+  v_char text;
+begin
+  if p_line is null then
+    return null;
+  end if;
+  foreach v_char in array regexp_split_to_array(p_line, '')
+  loop
+    if v_octets + octet_length(v_char) > 75 then
+      v_out := v_out || E'\r\n ';
+      v_octets := 1;
+    end if;
+    v_out := v_out || v_char;
+    v_octets := v_octets + octet_length(v_char);
+  end loop;
+  return v_out;
+end;
+$$;
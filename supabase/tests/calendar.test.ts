@@ -0,0 +1,39 @@
+// calendar.test.ts — the guide's iCalendar feed, as a phone calendar fetches it
+
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { setupTestDb, type Session, type TestDb } from "./harness";
+
+let db: TestDb;
+let guide: string;
+let anon: Session;
+
+before(async () => {
+  db = await setupTestDb();
+  const admin = await db.session(await db.createUser("Ada Admin", "admin"));
+  guide = await db.createUser("Zoë Ångström");
+  anon = await db.session(null);
+
+  const job = await db.createJob(guide, { title: "Tauchgänge am Riff 🐠 ".repeat(6).trim() });
+  assert.equal((await admin.rpc("assign_job_v2", { p_job_id: job, p_guide_id: guide })).ok, true);
+});
+
+after(async () => {
+  await db?.close();
+});
+
+async function feed(): Promise<string> {
+  const token = await (await db.session(guide)).rpc("calendar_feed_token");
+  return anon.rpc("ical_feed", { p_token: token });
+}
+
+// RFC 5545 3.1: content lines are at most 75 octets, folded with CRLF + space
+test("lines are folded at 75 octets without splitting a character", async () => {
+  const ics = await feed();
+  const lines = ics.split("\r\n");
+  for (const line of lines) assert.ok(Buffer.byteLength(line) <= 75, `${Buffer.byteLength(line)} octets: ${line}`);
+
+  const unfolded = ics.replace(/\r\n /g, "").split("\r\n");
+  assert.ok(unfolded.includes(`SUMMARY:${"Tauchgänge am Riff 🐠 ".repeat(6).trim()}`));
+  assert.ok(unfolded.includes("X-WR-CALNAME:Dive jobs · Zoë Ångström"));
+});
@@ -0,0 +1,300 @@
+// claims.test.ts — claim races, who may claim, unclaim, assign, complete and cancel, and
+// which security definer functions signed-in users may call at all
+
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { setupTestDb, sqlState, type Session, type TestDb } from "./harness";
+
+let db: TestDb;
+let adminId: string;
+let admin: Session;
+let guides: { id: string; s: Session }[];
+let anon: Session;
+
+before(async () => {
+  db = await setupTestDb();
+  adminId = await db.createUser("Ada Admin", "admin");
+  admin = await db.session(adminId);
+  guides = [];
+  for (let i = 1; i <= 10; i++) {
+    const id = await db.createUser(`Guide ${i}`);
+    guides.push({ id, s: await db.session(id) });
+  }
+  anon = await db.session(null);
+});
+
+after(async () => {
+  await db?.close();
+});
+
+async function crewOf(jobId: string) {
+  const { rows } = await db.admin.query<{ guide_id: string }>(
+    "select guide_id from public.claims where job_id = $1 order by created_at",
+    [jobId]
+  );
+  return rows.map((r) => r.guide_id);
+}
+
+async function jobRow(jobId: string) {
+  const { rows } = await db.admin.query("select status, claimed_by from public.jobs where id = $1", [jobId]);
+  return rows[0];
+}
+
+test("the RPCs the web app calls exist", async () => {
+  const signatures = [
+    "claim_job_v2(uuid)",
+    "unclaim_job_v2(uuid, uuid)",
+    "assign_job_v2(uuid, uuid, boolean)",
+    "complete_job_v2(uuid)",
+    "complete_job_v2(uuid, jsonb, jsonb)",
+    "cancel_job_v2(uuid)",
+    "set_job_status(uuid, job_status)",
+    "claim_job(uuid)",
+    "unclaim_job(uuid)",
+    "assign_job(uuid, uuid)",
+    "complete_job(uuid)",
+    "cancel_job(uuid)",
+    "job_guides(uuid[])",
+  ];
+  const { rows } = await db.admin.query<{ sig: string }>(
+    "select sig from unnest($1::text[]) sig where to_regprocedure('public.' || sig) is null",
+    [signatures]
+  );
+  assert.deepEqual(rows.map((r) => r.sig), []);
+});
+
+// Security definer functions run with the owner's rights, so each one signed-in users
+// can call is an API of its own. A new one must be added here on purpose.
+test("signed-in users can run only the security definer functions meant for them", async () => {
+  const { rows } = await db.admin.query<{ fn: string }>(
+    `select p.oid::regprocedure::text as fn
+       from pg_proc p
+      where p.pronamespace = 'public'::regnamespace
+        and p.prosecdef
+        and p.prorettype <> 'trigger'::regtype
+        and has_function_privilege('authenticated', p.oid, 'execute')
+      order by 1`
+  );
+  assert.deepEqual(rows.map((r) => r.fn), [
+    "approve_booking_request(uuid,text,date,time without time zone,time without time zone,text,uuid,numeric,integer,text[],text)",
+    "assign_job(uuid,uuid)",
+    "assign_job_v2(uuid,uuid,boolean)",
+    "booking_challenge()",
+    "booking_request_status(uuid)",
+    "calendar_feed_token(boolean)",
+    "cancel_job(uuid)",
+    "cancel_job_v2(uuid)",
+    "cancel_series_jobs(uuid,text)",
+    "claim_job(uuid)",
+    "claim_job_v2(uuid)",
+    "clear_standby(uuid)",
+    "complete_job(uuid)",
+    "complete_job_v2(uuid)",
+    "complete_job_v2(uuid,jsonb,jsonb)",
+    "create_job(jsonb)",
+    "decide_drop(bigint,boolean)",
+    "decline_booking_request(uuid,text)",
+    "expire_standby_offers()",
+    "generate_series_jobs(uuid,smallint[],date,date)",
+    "ical_feed(uuid)",
+    "import_jobs(jsonb)",
+    "invite_user(text,text,text)",
+    "is_admin()",
+    "is_on_job(uuid)",
+    "job_guides(uuid[])",
+    "job_next_statuses(uuid)",
+    "job_thread(uuid)",
+    "join_standby(uuid)",
+    "leave_standby(uuid,uuid)",
+    "list_users()",
+    "mark_job_messages_read(uuid)",
+    "mark_period_paid(date,date)",
+    "my_unavailability(jobs)",
+    "preview_job_import(jsonb)",
+    "preview_series_jobs(uuid,smallint[],date,date)",
+    "rank_guides(uuid)",
+    "reorder_standby(uuid,uuid[])",
+    "request_drop(uuid,text)",
+    "review_incident(bigint,text,text)",
+    "save_job_report(uuid,text[],text,boolean)",
+    "set_job_status(uuid,job_status)",
+    "set_user_active(uuid,boolean,boolean)",
+    "set_user_role(uuid,text)",
+    "submit_booking_request(uuid,integer,text,text,text,integer,date,text,text)",
+    "unclaim_job(uuid)",
+    "unclaim_job_v2(uuid,uuid)",
+    "withdraw_drop(bigint)",
+  ]);
+});
+
+describe("claim races", () => {
+  test("concurrent claim_job on a one-guide job: exactly one wins", async () => {
+    const jobId = await db.createJob(adminId);
+    const results = await Promise.all(guides.map((g) => g.s.rpc<boolean>("claim_job", { p_job_id: jobId })));
+
+    assert.equal(results.filter(Boolean).length, 1);
+    const winner = guides[results.indexOf(true)].id;
+    assert.deepEqual(await crewOf(jobId), [winner]);
+    assert.deepEqual(await jobRow(jobId), { status: "assigned", claimed_by: winner });
+  });
+
+  test("concurrent claim_job_v2 on a three-guide job fills exactly three slots", async () => {
+    const jobId = await db.createJob(adminId, { slots: 3 });
+    const results = await Promise.all(guides.map((g) => g.s.rpc("claim_job_v2", { p_job_id: jobId })));
+
+    const winners = guides.filter((_, i) => results[i].ok).map((g) => g.id);
+    assert.equal(winners.length, 3);
+    assert.deepEqual(
+      [...new Set(results.filter((r) => !r.ok).map((r) => r.reason))],
+      ["already_claimed"]
+    );
+    assert.deepEqual((await crewOf(jobId)).sort(), winners.sort());
+    const job = await jobRow(jobId);
+    assert.equal(job.status, "assigned");
+    assert.ok(winners.includes(job.claimed_by));
+  });
+
+  test("the same guide claiming twice at once takes one slot", async () => {
+    const jobId = await db.createJob(adminId, { slots: 2 });
+    const twin = await db.session(guides[0].id);
+    const results = await Promise.all([guides[0].s, twin].map((s) => s.rpc("claim_job_v2", { p_job_id: jobId })));
+
+    assert.deepEqual(results.map((r) => r.ok).sort(), [false, true]);
+    assert.equal(results.find((r) => !r.ok).reason, "already_on_job");
+    assert.deepEqual(await crewOf(jobId), [guides[0].id]);
+    assert.equal((await jobRow(jobId)).status, "open");
+  });
+
+  test("claim and admin assign racing for the last slot: one of them wins", async () => {
+    const jobId = await db.createJob(adminId);
+    const [claimed, assigned] = await Promise.all([
+      guides[1].s.rpc("claim_job_v2", { p_job_id: jobId }),
+      admin.rpc("assign_job_v2", { p_job_id: jobId, p_guide_id: guides[2].id }),
+    ]);
+
+    assert.equal(Number(claimed.ok) + Number(assigned.ok), 1);
+    assert.equal((await crewOf(jobId)).length, 1);
+  });
+});
+
+describe("permissions", () => {
+  test("guide: claim and unclaim their own slot only", async () => {
+    const [g1, g2] = guides;
+    const jobId = await db.createJob(adminId, { slots: 2 });
+    assert.equal(await g1.s.rpc("claim_job", { p_job_id: jobId }), true);
+    assert.equal(await g2.s.rpc("claim_job", { p_job_id: jobId }), true);
+
+    const r = await g2.s.rpc("unclaim_job_v2", { p_job_id: jobId, p_guide_id: g1.id });
+    assert.equal(r.reason, "forbidden");
+    assert.equal(await g1.s.rpc("unclaim_job", { p_job_id: jobId }), true);
+    assert.deepEqual(await crewOf(jobId), [g2.id]);
+    assert.equal(await g1.s.rpc("unclaim_job", { p_job_id: jobId }), false); // nothing left to unclaim
+  });
+
+  test("guide: can't assign or cancel, and completes only jobs they're on", async () => {
+    const [g1, g2] = guides;
+    const jobId = await db.createJob(adminId);
+
+    assert.equal(await g1.s.rpc("assign_job", { p_job_id: jobId, p_guide_id: g1.id }), false);
+    assert.equal((await g1.s.rpc("assign_job_v2", { p_job_id: jobId, p_guide_id: g1.id })).reason, "forbidden");
+    assert.deepEqual(await crewOf(jobId), []);
+
+    assert.equal(await g1.s.rpc("claim_job", { p_job_id: jobId }), true);
+    assert.equal(await g2.s.rpc("cancel_job", { p_job_id: jobId }), false);
+    assert.equal(await g1.s.rpc("cancel_job", { p_job_id: jobId }), false);
+    assert.equal(await g2.s.rpc("complete_job", { p_job_id: jobId }), false);
+    assert.equal((await jobRow(jobId)).status, "assigned");
+
+    assert.equal(await g1.s.rpc("complete_job", { p_job_id: jobId }), true);
+    assert.equal((await jobRow(jobId)).status, "complete");
+  });
+
+  test("guide: can't fill a slot or touch the standby queue through the internal helpers", async () => {
+    const [g1, g2] = guides;
+    const jobId = await db.createJob(adminId);
+    const calls: [string, Record<string, unknown>][] = [
+      ["fill_job_slot", { p_job_id: jobId, p_guide_id: g2.id }],
+      ["sync_job_crew", { p_job_id: jobId }],
+      ["advance_standby", { p_job_id: jobId }],
+      ["renumber_standby", { p_job_id: jobId }],
+      ["job_taken_slots", { p_job_id: jobId }],
+    ];
+    for (const [fn, args] of calls) {
+      await assert.rejects(g1.s.rpc(fn, args), sqlState("42501"), fn);
+    }
+    assert.deepEqual(await crewOf(jobId), []);
+  });
+
+  test("admin: assign, unclaim anyone, complete and cancel", async () => {
+    const [g1, g2] = guides;
+    const jobId = await db.createJob(adminId, { slots: 2 });
+
+    assert.equal(await admin.rpc("assign_job", { p_job_id: jobId, p_guide_id: g1.id }), true);
+    assert.equal((await admin.rpc("assign_job_v2", { p_job_id: jobId, p_guide_id: g2.id })).ok, true);
+    assert.equal((await admin.rpc("unclaim_job_v2", { p_job_id: jobId, p_guide_id: g1.id })).ok, true);
+    assert.deepEqual(await crewOf(jobId), [g2.id]);
+
+    assert.equal(await admin.rpc("complete_job", { p_job_id: jobId }), true);
+    assert.deepEqual(await jobRow(jobId), { status: "complete", claimed_by: g2.id });
+
+    const other = await db.createJob(adminId);
+    assert.equal(await admin.rpc("assign_job", { p_job_id: other, p_guide_id: g1.id }), true);
+    assert.equal(await admin.rpc("cancel_job", { p_job_id: other }), true);
+    assert.deepEqual(await jobRow(other), { status: "canceled", claimed_by: null });
+    assert.deepEqual(await crewOf(other), []);
+  });
+
+  test("admin: a completed job can't be canceled, and a canceled one can't be completed", async () => {
+    const [g1] = guides;
+    const done = await db.createJob(adminId);
+    assert.equal(await admin.rpc("assign_job", { p_job_id: done, p_guide_id: g1.id }), true);
+    assert.equal(await admin.rpc("complete_job", { p_job_id: done }), true);
+
+    assert.equal((await admin.rpc("cancel_job_v2", { p_job_id: done })).reason, "not_open");
+    assert.equal((await admin.rpc("cancel_series_jobs", { p_job_id: done, p_scope: "this" })).canceled, 0);
+    assert.equal((await admin.rpc("set_job_status", { p_job_id: done, p_status: "canceled" })).reason, "illegal_transition");
+    await assert.rejects(admin.query("update public.jobs set status = 'canceled' where id = $1", [done]), sqlState("23514"));
+    assert.deepEqual(await jobRow(done), { status: "complete", claimed_by: g1.id });
+    assert.deepEqual(await crewOf(done), [g1.id]);
+
+    const canceled = await db.createJob(adminId, { status: "canceled" });
+    const log = { max_depth_m: 12, bottom_time_min: 40, gas: "air", diver_count: 4 };
+    assert.equal((await admin.rpc("complete_job_v2", { p_job_id: canceled, p_dive_log: log })).reason, "not_open");
+    assert.equal((await admin.rpc("complete_job_v2", { p_job_id: canceled })).reason, "not_open");
+    assert.deepEqual(await jobRow(canceled), { status: "canceled", claimed_by: null });
+    // Reinstating is still fine
+    assert.equal((await admin.rpc("set_job_status", { p_job_id: canceled, p_status: "open" })).ok, true);
+  });
+
+  test("admin: a canceled or completed job can't be assigned", async () => {
+    const canceled = await db.createJob(adminId, { status: "canceled" });
+    const r = await admin.rpc("assign_job_v2", { p_job_id: canceled, p_guide_id: guides[3].id });
+    assert.equal(r.reason, "not_open");
+
+    const done = await db.createJob(adminId);
+    assert.equal(await admin.rpc("complete_job", { p_job_id: done }), true);
+    assert.equal(await admin.rpc("assign_job", { p_job_id: done, p_guide_id: guides[3].id }), false);
+    assert.deepEqual(await crewOf(done), []);
+  });
+
+  test("anonymous: every job RPC is refused", async () => {
+    const jobId = await db.createJob(adminId);
+    const calls: [string, Record<string, unknown>][] = [
+      ["claim_job", { p_job_id: jobId }],
+      ["claim_job_v2", { p_job_id: jobId }],
+      ["unclaim_job", { p_job_id: jobId }],
+      ["unclaim_job_v2", { p_job_id: jobId }],
+      ["assign_job", { p_job_id: jobId, p_guide_id: guides[0].id }],
+      ["assign_job_v2", { p_job_id: jobId, p_guide_id: guides[0].id }],
+      ["complete_job", { p_job_id: jobId }],
+      ["complete_job_v2", { p_job_id: jobId }],
+      ["complete_job_v2", { p_job_id: jobId, p_dive_log: null }],
+      ["cancel_job", { p_job_id: jobId }],
+      ["cancel_job_v2", { p_job_id: jobId }],
+    ];
+    for (const [fn, args] of calls) {
+      await assert.rejects(anon.rpc(fn, args), sqlState("42501"), fn);
+    }
+    assert.deepEqual(await jobRow(jobId), { status: "open", claimed_by: null });
+  });
+});
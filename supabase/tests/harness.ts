@@ -0,0 +1,129 @@
+// harness.ts — SQL test fixtures: a scratch database with the local Supabase stubs and
+// every migration applied, plus sessions that act as a user the way PostgREST does
+// (role `authenticated` or `anon`, auth.uid() from request.jwt.claim.sub).
+//
+// DATABASE_URL points at a local Postgres server (default: `supabase start`); the
+// scratch database is created next to it and dropped by close().
+
+import { randomUUID } from "node:crypto";
+import pg from "pg";
+import { DEFAULT_URL, createScratchDatabase } from "../tools/db";
+import { applyMigrations } from "../tools/migrations";
+
+export type Role = "guide" | "admin";
+
+export type JobSeed = {
+  title?: string;
+  date?: string;       // default: a month out, one day later per job so guides never clash
+  call_time?: string;
+  slots?: number;
+  status?: "open" | "canceled";
+  requirements?: string[];
+};
+
+export type Session = {
+  userId: string | null; // null: anonymous
+  // select public.<fn>(<name> => <value>, ...); resolves to the function's result
+  rpc<T = any>(fn: string, args?: Record<string, unknown>): Promise<T>;
+  query<R extends pg.QueryResultRow = any>(sql: string, params?: unknown[]): Promise<R[]>;
+};
+
+export type TestDb = {
+  // Superuser connection: no RLS, no JWT. For fixtures and for checking what really changed.
+  admin: pg.Client;
+  createUser(name: string, role?: Role): Promise<string>;
+  createJob(createdBy: string, seed?: JobSeed): Promise<string>;
+  session(userId: string | null): Promise<Session>;
+  close(): Promise<void>;
+};
+
+const NAME = /^[a-z_][a-z0-9_]*$/;
+
+export async function setupTestDb(url = process.env.DATABASE_URL || DEFAULT_URL): Promise<TestDb> {
+  const scratch = await createScratchDatabase(url, "dive_test");
+  const clients: pg.Client[] = [];
+  const connect = async () => {
+    const c = new pg.Client({ connectionString: scratch.url });
+    await c.connect();
+    clients.push(c);
+    return c;
+  };
+
+  let admin: pg.Client;
+  try {
+    admin = await connect();
+    await applyMigrations(admin, { local: true });
+  } catch (e) {
+    await Promise.all(clients.map((c) => c.end()));
+    await scratch.drop();
+    throw e;
+  }
+
+  let jobCount = 0;
+
+  return {
+    admin,
+
+    async createUser(name, role = "guide") {
+      const id = randomUUID();
+      const email = `${name.toLowerCase().replace(/\W+/g, ".")}.${id.slice(0, 8)}@example.com`;
+      await admin.query(
+        "insert into auth.users (id, email, raw_user_meta_data) values ($1, $2, jsonb_build_object('full_name', $3::text))",
+        [id, email, name]
+      );
+      if (role === "admin") await admin.query("update public.profiles set role = 'admin' where id = $1", [id]);
+      return id;
+    },
+
+    async createJob(createdBy, seed = {}) {
+      jobCount += 1;
+      const { rows } = await admin.query<{ id: string }>(
+        `insert into public.jobs (title, date, call_time, slots, status, requirements, created_by)
+         values ($1, coalesce($2::date, current_date + 30 + $3::int), $4, $5, $6, $7, $8)
+         returning id`,
+        [
+          seed.title ?? `Test job ${jobCount}`,
+          seed.date ?? null,
+          jobCount,
+          seed.call_time ?? "08:00",
+          seed.slots ?? 1,
+          seed.status ?? "open",
+          seed.requirements ?? null,
+          createdBy,
+        ]
+      );
+      return rows[0].id;
+    },
+
+    async session(userId) {
+      const c = await connect();
+      await c.query(userId ? "set role authenticated" : "set role anon");
+      await c.query("select set_config('request.jwt.claim.sub', $1, false)", [userId ?? ""]);
+      return {
+        userId,
+        async rpc(fn, args = {}) {
+          const keys = Object.keys(args);
+          for (const k of [fn, ...keys]) if (!NAME.test(k)) throw new Error(`not a plain SQL name: ${k}`);
+          const { rows } = await c.query(
+            `select public.${fn}(${keys.map((k, i) => `${k} => $${i + 1}`).join(", ")}) as result`,
+            keys.map((k) => args[k])
+          );
+          return rows[0].result;
+        },
+        async query(sql, params) {
+          return (await c.query(sql, params)).rows;
+        },
+      };
+    },
+
+    async close() {
+      await Promise.all(clients.map((c) => c.end().catch(() => {})));
+      await scratch.drop();
+    },
+  };
+}
+
+// The SQLSTATE of a rejected query, for assert.rejects
+export function sqlState(code: string) {
+  return (e: any) => e?.code === code;
+}
@@ -0,0 +1,221 @@
+// notifications.test.ts — the notifications outbox: who may write to it, and how the
+// dispatcher drains it through stand-in transports
+
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { setupTestDb, sqlState, type Session, type TestDb } from "./harness";
+import { MAX_ATTEMPTS, dispatchBatch, retryDelaySeconds } from "../tools/notifications";
+import {
+  ExpiredSubscriptionError, NoAddressError, webPushTransport, type Message, type SendReport, type Transport,
+} from "../tools/transports";
+import webpush from "web-push";
+
+let db: TestDb;
+let ids: { admin: string; g1: string; g2: string };
+let as: { admin: Session; g1: Session };
+
+before(async () => {
+  db = await setupTestDb();
+  ids = {
+    admin: await db.createUser("Ada Admin", "admin"),
+    g1: await db.createUser("Gil One"),
+    g2: await db.createUser("Gwen Two"),
+  };
+  as = { admin: await db.session(ids.admin), g1: await db.session(ids.g1) };
+});
+
+after(async () => {
+  await db?.close();
+});
+
+async function outbox() {
+  const { rows } = await db.admin.query("select guide_id, subject, status from public.notifications order by id");
+  return rows;
+}
+
+describe("permissions", () => {
+  test("signed-in users can't queue messages or claim the outbox", async () => {
+    await db.admin.query(
+      "insert into public.notifications (guide_id, kind, channel, subject, body) values ($1, 'assigned', 'email', 'Real', 'x')",
+      [ids.g2]
+    );
+    for (const s of [as.g1, as.admin]) {
+      await assert.rejects(
+        s.rpc("enqueue_notification", { p_guide_id: ids.g2, p_kind: "assigned", p_job_id: null, p_subject: "Fake", p_body: "x" }),
+        sqlState("42501")
+      );
+      await assert.rejects(s.rpc("next_notifications", { p_limit: 100 }), sqlState("42501"));
+      await assert.rejects(s.rpc("enqueue_job_reminders"), sqlState("42501"));
+    }
+    assert.deepEqual(await outbox(), [{ guide_id: ids.g2, subject: "Real", status: "pending" }]);
+  });
+});
+
+// Records what it was handed and answers with whatever the test says
+function fake(answer: (msg: Message) => SendReport | void = () => {}): Transport & { sent: Message[] } {
+  const sent: Message[] = [];
+  return {
+    name: "fake",
+    sent,
+    async send(msg) {
+      sent.push(msg);
+      return answer(msg);
+    },
+  };
+}
+
+async function queue(channel: "email" | "sms" | "push", seed: { attempts?: number } = {}): Promise<string> {
+  const { rows } = await db.admin.query(
+    `insert into public.notifications (guide_id, kind, channel, subject, body, attempts)
+     values ($1, 'assigned', $2, 'You are on a job', 'x', $3) returning id`,
+    [ids.g1, channel, seed.attempts ?? 0]
+  );
+  return rows[0].id;
+}
+
+async function row(id: string) {
+  const { rows } = await db.admin.query(
+    `select status, attempts, last_error,
+            round(extract(epoch from next_attempt_at - updated_at))::int as delay
+       from public.notifications where id = $1`,
+    [id]
+  );
+  return rows[0];
+}
+
+async function pushEndpoints(): Promise<string[]> {
+  const { rows } = await db.admin.query("select endpoint from public.push_subscriptions order by endpoint");
+  return rows.map((r) => r.endpoint);
+}
+
+describe("dispatch", () => {
+  beforeEach(async () => {
+    await db.admin.query("delete from public.notifications");
+    await db.admin.query("delete from public.push_subscriptions");
+  });
+
+  test("backoff doubles from a minute and stops at an hour", () => {
+    assert.deepEqual([1, 2, 3, 4, 8].map(retryDelaySeconds), [60, 120, 240, 480, 3600]);
+  });
+
+  test("a send that goes through marks the row sent", async () => {
+    const email = fake();
+    const id = await queue("email");
+    const r = await dispatchBatch(db.admin, { email, sms: fake(), push: fake() });
+    assert.equal(r.sent, 1);
+    assert.equal(email.sent.length, 1);
+    assert.match(email.sent[0].email!, /^gil\.one\./);
+    assert.equal((await row(id)).status, "sent");
+  });
+
+  test("a failed send goes back in the queue with a growing delay", async () => {
+    const sms = fake(() => { throw new Error("carrier down"); });
+    const id = await queue("sms");
+
+    let r = await dispatchBatch(db.admin, { email: fake(), sms, push: fake() });
+    assert.equal(r.retried, 1);
+    assert.deepEqual(await row(id), { status: "pending", attempts: 1, last_error: "carrier down", delay: 60 });
+
+    // Not due yet: left alone
+    await dispatchBatch(db.admin, { email: fake(), sms, push: fake() });
+    assert.equal(sms.sent.length, 1);
+
+    await db.admin.query("update public.notifications set next_attempt_at = now() where id = $1", [id]);
+    r = await dispatchBatch(db.admin, { email: fake(), sms, push: fake() });
+    assert.equal(r.retried, 1);
+    assert.deepEqual(await row(id), { status: "pending", attempts: 2, last_error: "carrier down", delay: 120 });
+  });
+
+  test("the last attempt that fails marks the row failed", async () => {
+    const id = await queue("sms", { attempts: MAX_ATTEMPTS - 1 });
+    const r = await dispatchBatch(db.admin, { email: fake(), sms: fake(() => { throw new Error("carrier down"); }), push: fake() });
+    assert.equal(r.failed, 1);
+    const { status, attempts, last_error } = await row(id);
+    assert.deepEqual({ status, attempts, last_error }, { status: "failed", attempts: MAX_ATTEMPTS, last_error: "carrier down" });
+  });
+
+  test("no address for the channel skips the row without retrying", async () => {
+    const id = await queue("sms");
+    const r = await dispatchBatch(db.admin, { email: fake(), sms: fake(() => { throw new NoAddressError("no phone number"); }), push: fake() });
+    assert.deepEqual([r.skipped, r.retried], [1, 0]);
+    assert.equal((await row(id)).status, "skipped");
+  });
+
+  test("push: an expired device is deleted, and the message isn't resent to the one that got it", async () => {
+    await db.admin.query(
+      `insert into public.push_subscriptions (guide_id, endpoint, p256dh, auth)
+       values ($1, 'https://push.test/live', 'k', 'a'), ($1, 'https://push.test/gone', 'k', 'a')`,
+      [ids.g1]
+    );
+    const push = fake(() => ({ expired: ["https://push.test/gone"] }));
+    const first = await queue("push");
+    const second = await queue("push");
+
+    const r = await dispatchBatch(db.admin, { email: fake(), sms: fake(), push });
+    assert.equal(r.sent, 2);
+    assert.equal((await row(first)).status, "sent");
+    assert.equal((await row(second)).status, "sent");
+    assert.deepEqual(await pushEndpoints(), ["https://push.test/live"]);
+    // The second message no longer goes to the deleted device
+    assert.deepEqual(push.sent.map((m) => m.push.map((p) => p.endpoint).sort()), [
+      ["https://push.test/gone", "https://push.test/live"],
+      ["https://push.test/live"],
+    ]);
+  });
+
+  test("push: when every device has expired they're deleted and the row is retried", async () => {
+    await db.admin.query(
+      "insert into public.push_subscriptions (guide_id, endpoint, p256dh, auth) values ($1, 'https://push.test/gone', 'k', 'a')",
+      [ids.g1]
+    );
+    const id = await queue("push");
+    const r = await dispatchBatch(db.admin, {
+      email: fake(),
+      sms: fake(),
+      push: fake((m) => { throw new ExpiredSubscriptionError(m.push.map((p) => p.endpoint)); }),
+    });
+    assert.equal(r.retried, 1);
+    assert.equal((await row(id)).status, "pending");
+    assert.deepEqual(await pushEndpoints(), []);
+  });
+});
+
+describe("web push transport", () => {
+  const real = webpush.sendNotification;
+  after(() => {
+    webpush.sendNotification = real;
+  });
+
+  // Each endpoint answers with its own status code; 201 is delivered
+  function devices(codes: Record<string, number>) {
+    webpush.sendNotification = (async (sub: { endpoint: string }) => {
+      const statusCode = codes[sub.endpoint];
+      if (statusCode !== 201) throw Object.assign(new Error(`status ${statusCode}`), { statusCode });
+      return { statusCode, body: "", headers: {} };
+    }) as typeof webpush.sendNotification;
+    return Object.keys(codes).map((endpoint) => ({ endpoint, p256dh: "k", auth: "a" }));
+  }
+
+  const keys = webpush.generateVAPIDKeys();
+  const transport = webPushTransport(keys.publicKey, keys.privateKey, "mailto:ops@example.com");
+  const message = (push: Message["push"]): Message => ({
+    id: 1, channel: "push", subject: "s", body: "b", jobId: null, email: null, phone: null, push,
+  });
+
+  test("one device getting it is a send; the expired ones are reported", async () => {
+    const report = await transport.send(message(devices({ a: 201, b: 410, c: 404 })));
+    assert.deepEqual(report, { expired: ["b", "c"] });
+  });
+
+  test("nothing delivered and a device gone: an expired-subscription failure", async () => {
+    await assert.rejects(transport.send(message(devices({ a: 500, b: 410 }))), (e: unknown) => {
+      assert.ok(e instanceof ExpiredSubscriptionError);
+      assert.deepEqual(e.endpoints, ["b"]);
+      return true;
+    });
+  });
+
+  test("nothing delivered: the last error", async () => {
+    await assert.rejects(transport.send(message(devices({ a: 500 }))), /status 500/);
+  });
+});
@@ -0,0 +1,521 @@
+// rls.test.ts — who can see and write rows in profiles, jobs, claims, availability, job_contacts and
+// the job threads, post-trip reports, dive logs and incidents
+
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { setupTestDb, sqlState, type Session, type TestDb } from "./harness";
+
+let db: TestDb;
+let ids: { admin: string; g1: string; g2: string };
+let as: { admin: Session; g1: Session; g2: Session; anon: Session };
+// open: nobody on it; assigned/complete: g1's; canceled: was g1's
+let jobs: { open: string; assigned: string; complete: string; canceled: string };
+
+before(async () => {
+  db = await setupTestDb();
+  ids = {
+    admin: await db.createUser("Ada Admin", "admin"),
+    g1: await db.createUser("Gil One"),
+    g2: await db.createUser("Gwen Two"),
+  };
+  as = {
+    admin: await db.session(ids.admin),
+    g1: await db.session(ids.g1),
+    g2: await db.session(ids.g2),
+    anon: await db.session(null),
+  };
+
+  jobs = {
+    open: await db.createJob(ids.admin, { title: "open" }),
+    assigned: await db.createJob(ids.admin, { title: "assigned" }),
+    complete: await db.createJob(ids.admin, { title: "complete" }),
+    canceled: await db.createJob(ids.admin, { title: "canceled" }),
+  };
+  for (const id of [jobs.assigned, jobs.complete, jobs.canceled]) {
+    assert.equal((await as.admin.rpc("assign_job_v2", { p_job_id: id, p_guide_id: ids.g1 })).ok, true);
+  }
+  assert.equal((await as.admin.rpc("complete_job_v2", { p_job_id: jobs.complete })).ok, true);
+  assert.equal((await as.admin.rpc("cancel_job_v2", { p_job_id: jobs.canceled })).ok, true);
+
+  for (const [title, id] of Object.entries(jobs)) {
+    await db.admin.query(
+      "insert into public.job_contacts (job_id, customer_name, customer_phone) values ($1, $2, '555-0100')",
+      [id, `Customer for ${title}`]
+    );
+  }
+});
+
+after(async () => {
+  await db?.close();
+});
+
+async function titles(s: Session) {
+  const rows = await s.query<{ title: string }>("select title from public.jobs order by title");
+  return rows.map((r) => r.title);
+}
+
+async function contactJobs(s: Session) {
+  const rows = await s.query<{ title: string }>(
+    "select j.title from public.job_contacts c join public.jobs j on j.id = c.job_id order by j.title"
+  );
+  return rows.map((r) => r.title);
+}
+
+describe("profiles", () => {
+  // A policy on profiles that reads profiles (say, an inline admin check) recurses and
+  // fails every query that touches the table
+  test("a guide reads their own profile, and the query doesn't recurse", async () => {
+    const rows = await as.g1.query("select id, role from public.profiles");
+    assert.deepEqual(rows, [{ id: ids.g1, role: "guide" }]);
+  });
+
+  test("an admin reads every profile", async () => {
+    const rows = await as.admin.query("select id from public.profiles");
+    assert.deepEqual(rows.map((r) => r.id).sort(), Object.values(ids).sort());
+  });
+
+  test("a guide can rename themselves but not promote themselves", async () => {
+    await as.g2.query("update public.profiles set full_name = 'Gwen 2' where id = $1", [ids.g2]);
+    await assert.rejects(
+      as.g2.query("update public.profiles set role = 'admin' where id = $1", [ids.g2]),
+      sqlState("42501")
+    );
+    const { rows } = await db.admin.query("select full_name, role from public.profiles where id = $1", [ids.g2]);
+    assert.deepEqual(rows[0], { full_name: "Gwen 2", role: "guide" });
+  });
+
+  test("a guide can't edit someone else's profile", async () => {
+    const changed = await as.g2.query("update public.profiles set full_name = 'x' where id = $1 returning id", [ids.g1]);
+    assert.deepEqual(changed, []);
+  });
+});
+
+describe("jobs", () => {
+  test("admins see every job", async () => {
+    assert.deepEqual(await titles(as.admin), ["assigned", "canceled", "complete", "open"]);
+  });
+
+  test("guides see open and assigned jobs, plus finished ones they worked", async () => {
+    assert.deepEqual(await titles(as.g1), ["assigned", "complete", "open"]);
+    assert.deepEqual(await titles(as.g2), ["assigned", "open"]);
+  });
+
+  test("guides can't create, edit or delete jobs", async () => {
+    await assert.rejects(
+      as.g1.query("insert into public.jobs (title, date, call_time, created_by) values ('mine', current_date + 1, '08:00', $1)", [ids.g1]),
+      sqlState("42501")
+    );
+    assert.deepEqual(await as.g1.query("update public.jobs set pay = 1000 where id = $1 returning id", [jobs.assigned]), []);
+    assert.deepEqual(await as.g1.query("delete from public.jobs where id = $1 returning id", [jobs.open]), []);
+    const { rows } = await db.admin.query("select count(*)::int as n from public.jobs where pay = 1000");
+    assert.equal(rows[0].n, 0);
+  });
+
+  test("guides can't read a job they can't see through job_result", async () => {
+    await assert.rejects(
+      as.g2.rpc("job_result", { p_ok: true, p_reason: null, p_job_id: jobs.complete }),
+      sqlState("42501")
+    );
+  });
+
+  test("an admin's edit is audited with just the columns they changed", async () => {
+    const id = await db.createJob(ids.admin, { title: "before" });
+    await as.admin.query("update public.jobs set title = 'after' where id = $1", [id]);
+    const { rows } = await db.admin.query(
+      "select action, details from public.job_events where job_id = $1 and action = 'edited'", [id]
+    );
+    assert.deepEqual(rows, [{ action: "edited", details: { title: { old: "before", new: "after" } } }]);
+  });
+
+  test("create_job adds an open job with its contact, if it has a customer, for admins only", async () => {
+    const job = { title: "Created", date: "2031-08-01", call_time: "08:00", requirements: null, pay: null, slots: 2 };
+    const withCustomer = await as.admin.rpc("create_job", { p_job: JSON.stringify({ ...job, customer_name: " Pat ", customer_phone: "" }) });
+    const without = await as.admin.rpc("create_job", { p_job: JSON.stringify({ ...job, date: "2031-08-02" }) });
+    assert.equal(withCustomer.ok && without.ok, true);
+
+    const { rows } = await db.admin.query(
+      `select j.date::text, j.status, j.slots, j.created_by, c.customer_name, c.customer_phone
+         from public.jobs j left join public.job_contacts c on c.job_id = j.id
+        where j.id = any($1) order by j.date`,
+      [[withCustomer.job_id, without.job_id]]
+    );
+    assert.deepEqual(rows, [
+      { date: "2031-08-01", status: "open", slots: 2, created_by: ids.admin, customer_name: "Pat", customer_phone: null },
+      { date: "2031-08-02", status: "open", slots: 2, created_by: ids.admin, customer_name: null, customer_phone: null },
+    ]);
+
+    assert.deepEqual(await as.g1.rpc("create_job", { p_job: JSON.stringify({ ...job, title: "Guide's" }) }),
+      { ok: false, reason: "forbidden", job_id: null });
+    const { rows: guides } = await db.admin.query("select count(*)::int as n from public.jobs where title = 'Guide''s'");
+    assert.equal(guides[0].n, 0);
+    // Gone again, so the job_contacts tests below see just the four fixtures
+    await db.admin.query("delete from public.jobs where id = any($1)", [[withCustomer.job_id, without.job_id]]);
+  });
+});
+
+describe("claims", () => {
+  test("guides see the crew on their own jobs only; admins see all", async () => {
+    const g1 = await as.g1.query("select job_id from public.claims order by job_id");
+    assert.deepEqual(g1.map((r) => r.job_id).sort(), [jobs.assigned, jobs.complete].sort());
+    assert.deepEqual(await as.g2.query("select job_id from public.claims"), []);
+    const all = await as.admin.query("select job_id from public.claims");
+    assert.equal(all.length, 2);
+  });
+
+  test("guides can't write claims directly, only through the RPCs", async () => {
+    await assert.rejects(
+      as.g2.query("insert into public.claims (job_id, guide_id) values ($1, $2)", [jobs.open, ids.g2]),
+      sqlState("42501")
+    );
+    assert.deepEqual(await as.g1.query("delete from public.claims where job_id = $1 returning id", [jobs.assigned]), []);
+    const { rows } = await db.admin.query("select count(*)::int as n from public.claims where job_id = $1", [jobs.assigned]);
+    assert.equal(rows[0].n, 1);
+  });
+
+  test("guides ask is_on_job about themselves only", async () => {
+    assert.deepEqual(await as.g1.query("select public.is_on_job($1) as on", [jobs.assigned]), [{ on: true }]);
+    assert.deepEqual(await as.g2.query("select public.is_on_job($1) as on", [jobs.assigned]), [{ on: false }]);
+    await assert.rejects(
+      as.g2.query("select public.is_on_job($1, $2)", [jobs.assigned, ids.g1]),
+      sqlState("42501")
+    );
+  });
+});
+
+describe("availability", () => {
+  before(async () => {
+    await db.admin.query(
+      "insert into public.guide_blackouts (guide_id, starts_on, ends_on, note) select $1, date, date, 'hospital visit' from public.jobs where id = $2",
+      [ids.g1, jobs.open]
+    );
+  });
+
+  test("a guide reads their own unavailability, not another guide's or their schedule", async () => {
+    const [mine] = await as.g1.query("select public.my_unavailability(j) as u from public.jobs j where id = $1", [jobs.open]);
+    assert.equal(mine.u.reason, "blackout");
+    const [theirs] = await as.g2.query("select public.my_unavailability(j) as u from public.jobs j where id = $1", [jobs.open]);
+    assert.equal(theirs.u, null);
+
+    await assert.rejects(as.g2.rpc("guide_unavailability", { p_guide_id: ids.g1, p_job_id: jobs.open }), sqlState("42501"));
+    await assert.rejects(as.g2.rpc("guide_schedule_conflicts", { p_guide_id: ids.g1, p_job_id: jobs.open }), sqlState("42501"));
+  });
+
+  test("admins still see it when picking a guide", async () => {
+    const ranked = await as.admin.query("select guide_id, unavailable from public.rank_guides($1)", [jobs.open]);
+    assert.equal(ranked.find((g) => g.guide_id === ids.g1)?.unavailable?.reason, "blackout");
+  });
+});
+
+describe("job_contacts", () => {
+  test("customer details are for admins and the guides on the job", async () => {
+    assert.deepEqual(await contactJobs(as.admin), ["assigned", "canceled", "complete", "open"]);
+    assert.deepEqual(await contactJobs(as.g1), ["assigned", "complete"]);
+    assert.deepEqual(await contactJobs(as.g2), []);
+  });
+
+  test("guides can't add or change contacts", async () => {
+    await assert.rejects(
+      as.g1.query("insert into public.job_contacts (job_id, customer_name) values ($1, 'x')", [jobs.open]),
+      sqlState("42501")
+    );
+    assert.deepEqual(
+      await as.g1.query("update public.job_contacts set customer_phone = 'x' where job_id = $1 returning job_id", [jobs.assigned]),
+      []
+    );
+  });
+
+  // Edit Job deletes the contact when the customer fields are cleared
+  test("only admins remove a contact", async () => {
+    const job = await db.createJob(ids.admin, { title: "contact removed" });
+    await as.admin.rpc("assign_job_v2", { p_job_id: job, p_guide_id: ids.g1 });
+    await db.admin.query("insert into public.job_contacts (job_id, customer_name) values ($1, 'Pat')", [job]);
+
+    assert.deepEqual(await as.g1.query("delete from public.job_contacts where job_id = $1 returning job_id", [job]), []);
+    assert.deepEqual(await as.admin.query("delete from public.job_contacts where job_id = $1 returning job_id", [job]), [{ job_id: job }]);
+  });
+
+  // import_jobs leaves out the contact for a row without a customer; Edit Job saves such
+  // a job as web/src/jobs.ts does: the columns, then the contact delete (still blank) or
+  // upsert (a customer added)
+  test("an imported job without a customer can be edited, and given one later", async () => {
+    const r = await as.admin.rpc("import_jobs", {
+      p_rows: JSON.stringify([{ title: "Imported shore dive", date: "2031-07-01", call_time: "08:00", customer_name: "" }]),
+    });
+    assert.equal(r.created, 1);
+    const [{ id }] = await as.admin.query<{ id: string }>("select id from public.jobs where title = 'Imported shore dive'");
+    assert.deepEqual(await as.admin.query("select job_id from public.job_contacts where job_id = $1", [id]), []);
+
+    await as.admin.query("update public.jobs set title = 'Imported boat dive' where id = $1", [id]);
+    await as.admin.query("delete from public.job_contacts where job_id = $1", [id]);
+    assert.deepEqual(await as.admin.query("select title from public.jobs where id = $1", [id]), [{ title: "Imported boat dive" }]);
+
+    await as.admin.query(
+      `insert into public.job_contacts (job_id, customer_name, customer_phone) values ($1, 'Pat', null)
+       on conflict (job_id) do update set customer_name = excluded.customer_name, customer_phone = excluded.customer_phone`,
+      [id]
+    );
+    assert.deepEqual(await as.admin.query("select customer_name from public.job_contacts where job_id = $1", [id]), [{ customer_name: "Pat" }]);
+  });
+});
+
+describe("job_messages", () => {
+  async function unread(s: Session, jobId: string) {
+    const rows = await s.query<{ n: number }>("select public.unread_messages(j) as n from public.jobs j where j.id = $1", [jobId]);
+    return rows[0]?.n;
+  }
+
+  test("admins and the guides on the job read and post; other guides don't", async () => {
+    await as.admin.query("insert into public.job_messages (job_id, body) values ($1, 'Meet at dock B')", [jobs.assigned]);
+    await as.g1.query("insert into public.job_messages (job_id, body) values ($1, 'On my way')", [jobs.assigned]);
+    await assert.rejects(
+      as.g2.query("insert into public.job_messages (job_id, body) values ($1, 'me too')", [jobs.assigned]),
+      sqlState("42501")
+    );
+
+    const thread = await as.g1.query("select author_id, body from public.job_messages where job_id = $1 order by id", [jobs.assigned]);
+    assert.deepEqual(thread, [
+      { author_id: ids.admin, body: "Meet at dock B" },
+      { author_id: ids.g1, body: "On my way" },
+    ]);
+    assert.deepEqual(await as.g2.query("select id from public.job_messages"), []);
+
+    // job_thread adds the names, which guides can't read from profiles themselves
+    const named = await as.g1.query("select author_name, author_is_admin from public.job_thread($1)", [jobs.assigned]);
+    assert.deepEqual(named, [
+      { author_name: "Ada Admin", author_is_admin: true },
+      { author_name: "Gil One", author_is_admin: false },
+    ]);
+    assert.deepEqual(await as.g2.query("select id from public.job_thread($1)", [jobs.assigned]), []);
+  });
+
+  test("a message can't be posted as someone else, backdated, edited or deleted", async () => {
+    await assert.rejects(
+      as.g1.query("insert into public.job_messages (job_id, author_id, body) values ($1, $2, 'x')", [jobs.assigned, ids.admin]),
+      sqlState("42501")
+    );
+    await assert.rejects(
+      as.g1.query("insert into public.job_messages (job_id, body, created_at) values ($1, 'x', now() - interval '1 day')", [jobs.assigned]),
+      sqlState("42501")
+    );
+    await assert.rejects(as.g1.query("update public.job_messages set body = 'x'"), sqlState("42501"));
+    await assert.rejects(as.admin.query("delete from public.job_messages"), sqlState("42501"));
+  });
+
+  test("unread counts others' messages since the thread was last read", async () => {
+    assert.equal(await unread(as.g1, jobs.assigned), 1);
+    assert.equal(await unread(as.admin, jobs.assigned), 1);
+    assert.equal(await unread(as.g2, jobs.assigned), 0);
+
+    await as.g1.rpc("mark_job_messages_read", { p_job_id: jobs.assigned });
+    assert.equal(await unread(as.g1, jobs.assigned), 0);
+    assert.equal(await unread(as.admin, jobs.assigned), 1);
+
+    // a guide off the job leaves no marker
+    await as.g2.rpc("mark_job_messages_read", { p_job_id: jobs.assigned });
+    const { rows } = await db.admin.query("select count(*)::int as n from public.job_message_reads where user_id = $1", [ids.g2]);
+    assert.equal(rows[0].n, 0);
+  });
+});
+
+describe("job_reports", () => {
+  let today: string;
+
+  before(async () => {
+    const { rows } = await db.admin.query("select (now() at time zone 'UTC')::date::text as d");
+    const id = await db.createJob(ids.admin, { title: "today", date: rows[0].d });
+    assert.equal((await as.admin.rpc("assign_job_v2", { p_job_id: id, p_guide_id: ids.g1 })).ok, true);
+    today = id;
+  });
+
+  test("a guide on the job files and corrects their report", async () => {
+    const r = await as.g1.rpc("save_job_report", {
+      p_job_id: today,
+      p_dive_sites: [" Blue Hole ", "", "Canyon"],
+      p_conditions: "  ",
+      p_customer_no_show: false,
+    });
+    assert.equal(r.ok, true);
+    assert.deepEqual(r.report.dive_sites, ["Blue Hole", "Canyon"]);
+    assert.equal(r.report.conditions, null);
+    assert.equal("incidents" in r.report, false); // incidents are filed with Mark complete, for admins only
+
+    const again = await as.g1.rpc("save_job_report", {
+      p_job_id: today, p_dive_sites: ["Blue Hole"], p_conditions: "2 m swell", p_customer_no_show: true,
+    });
+    assert.equal(again.ok, true);
+    const { rows } = await db.admin.query("select dive_sites, conditions, customer_no_show from public.job_reports where job_id = $1", [today]);
+    assert.deepEqual(rows, [{ dive_sites: ["Blue Hole"], conditions: "2 m swell", customer_no_show: true }]);
+  });
+
+  test("only the crew files, and not before the trip", async () => {
+    const args = { p_dive_sites: [], p_conditions: null, p_customer_no_show: false };
+    assert.equal((await as.g2.rpc("save_job_report", { p_job_id: today, ...args })).reason, "forbidden");
+    assert.equal((await as.admin.rpc("save_job_report", { p_job_id: today, ...args })).reason, "forbidden");
+    assert.equal((await as.g1.rpc("save_job_report", { p_job_id: jobs.assigned, ...args })).reason, "too_early");
+    await assert.rejects(
+      as.g1.query("insert into public.job_reports (job_id, guide_id) values ($1, $2)", [jobs.complete, ids.g1]),
+      sqlState("42501")
+    );
+  });
+
+  test("admins and the crew read reports; other guides don't", async () => {
+    assert.equal((await as.admin.query("select 1 from public.job_reports")).length, 1);
+    assert.equal((await as.g1.query("select 1 from public.job_reports")).length, 1);
+    assert.deepEqual(await as.g2.query("select 1 from public.job_reports"), []);
+  });
+});
+
+describe("dive_logs and incidents", () => {
+  const log = { max_depth_m: 18.5, bottom_time_min: 42, gas: "nitrox", diver_count: 6, had_incident: false };
+  const incident = {
+    kind: "out_of_air",
+    severity: "moderate",
+    people_involved: "  Customer Pat, buddy Sam ",
+    actions_taken: "Shared air, controlled ascent, O2 on the boat",
+    description: "",
+  };
+  let dive: string;
+  let incidentId: number;
+
+  before(async () => {
+    dive = await db.createJob(ids.admin, { title: "dive" });
+    assert.equal((await as.admin.rpc("assign_job_v2", { p_job_id: dive, p_guide_id: ids.g1 })).ok, true);
+  });
+
+  test("with the setting on, completing needs a valid log, and a log with an incident needs the report", async () => {
+    await db.admin.query("update public.app_settings set require_dive_log = true");
+    try {
+      assert.equal((await as.g1.rpc("complete_job_v2", { p_job_id: dive })).reason, "dive_log_required");
+      assert.equal((await as.admin.rpc("set_job_status", { p_job_id: dive, p_status: "complete" })).reason, "dive_log_required");
+      const bad = [{ ...log, gas: "helium" }, { ...log, max_depth_m: "deep" }, { ...log, bottom_time_min: null }];
+      for (const l of bad) {
+        assert.equal((await as.g1.rpc("complete_job_v2", { p_job_id: dive, p_dive_log: l })).reason, "invalid_dive_log");
+      }
+      const withIncident = { ...log, had_incident: true };
+      assert.equal((await as.g1.rpc("complete_job_v2", { p_job_id: dive, p_dive_log: withIncident })).reason, "incident_required");
+      assert.equal(
+        (await as.g1.rpc("complete_job_v2", {
+          p_job_id: dive, p_dive_log: withIncident, p_incident: { ...incident, severity: "bad" },
+        })).reason,
+        "invalid_incident"
+      );
+      const { rows: before } = await db.admin.query("select status from public.jobs where id = $1", [dive]);
+      assert.deepEqual(before, [{ status: "assigned" }]);
+
+      const r = await as.g1.rpc("complete_job_v2", { p_job_id: dive, p_dive_log: withIncident, p_incident: incident });
+      assert.equal(r.ok, true);
+    } finally {
+      await db.admin.query("update public.app_settings set require_dive_log = false");
+    }
+
+    const { rows: logs } = await db.admin.query(
+      "select max_depth_m::float as depth, gas, had_incident, logged_by from public.dive_logs where job_id = $1", [dive]
+    );
+    assert.deepEqual(logs, [{ depth: 18.5, gas: "nitrox", had_incident: true, logged_by: ids.g1 }]);
+    const { rows: filed } = await db.admin.query(
+      "select id, people_involved, description, status, reported_by from public.incidents where job_id = $1", [dive]
+    );
+    assert.equal(filed.length, 1);
+    const { id, ...row } = filed[0];
+    assert.deepEqual(row, { people_involved: "Customer Pat, buddy Sam", description: null, status: "open", reported_by: ids.g1 });
+    incidentId = Number(id);
+  });
+
+  test("dive logs are for admins and the crew; incidents for admins only", async () => {
+    assert.equal((await as.admin.query("select 1 from public.dive_logs where job_id = $1", [dive])).length, 1);
+    assert.equal((await as.g1.query("select 1 from public.dive_logs where job_id = $1", [dive])).length, 1);
+    assert.deepEqual(await as.g2.query("select 1 from public.dive_logs"), []);
+    assert.equal((await as.admin.query("select 1 from public.incidents")).length, 1);
+    assert.deepEqual(await as.g1.query("select 1 from public.incidents"), []);
+  });
+
+  test("only admins review incidents, and nobody writes logs or incidents directly", async () => {
+    assert.equal((await as.g1.rpc("review_incident", { p_incident_id: incidentId, p_status: "closed", p_notes: null })).reason, "forbidden");
+    assert.equal((await as.admin.rpc("review_incident", { p_incident_id: incidentId, p_status: "done", p_notes: null })).reason, "invalid_status");
+    assert.equal((await as.admin.rpc("review_incident", { p_incident_id: -1, p_status: "closed", p_notes: null })).reason, "not_found");
+
+    assert.equal((await as.admin.rpc("review_incident", { p_incident_id: incidentId, p_status: "in_review", p_notes: "Sent to insurer" })).ok, true);
+    assert.equal((await as.admin.rpc("review_incident", { p_incident_id: incidentId, p_status: "closed", p_notes: " " })).ok, true);
+    const { rows } = await db.admin.query("select status, review_notes, reviewed_by from public.incidents where id = $1", [incidentId]);
+    assert.deepEqual(rows, [{ status: "closed", review_notes: "Sent to insurer", reviewed_by: ids.admin }]);
+
+    await assert.rejects(
+      as.g1.query(
+        "insert into public.dive_logs (job_id, max_depth_m, bottom_time_min, gas, diver_count) values ($1, 10, 30, 'air', 2)",
+        [jobs.complete]
+      ),
+      sqlState("42501")
+    );
+    await assert.rejects(
+      as.admin.query("update public.incidents set status = 'open' where id = $1", [incidentId]),
+      sqlState("42501")
+    );
+  });
+
+  test("a completion replayed after a crewmate completed the job still files its log and incident", async () => {
+    const late = await db.createJob(ids.admin, { title: "late", slots: 2 });
+    for (const g of [ids.g1, ids.g2]) {
+      assert.equal((await as.admin.rpc("assign_job_v2", { p_job_id: late, p_guide_id: g })).ok, true);
+    }
+    assert.equal((await as.g2.rpc("complete_job_v2", { p_job_id: late })).ok, true);
+
+    await db.admin.query("update public.app_settings set require_dive_log = true");
+    try {
+      const r = await as.g1.rpc("complete_job_v2", { p_job_id: late, p_dive_log: log, p_incident: incident });
+      assert.deepEqual([r.ok, r.already_complete, r.dive_log_kept], [true, true, false]);
+      // The crewmate's log stays; nothing is asked for when there's nothing to add
+      const again = await as.g2.rpc("complete_job_v2", { p_job_id: late, p_dive_log: { ...log, max_depth_m: 30 } });
+      assert.deepEqual([again.ok, again.dive_log_kept], [true, true]);
+      assert.equal((await as.g2.rpc("complete_job_v2", { p_job_id: late })).ok, true);
+    } finally {
+      await db.admin.query("update public.app_settings set require_dive_log = false");
+    }
+
+    const { rows: logs } = await db.admin.query(
+      "select max_depth_m::float as depth, had_incident, logged_by from public.dive_logs where job_id = $1", [late]
+    );
+    assert.deepEqual(logs, [{ depth: 18.5, had_incident: true, logged_by: ids.g1 }]);
+    const { rows: filed } = await db.admin.query("select reported_by from public.incidents where job_id = $1", [late]);
+    assert.deepEqual(filed, [{ reported_by: ids.g1 }]);
+    const { rows: pay } = await db.admin.query("select count(*)::int as n from public.pay_entries where job_id = $1", [late]);
+    assert.deepEqual(pay, [{ n: 2 }]);
+  });
+});
+
+describe("anonymous", () => {
+  for (const table of [
+    "profiles", "jobs", "claims", "job_contacts", "job_messages", "job_reports", "dive_logs", "incidents",
+  ]) {
+    test(`sees no ${table}`, async () => {
+      const rows = await as.anon.query(`select * from public.${table}`).catch((e) => {
+        if (e?.code === "42501") return [];
+        throw e;
+      });
+      assert.deepEqual(rows, []);
+    });
+  }
+
+  test("can still use the booking form", async () => {
+    const challenge = await as.anon.rpc("booking_challenge");
+    assert.equal(challenge.ok, true);
+    assert.equal(await as.anon.rpc("booking_request_status", { p_token: "00000000-0000-0000-0000-000000000000" }), null);
+  });
+
+  test("the booking form's per-IP limit goes by the gateway's hop, not one the client sent", async () => {
+    const from = (spoofed: string) =>
+      as.anon.query("select set_config('request.headers', $1, false)", [
+        JSON.stringify({ "x-forwarded-for": `${spoofed}, 198.51.100.7` }),
+      ]);
+    try {
+      for (let i = 1; i <= 30; i++) {
+        await from(`203.0.113.${i}`);
+        assert.equal((await as.anon.rpc("booking_challenge")).ok, true);
+      }
+      await from("203.0.113.99");
+      assert.deepEqual(await as.anon.rpc("booking_challenge"), { ok: false, reason: "rate_limited" });
+      assert.deepEqual(await as.anon.query("select public.request_ip() as ip"), [{ ip: "198.51.100.7" }]);
+    } finally {
+      await as.anon.query("select set_config('request.headers', '{}', false)");
+    }
+  });
+});
@@ -0,0 +1,61 @@
+// series.test.ts — recurring series generated from job templates
+
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { setupTestDb, type Session, type TestDb } from "./harness";
+
+let db: TestDb;
+let admin: Session;
+
+before(async () => {
+  db = await setupTestDb();
+  admin = await db.session(await db.createUser("Ada Admin", "admin"));
+});
+
+after(async () => {
+  await db?.close();
+});
+
+async function template(customer: string | null): Promise<string> {
+  const { rows } = await db.admin.query(
+    `insert into public.job_templates (name, title, call_time, customer_name, customer_phone)
+     values ($1, $1, '07:30', $2, $3) returning id`,
+    [customer ? "Charter" : "Shore dive", customer, customer ? "555-0100" : null]
+  );
+  return rows[0].id;
+}
+
+// Two Mondays and a Wednesday, a year out
+const RULE = { p_weekdays: [1, 3], p_starts_on: "2031-06-02", p_ends_on: "2031-06-09" };
+
+test("a template without a customer generates jobs without contacts", async () => {
+  const r = await admin.rpc("generate_series_jobs", { p_template_id: await template(null), ...RULE });
+  assert.equal(r.ok, true);
+  assert.equal(r.created, 3);
+  const { rows } = await db.admin.query(
+    "select count(c.job_id)::int as contacts from public.jobs j left join public.job_contacts c on c.job_id = j.id where j.series_id = $1",
+    [r.series_id]
+  );
+  assert.deepEqual(rows, [{ contacts: 0 }]);
+});
+
+test("a template with a customer gives every job the contact", async () => {
+  const r = await admin.rpc("generate_series_jobs", { p_template_id: await template("Sea Co."), ...RULE });
+  assert.equal(r.ok, true);
+  const { rows } = await db.admin.query(
+    "select c.customer_name, c.customer_phone from public.jobs j join public.job_contacts c on c.job_id = j.id where j.series_id = $1",
+    [r.series_id]
+  );
+  assert.equal(rows.length, r.created);
+  assert.deepEqual(rows[0], { customer_name: "Sea Co.", customer_phone: "555-0100" });
+});
+
+test("an admin edit with a series scope finds the series' jobs", async () => {
+  const r = await admin.rpc("generate_series_jobs", {
+    p_template_id: await template(null), ...RULE, p_starts_on: "2031-07-07", p_ends_on: "2031-07-14",
+  });
+  assert.equal(r.created, 3);
+  const { rows } = await db.admin.query("select id from public.jobs where series_id = $1 order by date", [r.series_id]);
+  const scope = await admin.query("select public.series_scope_jobs($1, 'all') as id", [rows[0].id]);
+  assert.deepEqual(scope, rows);
+});
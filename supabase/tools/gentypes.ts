@@ -0,0 +1,53 @@
+// gentypes.ts — write web/src/database.types.ts from the migrations
+//
+// Usage (DATABASE_URL points at any local Postgres server; a scratch database is
+// created next to it, migrated and dropped):
+//   tsx tools/gentypes.ts [--out FILE]    regenerate the types file
+//   tsx tools/gentypes.ts --check         exit 1 if the file is out of date
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { DEFAULT_URL, withClient, withScratchDatabase } from "./db";
+import { applyMigrations } from "./migrations";
+import { generateTypes } from "./typegen";
+
+const DEFAULT_OUT = fileURLToPath(new URL("../../web/src/database.types.ts", import.meta.url));
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outIndex = args.indexOf("--out");
+  const out = outIndex >= 0 ? args[outIndex + 1] : DEFAULT_OUT;
+  const url = process.env.DATABASE_URL || DEFAULT_URL;
+
+  const source = await withScratchDatabase(
+    url,
+    (scratch) =>
+      withClient(scratch, async (c) => {
+        await applyMigrations(c, { local: true });
+        return generateTypes(c);
+      }),
+    "dive_types"
+  );
+
+  if (args.includes("--check")) {
+    let current = "";
+    try {
+      current = readFileSync(out, "utf8");
+    } catch {}
+    if (current === source) {
+      console.log(`${out} is up to date`);
+    } else {
+      console.error(`${out} is out of date; run npm run gen:types`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  writeFileSync(out, source);
+  console.log(`wrote ${out}`);
+}
+
+main().catch((e) => {
+  console.error(e?.message ?? e);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+// migrate.ts — apply migrations and report schema drift
+//
+// Usage (DATABASE_URL points at the target database):
+//   tsx tools/migrate.ts up [--local]     apply pending migrations (--local: plain Postgres, adds Supabase stubs)
+//   tsx tools/migrate.ts status           list applied / pending / edited migrations
+//   tsx tools/migrate.ts drift [--expected-url URL]
+//       build the expected schema in a scratch database (created next to the target,
+//       or the throwaway database at URL), then diff it against the target
+
+import { DEFAULT_URL, withClient, withScratchDatabase } from "./db";
+import { applyMigrations, migrationStatus, type MigrationStatus } from "./migrations";
+import { diffSnapshots, hasDrift, snapshotSchema, type SchemaDiff } from "./schema";
+
+function printStatus(s: MigrationStatus) {
+  for (const m of s.applied) console.log(`  applied  ${m.version}_${m.name}  ${m.applied_at.toISOString()}`);
+  for (const m of s.pending) console.log(`  pending  ${m.version}_${m.name}`);
+  for (const m of s.changed) console.log(`  EDITED   ${m.version}_${m.name} (file differs from the applied version)`);
+  for (const m of s.unknown) console.log(`  UNKNOWN  ${m.version}_${m.name} (applied, no file on disk)`);
+}
+
+function printDiff(d: SchemaDiff) {
+  for (const k of d.missing) console.log(`  + missing     ${k}`);
+  for (const k of d.unexpected) console.log(`  - unexpected  ${k}`);
+  for (const k of d.changed) console.log(`  ~ differs     ${k}`);
+}
+
+async function up(url: string, local: boolean) {
+  const done = await withClient(url, (c) =>
+    applyMigrations(c, { local, log: (line) => console.log(line) })
+  );
+  console.log(done.length ? `applied ${done.length} migration(s)` : "database is up to date");
+}
+
+async function status(url: string) {
+  const s = await withClient(url, (c) => migrationStatus(c));
+  printStatus(s);
+  return s.pending.length + s.changed.length + s.unknown.length === 0;
+}
+
+async function drift(url: string, expectedUrl?: string) {
+  console.log("migrations:");
+  const clean = await status(url);
+
+  const expectedSnapshot = async (target: string) =>
+    withClient(target, async (c) => {
+      await applyMigrations(c, { local: true });
+      return snapshotSchema(c);
+    });
+  const expected = expectedUrl
+    ? await expectedSnapshot(expectedUrl)
+    : await withScratchDatabase(url, expectedSnapshot, "dive_drift");
+  const actual = await withClient(url, (c) => snapshotSchema(c));
+
+  const diff = diffSnapshots(expected, actual);
+  console.log("schema:");
+  if (hasDrift(diff)) printDiff(diff);
+  else console.log("  matches migrations");
+  return clean && !hasDrift(diff);
+}
+
+async function main() {
+  const [cmd = "up", ...rest] = process.argv.slice(2);
+  const url = process.env.DATABASE_URL || DEFAULT_URL;
+  const flag = (name: string) => rest.includes(name);
+  const option = (name: string) => {
+    const i = rest.indexOf(name);
+    return i >= 0 ? rest[i + 1] : undefined;
+  };
+
+  switch (cmd) {
+    case "up":
+      await up(url, flag("--local"));
+      break;
+    case "status":
+      if (!(await status(url))) process.exitCode = 1;
+      break;
+    case "drift":
+      if (!(await drift(url, option("--expected-url")))) process.exitCode = 1;
+      break;
+    default:
+      console.error(`unknown command "${cmd}" (expected up, status or drift)`);
+      process.exitCode = 2;
+  }
+}
+
+main().catch((e) => {
+  console.error(e?.message ?? e);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+// migrations.ts — ordered, checksummed SQL migrations from supabase/migrations
+// Each file runs in its own transaction and is recorded in migrations.schema_migrations.
+
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type pg from "pg";
+
+export const MIGRATIONS_DIR = fileURLToPath(new URL("../migrations", import.meta.url));
+export const STUBS_FILE = fileURLToPath(new URL("../local/supabase_stubs.sql", import.meta.url));
+
+// Arbitrary constant so two runners never apply migrations at the same time
+const LOCK_KEY = 7_414_001;
+
+export type Migration = {
+  version: string;   // "0003"
+  name: string;      // "guide_certs"
+  file: string;      // absolute path
+  sql: string;
+  checksum: string;  // sha256 of the file contents
+};
+
+export type AppliedMigration = {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+};
+
+export type MigrationStatus = {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  changed: Migration[];          // applied, but the file has been edited since
+  unknown: AppliedMigration[];   // recorded in the database, no file on disk
+};
+
+export function listMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  return readdirSync(dir)
+    .filter((f) => /^\d{4}_[\w-]+\.sql$/.test(f))
+    .sort()
+    .map((f) => {
+      const sql = readFileSync(join(dir, f), "utf8");
+      return {
+        version: f.slice(0, 4),
+        name: f.slice(5, -4),
+        file: join(dir, f),
+        sql,
+        checksum: createHash("sha256").update(sql).digest("hex"),
+      };
+    });
+}
+
+export async function ensureTrackingTable(client: pg.ClientBase) {
+  await client.query(`
+    create schema if not exists migrations;
+    create table if not exists migrations.schema_migrations (
+      version text primary key,
+      name text not null,
+      checksum text not null,
+      applied_at timestamptz not null default now()
+    );
+  `);
+}
+
+export async function applyStubs(client: pg.ClientBase) {
+  await client.query(readFileSync(STUBS_FILE, "utf8"));
+}
+
+export async function migrationStatus(client: pg.ClientBase, dir = MIGRATIONS_DIR): Promise<MigrationStatus> {
+  await ensureTrackingTable(client);
+  const { rows } = await client.query<AppliedMigration>(
+    "select version, name, checksum, applied_at from migrations.schema_migrations order by version"
+  );
+  const files = listMigrations(dir);
+  const byVersion = new Map(rows.map((r) => [r.version, r]));
+  const onDisk = new Set(files.map((m) => m.version));
+  return {
+    applied: rows,
+    pending: files.filter((m) => !byVersion.has(m.version)),
+    changed: files.filter((m) => byVersion.has(m.version) && byVersion.get(m.version)!.checksum !== m.checksum),
+    unknown: rows.filter((r) => !onDisk.has(r.version)),
+  };
+}
+
+// Apply every pending migration in order. Returns the versions applied.
+export async function applyMigrations(
+  client: pg.ClientBase,
+  opts: { dir?: string; local?: boolean; log?: (line: string) => void } = {}
+): Promise<Migration[]> {
+  const log = opts.log ?? (() => {});
+  await client.query("select pg_advisory_lock($1)", [LOCK_KEY]);
+  try {
+    if (opts.local) {
+      log("applying local Supabase stubs");
+      await applyStubs(client);
+    }
+    const status = await migrationStatus(client, opts.dir);
+    for (const m of status.changed) {
+      log(`warning: ${m.version}_${m.name} was edited after it was applied`);
+    }
+
+    const done: Migration[] = [];
+    for (const m of status.pending) {
+      log(`applying ${m.version}_${m.name}`);
+      await client.query("begin");
+      try {
+        await client.query(m.sql);
+        await client.query(
+          "insert into migrations.schema_migrations (version, name, checksum) values ($1, $2, $3)",
+          [m.version, m.name, m.checksum]
+        );
+        await client.query("commit");
+      } catch (e: any) {
+        await client.query("rollback");
+        throw new Error(`${m.version}_${m.name} failed: ${e?.message ?? e}`);
+      }
+      done.push(m);
+    }
+    return done;
+  } finally {
+    await client.query("select pg_advisory_unlock($1)", [LOCK_KEY]);
+  }
+}
@@ -0,0 +1,117 @@
+// notifications.ts — drain the notifications outbox (0015_notifications.sql)
+// Each pass queues tomorrow's reminders, claims a batch of due rows and hands each
+// to its channel's transport. Failures are retried with exponential backoff until
+// MAX_ATTEMPTS, then marked failed; rows with no address for the channel are skipped.
+// Push subscriptions a transport reports as expired are deleted, sent or not.
+
+import type pg from "pg";
+import { ExpiredSubscriptionError, NoAddressError, type Channel, type Message, type Transports } from "./transports";
+
+export const MAX_ATTEMPTS = 5;
+
+// 1 min, 2, 4, 8 … capped at an hour
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(60 * 2 ** (attempts - 1), 3600);
+}
+
+export type DispatchResult = { reminders: number; sent: number; retried: number; failed: number; skipped: number };
+
+type Row = {
+  id: string;
+  guide_id: string;
+  job_id: string | null;
+  channel: Channel;
+  subject: string;
+  body: string;
+  attempts: number;
+};
+
+export async function dispatchBatch(
+  client: pg.Client,
+  transports: Transports,
+  { limit = 50, log = (_line: string) => {} }: { limit?: number; log?: (line: string) => void } = {}
+): Promise<DispatchResult> {
+  const result: DispatchResult = { reminders: 0, sent: 0, retried: 0, failed: 0, skipped: 0 };
+
+  const { rows: [r] } = await client.query<{ n: number }>("select public.enqueue_job_reminders() as n");
+  result.reminders = r.n;
+
+  const { rows } = await client.query<Row>("select * from public.next_notifications($1)", [limit]);
+  if (!rows.length) return result;
+
+  // Addresses for everyone in the batch, in two queries
+  const guides = [...new Set(rows.map((n) => n.guide_id))];
+  const { rows: contacts } = await client.query<{ id: string; email: string | null; phone: string | null }>(
+    `select u.id, u.email, np.phone
+       from auth.users u left join public.notification_prefs np on np.guide_id = u.id
+      where u.id = any($1)`,
+    [guides]
+  );
+  const { rows: subs } = await client.query<{ guide_id: string; endpoint: string; p256dh: string; auth: string }>(
+    "select guide_id, endpoint, p256dh, auth from public.push_subscriptions where guide_id = any($1)",
+    [guides]
+  );
+
+  const expired = new Set<string>(); // deleted during this pass
+  const dropExpired = async (endpoints: string[] = []) => {
+    const fresh = endpoints.filter((e) => !expired.has(e));
+    if (!fresh.length) return;
+    await client.query("delete from public.push_subscriptions where endpoint = any($1)", [fresh]);
+    fresh.forEach((e) => expired.add(e));
+  };
+
+  for (const n of rows) {
+    const contact = contacts.find((c) => c.id === n.guide_id);
+    const msg: Message = {
+      id: Number(n.id),
+      channel: n.channel,
+      subject: n.subject,
+      body: n.body,
+      jobId: n.job_id,
+      email: contact?.email || null,
+      phone: contact?.phone || null,
+      push: subs.filter((s) => s.guide_id === n.guide_id && !expired.has(s.endpoint)),
+    };
+
+    try {
+      const report = await transports[n.channel].send(msg);
+      await dropExpired(report?.expired);
+      await finish(client, n.id, "sent", null);
+      result.sent++;
+    } catch (e: any) {
+      if (e instanceof ExpiredSubscriptionError) await dropExpired(e.endpoints);
+      if (e instanceof NoAddressError) {
+        await finish(client, n.id, "skipped", e.message);
+        result.skipped++;
+      } else if (n.attempts >= MAX_ATTEMPTS) {
+        await finish(client, n.id, "failed", errorText(e));
+        result.failed++;
+      } else {
+        await client.query(
+          `update public.notifications
+              set status = 'pending', last_error = $2, updated_at = now(),
+                  next_attempt_at = now() + make_interval(secs => $3)
+            where id = $1`,
+          [n.id, errorText(e), retryDelaySeconds(n.attempts)]
+        );
+        result.retried++;
+      }
+      log(`#${n.id} ${n.channel} attempt ${n.attempts}: ${errorText(e)}`);
+    }
+  }
+  return result;
+}
+
+async function finish(client: pg.Client, id: string, status: "sent" | "failed" | "skipped", error: string | null) {
+  await client.query(
+    `update public.notifications
+        set status = $2, last_error = $3, updated_at = now(),
+            sent_at = case when $2 = 'sent' then now() end
+      where id = $1`,
+    [id, status, error]
+  );
+}
+
+function errorText(e: any): string {
+  return String(e?.message || e).slice(0, 500);
+}
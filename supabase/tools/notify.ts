@@ -0,0 +1,53 @@
+// notify.ts — notification dispatcher (see notifications.ts and transports.ts)
+//
+// Usage (DATABASE_URL points at the database, as a role that can bypass RLS):
+//   tsx tools/notify.ts --once              one pass, then exit (e.g. from cron)
+//   tsx tools/notify.ts [--interval SECS]   keep polling, every 30 seconds by default
+
+import pg from "pg";
+import { DEFAULT_URL } from "./db";
+import { dispatchBatch } from "./notifications";
+import { transportsFromEnv } from "./transports";
+
+async function pass(client: pg.Client, transports: ReturnType<typeof transportsFromEnv>) {
+  const r = await dispatchBatch(client, transports, { log: (line) => console.log(line) });
+  if (r.reminders + r.sent + r.retried + r.failed + r.skipped) {
+    console.log(
+      `reminders queued ${r.reminders}, sent ${r.sent}, retrying ${r.retried}, failed ${r.failed}, skipped ${r.skipped}`
+    );
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const once = args.includes("--once");
+  const i = args.indexOf("--interval");
+  const interval = i >= 0 ? Number(args[i + 1]) : 30;
+  if (!Number.isFinite(interval) || interval <= 0) throw new Error("--interval needs a number of seconds");
+
+  const transports = transportsFromEnv();
+  console.log(`transports: email=${transports.email.name} sms=${transports.sms.name} push=${transports.push.name}`);
+
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL || DEFAULT_URL });
+  await client.connect();
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+  try {
+    do {
+      await pass(client, transports);
+      if (once) break;
+      for (let t = 0; t < interval * 10 && !stopping; t++) await new Promise((r) => setTimeout(r, 100));
+    } while (!stopping);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch((e) => {
+  console.error(e?.message || e);
+  process.exit(1);
+});
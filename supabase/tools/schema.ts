@@ -0,0 +1,126 @@
+// schema.ts — catalog snapshot of the app's schema, for drift detection
+// A snapshot maps an object key ("function public.claim_job_v2(p_job_id uuid)")
+// to its definition, so two databases can be compared key by key.
+
+import type pg from "pg";
+
+export type SchemaSnapshot = Record<string, string>;
+
+export type SchemaDiff = {
+  missing: string[];      // expected, not in the database
+  unexpected: string[];   // in the database, not expected
+  changed: string[];      // present in both with different definitions
+};
+
+// Objects created by extensions (uuid-ossp, pgcrypto) are not ours to compare
+const NOT_FROM_EXTENSION = `
+  not exists (select 1 from pg_depend d where d.objid = %s and d.deptype = 'e')
+`;
+
+const QUERIES: { kind: string; sql: string }[] = [
+  {
+    kind: "type",
+    sql: `
+      select 'public.' || t.typname as name,
+             string_agg(e.enumlabel, ',' order by e.enumsortorder) as def
+        from pg_type t
+        join pg_namespace n on n.oid = t.typnamespace
+        join pg_enum e on e.enumtypid = t.oid
+       where n.nspname = 'public'
+       group by t.typname`,
+  },
+  {
+    kind: "table",
+    sql: `
+      select 'public.' || c.relname as name,
+             'rls=' || case when c.relrowsecurity then 'on' else 'off' end as def
+        from pg_class c
+        join pg_namespace n on n.oid = c.relnamespace
+       where n.nspname = 'public' and c.relkind in ('r', 'p')
+         and ${NOT_FROM_EXTENSION.replace("%s", "c.oid")}`,
+  },
+  {
+    kind: "column",
+    sql: `
+      select 'public.' || c.relname || '.' || a.attname as name,
+             format_type(a.atttypid, a.atttypmod)
+               || case when a.attnotnull then ' not null' else '' end
+               || coalesce(' default ' || pg_get_expr(ad.adbin, ad.adrelid), '') as def
+        from pg_attribute a
+        join pg_class c on c.oid = a.attrelid
+        join pg_namespace n on n.oid = c.relnamespace
+        left join pg_attrdef ad on ad.adrelid = a.attrelid and ad.adnum = a.attnum
+       where n.nspname = 'public' and c.relkind in ('r', 'p')
+         and a.attnum > 0 and not a.attisdropped`,
+  },
+  {
+    kind: "constraint",
+    sql: `
+      select 'public.' || c.relname || '.' || con.conname as name,
+             pg_get_constraintdef(con.oid) as def
+        from pg_constraint con
+        join pg_class c on c.oid = con.conrelid
+        join pg_namespace n on n.oid = c.relnamespace
+       where n.nspname = 'public'`,
+  },
+  {
+    kind: "index",
+    sql: `
+      select schemaname || '.' || indexname as name, indexdef as def
+        from pg_indexes
+       where schemaname = 'public'`,
+  },
+  {
+    kind: "function",
+    sql: `
+      select 'public.' || p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')' as name,
+             pg_get_functiondef(p.oid) as def
+        from pg_proc p
+        join pg_namespace n on n.oid = p.pronamespace
+       where n.nspname = 'public' and p.prokind = 'f'
+         and ${NOT_FROM_EXTENSION.replace("%s", "p.oid")}`,
+  },
+  {
+    kind: "trigger",
+    sql: `
+      select n.nspname || '.' || c.relname || '.' || t.tgname as name,
+             pg_get_triggerdef(t.oid) as def
+        from pg_trigger t
+        join pg_class c on c.oid = t.tgrelid
+        join pg_namespace n on n.oid = c.relnamespace
+       where not t.tgisinternal
+         and (n.nspname = 'public' or (n.nspname = 'auth' and c.relname = 'users'))`,
+  },
+  {
+    kind: "policy",
+    sql: `
+      select schemaname || '.' || tablename || '."' || policyname || '"' as name,
+             cmd || ' using (' || coalesce(qual, '') || ') check (' || coalesce(with_check, '') || ')' as def
+        from pg_policies
+       where schemaname in ('public', 'storage')`,
+  },
+];
+
+export async function snapshotSchema(client: pg.ClientBase): Promise<SchemaSnapshot> {
+  const snap: SchemaSnapshot = {};
+  for (const q of QUERIES) {
+    const { rows } = await client.query<{ name: string; def: string }>(q.sql);
+    for (const r of rows) snap[`${q.kind} ${r.name}`] = r.def.trim();
+  }
+  return snap;
+}
+
+export function diffSnapshots(expected: SchemaSnapshot, actual: SchemaSnapshot): SchemaDiff {
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  const diff: SchemaDiff = { missing: [], unexpected: [], changed: [] };
+  for (const k of Array.from(keys).sort()) {
+    if (!(k in actual)) diff.missing.push(k);
+    else if (!(k in expected)) diff.unexpected.push(k);
+    else if (expected[k] !== actual[k]) diff.changed.push(k);
+  }
+  return diff;
+}
+
+export function hasDrift(d: SchemaDiff) {
+  return d.missing.length + d.unexpected.length + d.changed.length > 0;
+}
@@ -0,0 +1,128 @@
+// transports.ts — how a queued notification leaves the building, one per channel
+//
+//   email  SMTP via nodemailer (NOTIFY_SMTP_URL; any fake SMTP server works for testing)
+//   sms    Twilio's REST API (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM)
+//   push   Web Push with VAPID keys (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT)
+//
+// A channel without configuration falls back to the log sink, which prints the
+// message and counts it as sent, so a fresh checkout runs end to end.
+
+import nodemailer from "nodemailer";
+import webpush from "web-push";
+
+export type Channel = "email" | "sms" | "push";
+
+export type PushTarget = { endpoint: string; p256dh: string; auth: string };
+
+export type Message = {
+  id: number;
+  channel: Channel;
+  subject: string;
+  body: string;
+  jobId: string | null;
+  email: string | null;      // auth.users.email
+  phone: string | null;      // notification_prefs.phone
+  push: PushTarget[];        // push_subscriptions
+};
+
+// Thrown when the guide has nowhere to receive this channel: the row is skipped, not retried
+export class NoAddressError extends Error {}
+
+// Thrown when no device took a push message and some of its subscriptions are gone
+// (404/410): the dispatcher deletes those and retries the rest as a failed send
+export class ExpiredSubscriptionError extends Error {
+  constructor(public endpoints: string[]) {
+    super(`push subscription expired: ${endpoints.join(", ")}`);
+  }
+}
+
+// What a send that succeeded left behind: push subscriptions that are gone, for the
+// dispatcher to delete
+export type SendReport = { expired?: string[] };
+
+export interface Transport {
+  name: string;
+  send(msg: Message): Promise<SendReport | void>;
+}
+
+export type Transports = Record<Channel, Transport>;
+
+export function logTransport(channel: Channel, log: (line: string) => void = console.log): Transport {
+  return {
+    name: `log:${channel}`,
+    async send(msg) {
+      const to = channel === "email" ? msg.email : channel === "sms" ? msg.phone : `${msg.push.length} device(s)`;
+      log(`[${channel}] #${msg.id} → ${to ?? "(none)"}: ${msg.subject}`);
+    },
+  };
+}
+
+export function smtpTransport(url: string, from: string): Transport {
+  const mailer = nodemailer.createTransport(url);
+  return {
+    name: "smtp",
+    async send(msg) {
+      if (!msg.email) throw new NoAddressError("no email address");
+      await mailer.sendMail({ from, to: msg.email, subject: msg.subject, text: msg.body });
+    },
+  };
+}
+
+export function twilioTransport(sid: string, token: string, from: string): Transport {
+  const endpoint = `https://api.twilio.com/2010-04-01/Accounts/${sid}/Messages.json`;
+  const authHeader = `Basic ${Buffer.from(`${sid}:${token}`).toString("base64")}`;
+  return {
+    name: "twilio",
+    async send(msg) {
+      if (!msg.phone) throw new NoAddressError("no phone number");
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { Authorization: authHeader, "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({ From: from, To: msg.phone, Body: `${msg.subject}\n${msg.body}` }),
+      });
+      if (!res.ok) throw new Error(`twilio ${res.status}: ${await res.text()}`);
+    },
+  };
+}
+
+// Sends to every device; succeeds if at least one accepts, so a device that got the
+// message doesn't get it again on a retry. Expired devices are reported either way.
+export function webPushTransport(publicKey: string, privateKey: string, subject: string): Transport {
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+  return {
+    name: "web-push",
+    async send(msg) {
+      if (!msg.push.length) throw new NoAddressError("no push subscription");
+      const payload = JSON.stringify({ title: msg.subject, body: msg.body, jobId: msg.jobId });
+      let delivered = 0;
+      const expired: string[] = [];
+      let lastError: unknown = null;
+      for (const sub of msg.push) {
+        try {
+          await webpush.sendNotification({ endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } }, payload);
+          delivered++;
+        } catch (e: any) {
+          if (e?.statusCode === 404 || e?.statusCode === 410) expired.push(sub.endpoint);
+          else lastError = e;
+        }
+      }
+      if (delivered) return { expired };
+      if (expired.length) throw new ExpiredSubscriptionError(expired);
+      throw lastError;
+    },
+  };
+}
+
+// Build the transports from the environment; anything unset logs instead
+export function transportsFromEnv(env: NodeJS.ProcessEnv = process.env): Transports {
+  const email = env.NOTIFY_SMTP_URL
+    ? smtpTransport(env.NOTIFY_SMTP_URL, env.NOTIFY_FROM || "Dive Guide Claim <no-reply@localhost>")
+    : logTransport("email");
+  const sms = env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_FROM
+    ? twilioTransport(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN, env.TWILIO_FROM)
+    : logTransport("sms");
+  const push = env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY
+    ? webPushTransport(env.VAPID_PUBLIC_KEY, env.VAPID_PRIVATE_KEY, env.VAPID_SUBJECT || "mailto:admin@localhost")
+    : logTransport("push");
+  return { email, sms, push };
+}
@@ -0,0 +1,292 @@
+// typegen.ts — TypeScript types for the public schema, in the shape supabase-js expects
+// (the same layout `supabase gen types typescript` prints), read from the catalog of a
+// migrated database so the web app never hand-writes a row type.
+//
+// Postgres types map the way PostgREST serialises them: numerics are numbers, dates,
+// times and uuids are strings, json is Json, enums are unions, a table's row type is
+// that table's Row. A function whose only argument is a table row is a computed field
+// of that table (PostgREST lets you select it like a column), so it is added to the Row.
+
+import type pg from "pg";
+
+type PgType = { oid: number; name: string; kind: string; elem: number; relname: string | null };
+
+type Column = {
+  table: string;
+  name: string;
+  type: number;
+  nullable: boolean;
+  has_default: boolean;
+  generated: boolean;
+};
+
+type Relationship = {
+  table: string;
+  name: string;
+  columns: string[];
+  one_to_one: boolean;
+  ref_table: string;
+  ref_columns: string[];
+};
+
+type Fn = {
+  name: string;
+  arg_names: string[] | null;
+  arg_modes: string[] | null;
+  arg_types: number[];       // all arguments, including OUT/TABLE ones
+  in_count: number;
+  default_count: number;
+  returns: number;
+  returns_set: boolean;
+};
+
+const NUMBER = new Set(["int2", "int4", "int8", "float4", "float8", "numeric", "oid"]);
+const STRING = new Set([
+  "bytea", "bpchar", "varchar", "char", "name", "date", "text", "citext",
+  "time", "timetz", "timestamp", "timestamptz", "uuid", "interval",
+]);
+
+// Objects created by extensions (uuid-ossp, pgcrypto) aren't part of the app's API
+const NOT_FROM_EXTENSION = (oid: string) =>
+  `not exists (select 1 from pg_depend d where d.objid = ${oid} and d.deptype = 'e')`;
+
+const TYPES_SQL = `
+  select t.oid::int as oid, t.typname as name, t.typtype as kind, t.typelem::int as elem,
+         case when n.nspname = 'public' then r.relname end as relname
+    from pg_type t
+    join pg_namespace n on n.oid = t.typnamespace
+    left join pg_class r on r.oid = t.typrelid and r.relkind in ('r', 'p', 'v', 'm')`;
+
+const ENUMS_SQL = `
+  select t.typname as name, array_agg(e.enumlabel::text order by e.enumsortorder) as labels
+    from pg_type t
+    join pg_namespace n on n.oid = t.typnamespace
+    join pg_enum e on e.enumtypid = t.oid
+   where n.nspname = 'public'
+   group by t.typname
+   order by t.typname`;
+
+const COLUMNS_SQL = `
+  select c.relname as table, a.attname as name, a.atttypid::int as type,
+         not a.attnotnull as nullable,
+         a.atthasdef or a.attidentity <> '' as has_default,
+         a.attgenerated <> '' as generated
+    from pg_attribute a
+    join pg_class c on c.oid = a.attrelid
+    join pg_namespace n on n.oid = c.relnamespace
+   where n.nspname = 'public' and c.relkind in ('r', 'p')
+     and a.attnum > 0 and not a.attisdropped
+     and ${NOT_FROM_EXTENSION("c.oid")}
+   order by c.relname, a.attname`;
+
+const TABLES_SQL = `
+  select c.relname as name
+    from pg_class c
+    join pg_namespace n on n.oid = c.relnamespace
+   where n.nspname = 'public' and c.relkind in ('r', 'p')
+     and ${NOT_FROM_EXTENSION("c.oid")}
+   order by c.relname`;
+
+// A foreign key is one-to-one when its columns are also unique on the referencing table
+const RELATIONSHIPS_SQL = `
+  select c.relname as table, con.conname as name,
+         array(select a.attname::text from unnest(con.conkey) with ordinality k(num, i)
+                 join pg_attribute a on a.attrelid = con.conrelid and a.attnum = k.num
+                order by k.i) as columns,
+         exists (select 1 from pg_index i
+                  where i.indrelid = con.conrelid and i.indisunique and i.indpred is null
+                    and (select array_agg(x order by x) from unnest(i.indkey::int2[]) x)
+                      = (select array_agg(x order by x) from unnest(con.conkey) x)) as one_to_one,
+         fc.relname as ref_table,
+         array(select a.attname::text from unnest(con.confkey) with ordinality k(num, i)
+                 join pg_attribute a on a.attrelid = con.confrelid and a.attnum = k.num
+                order by k.i) as ref_columns
+    from pg_constraint con
+    join pg_class c on c.oid = con.conrelid
+    join pg_namespace n on n.oid = c.relnamespace
+    join pg_class fc on fc.oid = con.confrelid
+    join pg_namespace fn on fn.oid = fc.relnamespace
+   where con.contype = 'f' and n.nspname = 'public' and fn.nspname = 'public'
+   order by c.relname, con.conname`;
+
+const FUNCTIONS_SQL = `
+  select p.proname as name,
+         p.proargnames::text[] as arg_names, p.proargmodes::text[] as arg_modes,
+         coalesce(p.proallargtypes::int[], p.proargtypes::int[]) as arg_types,
+         p.pronargs as in_count, p.pronargdefaults as default_count,
+         p.prorettype::int as returns, p.proretset as returns_set
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+   where n.nspname = 'public' and p.prokind = 'f'
+     and p.prorettype not in ('trigger'::regtype, 'event_trigger'::regtype)
+     and ${NOT_FROM_EXTENSION("p.oid")}
+   order by p.proname, pg_get_function_identity_arguments(p.oid)`;
+
+
+type Lines = string[];
+
+const key = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+
+const indent = (lines: Lines) => lines.map((l) => (l ? `  ${l}` : l));
+
+// name: <value>, where the value may span several lines
+const prop = (name: string, value: Lines | string): Lines =>
+  typeof value === "string" ? [`${name}: ${value}`] : [`${name}: ${value[0]}`, ...value.slice(1)];
+
+const obj = (props: Lines[], empty = "{ [_ in never]: never }"): Lines =>
+  props.length ? ["{", ...props.flatMap(indent), "}"] : [empty];
+
+// The same as an object literal (a value, so properties end in commas)
+const literal = (props: Lines[]): Lines =>
+  obj(props.map((p) => [...p.slice(0, -1), `${p[p.length - 1]},`]));
+
+export async function generateTypes(c: pg.Client): Promise<string> {
+  const types = new Map<number, PgType>();
+  for (const t of (await c.query<PgType>(TYPES_SQL)).rows) types.set(t.oid, t);
+  const enums = (await c.query<{ name: string; labels: string[] }>(ENUMS_SQL)).rows;
+  const tables = (await c.query<{ name: string }>(TABLES_SQL)).rows.map((r) => r.name);
+  const columns = (await c.query<Column>(COLUMNS_SQL)).rows;
+  const relationships = (await c.query<Relationship>(RELATIONSHIPS_SQL)).rows;
+  const functions = (await c.query<Fn>(FUNCTIONS_SQL)).rows;
+  const enumNames = new Set(enums.map((e) => e.name));
+
+  function tsType(oid: number): string {
+    const t = types.get(oid);
+    if (!t) return "unknown";
+    if (t.elem && t.name.startsWith("_")) return `${tsType(t.elem)}[]`.replace(/^(.* .*)\[\]$/, "($1)[]");
+    if (t.kind === "e" && enumNames.has(t.name)) return `Database["public"]["Enums"][${JSON.stringify(t.name)}]`;
+    if (t.kind === "c" && t.relname) return `Database["public"]["Tables"][${JSON.stringify(t.relname)}]["Row"]`;
+    if (t.name === "bool") return "boolean";
+    if (t.name === "json" || t.name === "jsonb") return "Json";
+    if (t.name === "void") return "undefined";
+    if (t.name === "record") return "Record<string, unknown>";
+    if (NUMBER.has(t.name)) return "number";
+    if (STRING.has(t.name)) return "string";
+    return "unknown";
+  }
+
+  const computed = new Map<string, Lines[]>();
+  const rpcs = new Map<string, Lines[]>();
+  const addRpc = (name: string, args: Lines[], returns: Lines) =>
+    rpcs.set(name, [
+      ...(rpcs.get(name) ?? []),
+      obj([prop("Args", obj(args, "Record<PropertyKey, never>")), prop("Returns", returns)]),
+    ]);
+
+  for (const f of functions) {
+    const modes = f.arg_modes ?? f.arg_types.map(() => "i");
+    const params = f.arg_types.map((type, i) => ({ type, name: f.arg_names?.[i] ?? "", mode: modes[i] }));
+    const ins = params.filter((a) => a.mode === "i" || a.mode === "b" || a.mode === "v");
+    const outs = params.filter((a) => a.mode === "o" || a.mode === "b" || a.mode === "t");
+
+    let returns: Lines =
+      outs.length > 0 && types.get(f.returns)?.name === "record"
+        ? obj(outs.map((o) => prop(key(o.name), tsType(o.type))))
+        : [tsType(f.returns)];
+    if (f.returns_set) returns = [...returns.slice(0, -1), `${returns[returns.length - 1]}[]`];
+
+    // Computed field: f(row public.<table>) reads like a nullable column of <table>
+    const rowType = ins.length === 1 ? types.get(ins[0].type) : undefined;
+    if (rowType?.kind === "c" && rowType.relname) {
+      const fields = computed.get(rowType.relname) ?? [];
+      fields.push(prop(key(f.name), [...returns.slice(0, -1), `${returns[returns.length - 1]} | null`]));
+      computed.set(rowType.relname, fields);
+      addRpc(f.name, [prop('""', tsType(ins[0].type))], returns);
+      continue;
+    }
+    // PostgREST calls functions by argument name; ones with unnamed arguments can't be reached
+    if (ins.some((a) => !a.name)) continue;
+
+    // Only the trailing arguments have defaults, and those may be left out
+    const optionalFrom = ins.length - f.default_count;
+    const args = ins.map((a, i) => prop(key(a.name) + (i >= optionalFrom ? "?" : ""), tsType(a.type)));
+    addRpc(f.name, args, returns);
+  }
+
+  const tableLines: Lines[] = tables.map((table) => {
+    const cols = columns.filter((col) => col.table === table);
+    const colType = (col: Column) => tsType(col.type) + (col.nullable ? " | null" : "");
+    const row = [
+      ...cols.map((col) => ({ name: col.name, lines: prop(key(col.name), colType(col)) })),
+      ...(computed.get(table) ?? []).map((lines) => ({ name: lines[0].split(":")[0], lines })),
+    ]
+      .sort((a, b) => (a.name < b.name ? -1 : 1))
+      .map((r) => r.lines);
+    const insert = cols.map((col) =>
+      col.generated
+        ? prop(`${key(col.name)}?`, "never")
+        : prop(key(col.name) + (col.nullable || col.has_default ? "?" : ""), colType(col))
+    );
+    const update = cols.map((col) => prop(`${key(col.name)}?`, col.generated ? "never" : colType(col)));
+    const rels = relationships
+      .filter((r) => r.table === table)
+      .map((r) =>
+        obj([
+          prop("foreignKeyName", JSON.stringify(r.name)),
+          prop("columns", JSON.stringify(r.columns)),
+          prop("isOneToOne", String(r.one_to_one)),
+          prop("referencedRelation", JSON.stringify(r.ref_table)),
+          prop("referencedColumns", JSON.stringify(r.ref_columns)),
+        ])
+      );
+
+    return prop(
+      key(table),
+      obj([
+        prop("Row", obj(row)),
+        prop("Insert", obj(insert)),
+        prop("Update", obj(update)),
+        prop("Relationships", rels.length ? ["[", ...rels.flatMap((r) => indent([...r.slice(0, -1), "},"])), "]"] : "[]"),
+      ])
+    );
+  });
+
+  const functionLines = [...rpcs].map(([name, overloads]) =>
+    overloads.length === 1
+      ? prop(key(name), overloads[0])
+      : [`${key(name)}:`, ...overloads.flatMap((o) => indent([`| ${o[0]}`, ...indent(o.slice(1))]))]
+  );
+
+  const database = obj([
+    prop("__InternalSupabase", obj([prop("PostgrestVersion", '"12"')])),
+    prop(
+      "public",
+      obj([
+        prop("Tables", obj(tableLines)),
+        prop("Views", "{ [_ in never]: never }"),
+        prop("Functions", obj(functionLines)),
+        prop("Enums", obj(enums.map((e) => prop(key(e.name), e.labels.map((l) => JSON.stringify(l)).join(" | "))))),
+        prop("CompositeTypes", "{ [_ in never]: never }"),
+      ])
+    ),
+  ]);
+
+  const constants = literal([
+    prop(
+      "public",
+      literal([prop("Enums", literal(enums.map((e) => prop(key(e.name), `[${e.labels.map((l) => JSON.stringify(l)).join(", ")}]`))))])
+    ),
+  ]);
+
+  return [
+    "// database.types.ts — generated from supabase/migrations by `npm run gen:types` in supabase/.",
+    "// Don't edit by hand: change the schema, then regenerate.",
+    "",
+    "export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]",
+    "",
+    `export type Database = ${database[0]}`,
+    ...database.slice(1),
+    "",
+    'type PublicSchema = Database["public"]',
+    "",
+    'export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]',
+    'export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]',
+    'export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]',
+    'export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]',
+    "",
+    `export const Constants = ${constants[0]}`,
+    ...constants.slice(1, -1),
+    `${constants[constants.length - 1]} as const`,
+    "",
+  ].join("\n");
+}
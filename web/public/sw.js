@@ -0,0 +1,83 @@
+// sw.js — service worker: keeps the app shell cached so the app opens with no signal
+// (job data lives in IndexedDB, see src/offline.ts), shows push notifications sent
+// by the dispatcher (supabase/tools/notify.ts) and opens the job when one is tapped.
+
+const SHELL_CACHE = "dive-shell-v1";
+const SHELL = ["/", "/index.html", "/manifest.webmanifest", "/icon-192.png", "/icon-512.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((c) => c.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== SHELL_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages: network first, cached shell when offline. Built assets (hashed names): cache
+// first. Everything else, Supabase included, goes straight to the network.
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  const url = new URL(req.url);
+  if (req.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (req.mode === "navigate") {
+    event.respondWith(
+      fetch(req)
+        .then((res) => {
+          const copy = res.clone();
+          caches.open(SHELL_CACHE).then((c) => c.put("/index.html", copy));
+          return res;
+        })
+        .catch(() => caches.match("/index.html"))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/") || SHELL.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(req).then((hit) =>
+        hit || fetch(req).then((res) => {
+          if (res.ok) {
+            const copy = res.clone();
+            caches.open(SHELL_CACHE).then((c) => c.put(req, copy));
+          }
+          return res;
+        })
+      )
+    );
+  }
+});
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { title: "Dive Guide Claim", body: event.data ? event.data.text() : "" };
+  }
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Dive Guide Claim", {
+      body: data.body || "",
+      tag: data.jobId || undefined,
+      data: { jobId: data.jobId || null },
+    })
+  );
+});
+
+// The job's Details (/jobs/:id, see src/router.ts), in an open window if there is one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const jobId = event.notification.data && event.notification.data.jobId;
+  const path = jobId ? `/jobs/${jobId}` : "/";
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => new URL(w.url).origin === self.location.origin);
+      if (!open) return self.clients.openWindow(path);
+      return open.focus().then((w) => (jobId && w.navigate ? w.navigate(path) : w));
+    })
+  );
+});
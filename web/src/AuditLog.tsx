@@ -0,0 +1,88 @@
+// AuditLog.tsx — admin view over job_events with action / person / date filters
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { JobEvent, Profile } from "./types";
+import { describeEvent, eventPeople, loadAuditEvents, EVENT_ACTIONS, type AuditFilters } from "./jobEvents";
+import { loadAllProfiles, loadProfileNames } from "./profiles";
+
+export default function AuditLog() {
+  const [people, setPeople] = useState<Profile[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({ action: "", actor: "", from: "", to: "" });
+  const [events, setEvents] = useState<JobEvent[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    loadAllProfiles().then(setPeople).catch(() => setPeople([]));
+  }, []);
+
+  useEffect(() => {
+    let live = true;
+    (async () => {
+      try {
+        setLoading(true);
+        const rows = await loadAuditEvents(filters);
+        const named = await loadProfileNames(eventPeople(rows));
+        if (!live) return;
+        setEvents(rows);
+        setNames(named);
+        setError("");
+      } catch (e: any) {
+        if (live) setError(e?.message || "Failed to load audit log.");
+      } finally {
+        if (live) setLoading(false);
+      }
+    })();
+    return () => {
+      live = false;
+    };
+  }, [filters]);
+
+  function set<K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) {
+    setFilters({ ...filters, [key]: value });
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 8 }}>
+        <label style={styles.label}>Action
+          <select style={styles.input} value={filters.action} onChange={(e) => set("action", e.target.value as AuditFilters["action"])}>
+            <option value="">Any</option>
+            {EVENT_ACTIONS.map((a) => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </label>
+        <label style={styles.label}>By
+          <select style={styles.input} value={filters.actor} onChange={(e) => set("actor", e.target.value)}>
+            <option value="">Anyone</option>
+            {people.map((p) => <option key={p.id} value={p.id}>{p.full_name || p.id.slice(0, 8)}</option>)}
+          </select>
+        </label>
+        <label style={styles.label}>From
+          <input type="date" style={styles.input} value={filters.from} onChange={(e) => set("from", e.target.value)} />
+        </label>
+        <label style={styles.label}>To
+          <input type="date" style={styles.input} value={filters.to} onChange={(e) => set("to", e.target.value)} />
+        </label>
+      </div>
+
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      {loading && <div style={styles.subtle}>Loading…</div>}
+      {!loading && !events.length && <div style={styles.card}>No events match.</div>}
+
+      <ul style={{ display: "grid", gap: 8 }}>
+        {events.map((e) => (
+          <li key={e.id} style={styles.card}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+              <div style={{ fontWeight: 600 }}>{e.jobs?.title || e.job_id.slice(0, 8)}</div>
+              <div style={styles.subtle}>{new Date(e.created_at).toLocaleString()}</div>
+            </div>
+            <div style={{ fontSize: 14, marginTop: 4 }}>{describeEvent(e, names)}</div>
+            {e.jobs?.date && <div style={styles.subtle}>Trip date {e.jobs.date}</div>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
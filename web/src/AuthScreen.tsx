@@ -0,0 +1,30 @@
+// AuthScreen.tsx — magic-link sign in. The link comes back to the page it was asked
+// from, so a shared /jobs/:id still opens that job after signing in.
+
+import { useState } from "react";
+import { supabase } from "./supabase";
+import { styles } from "./styles";
+
+export default function AuthScreen() {
+  const [email, setEmail] = useState("");
+
+  async function signIn() {
+    await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: window.location.href } });
+    alert("Magic link sent. Check your email to finish signing in.");
+  }
+
+  return (
+    <div style={{ padding: 24, maxWidth: 360, margin: "40px auto", fontFamily: "system-ui, sans-serif" }}>
+      <h1 style={{ fontSize: 20, marginBottom: 8 }}>Sign in</h1>
+      <input
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="you@example.com"
+        style={{ border: "1px solid #ccc", borderRadius: 8, padding: 10, width: "100%", marginBottom: 8 }}
+      />
+      <button onClick={signIn} style={styles.primaryBtnFull}>
+        Send magic link
+      </button>
+    </div>
+  );
+}
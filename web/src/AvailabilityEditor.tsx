@@ -0,0 +1,150 @@
+// AvailabilityEditor.tsx — a guide's working weekdays (optionally with hours) and
+// blackout dates, shown on the Profile screen. Claims and assignments check both.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { GuideBlackout } from "./types";
+import { WEEKDAYS } from "./templates";
+import { addBlackout, deleteBlackout, loadAvailability, loadBlackouts, saveAvailability } from "./availability";
+
+type Day = { on: boolean; from: string; until: string };
+
+const ALL_OFF = (): Record<number, Day> =>
+  Object.fromEntries(WEEKDAYS.map((d) => [d.iso, { on: false, from: "", until: "" }]));
+
+export default function AvailabilityEditor({ guideId }: { guideId: string }) {
+  const [days, setDays] = useState<Record<number, Day>>(ALL_OFF);
+  const [blackouts, setBlackouts] = useState<GuideBlackout[]>([]);
+  const [savingWeek, setSavingWeek] = useState(false);
+  const [boFrom, setBoFrom] = useState("");
+  const [boTo, setBoTo] = useState("");
+  const [boNote, setBoNote] = useState("");
+  const [msg, setMsg] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [guideId]);
+
+  async function refresh() {
+    try {
+      const [week, bos] = await Promise.all([loadAvailability(guideId), loadBlackouts(guideId)]);
+      const next = ALL_OFF();
+      for (const a of week) {
+        next[a.weekday] = { on: true, from: a.starts_at?.slice(0, 5) || "", until: a.ends_at?.slice(0, 5) || "" };
+      }
+      setDays(next);
+      setBlackouts(bos);
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to load availability."}`);
+    }
+  }
+
+  function setDay(iso: number, patch: Partial<Day>) {
+    setDays((ds) => ({ ...ds, [iso]: { ...ds[iso], ...patch } }));
+  }
+
+  async function saveWeek() {
+    try {
+      setSavingWeek(true);
+      setMsg("");
+      await saveAvailability(guideId, WEEKDAYS.filter((d) => days[d.iso].on).map((d) => ({
+        weekday: d.iso,
+        starts_at: days[d.iso].from || null,
+        ends_at: days[d.iso].until || null,
+      })));
+      setMsg("✅ Weekly availability saved.");
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to save availability."}`);
+    } finally {
+      setSavingWeek(false);
+    }
+  }
+
+  async function addBo() {
+    if (!boFrom) return;
+    try {
+      setMsg("");
+      await addBlackout({ guide_id: guideId, starts_on: boFrom, ends_on: boTo || boFrom, note: boNote.trim() || null });
+      setBoFrom("");
+      setBoTo("");
+      setBoNote("");
+      await refresh();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to add blackout."}`);
+    }
+  }
+
+  async function removeBo(b: GuideBlackout) {
+    try {
+      await deleteBlackout(b.id);
+      await refresh();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to remove blackout."}`);
+    }
+  }
+
+  const anyOn = WEEKDAYS.some((d) => days[d.iso].on);
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ borderTop: "1px solid #eee", marginTop: 8, paddingTop: 8, fontWeight: 600 }}>
+        Availability
+      </div>
+      <div style={styles.subtle}>
+        Tick the days you work; add hours if you only work part of the day. {anyOn ? "" : "Nothing ticked means any day."}
+      </div>
+      <div style={{ display: "grid", gap: 6 }}>
+        {WEEKDAYS.map((d) => (
+          <div key={d.iso} style={{ display: "grid", gridTemplateColumns: "80px 1fr 1fr", gap: 8, alignItems: "center" }}>
+            <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              <input type="checkbox" checked={days[d.iso].on} onChange={(e) => setDay(d.iso, { on: e.target.checked })} />
+              {d.label}
+            </label>
+            <input type="time" style={styles.input} disabled={!days[d.iso].on} value={days[d.iso].from}
+              onChange={(e) => setDay(d.iso, { from: e.target.value })} aria-label={`${d.label} from`} />
+            <input type="time" style={styles.input} disabled={!days[d.iso].on} value={days[d.iso].until}
+              onChange={(e) => setDay(d.iso, { until: e.target.value })} aria-label={`${d.label} until`} />
+          </div>
+        ))}
+      </div>
+      <div>
+        <button style={styles.primaryBtn} disabled={savingWeek} onClick={saveWeek}>
+          {savingWeek ? "Saving…" : "Save weekly availability"}
+        </button>
+      </div>
+
+      <div style={{ fontWeight: 600, marginTop: 8 }}>Blackout dates</div>
+      {blackouts.length ? (
+        <ul style={{ display: "grid", gap: 6 }}>
+          {blackouts.map((b) => (
+            <li key={b.id} style={{ ...styles.card, display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+              <span>
+                {b.starts_on === b.ends_on ? b.starts_on : `${b.starts_on} – ${b.ends_on}`}
+                {b.note ? <span style={styles.subtle}> · {b.note}</span> : null}
+              </span>
+              <button style={styles.ghostBtn} onClick={() => removeBo(b)}>Remove</button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div style={styles.card}>No upcoming blackouts.</div>
+      )}
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        <label style={styles.label}>From
+          <input type="date" style={styles.input} value={boFrom} onChange={(e) => setBoFrom(e.target.value)} />
+        </label>
+        <label style={styles.label}>To (optional)
+          <input type="date" style={styles.input} value={boTo} min={boFrom} onChange={(e) => setBoTo(e.target.value)} />
+        </label>
+      </div>
+      <label style={styles.label}>Note (optional)
+        <input style={styles.input} value={boNote} onChange={(e) => setBoNote(e.target.value)} />
+      </label>
+      <div>
+        <button style={styles.ghostBtn} disabled={!boFrom} onClick={addBo}>Add blackout</button>
+      </div>
+      {msg && <div>{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// BoatsScreen.tsx — admin: boat registry (name, capacity, home port, guides needed)
+// Boats are retired rather than deleted so past jobs keep their boat.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Boat } from "./types";
+import { loadBoats, saveBoat } from "./boats";
+
+type Draft = { id?: string; name: string; capacity: string; home_port: string; guides_needed: string; is_active: boolean };
+
+const EMPTY: Draft = { name: "", capacity: "", home_port: "", guides_needed: "1", is_active: true };
+
+export default function BoatsScreen() {
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function refresh() {
+    try {
+      setError("");
+      setBoats(await loadBoats());
+    } catch (e: any) {
+      setError(e?.message || "Failed to load boats.");
+    }
+  }
+
+  async function save() {
+    if (!draft?.name.trim()) {
+      alert("Boat name is required.");
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveBoat({
+        id: draft.id,
+        name: draft.name.trim(),
+        capacity: draft.capacity ? Number(draft.capacity) : null,
+        home_port: draft.home_port || null,
+        guides_needed: Math.max(1, Number(draft.guides_needed) || 1),
+        is_active: draft.is_active,
+      });
+      setDraft(null);
+      await refresh();
+    } catch (e: any) {
+      alert(e?.message || "Failed to save boat.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 12, maxWidth: 640 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div style={{ fontWeight: 600 }}>Boats</div>
+        <button style={styles.ghostBtn} onClick={() => setDraft({ ...EMPTY })}>Add boat</button>
+      </div>
+
+      {!boats.length && <div style={styles.card}>No boats yet.</div>}
+      <ul style={{ display: "grid", gap: 8 }}>
+        {boats.map((b) => (
+          <li key={b.id} style={{ ...styles.card, display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, opacity: b.is_active ? 1 : 0.6 }}>
+            <div>
+              <div style={{ fontWeight: 600 }}>{b.name}{b.is_active ? "" : " (retired)"}</div>
+              <div style={styles.subtle}>
+                {b.home_port || "—"} · {b.capacity ? `${b.capacity} passengers` : "capacity —"} · {b.guides_needed} guide{b.guides_needed === 1 ? "" : "s"}
+              </div>
+            </div>
+            <button
+              style={styles.ghostBtn}
+              onClick={() => setDraft({
+                id: b.id,
+                name: b.name,
+                capacity: b.capacity != null ? String(b.capacity) : "",
+                home_port: b.home_port || "",
+                guides_needed: String(b.guides_needed),
+                is_active: b.is_active,
+              })}
+            >
+              Edit
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+          <div style={{ fontWeight: 600 }}>{draft.id ? "Edit boat" : "New boat"}</div>
+          <label style={styles.label}>Name
+            <input style={styles.input} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          </label>
+          <label style={styles.label}>Home port
+            <input style={styles.input} value={draft.home_port} onChange={(e) => setDraft({ ...draft, home_port: e.target.value })} />
+          </label>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <label style={styles.label}>Capacity (passengers)
+              <input type="number" min={1} style={styles.input} value={draft.capacity} onChange={(e) => setDraft({ ...draft, capacity: e.target.value })} />
+            </label>
+            <label style={styles.label}>Guides needed
+              <input type="number" min={1} style={styles.input} value={draft.guides_needed} onChange={(e) => setDraft({ ...draft, guides_needed: e.target.value })} />
+            </label>
+          </div>
+          <label style={{ display: "inline-flex", gap: 6, alignItems: "center" }}>
+            <input type="checkbox" checked={draft.is_active} onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })} />
+            In service
+          </label>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button style={styles.primaryBtn} disabled={saving} onClick={save}>{saving ? "Saving…" : "Save boat"}</button>
+            <button style={styles.ghostBtn} disabled={saving} onClick={() => setDraft(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+// BookingInbox.tsx — admin: booking requests from the public /book form.
+// Approve turns a request into an open job with the customer as its contact (the
+// admin fills in the trip details first); Decline takes an optional note that the
+// customer sees on their status link.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Boat, BookingRequest } from "./types";
+import { loadBoats } from "./boats";
+import { approveBooking, bookingMessage, declineBooking, loadBookingRequests } from "./bookings";
+
+type Draft = {
+  title: string;
+  date: string;
+  call_time: string;
+  dock_time: string;
+  location: string;
+  boat_id: string;
+  pay: string;
+  slots: string;
+  requirements: string; // comma-separated
+  notes: string;
+};
+
+function toDraft(r: BookingRequest): Draft {
+  return {
+    title: `${r.dive_type} — ${r.customer_name} (${r.party_size})`,
+    date: r.preferred_date,
+    call_time: "",
+    dock_time: "",
+    location: "",
+    boat_id: "",
+    pay: "",
+    slots: "1",
+    requirements: "",
+    notes: [`Party of ${r.party_size}.`, r.message].filter(Boolean).join("\n"),
+  };
+}
+
+const TABS: { status: BookingRequest["status"]; label: string }[] = [
+  { status: "pending", label: "Pending" },
+  { status: "approved", label: "Approved" },
+  { status: "declined", label: "Declined" },
+];
+
+export default function BookingInbox({ onApproved }: { onApproved: () => Promise<void> }) {
+  const [tab, setTab] = useState<BookingRequest["status"]>("pending");
+  const [requests, setRequests] = useState<BookingRequest[]>([]);
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [approving, setApproving] = useState<{ id: string; draft: Draft } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  async function load() {
+    try {
+      setRequests(await loadBookingRequests(tab));
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to load booking requests."}`);
+    }
+  }
+
+  useEffect(() => {
+    setApproving(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tab]);
+
+  useEffect(() => {
+    loadBoats(true).then(setBoats).catch(() => setBoats([]));
+  }, []);
+
+  async function approve() {
+    if (!approving) return;
+    const d = approving.draft;
+    if (!d.title.trim() || !d.date || !d.call_time) {
+      setMsg("⚠️ Title, date and call time are required.");
+      return;
+    }
+    try {
+      setBusy(true);
+      setMsg("");
+      const reqs = d.requirements.split(",").map((s) => s.trim()).filter(Boolean);
+      const r = await approveBooking(approving.id, {
+        title: d.title.trim(),
+        date: d.date,
+        call_time: d.call_time,
+        dock_time: d.dock_time || null,
+        location: d.location || null,
+        boat_id: d.boat_id || null,
+        pay: d.pay ? Number(d.pay) : null,
+        slots: Math.max(1, Number(d.slots) || 1),
+        requirements: reqs.length ? reqs : null,
+        notes: d.notes || null,
+      });
+      if (!r.ok) throw new Error(bookingMessage(r));
+      setMsg("✅ Approved. The job is open for guides.");
+      setApproving(null);
+      await Promise.all([load(), onApproved()]);
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to approve the request."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function decline(r: BookingRequest) {
+    const reason = prompt(`Decline ${r.customer_name}'s request? Optional note for the customer:`, "");
+    if (reason === null) return;
+    try {
+      setBusy(true);
+      setMsg("");
+      const res = await declineBooking(r.id, reason.trim());
+      if (!res.ok) throw new Error(bookingMessage(res));
+      setMsg("✅ Declined.");
+      await load();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to decline the request."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const field = (key: keyof Draft) => ({
+    value: approving?.draft[key] ?? "",
+    onChange: (e: { target: { value: string } }) =>
+      setApproving((a) => (a ? { ...a, draft: { ...a.draft, [key]: e.target.value } } : a)),
+  });
+
+  return (
+    <div style={{ display: "grid", gap: 12, maxWidth: 640 }}>
+      <div style={styles.subtle}>
+        Customers request trips at <a href="/book" target="_blank" rel="noreferrer">{window.location.origin}/book</a>.
+      </div>
+      <div style={{ display: "flex", gap: 6 }}>
+        {TABS.map((t) => (
+          <button key={t.status} style={{ ...styles.tabBtn, ...(tab === t.status ? styles.tabActive : {}) }}
+            onClick={() => setTab(t.status)}>
+            {t.label}
+          </button>
+        ))}
+      </div>
+      {msg && <div>{msg}</div>}
+      {!requests.length && <div style={styles.card}>No {tab} requests.</div>}
+
+      {requests.map((r) => (
+        <div key={r.id} style={{ ...styles.card, display: "grid", gap: 6 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap" }}>
+            <strong>{r.dive_type} · {r.party_size} {r.party_size === 1 ? "person" : "people"} · {r.preferred_date}</strong>
+            <span style={styles.subtle}>{new Date(r.created_at).toLocaleString()}</span>
+          </div>
+          <div>
+            {r.customer_name}
+            {r.customer_phone && <> · <a href={`tel:${r.customer_phone}`}>{r.customer_phone}</a></>}
+            {r.customer_email && <> · <a href={`mailto:${r.customer_email}`}>{r.customer_email}</a></>}
+          </div>
+          {r.message && <div style={{ whiteSpace: "pre-wrap", ...styles.subtle }}>{r.message}</div>}
+          {r.status === "declined" && r.decline_reason && <div style={styles.subtle}>Note to customer: {r.decline_reason}</div>}
+          {r.status === "approved" && !r.job_id && <div style={styles.subtle}>The job has since been deleted.</div>}
+
+          {r.status === "pending" && approving?.id !== r.id && (
+            <div style={{ display: "flex", gap: 8 }}>
+              <button style={styles.primaryBtn} disabled={busy} onClick={() => setApproving({ id: r.id, draft: toDraft(r) })}>
+                Approve…
+              </button>
+              <button style={styles.dangerBtn} disabled={busy} onClick={() => decline(r)}>Decline…</button>
+            </div>
+          )}
+
+          {approving?.id === r.id && (
+            <div style={{ display: "grid", gap: 8, borderTop: "1px solid #eee", paddingTop: 8 }}>
+              <label style={styles.label}>Job title
+                <input style={styles.input} {...field("title")} />
+              </label>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8 }}>
+                <label style={styles.label}>Date
+                  <input type="date" style={styles.input} {...field("date")} />
+                </label>
+                <label style={styles.label}>Call time
+                  <input type="time" style={styles.input} {...field("call_time")} />
+                </label>
+                <label style={styles.label}>Dock time
+                  <input type="time" style={styles.input} {...field("dock_time")} />
+                </label>
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+                <label style={styles.label}>Boat
+                  <select style={styles.input} value={approving.draft.boat_id} onChange={(e) => {
+                    const boat = boats.find((b) => b.id === e.target.value);
+                    setApproving({
+                      ...approving,
+                      draft: { ...approving.draft, boat_id: e.target.value, slots: boat ? String(boat.guides_needed) : approving.draft.slots },
+                    });
+                  }}>
+                    <option value="">— None —</option>
+                    {boats.map((b) => <option key={b.id} value={b.id}>{b.name}</option>)}
+                  </select>
+                </label>
+                <label style={styles.label}>Location
+                  <input style={styles.input} {...field("location")} />
+                </label>
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+                <label style={styles.label}>Pay (USD)
+                  <input type="number" style={styles.input} {...field("pay")} />
+                </label>
+                <label style={styles.label}>Guides needed
+                  <input type="number" min={1} style={styles.input} {...field("slots")} />
+                </label>
+              </div>
+              <label style={styles.label}>Requirements (comma-separated)
+                <input style={styles.input} {...field("requirements")} />
+              </label>
+              <label style={styles.label}>Notes
+                <textarea style={{ ...styles.input, minHeight: 60 }} {...field("notes")} />
+              </label>
+              <div style={{ display: "flex", gap: 8 }}>
+                <button style={styles.primaryBtn} disabled={busy} onClick={approve}>{busy ? "Creating…" : "Create job"}</button>
+                <button style={styles.ghostBtn} disabled={busy} onClick={() => setApproving(null)}>Cancel</button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+// BookingPage.tsx — the public booking form at /book (no sign-in) and the customer's
+// status page at /book?request=<token>. The token link is the only way back to a
+// request, so the page shows it after sending and asks the customer to keep it.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { BookingStatus } from "./types";
+import {
+  DIVE_TYPES, bookingMessage, loadBookingStatus, loadChallenge, statusUrl, submitBooking, type Challenge,
+} from "./bookings";
+
+const tomorrow = () => new Date(Date.now() + 24 * 3600 * 1000).toLocaleDateString("en-CA");
+
+export default function BookingPage() {
+  const [token, setToken] = useState(() => new URLSearchParams(window.location.search).get("request") || "");
+
+  function showStatus(t: string) {
+    window.history.replaceState(null, "", `/book?request=${t}`);
+    setToken(t);
+  }
+
+  return (
+    <div style={{ ...styles.wrap, maxWidth: 560 }}>
+      <div style={styles.header}>
+        <div style={styles.h1}>Book a dive</div>
+      </div>
+      {token ? <StatusView token={token} /> : <BookingForm onSent={showStatus} />}
+    </div>
+  );
+}
+
+function BookingForm({ onSent }: { onSent: (token: string) => void }) {
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [partySize, setPartySize] = useState("2");
+  const [preferredDate, setPreferredDate] = useState(tomorrow);
+  const [diveType, setDiveType] = useState(DIVE_TYPES[0]);
+  const [message, setMessage] = useState("");
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [answer, setAnswer] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  async function newChallenge() {
+    setAnswer("");
+    try {
+      setChallenge(await loadChallenge());
+    } catch (e: any) {
+      setChallenge(null);
+      setError(e?.message || "Failed to load the form. Please reload the page.");
+    }
+  }
+
+  useEffect(() => {
+    newChallenge();
+  }, []);
+
+  async function send() {
+    if (!name.trim()) return setError("Please tell us your name.");
+    if (!phone.trim() && !email.trim()) return setError("Please give us a phone number or an email so we can reach you.");
+    if (!challenge || !answer.trim()) return setError("Please answer the question at the bottom.");
+    try {
+      setSending(true);
+      setError("");
+      const r = await submitBooking({
+        challengeId: challenge.id,
+        answer: Number(answer),
+        name: name.trim(),
+        phone: phone.trim(),
+        email: email.trim(),
+        partySize: Number(partySize) || 0,
+        preferredDate,
+        diveType,
+        message: message.trim(),
+      });
+      if (!r.ok) {
+        setError(bookingMessage(r));
+        await newChallenge(); // each question is good for one try
+        return;
+      }
+      onSent(r.token!);
+    } catch (e: any) {
+      setError(e?.message || "Failed to send your request.");
+      await newChallenge();
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={styles.subtle}>
+        Tell us when you'd like to dive. We'll confirm the trip and time, or get back to you with another option.
+      </div>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      <label style={styles.label}>Your name
+        <input style={styles.input} value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" />
+      </label>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        <label style={styles.label}>Phone
+          <input type="tel" style={styles.input} value={phone} onChange={(e) => setPhone(e.target.value)} autoComplete="tel" />
+        </label>
+        <label style={styles.label}>Email
+          <input type="email" style={styles.input} value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" />
+        </label>
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        <label style={styles.label}>Preferred date
+          <input type="date" style={styles.input} value={preferredDate} min={new Date().toLocaleDateString("en-CA")}
+            onChange={(e) => setPreferredDate(e.target.value)} />
+        </label>
+        <label style={styles.label}>Number of people
+          <input type="number" min={1} max={50} style={styles.input} value={partySize} onChange={(e) => setPartySize(e.target.value)} />
+        </label>
+      </div>
+      <label style={styles.label}>Type of dive
+        <select style={styles.input} value={diveType} onChange={(e) => setDiveType(e.target.value)}>
+          {DIVE_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+        </select>
+      </label>
+      <label style={styles.label}>Anything else? (certification level, gear rental, times that suit)
+        <textarea style={{ ...styles.input, minHeight: 80 }} value={message} maxLength={2000}
+          onChange={(e) => setMessage(e.target.value)} />
+      </label>
+
+      <label style={styles.label}>{challenge ? challenge.question : "Loading…"}
+        <input inputMode="numeric" style={{ ...styles.input, maxWidth: 120 }} value={answer}
+          onChange={(e) => setAnswer(e.target.value.replace(/\D/g, ""))} />
+      </label>
+
+      <button style={styles.primaryBtnFull} disabled={sending || !challenge} onClick={send}>
+        {sending ? "Sending…" : "Send booking request"}
+      </button>
+    </div>
+  );
+}
+
+function StatusView({ token }: { token: string }) {
+  const [status, setStatus] = useState<BookingStatus | null | undefined>(undefined);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    loadBookingStatus(token)
+      .then(setStatus)
+      .catch((e: any) => setError(e?.message || "Failed to load your request."));
+  }, [token]);
+
+  if (error) return <div style={{ color: "#c00" }}>{error}</div>;
+  if (status === undefined) return <div>Loading…</div>;
+  if (!status) return <div style={styles.card}>We couldn't find that request. Please check the link.</div>;
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={styles.card}>
+        {status.status === "pending" && <div>🕒 We've got your request and will confirm soon.</div>}
+        {status.status === "approved" && (
+          <div>
+            ✅ You're booked: {status.job_date} at {status.call_time?.slice(0, 5)}
+            {status.location ? ` · ${status.location}` : ""}. Please arrive by the call time.
+          </div>
+        )}
+        {status.status === "declined" && (
+          <div>❌ Sorry, we can't take this booking.{status.decline_reason ? ` ${status.decline_reason}` : ""}</div>
+        )}
+        {status.status === "canceled" && <div>⚠️ This trip has been canceled. We'll be in touch.</div>}
+      </div>
+      <div style={styles.subtle}>
+        {status.dive_type} for {status.party_size} on {status.preferred_date} · requested {new Date(status.created_at).toLocaleDateString()}
+      </div>
+      <label style={styles.label}>Bookmark this page or keep the link to check back:
+        <input readOnly style={styles.input} value={statusUrl(token)} onFocus={(e) => e.target.select()} />
+      </label>
+    </div>
+  );
+}
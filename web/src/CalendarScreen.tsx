@@ -0,0 +1,187 @@
+// CalendarScreen.tsx — week and month views of open jobs and my jobs, by day,
+// plus the link to subscribe to my jobs from a phone calendar (iCal feed).
+
+import { useMemo, useState } from "react";
+import { styles } from "./styles";
+import type { Job } from "./types";
+import { addDays, calendarFeedToken, calendarFeedUrl, viewDays, ymd } from "./calendar";
+
+type View = "week" | "month";
+
+export default function CalendarScreen({ openJobs, myJobs, onView }: {
+  openJobs: Job[];
+  myJobs: Job[];
+  onView: (job: Job) => void;
+}) {
+  const [view, setView] = useState<View>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const days = useMemo(() => viewDays(view, anchor), [view, anchor]);
+  const today = ymd(new Date());
+
+  // date -> jobs that day, mine first, then by call time
+  const byDay = useMemo(() => {
+    const map: Record<string, { job: Job; mine: boolean }[]> = {};
+    const add = (job: Job, mine: boolean) => (map[job.date] = map[job.date] || []).push({ job, mine });
+    myJobs.filter((j) => j.status !== "canceled").forEach((j) => add(j, true));
+    openJobs.forEach((j) => add(j, false));
+    for (const list of Object.values(map)) {
+      list.sort((a, b) => Number(b.mine) - Number(a.mine) || a.job.call_time.localeCompare(b.job.call_time));
+    }
+    return map;
+  }, [openJobs, myJobs]);
+
+  function step(dir: -1 | 1) {
+    setAnchor((d) => (view === "week" ? addDays(d, 7 * dir) : new Date(d.getFullYear(), d.getMonth() + dir, 1)));
+  }
+
+  const title = view === "week"
+    ? `${days[0].toLocaleDateString([], { month: "short", day: "numeric" })} – ${days[6].toLocaleDateString([], { month: "short", day: "numeric", year: "numeric" })}`
+    : anchor.toLocaleDateString([], { month: "long", year: "numeric" });
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        {(["week", "month"] as View[]).map((v) => (
+          <button key={v} style={{ ...styles.tabBtn, ...(view === v ? styles.tabActive : {}) }} onClick={() => setView(v)}>
+            {v === "week" ? "Week" : "Month"}
+          </button>
+        ))}
+        <button style={styles.ghostBtn} onClick={() => step(-1)}>‹</button>
+        <button style={styles.ghostBtn} onClick={() => setAnchor(new Date())}>Today</button>
+        <button style={styles.ghostBtn} onClick={() => step(1)}>›</button>
+        <strong>{title}</strong>
+        <span style={{ ...styles.subtle, marginLeft: "auto" }}>
+          <Chip mine label="My jobs" /> <Chip mine={false} label="Open" />
+        </span>
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(7, minmax(0, 1fr))", gap: 4 }}>
+        {days.slice(0, 7).map((d) => (
+          <div key={`h-${ymd(d)}`} style={{ ...styles.subtle, textAlign: "center" }}>
+            {d.toLocaleDateString([], { weekday: "short" })}
+          </div>
+        ))}
+        {days.map((d) => {
+          const key = ymd(d);
+          const items = byDay[key] || [];
+          const shown = view === "month" ? items.slice(0, 3) : items;
+          const outside = view === "month" && d.getMonth() !== anchor.getMonth();
+          return (
+            <div
+              key={key}
+              style={{
+                ...styles.card,
+                padding: 6,
+                minHeight: view === "week" ? 160 : 84,
+                opacity: outside ? 0.5 : 1,
+                borderColor: key === today ? "#0a7" : "#ddd",
+                display: "grid",
+                alignContent: "start",
+                gap: 4,
+              }}
+            >
+              <div style={{ fontSize: 12, fontWeight: key === today ? 700 : 400 }}>{d.getDate()}</div>
+              {shown.map(({ job, mine }) => (
+                <button
+                  key={job.id}
+                  onClick={() => onView(job)}
+                  title={`${job.title} · ${job.call_time.slice(0, 5)}${job.boats ? ` · ${job.boats.name}` : ""}`}
+                  style={{
+                    textAlign: "left",
+                    fontSize: 12,
+                    padding: "2px 4px",
+                    borderRadius: 6,
+                    cursor: "pointer",
+                    border: `1px solid ${mine ? "#6366f1" : "#0a7"}`,
+                    background: mine ? "#eef2ff" : "#fff",
+                    overflow: "hidden",
+                    whiteSpace: "nowrap",
+                    textOverflow: "ellipsis",
+                  }}
+                >
+                  {job.call_time.slice(0, 5)} {job.title}
+                </button>
+              ))}
+              {items.length > shown.length && (
+                <button style={{ ...styles.subtle, fontSize: 12, border: 0, background: "none", cursor: "pointer", textAlign: "left" }}
+                  onClick={() => { setView("week"); setAnchor(d); }}>
+                  +{items.length - shown.length} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <FeedLink />
+    </div>
+  );
+}
+
+function Chip({ mine, label }: { mine: boolean; label: string }) {
+  return (
+    <span style={{
+      padding: "1px 6px", borderRadius: 6, fontSize: 12,
+      border: `1px solid ${mine ? "#6366f1" : "#0a7"}`, background: mine ? "#eef2ff" : "#fff",
+    }}>
+      {label}
+    </span>
+  );
+}
+
+// Subscribe from a phone calendar: the link carries a per-guide secret token
+function FeedLink() {
+  const [url, setUrl] = useState<string>("");
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<string>("");
+
+  async function load(rotate: boolean) {
+    if (rotate && !confirm("Reset your calendar link? Calendars subscribed to the old link stop updating.")) return;
+    try {
+      setBusy(true);
+      setNote("");
+      setUrl(calendarFeedUrl(await calendarFeedToken(rotate)));
+      if (rotate) setNote("🔁 New link created. Subscribe again with it.");
+    } catch (e: any) {
+      setNote(`❌ ${e?.message || "Failed to get your calendar link."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(url);
+      setNote("📋 Copied.");
+    } catch {
+      setNote("Select the link and copy it.");
+    }
+  }
+
+  return (
+    <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+      <div style={{ fontWeight: 600 }}>Subscribe to my jobs</div>
+      <div style={styles.subtle}>
+        Add this link to your phone or desktop calendar as a subscription. It lists the jobs you're on with call and dock
+        times, boat and location; unclaimed or canceled jobs disappear and time changes update on the next refresh.
+        Keep it private — anyone with the link can see your schedule.
+      </div>
+      {!url ? (
+        <div><button style={styles.ghostBtn} disabled={busy} onClick={() => load(false)}>Show my calendar link</button></div>
+      ) : (
+        <>
+          <input style={styles.input} readOnly value={url} onFocus={(e) => e.target.select()} />
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <button style={styles.primaryBtn} onClick={copy}>Copy link</button>
+            <a style={{ ...styles.ghostBtn, textDecoration: "none", color: "inherit" }} href={url.replace(/^https?:/, "webcal:")}>
+              Open in calendar app
+            </a>
+            <button style={styles.dangerBtn} disabled={busy} onClick={() => load(true)}>Reset link</button>
+          </div>
+        </>
+      )}
+      {note && <div>{note}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+// CertReview.tsx — admin verification of guide certifications
+// Admin checks the card photo, confirms the expiry date, then verifies (or rejects).
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { GuideCert } from "./types";
+import { cardPhotoUrl, certState, deleteCert, loadCerts, unverifyCert, verifyCert } from "./certs";
+import { loadProfileNames } from "./profiles";
+import { CertBadge } from "./ProfileScreen";
+
+export default function CertReview() {
+  const [certs, setCerts] = useState<GuideCert[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({}); // guideId -> name
+  const [pendingOnly, setPendingOnly] = useState(true);
+  const [expiry, setExpiry] = useState<Record<string, string>>({}); // certId -> YYYY-MM-DD
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function refresh() {
+    try {
+      setError("");
+      const rows = await loadCerts();
+      setCerts(rows);
+      setExpiry(Object.fromEntries(rows.map((c) => [c.id, c.expires_on || ""])));
+
+      const ids = Array.from(new Set(rows.map((c) => c.guide_id)));
+      if (ids.length) setNames(await loadProfileNames(ids));
+    } catch (e: any) {
+      setError(e?.message || "Failed to load certifications.");
+    }
+  }
+
+  async function verify(c: GuideCert) {
+    try {
+      setBusyId(c.id);
+      await verifyCert(c.id, expiry[c.id] || null);
+      await refresh();
+    } catch (e: any) {
+      alert(e?.message || "Failed to verify.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function unverify(c: GuideCert) {
+    try {
+      setBusyId(c.id);
+      await unverifyCert(c.id);
+      await refresh();
+    } catch (e: any) {
+      alert(e?.message || "Failed to revoke verification.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function reject(c: GuideCert) {
+    if (!confirm(`Reject ${c.cert} for ${names[c.guide_id] || "this guide"}?`)) return;
+    await deleteCert(c.id).catch((e) => alert(e.message));
+    await refresh();
+  }
+
+  async function viewCard(path: string) {
+    const url = await cardPhotoUrl(path);
+    if (url) window.open(url, "_blank");
+    else alert("Couldn't open the card photo.");
+  }
+
+  const shown = pendingOnly ? certs.filter((c) => certState(c) !== "verified") : certs;
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      <label style={{ display: "inline-flex", gap: 6, alignItems: "center" }}>
+        <input type="checkbox" checked={pendingOnly} onChange={(e) => setPendingOnly(e.target.checked)} />
+        Pending and expired only
+      </label>
+
+      {!shown.length && <div style={styles.card}>Nothing to review.</div>}
+
+      <ul style={{ display: "grid", gap: 12 }}>
+        {shown.map((c) => (
+          <li key={c.id} style={styles.card}>
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+              <div style={{ fontWeight: 600 }}>
+                {c.cert} · {names[c.guide_id] || c.guide_id.slice(0, 8)}
+              </div>
+              <CertBadge cert={c} />
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 8, flexWrap: "wrap", alignItems: "center" }}>
+              <label style={{ display: "inline-flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+                Expires
+                <input
+                  type="date"
+                  style={{ ...styles.input, width: "auto" }}
+                  value={expiry[c.id] || ""}
+                  onChange={(e) => setExpiry({ ...expiry, [c.id]: e.target.value })}
+                />
+              </label>
+              {c.card_path ? (
+                <button style={styles.ghostBtn} onClick={() => viewCard(c.card_path!)}>View card</button>
+              ) : (
+                <span style={styles.subtle}>No card photo</span>
+              )}
+              <button style={styles.primaryBtn} disabled={busyId === c.id} onClick={() => verify(c)}>
+                {c.verified_at ? "Re-verify" : "Verify"}
+              </button>
+              {c.verified_at && (
+                <button style={styles.ghostBtn} disabled={busyId === c.id} onClick={() => unverify(c)}>Revoke</button>
+              )}
+              <button style={styles.dangerBtn} onClick={() => reject(c)}>Reject</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
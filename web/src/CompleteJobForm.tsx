@@ -0,0 +1,121 @@
+// CompleteJobForm.tsx — "Mark complete" in the Details modal: the trip's dive log and,
+// when something happened, the incident report. The log can be skipped unless an
+// admin made it required in Settings; offline, what's filled in is queued with the
+// completion.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { IncidentKind, IncidentSeverity } from "./types";
+import { loadSettings } from "./settings";
+import { GAS_LABELS, diveLogPayload, emptyDiveLog, type Completion, type DiveLogDraft, type Gas } from "./diveLogs";
+import { INCIDENT_KINDS, SEVERITIES, emptyIncident, incidentError, type IncidentDraft } from "./incidents";
+
+export default function CompleteJobForm({ completing, onSubmit, onCancel }: {
+  completing: boolean;
+  onSubmit: (c: Completion) => void;
+  onCancel: () => void;
+}) {
+  const [required, setRequired] = useState(false);
+  const [skipLog, setSkipLog] = useState(false);
+  const [log, setLog] = useState<DiveLogDraft>(emptyDiveLog);
+  const [happened, setHappened] = useState(false);
+  const [incident, setIncident] = useState<IncidentDraft>(emptyIncident);
+  const [error, setError] = useState<string>("");
+
+  // Offline the setting can't be read: the server checks it again on replay
+  useEffect(() => {
+    loadSettings().then((s) => setRequired(s.require_dive_log)).catch(() => {});
+  }, []);
+
+  const withLog = required || !skipLog;
+
+  function submit() {
+    let payload: Completion["log"] = null;
+    if (withLog) {
+      const p = diveLogPayload({ ...log, had_incident: happened });
+      if (typeof p === "string") return setError(p);
+      payload = p;
+    }
+    const why = happened ? incidentError(incident) : null;
+    if (why) return setError(why);
+    setError("");
+    onSubmit({ log: payload, incident: happened ? incident : null });
+  }
+
+  const num = (key: "max_depth_m" | "bottom_time_min" | "diver_count", label: string, step: number) => (
+    <label style={styles.label}>{label}
+      <input
+        style={styles.input}
+        type="number"
+        min={0}
+        step={step}
+        value={log[key]}
+        onChange={(e) => setLog({ ...log, [key]: e.target.value })}
+      />
+    </label>
+  );
+
+  return (
+    <div style={{ borderTop: "1px solid #eee", paddingTop: 8, display: "grid", gap: 8 }}>
+      <div style={{ fontWeight: 600 }}>Complete the job</div>
+
+      {!required && (
+        <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+          <input type="checkbox" checked={skipLog} onChange={(e) => setSkipLog(e.target.checked)} />
+          No dive log (no dives on this trip)
+        </label>
+      )}
+      {withLog && (
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          {num("max_depth_m", "Max depth (m)", 0.1)}
+          {num("bottom_time_min", "Bottom time (min)", 1)}
+          <label style={styles.label}>Gas
+            <select style={styles.input} value={log.gas} onChange={(e) => setLog({ ...log, gas: e.target.value as Gas })}>
+              {(Object.keys(GAS_LABELS) as Gas[]).map((g) => <option key={g} value={g}>{GAS_LABELS[g]}</option>)}
+            </select>
+          </label>
+          {num("diver_count", "Number of divers", 1)}
+        </div>
+      )}
+
+      <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+        <input type="checkbox" checked={happened} onChange={(e) => setHappened(e.target.checked)} />
+        Something happened (injury, equipment failure, near miss…)
+      </label>
+      {happened && (
+        <div style={{ display: "grid", gap: 8 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <label style={styles.label}>Type
+              <select style={styles.input} value={incident.kind} onChange={(e) => setIncident({ ...incident, kind: e.target.value as IncidentKind })}>
+                {(Object.keys(INCIDENT_KINDS) as IncidentKind[]).map((k) => <option key={k} value={k}>{INCIDENT_KINDS[k]}</option>)}
+              </select>
+            </label>
+            <label style={styles.label}>Severity
+              <select style={styles.input} value={incident.severity} onChange={(e) => setIncident({ ...incident, severity: e.target.value as IncidentSeverity })}>
+                {(Object.keys(SEVERITIES) as IncidentSeverity[]).map((k) => <option key={k} value={k}>{SEVERITIES[k]}</option>)}
+              </select>
+            </label>
+          </div>
+          <label style={styles.label}>People involved
+            <textarea style={{ ...styles.input, minHeight: 44 }} maxLength={2000} value={incident.people_involved} onChange={(e) => setIncident({ ...incident, people_involved: e.target.value })} />
+          </label>
+          <label style={styles.label}>Actions taken
+            <textarea style={{ ...styles.input, minHeight: 60 }} maxLength={4000} value={incident.actions_taken} onChange={(e) => setIncident({ ...incident, actions_taken: e.target.value })} />
+          </label>
+          <label style={styles.label}>What happened (optional)
+            <textarea style={{ ...styles.input, minHeight: 60 }} maxLength={4000} value={incident.description} onChange={(e) => setIncident({ ...incident, description: e.target.value })} />
+          </label>
+          <div style={styles.subtle}>Incident reports are seen by admins only.</div>
+        </div>
+      )}
+
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      <div style={{ display: "flex", gap: 8 }}>
+        <button style={styles.primaryBtn} disabled={completing} onClick={submit}>
+          {completing ? "Marking…" : "Mark complete"}
+        </button>
+        <button style={styles.ghostBtn} disabled={completing} onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
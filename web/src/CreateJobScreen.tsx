@@ -0,0 +1,104 @@
+// CreateJobScreen.tsx — admin Create Job (/admin/create): the job form, optionally filled
+// from a saved template, which can also be saved as a new template
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Boat, JobTemplate } from "./types";
+import * as jobRpc from "./jobRpc";
+import { boatConflicts, loadBoats } from "./boats";
+import { loadTemplates, saveTemplate } from "./templates";
+import { createJob, draftColumns, draftContact, draftFromTemplate, emptyDraft, type JobDraft } from "./jobs";
+import JobFields from "./JobFields";
+
+export default function CreateJobScreen({ onCreated }: {
+  onCreated: (jobId: string) => Promise<void>;
+}) {
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [draft, setDraft] = useState<JobDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    loadTemplates().then(setTemplates).catch(() => setTemplates([]));
+    loadBoats(true).then(setBoats).catch(() => setBoats([]));
+  }, []);
+
+  // Fill the form from a saved template (the date stays as picked)
+  function applyTemplate(id: string) {
+    setTemplateId(id);
+    const t = templates.find((x) => x.id === id);
+    if (t) setDraft(draftFromTemplate(t, draft.date));
+  }
+
+  async function saveAsTemplate() {
+    if (!draft.title.trim() || !draft.call_time) {
+      setError("Title and call time are required.");
+      return;
+    }
+    const name = prompt("Template name:", draft.title);
+    if (!name?.trim()) return;
+    try {
+      setError("");
+      const { date: _date, ...columns } = draftColumns(draft);
+      const t = await saveTemplate({
+        ...columns,
+        ...draftContact(draft),
+        name: name.trim(),
+        title: draft.title.trim(),
+        boat: null,
+      });
+      setTemplates((ts) => [...ts, t].sort((a, b) => a.name.localeCompare(b.name)));
+      setTemplateId(t.id);
+    } catch (e: any) {
+      setError(e?.message || "Failed to save template.");
+    }
+  }
+
+  async function submit() {
+    try {
+      setSaving(true);
+      setError("");
+      if (!draft.title.trim() || !draft.call_time) throw new Error("Title and call time are required.");
+      if (draft.boat_id) {
+        const clashes = await boatConflicts(draft.boat_id, draft.date, draft.call_time, draft.dock_time || null);
+        if (clashes.length && !confirm(`This boat is already booked for ${jobRpc.describeConflicts(clashes)}. Create anyway?`)) return;
+      }
+      const jobId = await createJob(draft);
+
+      // Reset (back to the picked template, if any)
+      const t = templates.find((x) => x.id === templateId);
+      const next = emptyDraft();
+      setDraft(t ? draftFromTemplate(t, next.date) : next);
+
+      await onCreated(jobId);
+    } catch (e: any) {
+      setError(e?.message || "Failed to create job.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10, maxWidth: 560 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      <label style={styles.label}>Start from template
+        <select style={styles.input} value={templateId} onChange={(e) => applyTemplate(e.target.value)}>
+          <option value="">— None —</option>
+          {templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+      </label>
+
+      <JobFields draft={draft} onChange={setDraft} boats={boats} crewFromBoat />
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button style={styles.primaryBtn} disabled={saving} onClick={submit}>
+          {saving ? "Saving…" : "Create Job"}
+        </button>
+        <button style={styles.ghostBtn} disabled={saving} onClick={saveAsTemplate}>Save as template</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// DropRequests.tsx — admin review of late drops
+// A guide who unclaims inside the cutoff files a request; approving releases their
+// slot (offered down the standby line first), denying keeps them on the job.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { DropRequest } from "./types";
+import * as jobRpc from "./jobRpc";
+import { formatDeadline, loadDropRequests, loadLateDropCounts } from "./drops";
+
+export default function DropRequests({ onChanged }: { onChanged: () => Promise<void> }) {
+  const [requests, setRequests] = useState<DropRequest[]>([]);
+  const [lateDrops, setLateDrops] = useState<Record<string, number>>({}); // guideId -> count
+  const [status, setStatus] = useState<DropRequest["status"] | "">("pending");
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  async function refresh() {
+    try {
+      setError("");
+      const rows = await loadDropRequests(status);
+      setRequests(rows);
+      setLateDrops(await loadLateDropCounts(Array.from(new Set(rows.map((r) => r.guide_id)))));
+    } catch (e: any) {
+      setError(e?.message || "Failed to load drop requests.");
+    }
+  }
+
+  async function decide(r: DropRequest, approve: boolean) {
+    const who = r.profiles?.full_name || "this guide";
+    if (approve && !confirm(`Release ${who} from ${r.jobs?.title || "the job"}? This counts as a late drop.`)) return;
+    try {
+      setBusyId(r.id);
+      const res = await jobRpc.decideDrop(r.id, approve);
+      if (!res.ok) throw new Error(jobRpc.reasonMessage(res));
+      await refresh();
+      await onChanged();
+    } catch (e: any) {
+      alert(e?.message || "Failed to decide the drop request.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      <label style={{ display: "inline-flex", gap: 6, alignItems: "center" }}>
+        Show
+        <select style={{ ...styles.input, width: "auto" }} value={status} onChange={(e) => setStatus(e.target.value as DropRequest["status"] | "")}>
+          <option value="pending">pending</option>
+          <option value="approved">approved</option>
+          <option value="denied">denied</option>
+          <option value="withdrawn">withdrawn</option>
+          <option value="">all</option>
+        </select>
+      </label>
+
+      {!requests.length && <div style={styles.card}>No drop requests.</div>}
+
+      <ul style={{ display: "grid", gap: 12 }}>
+        {requests.map((r) => (
+          <li key={r.id} style={styles.card}>
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+              <div style={{ fontWeight: 600 }}>
+                {r.profiles?.full_name || r.guide_id.slice(0, 8)} · {r.jobs?.title || "(deleted job)"}
+              </div>
+              <span style={styles.subtle}>{r.status}</span>
+            </div>
+            {r.jobs && (
+              <div style={styles.subtle}>
+                {r.jobs.date} · call {r.jobs.call_time} · {r.jobs.location || "—"}
+              </div>
+            )}
+            <div style={{ marginTop: 6, fontSize: 14 }}>
+              Requested {formatDeadline(r.requested_at)}
+              {" · "}
+              <strong>{lateDrops[r.guide_id] || 0}</strong> late drop{lateDrops[r.guide_id] === 1 ? "" : "s"} so far
+            </div>
+            {r.note && <div style={{ marginTop: 6, fontSize: 14 }}>“{r.note}”</div>}
+            {r.status === "pending" && (
+              <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                <button style={styles.primaryBtn} disabled={busyId === r.id} onClick={() => decide(r, true)}>Approve drop</button>
+                <button style={styles.ghostBtn} disabled={busyId === r.id} onClick={() => decide(r, false)}>Deny</button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
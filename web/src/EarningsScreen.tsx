@@ -0,0 +1,93 @@
+// EarningsScreen.tsx — a guide's own ledger: completed jobs plus adjustments,
+// split into pending (not paid out yet) and paid (grouped by pay period).
+
+import { useEffect, useMemo, useState } from "react";
+import { styles } from "./styles";
+import type { PayEntry, PayPeriod } from "./types";
+import { PAY_KINDS, loadMyPayEntries, loadPayPeriods, money } from "./payroll";
+
+export default function EarningsScreen({ guideId }: { guideId: string }) {
+  const [entries, setEntries] = useState<PayEntry[]>([]);
+  const [periods, setPeriods] = useState<PayPeriod[]>([]);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [guideId]);
+
+  async function refresh() {
+    try {
+      setError("");
+      const [e, p] = await Promise.all([loadMyPayEntries(guideId), loadPayPeriods()]);
+      setEntries(e);
+      setPeriods(p);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load earnings.");
+    }
+  }
+
+  const pending = entries.filter((e) => !e.period_id);
+  const sum = (list: PayEntry[]) => list.reduce((t, e) => t + Number(e.amount), 0);
+  const completedJobs = entries.filter((e) => e.kind === "job").length;
+
+  // Paid entries by period, newest period first
+  const paid = useMemo(
+    () => periods
+      .map((p) => ({ period: p, entries: entries.filter((e) => e.period_id === p.id) }))
+      .filter((g) => g.entries.length),
+    [entries, periods]
+  );
+
+  return (
+    <div style={{ display: "grid", gap: 12, maxWidth: 640 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 8 }}>
+        <div style={styles.card}>
+          <div style={styles.subtle}>Completed jobs</div>
+          <div style={{ fontWeight: 700, fontSize: 20 }}>{completedJobs}</div>
+        </div>
+        <div style={styles.card}>
+          <div style={styles.subtle}>Pending</div>
+          <div style={{ fontWeight: 700, fontSize: 20 }}>{money(sum(pending))}</div>
+        </div>
+        <div style={styles.card}>
+          <div style={styles.subtle}>Paid</div>
+          <div style={{ fontWeight: 700, fontSize: 20 }}>{money(sum(entries.filter((e) => e.period_id)))}</div>
+        </div>
+      </div>
+
+      <div style={{ fontWeight: 600 }}>Pending</div>
+      {!pending.length && <div style={styles.card}>Nothing pending.</div>}
+      <EntryList entries={pending} />
+
+      {paid.map(({ period, entries: list }) => (
+        <div key={period.id} style={{ display: "grid", gap: 8 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", fontWeight: 600 }}>
+            <span>Paid · {period.starts_on} – {period.ends_on}</span>
+            <span>{money(sum(list))}</span>
+          </div>
+          <EntryList entries={list} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EntryList({ entries }: { entries: PayEntry[] }) {
+  if (!entries.length) return null;
+  return (
+    <ul style={{ ...styles.card, display: "grid", gap: 4, margin: 0, listStyle: "none" }}>
+      {entries.map((e) => (
+        <li key={e.id} style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+          <span>
+            {e.work_date} · {e.kind === "job" ? e.jobs?.title || "(deleted job)" : PAY_KINDS[e.kind]}
+            {e.note ? <span style={styles.subtle}> · {e.note}</span> : null}
+          </span>
+          <span>{money(Number(e.amount))}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
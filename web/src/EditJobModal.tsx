@@ -0,0 +1,80 @@
+// EditJobModal.tsx — admin Edit Job: the job form over the list, with the series scope
+// for jobs from a recurring template. Status changes go through the state machine
+// (jobRpc.setJobStatus), after the other fields so open/assigned see the new slot count.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Boat, Job, JobStatus, SeriesScope } from "./types";
+import * as jobRpc from "./jobRpc";
+import { boatConflicts, loadBoats } from "./boats";
+import { SCOPE_LABELS, seriesJobIds } from "./templates";
+import { draftFromJob, saveContacts, updateJob, type JobDraft } from "./jobs";
+import { contactChange } from "./jobContact";
+import JobFields from "./JobFields";
+
+export default function EditJobModal({ job, onClose, onSaved }: {
+  job: Job;
+  onClose: () => void;
+  onSaved: (ids: string[]) => Promise<void>; // every job the save touched
+}) {
+  const [draft, setDraft] = useState<JobDraft>(() => draftFromJob(job));
+  const [nextStatuses, setNextStatuses] = useState<JobStatus[]>([]); // where the job can go from here
+  const [scope, setScope] = useState<SeriesScope>("this"); // series jobs only
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    jobRpc.nextStatuses(job.id).then(setNextStatuses).catch(() => setNextStatuses([]));
+    loadBoats().then(setBoats).catch(() => setBoats([]));
+  }, [job.id]);
+
+  async function save() {
+    try {
+      setSaving(true);
+      // Checked first: nothing is written if the contact can't be saved
+      const contact = contactChange(draft);
+      if (draft.boat_id) {
+        const clashes = await boatConflicts(draft.boat_id, draft.date, draft.call_time, draft.dock_time || null, job.id);
+        if (clashes.length && !confirm(`This boat is already booked for ${jobRpc.describeConflicts(clashes)}. Save anyway?`)) return;
+      }
+      // Series: shared fields go to every job in scope; date and status stay per job
+      const ids = job.series_id ? await seriesJobIds(job.id, scope) : [job.id];
+      await updateJob(job.id, ids, draft);
+      if (draft.status !== job.status) {
+        const r = await jobRpc.setJobStatus(job.id, draft.status);
+        if (!r.ok) throw new Error(jobRpc.reasonMessage(r));
+      }
+      await saveContacts(ids, contact);
+      await onSaved(ids);
+    } catch (e: any) {
+      alert(e?.message || "Failed to update job.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={styles.modalOverlay} onClick={() => !saving && onClose()}>
+      <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+          <div style={{ fontWeight: 700 }}>Edit Job</div>
+          <button style={styles.ghostBtn} onClick={onClose} disabled={saving}>Close</button>
+        </div>
+        <JobFields draft={draft} onChange={setDraft} boats={boats} statuses={[job.status, ...nextStatuses]} />
+        {job.series_id && (
+          <label style={{ ...styles.label, marginTop: 8 }}>Apply changes to
+            <select style={styles.input} value={scope} onChange={(e) => setScope(e.target.value as SeriesScope)}>
+              {(Object.keys(SCOPE_LABELS) as SeriesScope[]).map(k => <option key={k} value={k}>{SCOPE_LABELS[k]}</option>)}
+            </select>
+            {scope !== "this" && <span style={styles.subtle}>Date and status only change on this job. Completed and canceled jobs are left alone.</span>}
+          </label>
+        )}
+        <div style={{ position: "sticky", bottom: 0, background: "#fff", paddingTop: 8 }}>
+          <button style={{ ...styles.primaryBtn, width: "100%" }} disabled={saving} onClick={save}>
+            {saving ? "Saving…" : "Save changes"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+// ImportJobsScreen.tsx — admin: bookings from the reservation system's CSV export.
+// Pick the file, check which column is which, then Check rows shows every row's
+// problems before anything is created. Only rows that are ready get imported.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Boat } from "./types";
+import { loadBoats } from "./boats";
+import {
+  DATE_FORMATS, IMPORT_FIELDS, findDuplicates, guessColumns, importJobs, importMessage, loadKnownCerts, readCsv,
+  validateRows, type ColumnMap, type CsvFile, type DateFormat, type ImportRow,
+} from "./jobImport";
+
+function rowState(r: ImportRow): "error" | "duplicate" | "warning" | "ready" {
+  if (r.errors.length) return "error";
+  if (r.existingJobId) return "duplicate";
+  return r.warnings.length ? "warning" : "ready";
+}
+
+const STATE_ICON = { error: "❌", duplicate: "↩️", warning: "⚠️", ready: "✅" };
+
+export default function ImportJobsScreen({ onImported }: { onImported: () => Promise<void> }) {
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [knownCerts, setKnownCerts] = useState<string[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<CsvFile | null>(null);
+  const [columns, setColumns] = useState<ColumnMap | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>("ymd");
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  useEffect(() => {
+    loadBoats().then(setBoats).catch(() => setBoats([]));
+    loadKnownCerts().then(setKnownCerts).catch(() => setKnownCerts([]));
+  }, []);
+
+  // A different file or mapping invalidates the check
+  useEffect(() => setRows(null), [file, columns, dateFormat]);
+
+  async function pickFile(f: File | undefined) {
+    setMsg("");
+    if (!f) return;
+    try {
+      const parsed = readCsv(await f.text());
+      if (!parsed.rows.length) throw new Error("That file has no rows under the header.");
+      setFileName(f.name);
+      setFile(parsed);
+      setColumns(guessColumns(parsed.headers));
+    } catch (e: any) {
+      setFile(null);
+      setColumns(null);
+      setMsg(`❌ ${e?.message || "Failed to read the file."}`);
+    }
+  }
+
+  async function check() {
+    if (!file || !columns) return;
+    try {
+      setBusy(true);
+      setMsg("");
+      setRows(await findDuplicates(validateRows(file, columns, { dateFormat, boats, knownCerts })));
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to check rows."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function runImport() {
+    if (!rows) return;
+    const ready = rows.filter((r) => !r.errors.length && !r.existingJobId);
+    const left = rows.length - ready.length;
+    if (left && !confirm(`Import ${ready.length} job${ready.length === 1 ? "" : "s"} and leave out ${left} row${left === 1 ? "" : "s"}?`)) return;
+    try {
+      setBusy(true);
+      const r = await importJobs(ready.map((row) => row.job));
+      setMsg(importMessage(r));
+      if (!r.ok) return;
+      setRows(null);
+      setFile(null);
+      setColumns(null);
+      setFileName("");
+      await onImported();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to import jobs."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const missing = columns ? IMPORT_FIELDS.filter((f) => f.required && columns[f.field] < 0) : [];
+  const counts = { error: 0, duplicate: 0, warning: 0, ready: 0 };
+  for (const r of rows || []) counts[rowState(r)] += 1;
+  const importable = counts.ready + counts.warning;
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={styles.subtle}>
+        One job per row, with a header row. New jobs are open; the file's status and guides columns
+        (from an export) are ignored. A row with the same date, call time and title as a job already
+        scheduled is skipped.
+      </div>
+
+      <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+        <label style={styles.label}>CSV file
+          <input type="file" accept=".csv,text/csv" onChange={(e) => pickFile(e.target.files?.[0])} />
+        </label>
+        {file && <div style={styles.subtle}>{fileName}: {file.rows.length} row{file.rows.length === 1 ? "" : "s"}</div>}
+      </div>
+
+      {file && columns && (
+        <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+          <div style={{ fontWeight: 600 }}>Columns</div>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))", gap: 8 }}>
+            {IMPORT_FIELDS.map((f) => (
+              <label key={f.field} style={styles.label}>{f.label}{f.required ? " *" : ""}
+                <select style={styles.input} value={columns[f.field]}
+                  onChange={(e) => setColumns({ ...columns, [f.field]: Number(e.target.value) })}>
+                  <option value={-1}>— Not in file —</option>
+                  {file.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+            <label style={styles.label}>Dates are written
+              <select style={styles.input} value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)}>
+                {(Object.keys(DATE_FORMATS) as DateFormat[]).map((k) => <option key={k} value={k}>{DATE_FORMATS[k]}</option>)}
+              </select>
+            </label>
+          </div>
+          {!!missing.length && <div style={{ color: "#c00" }}>Pick a column for {missing.map((f) => f.label).join(", ")}.</div>}
+          <div>
+            <button style={styles.ghostBtn} disabled={busy || !!missing.length} onClick={check}>
+              {busy && !rows ? "Checking…" : "Check rows"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {msg && <div>{msg}</div>}
+
+      {rows && (
+        <>
+          <div style={styles.subtle}>
+            {counts.ready} ready · {counts.warning} with warnings · {counts.duplicate} already scheduled · {counts.error} with errors
+          </div>
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ textAlign: "left", borderBottom: "1px solid #ddd" }}>
+                  <th></th><th>Row</th><th>Date</th><th>Call</th><th>Title</th><th>Customer</th><th>Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const state = rowState(r);
+                  return (
+                    <tr key={r.line} style={{ borderBottom: "1px solid #eee", verticalAlign: "top", opacity: state === "duplicate" ? 0.6 : 1 }}>
+                      <td>{STATE_ICON[state]}</td>
+                      <td>{r.line}</td>
+                      <td>{r.job.date}</td>
+                      <td>{r.job.call_time}</td>
+                      <td>{r.job.title}</td>
+                      <td>{r.job.customer_name || "—"}</td>
+                      <td style={{ fontSize: 13 }}>
+                        {r.errors.map((e, i) => <div key={`e${i}`} style={{ color: "#c00" }}>{e}</div>)}
+                        {r.existingJobId && <div>Already scheduled.</div>}
+                        {r.warnings.map((w, i) => <div key={`w${i}`} style={{ color: "#a15c00" }}>{w}</div>)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <button style={styles.primaryBtn} disabled={busy || !importable} onClick={runImport}>
+              {busy ? "Importing…" : `Import ${importable} job${importable === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+// IncidentsScreen.tsx — admin: incident reports filed when jobs were completed, newest
+// first, with the trip's dive log. Each moves open -> in review -> closed with the
+// reviewer's notes; Export CSV writes what's listed, for the insurer.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { IncidentKind, IncidentSeverity, IncidentStatus } from "./types";
+import { downloadCsv } from "./csv";
+import { describeDiveLog } from "./diveLogs";
+import { jobPath, navigate } from "./router";
+import {
+  INCIDENT_KINDS, REVIEW_STATUSES, SEVERITIES, incidentsCsv, loadIncidents, reviewIncident, reviewMessage,
+  type IncidentFilters, type IncidentRow,
+} from "./incidents";
+
+const SEVERITY_COLORS: Record<IncidentSeverity, string> = {
+  minor: "#555",
+  moderate: "#b45309",
+  serious: "#c2410c",
+  critical: "#c00",
+};
+
+export default function IncidentsScreen() {
+  const [filters, setFilters] = useState<IncidentFilters>({ status: "open", from: "", to: "" });
+  const [rows, setRows] = useState<IncidentRow[]>([]);
+  const [notes, setNotes] = useState<Record<number, string>>({}); // review notes being typed, per incident
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [msg, setMsg] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  async function load() {
+    try {
+      setRows(await loadIncidents(filters));
+      setError("");
+    } catch (e: any) {
+      setError(e?.message || "Failed to load incidents.");
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters]);
+
+  async function review(r: IncidentRow, status: IncidentStatus) {
+    try {
+      setBusyId(r.id);
+      const res = await reviewIncident(r.id, status, notes[r.id] || "");
+      if (!res.ok) throw new Error(reviewMessage(res));
+      setNotes((n) => ({ ...n, [r.id]: "" }));
+      setMsg(`✅ Incident #${r.id}: ${REVIEW_STATUSES[status].toLowerCase()}.`);
+      await load();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to save the review."}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function exportCsv() {
+    const range = [filters.from, filters.to].filter(Boolean).join("-to-");
+    downloadCsv(`incidents${filters.status ? `-${filters.status}` : ""}${range ? `-${range}` : ""}.csv`, incidentsCsv(rows));
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 12, maxWidth: 760 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8 }}>
+          <label style={styles.label}>Status
+            <select
+              style={styles.input}
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value as IncidentFilters["status"] })}
+            >
+              <option value="">Any</option>
+              {(Object.keys(REVIEW_STATUSES) as IncidentStatus[]).map((s) => <option key={s} value={s}>{REVIEW_STATUSES[s]}</option>)}
+            </select>
+          </label>
+          <label style={styles.label}>Reported from
+            <input type="date" style={styles.input} value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </label>
+          <label style={styles.label}>To
+            <input type="date" style={styles.input} value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </label>
+        </div>
+        <div>
+          <button style={styles.ghostBtn} disabled={!rows.length} onClick={exportCsv}>Export CSV</button>
+        </div>
+        {msg && <div>{msg}</div>}
+      </div>
+
+      {!rows.length && <div style={styles.card}>No incidents here.</div>}
+      {rows.map((r) => (
+        <div key={r.id} style={{ ...styles.card, display: "grid", gap: 6 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap" }}>
+            <div>
+              <strong>#{r.id} {INCIDENT_KINDS[r.kind as IncidentKind] || r.kind}</strong>
+              {" · "}
+              <span style={{ color: SEVERITY_COLORS[r.severity as IncidentSeverity], fontWeight: 600 }}>
+                {SEVERITIES[r.severity as IncidentSeverity] || r.severity}
+              </span>
+              {" · "}{REVIEW_STATUSES[r.status as IncidentStatus] || r.status}
+            </div>
+            {r.job_id && (
+              <button style={{ ...styles.ghostBtn, padding: "2px 8px" }} onClick={() => navigate(jobPath(r.job_id!))}>
+                Open job
+              </button>
+            )}
+          </div>
+          <div style={styles.subtle}>
+            {r.jobs ? `${r.jobs.title} · ${r.jobs.date}${r.jobs.location ? ` · ${r.jobs.location}` : ""}` : "(job deleted)"}
+            {" · "}reported by {r.reporter?.full_name || "—"} {new Date(r.reported_at).toLocaleString()}
+          </div>
+          {r.jobs?.dive_logs && <div style={styles.subtle}>🤿 {describeDiveLog(r.jobs.dive_logs)}</div>}
+          <div style={{ whiteSpace: "pre-wrap" }}><strong>People involved:</strong> {r.people_involved}</div>
+          <div style={{ whiteSpace: "pre-wrap" }}><strong>Actions taken:</strong> {r.actions_taken}</div>
+          {r.description && <div style={{ whiteSpace: "pre-wrap" }}><strong>What happened:</strong> {r.description}</div>}
+          {r.review_notes && (
+            <div style={{ whiteSpace: "pre-wrap" }}>
+              <strong>Review:</strong> {r.review_notes}
+              <span style={styles.subtle}> — {r.reviewer?.full_name || "—"}{r.reviewed_at ? `, ${new Date(r.reviewed_at).toLocaleString()}` : ""}</span>
+            </div>
+          )}
+
+          <textarea
+            style={{ ...styles.input, minHeight: 44 }}
+            value={notes[r.id] || ""}
+            placeholder={r.review_notes ? "Replace the review notes (optional)" : "Review notes (optional)"}
+            onChange={(e) => setNotes({ ...notes, [r.id]: e.target.value })}
+          />
+          <div style={{ display: "flex", gap: 8 }}>
+            {(Object.keys(REVIEW_STATUSES) as IncidentStatus[]).filter((s) => s !== r.status).map((s) => (
+              <button
+                key={s}
+                style={s === "closed" ? styles.primaryBtn : styles.ghostBtn}
+                disabled={busyId === r.id}
+                onClick={() => review(r, s)}
+              >
+                {s === "open" ? "Reopen" : s === "in_review" ? "Start review" : "Close"}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
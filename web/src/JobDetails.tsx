@@ -0,0 +1,267 @@
+// JobDetails.tsx — the Details modal (/jobs/:id): the job, its crew and contact, the
+// actions the viewer may take (completing takes the dive log), its messages, post-trip
+// reports and dive log, and for admins the boat clash warning, assign picker and
+// standby queue. The actions themselves live in App, next to the job store.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { DiveLog, Job, RankedGuide, ScheduleConflict, SeriesScope } from "./types";
+import * as jobRpc from "./jobRpc";
+import { onCrew } from "./jobStore";
+import { boatConflicts, jobWindowLabel } from "./boats";
+import { describeUnavailability, rankGuides } from "./availability";
+import { pastCutoff } from "./drops";
+import { SCOPE_LABELS } from "./templates";
+import { jobPath } from "./router";
+import { describeDiveLog, loadDiveLog, type Completion } from "./diveLogs";
+import { CrewLine, StatusBadge } from "./JobList";
+import StandbyQueue from "./StandbyQueue";
+import JobTimeline from "./JobTimeline";
+import JobThread from "./JobThread";
+import PostTripReports from "./PostTripReports";
+import CompleteJobForm from "./CompleteJobForm";
+
+export default function JobDetails({
+  job, loading, isAdmin, myId, completing,
+  onClose, onClaim, onUnclaim, onRequestDrop, onComplete, onCancel, onEdit, onAssign, onRefresh,
+}: {
+  job: Job | null; // null once loaded: gone, or not visible to this user
+  loading: boolean;
+  isAdmin: boolean;
+  myId?: string;
+  completing: boolean;
+  onClose: () => void;
+  onClaim: (jobId: string) => void;
+  onUnclaim: (jobId: string, guideId?: string) => void;
+  onRequestDrop: (jobId: string) => void;
+  onComplete: (jobId: string, c: Completion) => Promise<boolean>; // true = completed (or queued offline)
+  onCancel: (jobId: string, scope: SeriesScope) => void;
+  onEdit: (job: Job) => void;
+  onAssign: (jobId: string, guideId: string) => Promise<boolean>; // true = assigned
+  onRefresh: (jobId: string) => Promise<void>;
+}) {
+  const [cancelScope, setCancelScope] = useState<SeriesScope>("this"); // series jobs only
+  const [boatClashes, setBoatClashes] = useState<ScheduleConflict[]>([]); // other jobs on this boat at the same time
+  const [ranked, setRanked] = useState<RankedGuide[]>([]); // assign picker, best fit first
+  const [assignTo, setAssignTo] = useState("");
+  const [assigning, setAssigning] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [completeOpen, setCompleteOpen] = useState(false);
+  const [diveLog, setDiveLog] = useState<DiveLog | null>(null);
+
+  // The job changed (realtime or our own action): refresh what's derived from it
+  useEffect(() => {
+    if (!job || !isAdmin) return;
+    const live = job.status === "open" || job.status === "assigned";
+    (async () => {
+      setBoatClashes(job.boat_id && live
+        ? await boatConflicts(job.boat_id, job.date, job.call_time, job.dock_time ?? null, job.id).catch(() => [])
+        : []);
+      setRanked(await rankGuides(job.id).catch(() => []));
+    })();
+  }, [job, isAdmin]);
+
+  // The dive log, once the job is complete (admins and the crew)
+  useEffect(() => {
+    if (!job || job.status !== "complete" || !(isAdmin || onCrew(job, myId))) return setDiveLog(null);
+    let live = true;
+    loadDiveLog(job.id).then((l) => live && setDiveLog(l)).catch(() => live && setDiveLog(null));
+    return () => {
+      live = false;
+    };
+  }, [job, isAdmin, myId]);
+
+  async function complete(jobId: string, c: Completion) {
+    if (await onComplete(jobId, c)) setCompleteOpen(false);
+  }
+
+  async function assign(jobId: string) {
+    setAssigning(true);
+    if (await onAssign(jobId, assignTo)) setAssignTo("");
+    setAssigning(false);
+  }
+
+  async function copyLink(jobId: string) {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${jobPath(jobId)}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      prompt("Copy this link:", `${window.location.origin}${jobPath(jobId)}`);
+    }
+  }
+
+  return (
+    <div style={styles.modalOverlay} onClick={() => !loading && onClose()}>
+      <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+          <div style={{ fontWeight: 700 }}>Job Details</div>
+          <div style={{ display: "flex", gap: 8 }}>
+            {job && <button style={styles.ghostBtn} onClick={() => copyLink(job.id)}>{copied ? "Copied" : "Copy link"}</button>}
+            <button style={styles.ghostBtn} onClick={onClose} disabled={loading}>Close</button>
+          </div>
+        </div>
+
+        {loading && !job ? (
+          <div>Loading…</div>
+        ) : !job ? (
+          <div>This job doesn't exist, or you can't see it.</div>
+        ) : (
+          <div style={{ display: "grid", gap: 8 }}>
+            <div><strong>{job.title}</strong></div>
+            <div style={styles.subtle}>
+              {job.date} · {jobWindowLabel(job)}{job.boats ? ` · ⛴ ${job.boats.name}` : ""} · {job.location || "—"} · {job.pay ? `$${job.pay}` : ""}
+            </div>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <StatusBadge status={job.status} />
+              <CrewLine job={job} />
+            </div>
+
+            {isAdmin && boatClashes.length > 0 && (
+              <div style={{ color: "#b45309" }}>
+                ⚠️ {job.boats?.name || "This boat"} is also booked for {jobRpc.describeConflicts(boatClashes)}.
+              </div>
+            )}
+
+            {/* Guides on the job: each slot can be released on its own */}
+            {!!job.crew?.length && (
+              <ul style={{ display: "grid", gap: 4, paddingLeft: 18, margin: 0 }}>
+                {job.crew.map(g => (
+                  <li key={g.guide_id}>
+                    {g.full_name || g.guide_id.slice(0,8)}
+                    {(job.status === "open" || job.status === "assigned") && (isAdmin || g.guide_id === myId) && (
+                      <button
+                        style={{ ...styles.ghostBtn, marginLeft: 8, padding: "2px 8px" }}
+                        onClick={() => (g.guide_id === myId && !isAdmin && pastCutoff(job) ? onRequestDrop(job.id) : onUnclaim(job.id, g.guide_id))}
+                      >
+                        {g.guide_id !== myId ? "Remove" : !isAdmin && pastCutoff(job) ? "Request drop" : "Unclaim"}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {job.requirements?.length ? (
+              <div><strong>Requirements:</strong> {job.requirements.join(", ")}</div>
+            ) : null}
+
+            {job.notes ? (
+              <div><strong>Description:</strong> {job.notes}</div>
+            ) : null}
+
+            {/* Contact info is visible to admin or assigned guide via RLS */}
+            {job.job_contacts && (
+              <div style={{ borderTop: "1px solid #eee", paddingTop: 8 }}>
+                <div style={{ fontWeight: 600 }}>Customer Contact</div>
+                <div>Name: {job.job_contacts.customer_name || "—"}</div>
+                <div>Phone: {job.job_contacts.customer_phone || "—"}</div>
+                <div>Email: {job.job_contacts.customer_email || "—"}</div>
+              </div>
+            )}
+
+            <div style={{ display: "flex", gap: 8, marginTop: 4, flexWrap: "wrap", alignItems: "center" }}>
+              {job.status === "open" && !onCrew(job, myId) && (
+                <button style={styles.primaryBtn} onClick={() => onClaim(job.id)}>Claim</button>
+              )}
+              {isAdmin && !onCrew(job, myId) && !!job.crew?.length && (job.status === "open" || job.status === "assigned") && (
+                <button style={styles.ghostBtn} onClick={() => onUnclaim(job.id)}>Return to pool</button>
+              )}
+              {isAdmin && (
+                <button style={styles.ghostBtn} onClick={() => onEdit(job)}>Edit</button>
+              )}
+              {(isAdmin || onCrew(job, myId)) && !!job.crew?.length && (job.status === "open" || job.status === "assigned") && (
+                <button style={styles.primaryBtn} disabled={completing || completeOpen} onClick={() => setCompleteOpen(true)}>
+                  Mark complete
+                </button>
+              )}
+              {isAdmin && job.status !== "canceled" && job.status !== "complete" && (
+                <>
+                  {job.series_id && (
+                    <select style={{ ...styles.input, width: "auto" }} value={cancelScope} onChange={(e) => setCancelScope(e.target.value as SeriesScope)}>
+                      {(Object.keys(SCOPE_LABELS) as SeriesScope[]).map(k => <option key={k} value={k}>{SCOPE_LABELS[k]}</option>)}
+                    </select>
+                  )}
+                  <button style={styles.dangerBtn} onClick={() => onCancel(job.id, job.series_id ? cancelScope : "this")}>
+                    Cancel job
+                  </button>
+                </>
+              )}
+            </div>
+
+            {completeOpen && (job.status === "open" || job.status === "assigned") && (
+              <CompleteJobForm
+                completing={completing}
+                onSubmit={(c) => complete(job.id, c)}
+                onCancel={() => setCompleteOpen(false)}
+              />
+            )}
+
+            {diveLog && (
+              <div>
+                <strong>Dive log:</strong> {describeDiveLog(diveLog)}
+                {diveLog.had_incident && <span style={{ color: "#b45309" }}> · ⚠️ incident reported{isAdmin ? " (see Incidents)" : ""}</span>}
+              </div>
+            )}
+
+            {/* Admin: Assign to guide */}
+            {isAdmin && (
+              <div style={{ borderTop: "1px solid #eee", paddingTop: 8 }}>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>Add guide to a slot</div>
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  <select
+                    style={styles.input}
+                    value={assignTo}
+                    onChange={(e) => setAssignTo(e.target.value)}
+                  >
+                    <option value="">— Select guide —</option>
+                    {ranked.map(g => (
+                      <option key={g.guide_id} value={g.guide_id}>{rankLabel(g)}</option>
+                    ))}
+                  </select>
+                  <button
+                    style={styles.primaryBtn}
+                    disabled={!assignTo || assigning || (job.crew?.length ?? 0) >= (job.slots ?? 1)}
+                    onClick={() => assign(job.id)}
+                  >
+                    {assigning ? "Assigning…" : "Assign"}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Admin: standby queue */}
+            {isAdmin && (job.status === "open" || job.status === "assigned") && (
+              <StandbyQueue
+                jobId={job.id}
+                refreshKey={job}
+                onChanged={() => onRefresh(job.id)}
+              />
+            )}
+
+            {/* Thread and reports: admins and the guides on the job, as for the contact */}
+            {(isAdmin || onCrew(job, myId)) && (
+              <>
+                <JobThread job={job} myId={myId} onRead={() => onRefresh(job.id)} />
+                <PostTripReports job={job} myId={myId} />
+              </>
+            )}
+
+            <JobTimeline jobId={job.id} refreshKey={job} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Assign picker option: name plus why they rank where they do
+function rankLabel(g: RankedGuide): string {
+  const notes = [
+    g.unavailable ? `⚠️ ${describeUnavailability(g.unavailable)}` : null,
+    g.missing.length ? `missing ${g.missing.join(", ")}` : null,
+    g.conflicts.length ? "overlaps another job" : null,
+    `${g.jobs_that_day} job${g.jobs_that_day === 1 ? "" : "s"} that day, ${g.jobs_that_week} that week`,
+  ];
+  return `${g.full_name || g.guide_id.slice(0, 8)} — ${notes.filter(Boolean).join(" · ")}`;
+}
@@ -0,0 +1,95 @@
+// JobFields.tsx — the job form shared by Create Job and Edit Job: one JobDraft value
+// (jobs.ts) in, the changed draft out
+
+import { styles } from "./styles";
+import type { Boat, JobStatus } from "./types";
+import type { JobDraft } from "./jobs";
+
+export default function JobFields({ draft, onChange, boats, statuses, crewFromBoat = false }: {
+  draft: JobDraft;
+  onChange: (d: JobDraft) => void;
+  boats: Boat[];            // retired boats are listed only when the job already uses one
+  statuses?: JobStatus[];   // edit: the current status first, then where it can go
+  crewFromBoat?: boolean;   // create: picking a boat sets guides needed to its usual crew
+}) {
+  const set = <K extends keyof JobDraft>(key: K) => (value: JobDraft[K]) => onChange({ ...draft, [key]: value });
+
+  function pickBoat(id: string) {
+    const b = crewFromBoat ? boats.find((x) => x.id === id) : undefined;
+    onChange({ ...draft, boat_id: id, slots: b ? String(b.guides_needed) : draft.slots });
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <label style={styles.label}>Title
+        <input style={styles.input} value={draft.title} onChange={(e) => set("title")(e.target.value)} />
+      </label>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+        <label style={styles.label}>Date
+          <input type="date" style={styles.input} value={draft.date} onChange={(e) => set("date")(e.target.value)} />
+        </label>
+        <label style={styles.label}>Call time
+          <input type="time" style={styles.input} value={draft.call_time} onChange={(e) => set("call_time")(e.target.value)} />
+        </label>
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+        <label style={styles.label}>Dock time (optional)
+          <input type="time" style={styles.input} value={draft.dock_time} onChange={(e) => set("dock_time")(e.target.value)} />
+        </label>
+        <label style={styles.label}>Boat
+          <select style={styles.input} value={draft.boat_id} onChange={(e) => pickBoat(e.target.value)}>
+            <option value="">— No boat —</option>
+            {boats.filter(b => b.is_active || b.id === draft.boat_id).map(b => (
+              <option key={b.id} value={b.id}>{b.name}{b.is_active ? "" : " (retired)"}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label style={styles.label}>Location
+        <input style={styles.input} value={draft.location} onChange={(e) => set("location")(e.target.value)} />
+      </label>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+        <label style={styles.label}>Pay (USD)
+          <input type="number" style={styles.input} value={draft.pay} onChange={(e) => set("pay")(e.target.value)} />
+        </label>
+        <label style={styles.label}>Guides needed
+          <input type="number" min={1} style={styles.input} value={draft.slots} onChange={(e) => set("slots")(e.target.value)} />
+        </label>
+      </div>
+
+      <label style={styles.label}>Requirements (comma-separated)
+        <input style={styles.input} value={draft.requirements} onChange={(e) => set("requirements")(e.target.value)} />
+      </label>
+
+      <label style={styles.label}>Notes (optional)
+        <textarea style={{ ...styles.input, minHeight: 70 }} value={draft.notes} onChange={(e) => set("notes")(e.target.value)} />
+      </label>
+
+      {statuses && (
+        <label style={styles.label}>Status
+          <select style={styles.input} value={draft.status} onChange={(e) => set("status")(e.target.value as JobStatus)}>
+            {statuses.map((s) => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </label>
+      )}
+
+      <div style={{ borderTop: "1px solid #eee", paddingTop: 8 }}>
+        <div style={{ fontWeight: 600 }}>Customer Contact</div>
+        <div style={styles.subtle}>Visible to admins and the guides on the job</div>
+      </div>
+      <label style={styles.label}>Customer name
+        <input style={styles.input} value={draft.customer_name} onChange={(e) => set("customer_name")(e.target.value)} />
+      </label>
+      <label style={styles.label}>Customer phone
+        <input style={styles.input} value={draft.customer_phone} onChange={(e) => set("customer_phone")(e.target.value)} />
+      </label>
+      <label style={styles.label}>Customer email
+        <input type="email" style={styles.input} value={draft.customer_email} onChange={(e) => set("customer_email")(e.target.value)} />
+      </label>
+    </div>
+  );
+}
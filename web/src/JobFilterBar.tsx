@@ -0,0 +1,124 @@
+// JobFilterBar.tsx — search, filters and sort above the Open and All Jobs lists, plus
+// the pager under them. State lives in the URL (see jobFilters.ts); this only edits it.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Boat, Job, Profile } from "./types";
+import { DEFAULT_FILTERS, PAGE_SIZE, SORT_LABELS, filtersActive, type JobFilters, type JobSort } from "./jobFilters";
+
+const STATUS_OPTIONS: Job["status"][] = ["open", "assigned", "complete", "canceled"];
+
+export default function JobFilterBar({ filters, onChange, view, boats, guides }: {
+  filters: JobFilters;
+  onChange: (f: JobFilters) => void;
+  view: "open" | "all";
+  boats: Boat[];
+  guides: Profile[]; // admin: claimer picker (empty for guides)
+}) {
+  // Typing fields apply after a pause, not on every keystroke
+  const [q, setQ] = useState(filters.q);
+  const [location, setLocation] = useState(filters.location);
+  const [reqs, setReqs] = useState(filters.requirements.join(", "));
+  const [open, setOpen] = useState(filtersActive(filters));
+
+  useEffect(() => {
+    setQ(filters.q);
+    setLocation(filters.location);
+    setReqs(filters.requirements.join(", "));
+  }, [filters.q, filters.location, filters.requirements]);
+
+  useEffect(() => {
+    const requirements = reqs.split(",").map((s) => s.trim()).filter(Boolean);
+    if (q === filters.q && location === filters.location && requirements.join(",") === filters.requirements.join(",")) return;
+    const t = setTimeout(() => onChange({ ...filters, q, location, requirements, page: 0 }), 400);
+    return () => clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [q, location, reqs]);
+
+  const set = (patch: Partial<JobFilters>) => onChange({ ...filters, ...patch, page: 0 });
+
+  function toggleStatus(s: Job["status"]) {
+    const next = filters.statuses.includes(s) ? filters.statuses.filter((x) => x !== s) : [...filters.statuses, s];
+    if (next.length) set({ statuses: next });
+  }
+
+  return (
+    <div style={{ ...styles.card, display: "grid", gap: 8, marginBottom: 10 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input style={{ ...styles.input, flex: "1 1 220px" }} placeholder="Search title and description…"
+          value={q} onChange={(e) => setQ(e.target.value)} />
+        <select style={styles.input} value={filters.sort} onChange={(e) => set({ sort: e.target.value as JobSort })} aria-label="Sort by">
+          {(Object.keys(SORT_LABELS) as JobSort[]).map((k) => <option key={k} value={k}>Sort: {SORT_LABELS[k]}</option>)}
+        </select>
+        <button style={styles.ghostBtn} onClick={() => set({ desc: !filters.desc })} title="Reverse order">
+          {filters.desc ? "↓ Desc" : "↑ Asc"}
+        </button>
+        <button style={styles.ghostBtn} onClick={() => setOpen(!open)}>{open ? "Hide filters" : "Filters"}</button>
+        {filtersActive(filters) && (
+          <button style={styles.ghostBtn} onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort, desc: filters.desc })}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(170px, 1fr))", gap: 8 }}>
+          <label style={styles.label}>From
+            <input type="date" style={styles.input} value={filters.from} onChange={(e) => set({ from: e.target.value })} />
+          </label>
+          <label style={styles.label}>To
+            <input type="date" style={styles.input} value={filters.to} min={filters.from} onChange={(e) => set({ to: e.target.value })} />
+          </label>
+          <label style={styles.label}>Location
+            <input style={styles.input} value={location} onChange={(e) => setLocation(e.target.value)} />
+          </label>
+          <label style={styles.label}>Boat
+            <select style={styles.input} value={filters.boatId} onChange={(e) => set({ boatId: e.target.value })}>
+              <option value="">Any</option>
+              {boats.map((b) => <option key={b.id} value={b.id}>{b.name}</option>)}
+            </select>
+          </label>
+          <label style={styles.label}>Minimum pay
+            <input type="number" min="0" step="1" style={styles.input} value={filters.minPay}
+              onChange={(e) => set({ minPay: e.target.value })} />
+          </label>
+          <label style={styles.label}>Requires (comma separated)
+            <input style={styles.input} value={reqs} onChange={(e) => setReqs(e.target.value)} />
+          </label>
+          {view === "all" && (
+            <label style={styles.label}>Guide on the job
+              <select style={styles.input} value={filters.claimer} onChange={(e) => set({ claimer: e.target.value })}>
+                <option value="">Anyone</option>
+                {guides.map((g) => <option key={g.id} value={g.id}>{g.full_name || g.id.slice(0, 8)}</option>)}
+              </select>
+            </label>
+          )}
+          {view === "all" && (
+            <div style={styles.label}>Status
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {STATUS_OPTIONS.map((s) => (
+                  <label key={s} style={{ display: "inline-flex", gap: 4, alignItems: "center" }}>
+                    <input type="checkbox" checked={filters.statuses.includes(s)} onChange={() => toggleStatus(s)} />
+                    {s}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Pager({ page, total, onPage }: { page: number; total: number; onPage: (page: number) => void }) {
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  if (pages <= 1) return null;
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", justifyContent: "center", margin: "10px 0" }}>
+      <button style={styles.ghostBtn} disabled={page <= 0} onClick={() => onPage(page - 1)}>‹ Prev</button>
+      <span style={styles.subtle}>Page {page + 1} of {pages} · {total} jobs</span>
+      <button style={styles.ghostBtn} disabled={page >= pages - 1} onClick={() => onPage(page + 1)}>Next ›</button>
+    </div>
+  );
+}
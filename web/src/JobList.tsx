@@ -0,0 +1,157 @@
+// JobList.tsx — the job cards on Open Jobs, My Jobs and All Jobs, plus the crew line and
+// status badge the Details modal shows too
+
+import { styles } from "./styles";
+import type { DropRequest, Job, JobStatus } from "./types";
+import { onCrew } from "./jobStore";
+import { jobWindowLabel } from "./boats";
+import { describeUnavailability } from "./availability";
+import { formatDeadline, pastCutoff } from "./drops";
+
+export default function JobList({ jobs,
+  onClaim,
+  onUnclaim,
+  onView,
+  showClaimButton,
+  showClaimer,
+  claimerMap,
+  showStatus,
+  isAdmin,
+  myId,
+  onEdit, claimingId,
+  missingFor,
+  drops,
+  onRequestDrop,
+  onWithdrawDrop,
+}: {
+  claimingId?: string | null;
+  jobs: Job[];
+  onClaim: (id: string) => void;
+  onUnclaim: (id: string) => void;
+  onView: (job: Job) => void;
+  showClaimButton: boolean;
+  showClaimer: boolean;
+  claimerMap: Record<string, string>;
+  showStatus: boolean;
+  isAdmin?: boolean;
+  myId?: string;
+  onEdit: (job: Job) => void;
+  missingFor?: (job: Job) => string[]; // certs the viewer lacks for this job
+  drops?: Record<string, DropRequest>; // my pending drop requests, by job
+  onRequestDrop?: (id: string) => void; // set where a guide unclaims inside the cutoff
+  onWithdrawDrop?: (requestId: number) => void;
+}) {
+  if (!jobs.length) return <div style={styles.card}>No jobs here yet.</div>;
+
+  return (
+    <ul style={{ display: "grid", gap: 12 }}>
+      {jobs.map((j) => {
+        const crewNames = (j.crew || []).map(g => claimerMap[g.guide_id] || g.full_name || g.guide_id.slice(0, 8));
+        const contact = j.job_contacts;
+        const iAmClaimer = onCrew(j, myId);
+        const active = j.status === "open" || j.status === "assigned";
+        const missing = missingFor ? missingFor(j) : null;
+        const drop = drops?.[j.id];
+        const needsDrop = !isAdmin && !!onRequestDrop && pastCutoff(j);
+        return (
+          <li key={j.id} style={styles.card}>
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+              <div style={{ fontWeight: 600 }}>{j.title}</div>
+              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                {!!j.unread_messages && <span style={{ fontSize: 12, color: "#0a7" }}>💬 {j.unread_messages} new</span>}
+                {showStatus && <StatusBadge status={j.status} />}
+                <button style={styles.ghostBtn} onClick={() => onView(j)}>Details</button>
+                {isAdmin && <button style={styles.ghostBtn} onClick={() => onEdit(j)}>Edit</button>}
+              </div>
+            </div>
+            <div style={styles.subtle}>
+              {j.date} · {jobWindowLabel(j)}{j.boats ? ` · ⛴ ${j.boats.name}` : ""} · {j.location || "—"} · {j.pay ? `$${j.pay}` : ""}
+            </div>
+            {((j.slots ?? 1) > 1 || !!j.crew?.length) && !showClaimer && (
+              <div style={{ marginTop: 6, fontSize: 14 }}><CrewLine job={j} /></div>
+            )}
+            {missing && (
+              <div style={{ marginTop: 6, fontSize: 14, color: missing.length ? "#b45309" : "#047857" }}>
+                {missing.length ? `missing: ${missing.join(", ")}` : "✓ eligible"}
+              </div>
+            )}
+            {j.my_unavailability && active && !iAmClaimer && (
+              <div style={{ marginTop: 6, fontSize: 14, color: "#b45309" }}>
+                🚫 You're not available: {describeUnavailability(j.my_unavailability)}
+              </div>
+            )}
+            {showClaimer && (!!j.crew?.length || (j.slots ?? 1) > 1) && (
+              <div style={{ marginTop: 6, fontSize: 14 }}>
+                <strong>Claimed by:</strong> {crewNames.length ? crewNames.join(", ") : "—"}
+                <span style={styles.subtle}> ({j.crew?.length ?? 0} of {j.slots ?? 1} filled)</span>
+              </div>
+            )}
+            {/* Contact block when loaded (admin or assigned guide) */}
+            {contact && (
+              <div style={{ marginTop: 6, fontSize: 14 }}>
+                <div><strong>Customer:</strong> {contact.customer_name || "—"}</div>
+                <div><strong>Phone:</strong> {contact.customer_phone || "—"}</div>
+                <div><strong>Email:</strong> {contact.customer_email || "—"}</div>
+              </div>
+            )}
+            {showClaimButton && j.status === "open" && !iAmClaimer && (
+              <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                <button style={styles.primaryBtn} disabled={claimingId===j.id} onClick={() => onClaim(j.id)}>{claimingId===j.id ? "Claiming…" : "Claim"}</button>
+              </div>
+            )}
+            {active && iAmClaimer && j.unclaim_deadline && (
+              <div style={{ marginTop: 6, fontSize: 14, color: pastCutoff(j) ? "#b45309" : undefined }}>
+                {pastCutoff(j)
+                  ? "⏰ Inside the unclaim cutoff: dropping needs admin approval"
+                  : `Unclaim freely until ${formatDeadline(j.unclaim_deadline)}`}
+              </div>
+            )}
+            {active && drop && (
+              <div style={{ display: "flex", gap: 8, marginTop: 8, alignItems: "center" }}>
+                <span style={{ fontSize: 14 }}>📨 Drop requested, waiting for an admin</span>
+                {onWithdrawDrop && <button style={styles.ghostBtn} onClick={() => onWithdrawDrop(drop.id)}>Withdraw</button>}
+              </div>
+            )}
+            {active && !drop && (iAmClaimer || (isAdmin && !!j.crew?.length)) && (
+              <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                {needsDrop && iAmClaimer ? (
+                  <button style={styles.ghostBtn} onClick={() => onRequestDrop!(j.id)}>Request drop</button>
+                ) : (
+                  <button style={styles.ghostBtn} onClick={() => onUnclaim(j.id)}>Unclaim</button>
+                )}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// "2 of 3 filled · Bob, Cat"
+export function CrewLine({ job }: { job: Job }) {
+  const crew = job.crew || [];
+  const names = crew.map(g => g.full_name || g.guide_id.slice(0, 8));
+  return (
+    <span>
+      <strong>{crew.length} of {job.slots ?? 1} filled</strong>
+      {names.length ? ` · ${names.join(", ")}` : ""}
+    </span>
+  );
+}
+
+export function StatusBadge({ status }: { status: JobStatus }) {
+  const bg = status === "open" ? "#eefcf5"
+    : status === "assigned" ? "#eef2ff"
+    : status === "complete" ? "#f0fdf4"
+    : "#fff7ed";
+  const border = status === "open" ? "#0a7"
+    : status === "assigned" ? "#6366f1"
+    : status === "complete" ? "#16a34a"
+    : "#ea580c";
+  return (
+    <span style={{ padding: "2px 8px", borderRadius: 999, border: `1px solid ${border}`, background: bg, fontSize: 12 }}>
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,85 @@
+// JobThread.tsx — the job's messages in the Details modal, for admins and the guides
+// on the job. Opening it marks the thread read.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Job, JobMessage } from "./types";
+import { MAX_MESSAGE_LENGTH, loadThread, markThreadRead, postMessage } from "./jobMessages";
+
+// job: reloads whenever the job changes (a new message refreshes it, see App)
+export default function JobThread({ job, myId, onRead }: {
+  job: Job;
+  myId?: string;
+  onRead: () => void; // unread count went to 0: refresh the job
+}) {
+  const [messages, setMessages] = useState<JobMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    let live = true;
+    (async () => {
+      try {
+        const rows = await loadThread(job.id);
+        if (!live) return;
+        setMessages(rows);
+        setError("");
+        if (job.unread_messages) {
+          await markThreadRead(job.id);
+          if (live) onRead();
+        }
+      } catch (e: any) {
+        if (live) setError(e?.message || "Failed to load messages.");
+      }
+    })();
+    return () => {
+      live = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job]);
+
+  async function send() {
+    if (!draft.trim()) return;
+    try {
+      setSending(true);
+      await postMessage(job.id, draft);
+      setDraft("");
+      setMessages(await loadThread(job.id));
+    } catch (e: any) {
+      setError(e?.message || "Failed to send the message.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div style={{ borderTop: "1px solid #eee", paddingTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>Messages</div>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      {!error && !messages.length && <div style={styles.subtle}>No messages yet. Handoff notes for the crew go here.</div>}
+      <ol style={{ display: "grid", gap: 6, paddingLeft: 0, margin: 0, listStyle: "none" }}>
+        {messages.map((m) => (
+          <li key={m.id} style={{ ...styles.card, padding: 8, background: m.author_id === myId ? "#f4f4f5" : "#fff" }}>
+            <div style={styles.subtle}>
+              {m.author_id === myId ? "You" : m.author_name || "(no name)"}{m.author_is_admin ? " · admin" : ""} · {new Date(m.created_at).toLocaleString()}
+            </div>
+            <div style={{ whiteSpace: "pre-wrap" }}>{m.body}</div>
+          </li>
+        ))}
+      </ol>
+      <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+        <textarea
+          style={{ ...styles.input, minHeight: 44 }}
+          value={draft}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Message the admins and crew"
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <button style={styles.primaryBtn} disabled={sending || !draft.trim()} onClick={send}>
+          {sending ? "Sending…" : "Send"}
+        </button>
+      </div>
+    </div>
+  );
+}
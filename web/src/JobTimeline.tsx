@@ -0,0 +1,50 @@
+// JobTimeline.tsx — per-job history from job_events, shown in the Details modal
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { JobEvent } from "./types";
+import { describeEvent, eventPeople, loadJobEvents } from "./jobEvents";
+import { loadProfileNames } from "./profiles";
+
+// refreshKey: bump to reload (e.g. after a realtime change to the job)
+export default function JobTimeline({ jobId, refreshKey }: { jobId: string; refreshKey?: unknown }) {
+  const [events, setEvents] = useState<JobEvent[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    let live = true;
+    (async () => {
+      try {
+        const rows = await loadJobEvents(jobId);
+        const people = await loadProfileNames(eventPeople(rows));
+        if (!live) return;
+        setEvents(rows);
+        setNames(people);
+        setError("");
+      } catch (e: any) {
+        if (live) setError(e?.message || "Failed to load history.");
+      }
+    })();
+    return () => {
+      live = false;
+    };
+  }, [jobId, refreshKey]);
+
+  return (
+    <div style={{ borderTop: "1px solid #eee", paddingTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>History</div>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      {!error && !events.length && <div style={styles.subtle}>No history recorded.</div>}
+      <ol style={{ display: "grid", gap: 4, paddingLeft: 18, margin: 0 }}>
+        {events.map((e) => (
+          <li key={e.id} style={{ fontSize: 14 }}>
+            <span style={styles.subtle}>{new Date(e.created_at).toLocaleString()}</span>
+            {" · "}
+            {describeEvent(e, names)}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+// JobsScreen.tsx — Open Jobs (/) and admin All Jobs (/admin/jobs): filtered and paged on
+// the server (jobFilters.ts), filters kept in the URL. The rows go into App's job store,
+// so realtime changes and our own actions show up on the page at once.
+
+import { useEffect, useMemo, useState } from "react";
+import { styles } from "./styles";
+import type { Boat, Job, Profile } from "./types";
+import { onCrew, type JobMap } from "./jobStore";
+import { filtersFromUrl, queryAllJobs, queryJobs, stillMatches, writeFiltersToUrl, type JobFilters } from "./jobFilters";
+import { loadBoats } from "./boats";
+import { jobsCsv } from "./jobImport";
+import { downloadCsv } from "./csv";
+import { screenPath } from "./router";
+import JobFilterBar, { Pager } from "./JobFilterBar";
+import JobList from "./JobList";
+
+export default function JobsScreen({
+  view, jobs, version, myJobs, offlineJobs, isAdmin, myId, guides, claimingId, urlActive,
+  onRows, onClaim, onUnclaim, onView, onEdit, missingFor, onError,
+}: {
+  view: "open" | "all";
+  jobs: JobMap;              // the store; the page is a list of ids into it
+  version: number;           // bumped when jobs change, to re-run the page query
+  myJobs: Job[];             // Open Jobs leaves out the ones I'm already on
+  offlineJobs?: Job[];       // Open Jobs with no connection: from the store instead
+  isAdmin: boolean;
+  myId?: string;
+  guides: Profile[];         // All Jobs: claimer filter
+  claimingId: string | null;
+  urlActive: boolean;        // false while a job's Details has the URL
+  onRows: (rows: Job[]) => void;
+  onClaim: (jobId: string) => void;
+  onUnclaim: (jobId: string) => void;
+  onView: (job: Job) => void;
+  onEdit: (job: Job) => void;
+  missingFor?: (job: Job) => string[];
+  onError: (message: string) => void;
+}) {
+  const [filters, setFilters] = useState<JobFilters>(() => filtersFromUrl());
+  const [pageIds, setPageIds] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  // Rows that stopped matching (claimed, canceled…) drop out before the next query
+  const pageJobs = useMemo(
+    () => pageIds.map((id) => jobs[id]).filter((j) => j && stillMatches(j, filters, view) && (view === "all" || !onCrew(j, myId))),
+    [pageIds, jobs, filters, view, myId]
+  );
+  // userId -> name, from the crews (All Jobs)
+  const claimerMap = useMemo(() => {
+    const next: Record<string, string> = {};
+    for (const j of pageJobs) for (const g of j.crew || []) next[g.guide_id] = g.full_name || "(no name)";
+    return next;
+  }, [pageJobs]);
+
+  useEffect(() => {
+    loadBoats().then(setBoats).catch(() => setBoats([]));
+  }, []);
+
+  // Filters live in the URL, so a filtered view can be shared
+  useEffect(() => {
+    if (urlActive) writeFiltersToUrl(filters, screenPath(view));
+  }, [filters, view, urlActive]);
+
+  // Re-run the page query when the filters change or jobs changed (debounced: bursts of
+  // realtime events make one query)
+  useEffect(() => {
+    const t = setTimeout(async () => {
+      try {
+        const today = new Date().toLocaleDateString("en-CA");
+        const mine = view === "open" ? myJobs.filter((j) => j.date >= today).map((j) => j.id) : [];
+        const page = await queryJobs(filters, view, mine);
+        onRows(page.jobs);
+        setPageIds(page.jobs.map((j) => j.id));
+        setTotal(page.total);
+      } catch {
+        // offline: Open Jobs falls back to the store
+      }
+    }, 300);
+    return () => clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters, view, version]);
+
+  // Every job matching the filters, not just the page on screen
+  async function exportJobs() {
+    try {
+      setExporting(true);
+      const rows = await queryAllJobs(filters, view);
+      downloadCsv(`jobs-${new Date().toLocaleDateString("en-CA")}.csv`, jobsCsv(rows, claimerMap));
+    } catch (e: any) {
+      onError(`❌ ${e?.message || "Failed to export jobs."}`);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  const pager = <Pager page={filters.page} total={total} onPage={(page) => setFilters({ ...filters, page })} />;
+
+  if (view === "open") {
+    return (
+      <>
+        <JobFilterBar filters={filters} onChange={setFilters} view="open" boats={boats} guides={[]} />
+        <JobList jobs={offlineJobs ?? pageJobs} claimingId={claimingId} onClaim={onClaim} onUnclaim={onUnclaim} onView={onView} showClaimButton showClaimer={false} claimerMap={{}} showStatus={false} isAdmin={isAdmin} myId={myId} onEdit={() => {}} missingFor={missingFor} />
+        {!offlineJobs && pager}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <JobFilterBar filters={filters} onChange={setFilters} view="all" boats={boats} guides={guides} />
+      <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: 8 }}>
+        <button style={styles.ghostBtn} disabled={exporting || !total} onClick={exportJobs}>
+          {exporting ? "Exporting…" : "Export CSV"}
+        </button>
+      </div>
+      <JobList
+        jobs={pageJobs} claimingId={claimingId}
+        onClaim={onClaim}
+        onUnclaim={onUnclaim}
+        onView={onView}
+        showClaimButton
+        showClaimer
+        claimerMap={claimerMap}
+        showStatus
+        isAdmin
+        myId={myId}
+        onEdit={onEdit}
+      />
+      {pager}
+    </>
+  );
+}
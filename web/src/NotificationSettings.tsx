@@ -0,0 +1,113 @@
+// NotificationSettings.tsx — which channels a guide hears about jobs on (email, SMS,
+// browser push), shown on the Profile screen, plus the last few messages and whether
+// they went out.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { NotificationPrefs, QueuedNotification } from "./types";
+import {
+  DEFAULT_PREFS,
+  loadNotificationPrefs,
+  loadRecentNotifications,
+  pushSupported,
+  saveNotificationPrefs,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "./notifications";
+
+const STATUS_ICON: Record<QueuedNotification["status"], string> = {
+  pending: "🕒",
+  sending: "🕒",
+  sent: "✅",
+  failed: "❌",
+  skipped: "⚠️",
+};
+
+export default function NotificationSettings({ guideId }: { guideId: string }) {
+  const [prefs, setPrefs] = useState<NotificationPrefs>({ guide_id: guideId, ...DEFAULT_PREFS });
+  const [recent, setRecent] = useState<QueuedNotification[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [p, r] = await Promise.all([loadNotificationPrefs(guideId), loadRecentNotifications(guideId)]);
+        setPrefs(p);
+        setRecent(r);
+      } catch (e: any) {
+        setMsg(`❌ ${e?.message || "Failed to load notification settings."}`);
+      }
+    })();
+  }, [guideId]);
+
+  async function save() {
+    if (prefs.sms && !prefs.phone?.trim()) {
+      setMsg("⚠️ Add a mobile number for text messages.");
+      return;
+    }
+    try {
+      setSaving(true);
+      setMsg("");
+      // Turning push on asks this browser for permission; turning it off forgets this browser
+      if (prefs.push) await subscribeToPush(guideId);
+      else await unsubscribeFromPush();
+      await saveNotificationPrefs({ ...prefs, phone: prefs.phone?.trim() || null });
+      setMsg("✅ Notification settings saved.");
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to save notification settings."}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ borderTop: "1px solid #eee", marginTop: 8, paddingTop: 8, fontWeight: 600 }}>
+        Notifications
+      </div>
+      <div style={styles.subtle}>
+        New jobs you can take, being assigned, cancellations, time changes, and a reminder the day before.
+      </div>
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input type="checkbox" checked={prefs.email} onChange={(e) => setPrefs({ ...prefs, email: e.target.checked })} />
+        Email (to your sign-in address)
+      </label>
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input type="checkbox" checked={prefs.sms} onChange={(e) => setPrefs({ ...prefs, sms: e.target.checked })} />
+        Text message
+      </label>
+      {prefs.sms && (
+        <label style={styles.label}>Mobile number (with country code, e.g. +61…)
+          <input type="tel" style={styles.input} value={prefs.phone || ""}
+            onChange={(e) => setPrefs({ ...prefs, phone: e.target.value })} />
+        </label>
+      )}
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input type="checkbox" checked={prefs.push} disabled={!pushSupported() && !prefs.push}
+          onChange={(e) => setPrefs({ ...prefs, push: e.target.checked })} />
+        Push notifications on this device
+        {!pushSupported() && <span style={styles.subtle}>(not available here)</span>}
+      </label>
+      <div>
+        <button style={styles.primaryBtn} disabled={saving} onClick={save}>
+          {saving ? "Saving…" : "Save notification settings"}
+        </button>
+      </div>
+      {msg && <div>{msg}</div>}
+
+      {recent.length > 0 && (
+        <>
+          <div style={{ fontWeight: 600, marginTop: 8 }}>Recent</div>
+          <ul style={{ display: "grid", gap: 4 }}>
+            {recent.map((n) => (
+              <li key={n.id} style={styles.subtle} title={n.last_error || undefined}>
+                {STATUS_ICON[n.status]} {new Date(n.created_at).toLocaleString()} · {n.channel} · {n.subject}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
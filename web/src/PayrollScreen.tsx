@@ -0,0 +1,227 @@
+// PayrollScreen.tsx — admin pay-period report
+// "Pending" shows everything not paid out yet up to the period end (older stragglers
+// included); marking the period paid locks those lines. Paid periods can be reopened
+// for viewing and export, not for edits.
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { styles } from "./styles";
+import type { PayEntry, PayKind, PayPeriod, Profile } from "./types";
+import {
+  PAY_KINDS, addAdjustment, deleteAdjustment, loadPayPeriods, loadPayReport,
+  markPeriodPaid, money, payrollCsv, payrollMessage, summarizeByGuide,
+} from "./payroll";
+import { downloadCsv } from "./csv";
+
+const today = () => new Date().toISOString().slice(0, 10);
+const monthStart = () => `${today().slice(0, 8)}01`;
+
+export default function PayrollScreen({ guides }: { guides: Profile[] }) {
+  const [periods, setPeriods] = useState<PayPeriod[]>([]);
+  const [periodId, setPeriodId] = useState(""); // "" = pending
+  const [from, setFrom] = useState(monthStart);
+  const [to, setTo] = useState(today);
+  const [entries, setEntries] = useState<PayEntry[]>([]);
+  const [openGuide, setOpenGuide] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  // Adjustment form
+  const [adjGuide, setAdjGuide] = useState("");
+  const [adjKind, setAdjKind] = useState<Exclude<PayKind, "job">>("tip");
+  const [adjAmount, setAdjAmount] = useState("");
+  const [adjDate, setAdjDate] = useState(today);
+  const [adjNote, setAdjNote] = useState("");
+
+  const period = periods.find((p) => p.id === periodId) || null;
+  const rows = useMemo(() => summarizeByGuide(entries), [entries]);
+  const grandTotal = rows.reduce((t, r) => t + r.total, 0);
+
+  useEffect(() => {
+    loadPayPeriods().then(setPeriods).catch(() => setPeriods([]));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [periodId, to]);
+
+  async function refresh() {
+    try {
+      setError("");
+      setEntries(await loadPayReport(period, to));
+    } catch (e: any) {
+      setError(e?.message || "Failed to load payroll.");
+    }
+  }
+
+  async function addAdj() {
+    const amount = Number(adjAmount);
+    if (!adjGuide || !adjAmount || Number.isNaN(amount)) {
+      alert("Pick a guide and enter an amount.");
+      return;
+    }
+    try {
+      setBusy(true);
+      await addAdjustment({ guide_id: adjGuide, kind: adjKind, amount, work_date: adjDate, note: adjNote.trim() || null });
+      setAdjAmount("");
+      setAdjNote("");
+      await refresh();
+    } catch (e: any) {
+      alert(e?.message || "Failed to add adjustment.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeAdj(e: PayEntry) {
+    if (!confirm(`Remove ${PAY_KINDS[e.kind].toLowerCase()} of ${money(Number(e.amount))}?`)) return;
+    try {
+      await deleteAdjustment(e.id);
+      await refresh();
+    } catch (err: any) {
+      alert(err?.message || "Failed to remove adjustment.");
+    }
+  }
+
+  async function markPaid() {
+    if (!confirm(`Mark ${from} – ${to} paid (${money(grandTotal)})? These lines are locked afterwards.`)) return;
+    try {
+      setBusy(true);
+      setMsg("");
+      const r = await markPeriodPaid(from, to);
+      if (!r.ok || !r.period) throw new Error(payrollMessage(r));
+      const paidPeriod = r.period;
+      setPeriods((ps) => [paidPeriod, ...ps].sort((a, b) => b.starts_on.localeCompare(a.starts_on)));
+      setPeriodId(paidPeriod.id);
+      setMsg(`✅ Paid ${r.entries} line${r.entries === 1 ? "" : "s"}, ${money(Number(r.total))}.`);
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to mark the period paid."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function exportCsv() {
+    const [start, end] = period ? [period.starts_on, period.ends_on] : [from, to];
+    downloadCsv(`payroll-${start}-to-${end}${period ? "" : "-pending"}.csv`, payrollCsv(entries));
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 12, maxWidth: 760 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+        <label style={styles.label}>Period
+          <select style={styles.input} value={periodId} onChange={(e) => setPeriodId(e.target.value)}>
+            <option value="">Pending (not paid yet)</option>
+            {periods.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.starts_on} – {p.ends_on} · paid {new Date(p.paid_at).toLocaleDateString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        {!period && (
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <label style={styles.label}>From
+              <input type="date" style={styles.input} value={from} onChange={(e) => setFrom(e.target.value)} />
+            </label>
+            <label style={styles.label}>To
+              <input type="date" style={styles.input} value={to} onChange={(e) => setTo(e.target.value)} />
+            </label>
+          </div>
+        )}
+        {!period && <div style={styles.subtle}>Pending lines dated before “From” are included; they were missed by an earlier payout.</div>}
+        <div style={{ display: "flex", gap: 8 }}>
+          <button style={styles.ghostBtn} disabled={!entries.length} onClick={exportCsv}>Export CSV</button>
+          {!period && (
+            <button style={styles.primaryBtn} disabled={busy || !entries.length || !from || !to} onClick={markPaid}>
+              Mark period paid
+            </button>
+          )}
+        </div>
+        {msg && <div>{msg}</div>}
+      </div>
+
+      {!rows.length && <div style={styles.card}>Nothing in this period.</div>}
+      {!!rows.length && (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left", borderBottom: "1px solid #ddd" }}>
+              <th>Guide</th><th>Jobs</th><th>Job pay</th><th>Adjustments</th><th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <Fragment key={r.guide_id}>
+                <tr
+                  style={{ borderBottom: "1px solid #eee", cursor: "pointer" }}
+                  onClick={() => setOpenGuide(openGuide === r.guide_id ? null : r.guide_id)}
+                >
+                  <td>{openGuide === r.guide_id ? "▾" : "▸"} {r.name}</td>
+                  <td>{r.jobs}</td>
+                  <td>{money(r.jobPay)}</td>
+                  <td>{money(r.adjustments)}</td>
+                  <td><strong>{money(r.total)}</strong></td>
+                </tr>
+                {openGuide === r.guide_id && r.entries.map((e) => (
+                  <tr key={`${r.guide_id}-${e.id}`} style={styles.subtle}>
+                    <td style={{ paddingLeft: 20 }}>{e.work_date}</td>
+                    <td colSpan={2}>
+                      {e.kind === "job" ? e.jobs?.title || "(deleted job)" : PAY_KINDS[e.kind]}
+                      {e.note ? ` · ${e.note}` : ""}
+                    </td>
+                    <td>
+                      {e.kind !== "job" && !e.period_id && (
+                        <button style={{ ...styles.ghostBtn, padding: "2px 8px" }} onClick={() => removeAdj(e)}>Remove</button>
+                      )}
+                    </td>
+                    <td>{money(Number(e.amount))}</td>
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+            <tr>
+              <td colSpan={4}><strong>Total</strong></td>
+              <td><strong>{money(grandTotal)}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ borderTop: "1px solid #eee", paddingTop: 8, fontWeight: 600 }}>Add adjustment</div>
+      <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          <label style={styles.label}>Guide
+            <select style={styles.input} value={adjGuide} onChange={(e) => setAdjGuide(e.target.value)}>
+              <option value="">— Select guide —</option>
+              {guides.map((g) => <option key={g.id} value={g.id}>{g.full_name || g.id.slice(0, 8)}</option>)}
+            </select>
+          </label>
+          <label style={styles.label}>Kind
+            <select style={styles.input} value={adjKind} onChange={(e) => setAdjKind(e.target.value as Exclude<PayKind, "job">)}>
+              {(Object.keys(PAY_KINDS) as PayKind[]).filter((k) => k !== "job").map((k) => (
+                <option key={k} value={k}>{PAY_KINDS[k]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          <label style={styles.label}>Amount (USD, negative to deduct)
+            <input type="number" step="0.01" style={styles.input} value={adjAmount} onChange={(e) => setAdjAmount(e.target.value)} />
+          </label>
+          <label style={styles.label}>Date
+            <input type="date" style={styles.input} value={adjDate} onChange={(e) => setAdjDate(e.target.value)} />
+          </label>
+        </div>
+        <label style={styles.label}>Note (optional)
+          <input style={styles.input} value={adjNote} onChange={(e) => setAdjNote(e.target.value)} />
+        </label>
+        <div>
+          <button style={styles.primaryBtn} disabled={busy} onClick={addAdj}>Add</button>
+        </div>
+      </div>
+    </div>
+  );
+}
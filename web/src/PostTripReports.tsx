@@ -0,0 +1,103 @@
+// PostTripReports.tsx — post-trip reports in the Details modal: every crew member's report
+// for admins and the crew, and the report form for a guide on the job once the trip
+// day has come
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Job, JobReport } from "./types";
+import { onCrew } from "./jobStore";
+import { draftFromReport, loadReports, reportDue, reportMessage, saveReport, type ReportDraft } from "./jobReports";
+
+export default function PostTripReports({ job, myId }: { job: Job; myId?: string }) {
+  const [reports, setReports] = useState<JobReport[]>([]);
+  const [draft, setDraft] = useState<ReportDraft>(() => draftFromReport(null));
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  const canFile = onCrew(job, myId) && reportDue(job);
+  const mine = reports.find((r) => r.guide_id === myId);
+  const nameOf = (guideId: string) =>
+    guideId === myId ? "You" : job.crew?.find((g) => g.guide_id === guideId)?.full_name || guideId.slice(0, 8);
+
+  useEffect(() => {
+    let live = true;
+    loadReports(job.id)
+      .then((rows) => {
+        if (!live) return;
+        setReports(rows);
+        setError("");
+      })
+      .catch((e) => live && setError(e?.message || "Failed to load reports."));
+    return () => {
+      live = false;
+    };
+  }, [job.id]);
+
+  function startEdit() {
+    setDraft(draftFromReport(mine));
+    setEditing(true);
+  }
+
+  async function save() {
+    try {
+      setSaving(true);
+      setError("");
+      const r = await saveReport(job.id, draft);
+      if (!r.ok) throw new Error(reportMessage(r));
+      setReports(await loadReports(job.id));
+      setEditing(false);
+    } catch (e: any) {
+      setError(e?.message || "Failed to save the report.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!reports.length && !canFile) return null;
+
+  return (
+    <div style={{ borderTop: "1px solid #eee", paddingTop: 8 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 4 }}>
+        <div style={{ fontWeight: 600 }}>Post-trip reports</div>
+        {canFile && !editing && (
+          <button style={styles.ghostBtn} onClick={startEdit}>{mine ? "Edit my report" : "File my report"}</button>
+        )}
+      </div>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      {editing ? (
+        <div style={{ display: "grid", gap: 8 }}>
+          <label style={styles.label}>Dive sites (comma-separated)
+            <input style={styles.input} value={draft.dive_sites} onChange={(e) => setDraft({ ...draft, dive_sites: e.target.value })} />
+          </label>
+          <label style={styles.label}>Conditions (visibility, current, swell, water temperature)
+            <textarea style={{ ...styles.input, minHeight: 60 }} value={draft.conditions} onChange={(e) => setDraft({ ...draft, conditions: e.target.value })} />
+          </label>
+          <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+            <input type="checkbox" checked={draft.customer_no_show} onChange={(e) => setDraft({ ...draft, customer_no_show: e.target.checked })} />
+            Customer didn't show
+          </label>
+          <div style={styles.subtle}>Something happened? Incident reports go with “Mark complete”, or to an admin once the job is complete; only admins see them.</div>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button style={styles.primaryBtn} disabled={saving} onClick={save}>{saving ? "Saving…" : "Save report"}</button>
+            <button style={styles.ghostBtn} disabled={saving} onClick={() => setEditing(false)}>Cancel</button>
+          </div>
+        </div>
+      ) : !reports.length ? (
+        <div style={styles.subtle}>No reports filed yet.</div>
+      ) : (
+        <ul style={{ display: "grid", gap: 6, paddingLeft: 0, margin: 0, listStyle: "none" }}>
+          {reports.map((r) => (
+            <li key={r.guide_id} style={{ ...styles.card, padding: 8 }}>
+              <div style={styles.subtle}>{nameOf(r.guide_id)} · {new Date(r.updated_at).toLocaleString()}</div>
+              {r.customer_no_show && <div style={{ color: "#b45309" }}>🚷 Customer didn't show</div>}
+              <div><strong>Sites:</strong> {r.dive_sites.length ? r.dive_sites.join(", ") : "—"}</div>
+              <div><strong>Conditions:</strong> {r.conditions || "—"}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+// ProfileScreen.tsx — guide's own profile: display name, certifications, availability,
+// notification channels
+// Certs added here start as "pending" until an admin verifies them (see CertReview).
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { GuideCert, Profile } from "./types";
+import { cardPhotoUrl, certState, deleteCert, loadCerts, removeCardPhoto, saveCert, uploadCardPhoto } from "./certs";
+import { saveFullName } from "./profiles";
+import { loadLateDropCounts } from "./drops";
+import AvailabilityEditor from "./AvailabilityEditor";
+import NotificationSettings from "./NotificationSettings";
+
+export default function ProfileScreen({ profile, onSaved }: {
+  profile: Profile;
+  onSaved: () => Promise<void>;
+}) {
+  const [fullName, setFullName] = useState(profile.full_name || "");
+  const [savingName, setSavingName] = useState(false);
+
+  const [certs, setCerts] = useState<GuideCert[]>([]);
+  const [cert, setCert] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [card, setCard] = useState<File | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [lateDrops, setLateDrops] = useState<number>(0);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile.id]);
+
+  async function refresh() {
+    try {
+      setCerts(await loadCerts(profile.id));
+      setLateDrops((await loadLateDropCounts([profile.id]))[profile.id] || 0);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load certifications.");
+    }
+  }
+
+  async function saveName() {
+    try {
+      setSavingName(true);
+      setError("");
+      await saveFullName(profile.id, fullName || null);
+      await onSaved();
+    } catch (e: any) {
+      setError(e?.message || "Failed to save name.");
+    } finally {
+      setSavingName(false);
+    }
+  }
+
+  async function addCert() {
+    const name = cert.trim();
+    if (!name) return;
+    try {
+      setAdding(true);
+      setError("");
+      const card_path = card ? await uploadCardPhoto(profile.id, card) : null;
+      await saveCert(profile.id, name, expiresOn || null, card_path);
+      setCert("");
+      setExpiresOn("");
+      setCard(null);
+      await refresh();
+    } catch (e: any) {
+      setError(e?.message || "Failed to add certification.");
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  async function removeCert(c: GuideCert) {
+    if (!confirm(`Remove ${c.cert}?`)) return;
+    try {
+      await deleteCert(c.id);
+    } catch (e: any) {
+      setError(e.message);
+      return;
+    }
+    if (c.card_path) await removeCardPhoto(c.card_path);
+    await refresh();
+  }
+
+  async function viewCard(path: string) {
+    const url = await cardPhotoUrl(path);
+    if (url) window.open(url, "_blank");
+    else alert("Couldn't open the card photo.");
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10, maxWidth: 560 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      <label style={styles.label}>Full name
+        <input style={styles.input} value={fullName} onChange={(e) => setFullName(e.target.value)} />
+      </label>
+      <div>
+        <button style={styles.primaryBtn} disabled={savingName} onClick={saveName}>
+          {savingName ? "Saving…" : "Save name"}
+        </button>
+      </div>
+
+      <div style={styles.subtle}>
+        Late drops: <strong>{lateDrops}</strong> (jobs you were let off inside the unclaim cutoff)
+      </div>
+
+      <div style={{ borderTop: "1px solid #eee", marginTop: 8, paddingTop: 8, fontWeight: 600 }}>
+        Certifications
+      </div>
+      <div style={styles.subtle}>
+        Only verified, unexpired certs count toward job requirements.
+      </div>
+
+      {certs.length ? (
+        <ul style={{ display: "grid", gap: 8 }}>
+          {certs.map((c) => (
+            <li key={c.id} style={{ ...styles.card, display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+              <div>
+                <div style={{ fontWeight: 600 }}>{c.cert}</div>
+                <div style={styles.subtle}>
+                  {c.expires_on ? `expires ${c.expires_on}` : "no expiry"}
+                </div>
+              </div>
+              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <CertBadge cert={c} />
+                {c.card_path && (
+                  <button style={styles.ghostBtn} onClick={() => viewCard(c.card_path!)}>Card</button>
+                )}
+                <button style={styles.ghostBtn} onClick={() => removeCert(c)}>Remove</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div style={styles.card}>No certifications yet.</div>
+      )}
+
+      <div style={{ borderTop: "1px solid #eee", marginTop: 8, paddingTop: 8, fontWeight: 600 }}>
+        Add certification
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        <label style={styles.label}>Cert (e.g. DM, Nitrox)
+          <input style={styles.input} value={cert} onChange={(e) => setCert(e.target.value)} />
+        </label>
+        <label style={styles.label}>Expires on
+          <input type="date" style={styles.input} value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+        </label>
+      </div>
+      <label style={styles.label}>Card photo
+        <input type="file" accept="image/*" onChange={(e) => setCard(e.target.files?.[0] || null)} />
+      </label>
+      <button style={styles.primaryBtn} disabled={adding || !cert.trim()} onClick={addCert}>
+        {adding ? "Saving…" : "Add certification"}
+      </button>
+
+      <AvailabilityEditor guideId={profile.id} />
+      <NotificationSettings guideId={profile.id} />
+    </div>
+  );
+}
+
+export function CertBadge({ cert }: { cert: GuideCert }) {
+  const state = certState(cert);
+  const border = state === "verified" ? "#16a34a" : state === "pending" ? "#6366f1" : "#ea580c";
+  const bg = state === "verified" ? "#f0fdf4" : state === "pending" ? "#eef2ff" : "#fff7ed";
+  return (
+    <span style={{ padding: "2px 8px", borderRadius: 999, border: `1px solid ${border}`, background: bg, fontSize: 12 }}>
+      {state}
+    </span>
+  );
+}
@@ -0,0 +1,135 @@
+// SettingsScreen.tsx — admin: app-wide settings
+// Default trip length: how long a job without a dock time is assumed to last
+// when checking guides for schedule conflicts.
+// Standby offer window: how long a freed slot is held for the next guide in line.
+// Unclaim cutoff + time zone: inside the cutoff before call time (shop time),
+// a guide's unclaim becomes a drop request for an admin.
+// Require a dive log: "Mark complete" needs the trip's dive log (0023_dive_logs.sql).
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import { intervalHours, loadSettings, saveSettings } from "./settings";
+
+export default function SettingsScreen() {
+  const [tripHours, setTripHours] = useState<string>("");
+  const [offerHours, setOfferHours] = useState<string>("");
+  const [cutoffHours, setCutoffHours] = useState<string>("");
+  const [timeZone, setTimeZone] = useState<string>("");
+  const [requireDiveLog, setRequireDiveLog] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const s = await loadSettings();
+        setTripHours(String(intervalHours(s.default_trip_length)));
+        setOfferHours(String(intervalHours(s.standby_offer_window)));
+        setCutoffHours(String(intervalHours(s.unclaim_cutoff)));
+        setTimeZone(s.time_zone);
+        setRequireDiveLog(s.require_dive_log);
+      } catch (e: any) {
+        setMsg(`❌ ${e?.message || "Failed to load settings."}`);
+      }
+    })();
+  }, []);
+
+  async function save() {
+    const trip = Number(tripHours);
+    const offer = Number(offerHours);
+    if (!Number.isFinite(trip) || trip <= 0 || trip > 48) {
+      setMsg("⚠️ Trip length must be between 0 and 48 hours.");
+      return;
+    }
+    if (!Number.isFinite(offer) || offer <= 0 || offer > 72) {
+      setMsg("⚠️ Standby offer window must be between 0 and 72 hours.");
+      return;
+    }
+    const cutoff = Number(cutoffHours);
+    if (!Number.isFinite(cutoff) || cutoff < 0) {
+      setMsg("⚠️ Unclaim cutoff must be 0 hours or more.");
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveSettings({
+        default_trip_length: `${trip} hours`,
+        standby_offer_window: `${offer} hours`,
+        unclaim_cutoff: `${cutoff} hours`,
+        time_zone: timeZone.trim() || "UTC",
+        require_dive_log: requireDiveLog,
+      });
+      setMsg("✅ Settings saved.");
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to save settings."}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={{ ...styles.card, display: "grid", gap: 12 }}>
+      <label style={styles.label}>
+        Default trip length (hours)
+        <input
+          style={styles.input}
+          type="number"
+          min={0.5}
+          max={48}
+          step={0.5}
+          value={tripHours}
+          onChange={(e) => setTripHours(e.target.value)}
+        />
+        <span style={styles.subtle}>Used for jobs without a dock time when checking schedule conflicts.</span>
+      </label>
+      <label style={styles.label}>
+        Standby offer window (hours)
+        <input
+          style={styles.input}
+          type="number"
+          min={0.25}
+          max={72}
+          step={0.25}
+          value={offerHours}
+          onChange={(e) => setOfferHours(e.target.value)}
+        />
+        <span style={styles.subtle}>How long a freed slot is held for the next guide on standby before it moves down the line.</span>
+      </label>
+      <label style={styles.label}>
+        Unclaim cutoff (hours before call time)
+        <input
+          style={styles.input}
+          type="number"
+          min={0}
+          step={1}
+          value={cutoffHours}
+          onChange={(e) => setCutoffHours(e.target.value)}
+        />
+        <span style={styles.subtle}>Inside this window a guide's unclaim becomes a drop request an admin must approve. 0 turns it off.</span>
+      </label>
+      <label style={styles.label}>
+        Shop time zone
+        <input
+          style={styles.input}
+          value={timeZone}
+          placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+        />
+        <span style={styles.subtle}>Job dates and call times are in this zone (IANA name, e.g. America/Los_Angeles).</span>
+      </label>
+      <label style={styles.label}>
+        <span style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <input type="checkbox" checked={requireDiveLog} onChange={(e) => setRequireDiveLog(e.target.checked)} />
+          Require a dive log to complete a job
+        </span>
+        <span style={styles.subtle}>Max depth, bottom time, gas and divers, plus an incident report when the log says something happened.</span>
+      </label>
+      <div>
+        <button style={styles.primaryBtn} disabled={saving} onClick={save}>
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </div>
+      {msg && <div>{msg}</div>}
+    </div>
+  );
+}
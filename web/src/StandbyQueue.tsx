@@ -0,0 +1,191 @@
+// StandbyQueue.tsx — standby (waitlist) views
+// - FullJobs: full jobs a guide can queue for (Open Jobs tab)
+// - MyStandby: a guide's places in line and live offers (My Jobs tab)
+// - StandbyQueue (default): admin reorder / remove / clear, in the Details modal
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Job, StandbyEntry } from "./types";
+import * as jobRpc from "./jobRpc";
+import { hasOffer, loadStandby, offerDeadline } from "./standby";
+import { jobWindowLabel } from "./boats";
+
+export function FullJobs({ jobs, standby, busyId, onJoin, onLeave, onView }: {
+  jobs: Job[];
+  standby: StandbyEntry[]; // the viewer's own entries
+  busyId?: string | null;
+  onJoin: (jobId: string) => void;
+  onLeave: (jobId: string) => void;
+  onView: (job: Job) => void;
+}) {
+  if (!jobs.length) return null;
+  const mine = new Map(standby.map((e) => [e.job_id, e]));
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Full — join standby</div>
+      <ul style={{ display: "grid", gap: 12 }}>
+        {jobs.map((j) => {
+          const entry = mine.get(j.id);
+          return (
+            <li key={j.id} style={styles.card}>
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+                <div style={{ fontWeight: 600 }}>{j.title}</div>
+                <button style={styles.ghostBtn} onClick={() => onView(j)}>Details</button>
+              </div>
+              <div style={styles.subtle}>
+                {j.date} · {jobWindowLabel(j)}{j.boats ? ` · ⛴ ${j.boats.name}` : ""} · {j.location || "—"} · {j.pay ? `$${j.pay}` : ""}
+              </div>
+              <div style={{ display: "flex", gap: 8, marginTop: 8, alignItems: "center" }}>
+                {entry ? (
+                  <>
+                    <span style={{ fontSize: 14 }}>On standby · #{entry.position} in line</span>
+                    <button style={styles.ghostBtn} disabled={busyId === j.id} onClick={() => onLeave(j.id)}>Leave standby</button>
+                  </>
+                ) : (
+                  <button style={styles.ghostBtn} disabled={busyId === j.id} onClick={() => onJoin(j.id)}>
+                    {busyId === j.id ? "Joining…" : "Join standby"}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export function MyStandby({ entries, busyId, onClaim, onLeave, onView }: {
+  entries: StandbyEntry[];
+  busyId?: string | null;
+  onClaim: (jobId: string) => void;
+  onLeave: (jobId: string) => void;
+  onView: (job: Job) => void;
+}) {
+  const rows = entries.filter((e) => e.jobs);
+  if (!rows.length) return null;
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Standby</div>
+      <ul style={{ display: "grid", gap: 12 }}>
+        {rows.map((e) => {
+          const j = e.jobs!;
+          const offered = hasOffer(e);
+          return (
+            <li key={e.job_id} style={{ ...styles.card, ...(offered ? { borderColor: "#0a7" } : {}) }}>
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+                <div style={{ fontWeight: 600 }}>{j.title}</div>
+                <button style={styles.ghostBtn} onClick={() => onView(j)}>Details</button>
+              </div>
+              <div style={styles.subtle}>
+                {j.date} · {jobWindowLabel(j)}{j.boats ? ` · ⛴ ${j.boats.name}` : ""} · {j.location || "—"} · {j.pay ? `$${j.pay}` : ""}
+              </div>
+              <div style={{ display: "flex", gap: 8, marginTop: 8, alignItems: "center", flexWrap: "wrap" }}>
+                {offered ? (
+                  <>
+                    <span style={{ fontSize: 14 }}>🔔 A slot opened up — yours until {offerDeadline(e)}</span>
+                    <button style={styles.primaryBtn} disabled={busyId === e.job_id} onClick={() => onClaim(e.job_id)}>Claim</button>
+                    <button style={styles.ghostBtn} disabled={busyId === e.job_id} onClick={() => onLeave(e.job_id)}>Decline</button>
+                  </>
+                ) : (
+                  <>
+                    <span style={{ fontSize: 14 }}>#{e.position} in line</span>
+                    <button style={styles.ghostBtn} disabled={busyId === e.job_id} onClick={() => onLeave(e.job_id)}>Leave standby</button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+// refreshKey: bump to reload; onChanged: the queue (and maybe the job's status) changed
+export default function StandbyQueue({ jobId, refreshKey, onChanged }: {
+  jobId: string;
+  refreshKey?: unknown;
+  onChanged: () => Promise<void> | void;
+}) {
+  const [queue, setQueue] = useState<StandbyEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jobId, refreshKey]);
+
+  async function refresh() {
+    try {
+      setQueue(await loadStandby(jobId));
+      setError("");
+    } catch (e: any) {
+      setError(e?.message || "Failed to load standby.");
+    }
+  }
+
+  async function run(action: () => Promise<jobRpc.JobResult>, failMsg: string) {
+    try {
+      setBusy(true);
+      const r = await action();
+      if (!r.ok) throw new Error(jobRpc.reasonMessage(r));
+      await refresh();
+      await onChanged();
+    } catch (e: any) {
+      alert(e?.message || failMsg);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function move(index: number, delta: number) {
+    const ids = queue.map((e) => e.guide_id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + delta, 0, id);
+    run(() => jobRpc.reorderStandby(jobId, ids), "Failed to reorder standby.");
+  }
+
+  function clear() {
+    if (!confirm("Remove everyone from standby for this job?")) return;
+    run(() => jobRpc.clearStandby(jobId), "Failed to clear standby.");
+  }
+
+  return (
+    <div style={{ borderTop: "1px solid #eee", paddingTop: 8 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 4 }}>
+        <div style={{ fontWeight: 600 }}>Standby</div>
+        {!!queue.length && (
+          <button style={{ ...styles.ghostBtn, padding: "2px 8px" }} disabled={busy} onClick={clear}>Clear queue</button>
+        )}
+      </div>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+      {!queue.length ? (
+        <div style={styles.subtle}>No one on standby.</div>
+      ) : (
+        <ol style={{ display: "grid", gap: 4, paddingLeft: 18, margin: 0 }}>
+          {queue.map((e, i) => (
+            <li key={e.guide_id}>
+              {e.profiles?.full_name || e.guide_id.slice(0, 8)}
+              {hasOffer(e) && <span style={styles.subtle}> · offered until {offerDeadline(e)}</span>}
+              <span style={{ display: "inline-flex", gap: 4, marginLeft: 8 }}>
+                <button style={{ ...styles.ghostBtn, padding: "2px 8px" }} disabled={busy || i === 0} onClick={() => move(i, -1)}>↑</button>
+                <button style={{ ...styles.ghostBtn, padding: "2px 8px" }} disabled={busy || i === queue.length - 1} onClick={() => move(i, 1)}>↓</button>
+                <button
+                  style={{ ...styles.ghostBtn, padding: "2px 8px" }}
+                  disabled={busy}
+                  onClick={() => run(() => jobRpc.leaveStandby(jobId, e.guide_id), "Failed to remove from standby.")}
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+// TemplatesScreen.tsx — admin: saved job templates + recurring series
+// Generate previews every day the rule hits (and which already have the job)
+// before creating anything.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { Boat, JobTemplate, SeriesPreviewDay } from "./types";
+import { loadBoats } from "./boats";
+import {
+  WEEKDAYS, deleteTemplate, generateSeries, loadTemplates, previewSeries, saveTemplate, seriesMessage,
+} from "./templates";
+
+type Draft = {
+  id?: string;
+  name: string;
+  title: string;
+  call_time: string;
+  dock_time: string;
+  location: string;
+  boat_id: string;
+  pay: string;
+  slots: string;
+  requirements: string; // comma-separated
+  notes: string;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string;
+};
+
+const EMPTY: Draft = {
+  name: "", title: "", call_time: "", dock_time: "", location: "", boat_id: "", pay: "", slots: "1",
+  requirements: "", notes: "", customer_name: "", customer_phone: "", customer_email: "",
+};
+
+function toDraft(t: JobTemplate): Draft {
+  return {
+    id: t.id,
+    name: t.name,
+    title: t.title,
+    call_time: t.call_time?.slice(0, 5) || "",
+    dock_time: t.dock_time?.slice(0, 5) || "",
+    location: t.location || "",
+    boat_id: t.boat_id || "",
+    pay: t.pay != null ? String(t.pay) : "",
+    slots: String(t.slots ?? 1),
+    requirements: (t.requirements || []).join(", "),
+    notes: t.notes || "",
+    customer_name: t.customer_name || "",
+    customer_phone: t.customer_phone || "",
+    customer_email: t.customer_email || "",
+  };
+}
+
+export default function TemplatesScreen({ onGenerated }: { onGenerated: () => Promise<void> }) {
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  // Generate
+  const [templateId, setTemplateId] = useState("");
+  const [weekdays, setWeekdays] = useState<number[]>([6, 7]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [preview, setPreview] = useState<SeriesPreviewDay[] | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  useEffect(() => {
+    refresh();
+    loadBoats().then(setBoats).catch(() => setBoats([]));
+  }, []);
+
+  // Any change to the rule invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+  }, [templateId, weekdays, from, to]);
+
+  async function refresh() {
+    try {
+      setError("");
+      setTemplates(await loadTemplates());
+    } catch (e: any) {
+      setError(e?.message || "Failed to load templates.");
+    }
+  }
+
+  async function save() {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.title.trim() || !draft.call_time) {
+      alert("Name, title and call time are required.");
+      return;
+    }
+    try {
+      setSaving(true);
+      const reqs = draft.requirements.split(",").map((r) => r.trim()).filter(Boolean);
+      await saveTemplate({
+        id: draft.id,
+        name: draft.name.trim(),
+        title: draft.title.trim(),
+        call_time: draft.call_time,
+        dock_time: draft.dock_time || null,
+        location: draft.location || null,
+        boat: null,
+        boat_id: draft.boat_id || null,
+        pay: draft.pay ? Number(draft.pay) : null,
+        slots: Math.max(1, Number(draft.slots) || 1),
+        requirements: reqs.length ? reqs : null,
+        notes: draft.notes || null,
+        customer_name: draft.customer_name || null,
+        customer_phone: draft.customer_phone || null,
+        customer_email: draft.customer_email || null,
+      });
+      setDraft(null);
+      await refresh();
+    } catch (e: any) {
+      alert(e?.message || "Failed to save template.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(t: JobTemplate) {
+    if (!confirm(`Delete template "${t.name}"? Jobs already created from it stay.`)) return;
+    try {
+      await deleteTemplate(t.id);
+      if (templateId === t.id) setTemplateId("");
+      await refresh();
+    } catch (e: any) {
+      alert(e?.message || "Failed to delete template.");
+    }
+  }
+
+  function toggleDay(iso: number) {
+    setWeekdays((days) => (days.includes(iso) ? days.filter((d) => d !== iso) : [...days, iso].sort()));
+  }
+
+  async function runPreview() {
+    try {
+      setMsg("");
+      setPreview(await previewSeries(templateId, weekdays, from, to));
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to preview."}`);
+    }
+  }
+
+  async function generate() {
+    try {
+      setGenerating(true);
+      const r = await generateSeries(templateId, weekdays, from, to);
+      if (!r.ok) throw new Error(seriesMessage(r));
+      setMsg(`✅ Created ${r.created} job${r.created === 1 ? "" : "s"}${r.skipped ? ` (${r.skipped} already existed)` : ""}.`);
+      setPreview(null);
+      await onGenerated();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to create jobs."}`);
+    } finally {
+      setGenerating(false);
+    }
+  }
+
+  const newCount = preview ? preview.filter((d) => !d.existing_job_id).length : 0;
+  const field = (key: keyof Draft) => ({
+    value: draft?.[key] ?? "",
+    onChange: (e: { target: { value: string } }) => setDraft((d) => (d ? { ...d, [key]: e.target.value } : d)),
+  });
+
+  return (
+    <div style={{ display: "grid", gap: 12, maxWidth: 640 }}>
+      {error && <div style={{ color: "#c00" }}>{error}</div>}
+
+      {/* Templates */}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div style={{ fontWeight: 600 }}>Templates</div>
+        <button style={styles.ghostBtn} onClick={() => setDraft({ ...EMPTY })}>New template</button>
+      </div>
+      {!templates.length && <div style={styles.card}>No templates yet.</div>}
+      <ul style={{ display: "grid", gap: 8 }}>
+        {templates.map((t) => (
+          <li key={t.id} style={{ ...styles.card, display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+            <div>
+              <div style={{ fontWeight: 600 }}>{t.name}</div>
+              <div style={styles.subtle}>
+                {t.title} · call {t.call_time.slice(0, 5)} · {t.location || "—"} · {t.pay ? `$${t.pay}` : ""}
+                {t.requirements?.length ? ` · ${t.requirements.join(", ")}` : ""}
+              </div>
+            </div>
+            <div style={{ display: "flex", gap: 8 }}>
+              <button style={styles.ghostBtn} onClick={() => setDraft(toDraft(t))}>Edit</button>
+              <button style={styles.dangerBtn} onClick={() => remove(t)}>Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+          <div style={{ fontWeight: 600 }}>{draft.id ? "Edit template" : "New template"}</div>
+          <label style={styles.label}>Template name
+            <input style={styles.input} placeholder="Weekend Santa Cruz" {...field("name")} />
+          </label>
+          <label style={styles.label}>Job title
+            <input style={styles.input} {...field("title")} />
+          </label>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <label style={styles.label}>Call time
+              <input type="time" style={styles.input} {...field("call_time")} />
+            </label>
+            <label style={styles.label}>Dock time (optional)
+              <input type="time" style={styles.input} {...field("dock_time")} />
+            </label>
+          </div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <label style={styles.label}>Location
+              <input style={styles.input} {...field("location")} />
+            </label>
+            <label style={styles.label}>Boat
+              <select style={styles.input} {...field("boat_id")}>
+                <option value="">— No boat —</option>
+                {boats.filter((b) => b.is_active || b.id === draft.boat_id).map((b) => (
+                  <option key={b.id} value={b.id}>{b.name}{b.is_active ? "" : " (retired)"}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            <label style={styles.label}>Pay (USD)
+              <input type="number" style={styles.input} {...field("pay")} />
+            </label>
+            <label style={styles.label}>Guides needed
+              <input type="number" min={1} style={styles.input} {...field("slots")} />
+            </label>
+          </div>
+          <label style={styles.label}>Requirements (comma-separated)
+            <input style={styles.input} {...field("requirements")} />
+          </label>
+          <label style={styles.label}>Notes
+            <textarea style={{ ...styles.input, minHeight: 60 }} {...field("notes")} />
+          </label>
+          <div style={{ borderTop: "1px solid #eee", paddingTop: 8, fontWeight: 600 }}>Customer Contact (optional)</div>
+          <label style={styles.label}>Name
+            <input style={styles.input} {...field("customer_name")} />
+          </label>
+          <label style={styles.label}>Phone
+            <input style={styles.input} {...field("customer_phone")} />
+          </label>
+          <label style={styles.label}>Email
+            <input type="email" style={styles.input} {...field("customer_email")} />
+          </label>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button style={styles.primaryBtn} disabled={saving} onClick={save}>{saving ? "Saving…" : "Save template"}</button>
+            <button style={styles.ghostBtn} disabled={saving} onClick={() => setDraft(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* Recurring series */}
+      <div style={{ borderTop: "1px solid #eee", paddingTop: 8, fontWeight: 600 }}>Generate recurring jobs</div>
+      <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+        <label style={styles.label}>Template
+          <select style={styles.input} value={templateId} onChange={(e) => setTemplateId(e.target.value)}>
+            <option value="">— Select template —</option>
+            {templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </label>
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+          {WEEKDAYS.map((d) => (
+            <button
+              key={d.iso}
+              style={{ ...styles.tabBtn, ...(weekdays.includes(d.iso) ? styles.tabActive : {}) }}
+              onClick={() => toggleDay(d.iso)}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          <label style={styles.label}>From
+            <input type="date" style={styles.input} value={from} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label style={styles.label}>To
+            <input type="date" style={styles.input} value={to} onChange={(e) => setTo(e.target.value)} />
+          </label>
+        </div>
+        <div>
+          <button style={styles.ghostBtn} disabled={!templateId || !weekdays.length || !from || !to} onClick={runPreview}>
+            Preview
+          </button>
+        </div>
+
+        {preview && (
+          <>
+            <div style={styles.subtle}>
+              {newCount} new job{newCount === 1 ? "" : "s"}
+              {preview.length > newCount ? `, ${preview.length - newCount} skipped (already scheduled)` : ""}
+              {" · at most a year of dates"}
+            </div>
+            <ul style={{ display: "grid", gap: 2, paddingLeft: 18, margin: 0, maxHeight: 240, overflowY: "auto" }}>
+              {preview.map((d) => (
+                <li key={d.date} style={d.existing_job_id ? { opacity: 0.5, textDecoration: "line-through" } : undefined}>
+                  {new Date(`${d.date}T00:00:00`).toLocaleDateString([], { weekday: "short" })} {d.date} · {d.title} · {d.call_time.slice(0, 5)}
+                </li>
+              ))}
+            </ul>
+            <div>
+              <button style={styles.primaryBtn} disabled={!newCount || generating} onClick={generate}>
+                {generating ? "Creating…" : `Create ${newCount} job${newCount === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </>
+        )}
+        {msg && <div>{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+// UsersScreen.tsx — admin: everyone with an account, their role and whether they're
+// active, plus invites. Deactivating asks whether the guide's upcoming jobs go back
+// to the pool (via standby first) or stay with them for an admin to reassign.
+
+import { useEffect, useState } from "react";
+import { styles } from "./styles";
+import type { ManagedUser, Profile, ProfileInvite } from "./types";
+import {
+  cancelInvite, inviteUser, listUsers, loadInvites, setUserActive, setUserRole, userMessage, type UserResult,
+} from "./users";
+
+export default function UsersScreen({ myId, onChanged }: { myId?: string; onChanged: () => Promise<void> }) {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [invites, setInvites] = useState<ProfileInvite[]>([]);
+  const [showInactive, setShowInactive] = useState(false);
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<Profile["role"]>("guide");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  async function load() {
+    try {
+      const [u, i] = await Promise.all([listUsers(), loadInvites()]);
+      setUsers(u);
+      setInvites(i);
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to load users."}`);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function invite() {
+    if (!email.trim()) return;
+    try {
+      setBusy(true);
+      setMsg("");
+      const r = await inviteUser(email.trim(), name.trim(), role);
+      if (!r.ok) throw new Error(userMessage(r));
+      setMsg(`✅ Sign-in link sent to ${email.trim()}.`);
+      setEmail("");
+      setName("");
+      setRole("guide");
+      await load();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to send the invite."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function run(action: () => Promise<UserResult>, done: string) {
+    try {
+      setBusy(true);
+      setMsg("");
+      const r = await action();
+      if (!r.ok) throw new Error(userMessage(r));
+      setMsg(`✅ ${done}${r.released ? ` Taken off ${r.released} upcoming job${r.released === 1 ? "" : "s"}.` : ""}`);
+      await Promise.all([load(), onChanged()]);
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to update the user."}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function changeRole(u: ManagedUser) {
+    const next = u.role === "admin" ? "guide" : "admin";
+    if (!confirm(`Make ${u.full_name || u.email} ${next === "admin" ? "an admin" : "a guide"}?`)) return;
+    run(() => setUserRole(u.id, next), `${u.full_name || u.email} is now ${next === "admin" ? "an admin" : "a guide"}.`);
+  }
+
+  function deactivate(u: ManagedUser) {
+    const who = u.full_name || u.email || "this user";
+    if (!confirm(`Deactivate ${who}? They won't be able to take jobs until reactivated.`)) return;
+    const release = u.upcoming_jobs > 0 && confirm(
+      `${who} is on ${u.upcoming_jobs} upcoming job${u.upcoming_jobs === 1 ? "" : "s"}. ` +
+      "Put them back in the pool?\n\nOK: release them (standby first). Cancel: keep them on the jobs for now."
+    );
+    run(() => setUserActive(u.id, false, release), `${who} is deactivated.`);
+  }
+
+  function reactivate(u: ManagedUser) {
+    run(() => setUserActive(u.id, true), `${u.full_name || u.email} is active again.`);
+  }
+
+  async function withdraw(i: ProfileInvite) {
+    try {
+      await cancelInvite(i.email);
+      await load();
+    } catch (e: any) {
+      setMsg(`❌ ${e?.message || "Failed to cancel the invite."}`);
+    }
+  }
+
+  const shown = users.filter((u) => showInactive || u.is_active);
+  const inactiveCount = users.filter((u) => !u.is_active).length;
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ ...styles.card, display: "grid", gap: 8 }}>
+        <div style={{ fontWeight: 600 }}>Invite</div>
+        <div style={{ display: "grid", gridTemplateColumns: "2fr 2fr 1fr auto", gap: 8, alignItems: "end" }}>
+          <label style={styles.label}>Email
+            <input type="email" style={styles.input} value={email} onChange={(e) => setEmail(e.target.value)} />
+          </label>
+          <label style={styles.label}>Name
+            <input style={styles.input} value={name} onChange={(e) => setName(e.target.value)} />
+          </label>
+          <label style={styles.label}>Role
+            <select style={styles.input} value={role} onChange={(e) => setRole(e.target.value as Profile["role"])}>
+              <option value="guide">Guide</option>
+              <option value="admin">Admin</option>
+            </select>
+          </label>
+          <button style={styles.primaryBtn} disabled={busy || !email.trim()} onClick={invite}>Send invite</button>
+        </div>
+        {invites.length > 0 && (
+          <ul style={{ display: "grid", gap: 4, margin: 0, paddingLeft: 18 }}>
+            {invites.map((i) => (
+              <li key={i.email} style={styles.subtle}>
+                {i.email}{i.full_name ? ` (${i.full_name})` : ""} · {i.role} · invited {new Date(i.created_at).toLocaleDateString()}
+                {" "}<button style={{ ...styles.ghostBtn, padding: "2px 8px" }} onClick={() => withdraw(i)}>Cancel</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {msg && <div>{msg}</div>}
+
+      <label style={{ display: "inline-flex", gap: 6, alignItems: "center" }}>
+        <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+        Show deactivated ({inactiveCount})
+      </label>
+
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left", borderBottom: "1px solid #ddd" }}>
+              <th>Name</th><th>Email</th><th>Role</th><th>Upcoming</th><th>Last sign-in</th><th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((u) => (
+              <tr key={u.id} style={{ borderBottom: "1px solid #eee", opacity: u.is_active ? 1 : 0.6 }}>
+                <td>{u.full_name || "(no name)"}{!u.is_active && " ⛔"}</td>
+                <td>{u.email || "—"}</td>
+                <td>{u.role}</td>
+                <td>{u.upcoming_jobs}</td>
+                <td>{u.last_sign_in_at ? new Date(u.last_sign_in_at).toLocaleDateString() : "never"}</td>
+                <td style={{ whiteSpace: "nowrap", display: "flex", gap: 6, padding: "4px 0" }}>
+                  {u.id !== myId && u.is_active && (
+                    <>
+                      <button style={styles.ghostBtn} disabled={busy} onClick={() => changeRole(u)}>
+                        {u.role === "admin" ? "Make guide" : "Make admin"}
+                      </button>
+                      <button style={styles.dangerBtn} disabled={busy} onClick={() => deactivate(u)}>Deactivate</button>
+                    </>
+                  )}
+                  {!u.is_active && (
+                    <button style={styles.ghostBtn} disabled={busy} onClick={() => reactivate(u)}>Reactivate</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+// availability.ts — guide weekly availability, blackout dates, and the ranked assign list
+
+import { supabase } from "./supabase";
+import type { GuideAvailability, GuideBlackout, RankedGuide, Unavailability } from "./types";
+import { WEEKDAYS } from "./templates";
+
+export async function loadAvailability(guideId: string): Promise<GuideAvailability[]> {
+  const { data, error } = await supabase
+    .from("guide_availability")
+    .select("guide_id,weekday,starts_at,ends_at")
+    .eq("guide_id", guideId)
+    .order("weekday");
+  if (error) throw error;
+  return (data as GuideAvailability[]) || [];
+}
+
+// Replace the guide's weekly pattern (no rows = available every day)
+export async function saveAvailability(guideId: string, days: Omit<GuideAvailability, "guide_id">[]) {
+  const weekdays = days.map((d) => d.weekday);
+  let del = supabase.from("guide_availability").delete().eq("guide_id", guideId);
+  if (weekdays.length) del = del.not("weekday", "in", `(${weekdays.join(",")})`);
+  const { error: dErr } = await del;
+  if (dErr) throw dErr;
+  if (!days.length) return;
+  const { error } = await supabase
+    .from("guide_availability")
+    .upsert(days.map((d) => ({ ...d, guide_id: guideId })), { onConflict: "guide_id,weekday" });
+  if (error) throw error;
+}
+
+// Blackouts that haven't ended yet
+export async function loadBlackouts(guideId: string): Promise<GuideBlackout[]> {
+  const { data, error } = await supabase
+    .from("guide_blackouts")
+    .select("id,guide_id,starts_on,ends_on,note")
+    .eq("guide_id", guideId)
+    .gte("ends_on", new Date().toISOString().slice(0, 10))
+    .order("starts_on");
+  if (error) throw error;
+  return (data as GuideBlackout[]) || [];
+}
+
+export async function addBlackout(b: Omit<GuideBlackout, "id">) {
+  const { error } = await supabase.from("guide_blackouts").insert(b);
+  if (error) throw error;
+}
+
+export async function deleteBlackout(id: number) {
+  const { error } = await supabase.from("guide_blackouts").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Admin: guides for the job's assign picker, best fit first
+export async function rankGuides(jobId: string): Promise<RankedGuide[]> {
+  const { data, error } = await supabase.rpc("rank_guides", { p_job_id: jobId });
+  if (error) throw error;
+  return (data as RankedGuide[]) || [];
+}
+
+export function describeUnavailability(u: Unavailability): string {
+  if (u.reason === "blackout") {
+    const days = u.starts_on === u.ends_on ? u.starts_on : `${u.starts_on} – ${u.ends_on}`;
+    return `blackout ${days}${u.note ? ` (${u.note})` : ""}`;
+  }
+  const day = WEEKDAYS.find((d) => d.iso === u.weekday)?.label || "That day";
+  if (!u.starts_at && !u.ends_at) return `${day} isn't a working day`;
+  return `${day} hours are ${u.starts_at?.slice(0, 5) || "…"}–${u.ends_at?.slice(0, 5) || "…"}`;
+}
@@ -0,0 +1,39 @@
+// boats.ts — boat registry (public.boats) and boat double-booking checks
+
+import { supabase } from "./supabase";
+import type { Boat, Job, ScheduleConflict } from "./types";
+
+export async function loadBoats(activeOnly = false): Promise<Boat[]> {
+  let q = supabase.from("boats").select("id,name,capacity,home_port,guides_needed,is_active").order("name");
+  if (activeOnly) q = q.eq("is_active", true);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data as Boat[]) || [];
+}
+
+// Insert when b.id is missing, otherwise update
+export async function saveBoat(b: Omit<Boat, "id"> & { id?: string }) {
+  const { error } = b.id
+    ? await supabase.from("boats").update(b).eq("id", b.id)
+    : await supabase.from("boats").insert(b);
+  if (error) throw error;
+}
+
+// Other open/assigned jobs on the boat whose call-to-dock window overlaps this one
+export async function boatConflicts(
+  boatId: string, date: string, callTime: string, dockTime: string | null, jobId?: string,
+): Promise<ScheduleConflict[]> {
+  const { data, error } = await supabase.rpc("boat_conflicts", {
+    p_boat_id: boatId, p_date: date, p_call: callTime, p_dock: dockTime || null, p_job_id: jobId ?? null,
+  });
+  if (error) throw error;
+  return (data as ScheduleConflict[]) || [];
+}
+
+// "06:30–12:00", "20:00–02:00 (+1 day)", or "call 06:30" without a dock time
+export function jobWindowLabel(job: Pick<Job, "call_time" | "dock_time">): string {
+  const call = job.call_time?.slice(0, 5);
+  const dock = job.dock_time?.slice(0, 5);
+  if (!dock) return `call ${call}`;
+  return `${call}–${dock}${dock <= call ? " (+1 day)" : ""}`;
+}
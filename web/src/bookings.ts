@@ -0,0 +1,130 @@
+// bookings.ts — customer booking requests (supabase/migrations/0018_booking_requests.sql).
+// The public form and status page call the anon RPCs; admins work the inbox.
+
+import { supabase } from "./supabase";
+import type { BookingRequest, BookingStatus } from "./types";
+
+export const DIVE_TYPES = [
+  "Reef dive",
+  "Wreck dive",
+  "Night dive",
+  "Drift dive",
+  "Discover Scuba (first time)",
+  "Snorkel trip",
+  "Other (tell us below)",
+];
+
+export type BookingResult = {
+  ok: boolean;
+  reason: "bad_challenge" | "rate_limited" | "invalid" | "date_past" | "forbidden" | "not_found" | "already_decided" | null;
+  token?: string;
+  job_id?: string;
+};
+
+export type Challenge = { id: string; question: string };
+
+// A fresh question for the form; each one can be answered once
+export async function loadChallenge(): Promise<Challenge> {
+  const { data, error } = await supabase.rpc("booking_challenge");
+  if (error) throw error;
+  const r = data as BookingResult & Partial<Challenge>;
+  if (!r.ok) throw new Error(bookingMessage(r));
+  return { id: r.id!, question: r.question! };
+}
+
+export async function submitBooking(req: {
+  challengeId: string;
+  answer: number;
+  name: string;
+  phone: string;
+  email: string;
+  partySize: number;
+  preferredDate: string;
+  diveType: string;
+  message: string;
+}): Promise<BookingResult> {
+  const { data, error } = await supabase.rpc("submit_booking_request", {
+    p_challenge_id: req.challengeId,
+    p_answer: req.answer,
+    p_customer_name: req.name,
+    p_customer_phone: req.phone,
+    p_customer_email: req.email,
+    p_party_size: req.partySize,
+    p_preferred_date: req.preferredDate,
+    p_dive_type: req.diveType,
+    p_message: req.message || null,
+  });
+  if (error) throw error;
+  return data as BookingResult;
+}
+
+export async function loadBookingStatus(token: string): Promise<BookingStatus | null> {
+  const { data, error } = await supabase.rpc("booking_request_status", { p_token: token });
+  if (error) throw error;
+  return (data as BookingStatus) || null;
+}
+
+export function statusUrl(token: string): string {
+  return `${window.location.origin}/book?request=${token}`;
+}
+
+// ---- Admin ----
+
+export async function loadBookingRequests(status: BookingRequest["status"]): Promise<BookingRequest[]> {
+  const { data, error } = await supabase
+    .from("booking_requests")
+    .select("id,customer_name,customer_phone,customer_email,party_size,preferred_date,dive_type,message,status,decline_reason,job_id,created_at,decided_at")
+    .eq("status", status)
+    .order(status === "pending" ? "preferred_date" : "decided_at", { ascending: status === "pending" })
+    .limit(200);
+  if (error) throw error;
+  return (data as BookingRequest[]) || [];
+}
+
+export async function approveBooking(id: string, job: {
+  title: string;
+  date: string;
+  call_time: string;
+  dock_time: string | null;
+  location: string | null;
+  boat_id: string | null;
+  pay: number | null;
+  slots: number;
+  requirements: string[] | null;
+  notes: string | null;
+}): Promise<BookingResult> {
+  const { data, error } = await supabase.rpc("approve_booking_request", {
+    p_id: id,
+    p_title: job.title,
+    p_date: job.date,
+    p_call_time: job.call_time,
+    p_dock_time: job.dock_time,
+    p_location: job.location,
+    p_boat_id: job.boat_id,
+    p_pay: job.pay,
+    p_slots: job.slots,
+    p_requirements: job.requirements,
+    p_notes: job.notes,
+  });
+  if (error) throw error;
+  return data as BookingResult;
+}
+
+export async function declineBooking(id: string, reason: string): Promise<BookingResult> {
+  const { data, error } = await supabase.rpc("decline_booking_request", { p_id: id, p_reason: reason || null });
+  if (error) throw error;
+  return data as BookingResult;
+}
+
+export function bookingMessage(r: BookingResult): string {
+  switch (r.reason) {
+    case "bad_challenge": return "That answer didn't match. Please try the new question.";
+    case "rate_limited": return "Too many requests from here. Please try again in an hour, or call us.";
+    case "invalid": return "Please check the form: a name, a phone number or email, and a party size of 1–50.";
+    case "date_past": return "That date has passed. Please pick another.";
+    case "forbidden": return "You don't have permission to do that.";
+    case "not_found": return "That request no longer exists.";
+    case "already_decided": return "Someone already approved or declined this request.";
+    default: return "Something went wrong.";
+  }
+}
@@ -0,0 +1,49 @@
+// calendar.ts — date math for the week/month views and the guide's iCal feed link
+
+import { supabase } from "./supabase";
+
+// Local "YYYY-MM-DD" (jobs.date is a plain date, so no UTC conversion)
+export function ymd(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function addDays(d: Date, n: number): Date {
+  const r = new Date(d);
+  r.setDate(r.getDate() + n);
+  return r;
+}
+
+// Monday of d's week (weeks run Mon–Sun, like the series weekdays)
+export function weekStart(d: Date): Date {
+  const r = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  return addDays(r, -((r.getDay() + 6) % 7));
+}
+
+// Days shown for d's view: one week, or whole weeks covering d's month
+export function viewDays(view: "week" | "month", d: Date): Date[] {
+  if (view === "week") {
+    const start = weekStart(d);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+  const first = new Date(d.getFullYear(), d.getMonth(), 1);
+  const last = new Date(d.getFullYear(), d.getMonth() + 1, 0);
+  const start = weekStart(first);
+  const weeks = Math.ceil(((last.getTime() - start.getTime()) / 86400000 + 1) / 7);
+  return Array.from({ length: weeks * 7 }, (_, i) => addDays(start, i));
+}
+
+// The caller's feed token; rotate = true invalidates the old link
+export async function calendarFeedToken(rotate = false): Promise<string> {
+  const { data, error } = await supabase.rpc("calendar_feed_token", { p_rotate: rotate });
+  if (error) throw error;
+  return data as string;
+}
+
+// Subscribable URL (see 0013_calendar_feed.sql). Calendar apps can't send headers,
+// so the public anon key rides along as a query parameter.
+export function calendarFeedUrl(token: string): string {
+  const base = (import.meta.env.VITE_SUPABASE_URL as string).replace(/\/$/, "");
+  const key = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+  return `${base}/rest/v1/rpc/ical_feed?p_token=${token}&apikey=${encodeURIComponent(key)}`;
+}
@@ -0,0 +1,78 @@
+// certs.ts — guide certifications (guide_certs table + "cert-cards" storage bucket)
+// Mirrors public.guide_missing_certs() so the UI can mark jobs before the claim RPC decides.
+
+import { supabase } from "./supabase";
+import type { GuideCert } from "./types";
+
+export const CERT_BUCKET = "cert-cards";
+
+const CERT_COLUMNS = "id,guide_id,cert,expires_on,card_path,verified_at,verified_by,created_at";
+
+export type CertState = "verified" | "pending" | "expired";
+
+export function certState(c: GuideCert, today = new Date().toISOString().slice(0, 10)): CertState {
+  if (c.expires_on && c.expires_on < today) return "expired";
+  return c.verified_at ? "verified" : "pending";
+}
+
+// Requirements the guide does not hold as a verified, unexpired cert (case-insensitive)
+export function missingCerts(requirements: string[] | null | undefined, certs: GuideCert[]): string[] {
+  const held = new Set(
+    certs.filter((c) => certState(c) === "verified").map((c) => c.cert.trim().toLowerCase())
+  );
+  return (requirements || []).filter((r) => r.trim() && !held.has(r.trim().toLowerCase()));
+}
+
+export async function loadCerts(guideId?: string): Promise<GuideCert[]> {
+  let q = supabase.from("guide_certs").select(CERT_COLUMNS).order("cert");
+  if (guideId) q = q.eq("guide_id", guideId);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data as GuideCert[]) || [];
+}
+
+// Upload the card photo to <guideId>/<timestamp>-<filename> and return its storage path
+export async function uploadCardPhoto(guideId: string, file: File): Promise<string> {
+  const safeName = file.name.replace(/[^\w.-]+/g, "_");
+  const path = `${guideId}/${Date.now()}-${safeName}`;
+  const { error } = await supabase.storage.from(CERT_BUCKET).upload(path, file, { upsert: false });
+  if (error) throw error;
+  return path;
+}
+
+export async function cardPhotoUrl(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(CERT_BUCKET).createSignedUrl(path, 60 * 10);
+  if (error) return null;
+  return data.signedUrl;
+}
+
+// A guide adding (or re-adding) a cert; it waits for an admin to verify it
+export async function saveCert(guideId: string, cert: string, expiresOn: string | null, cardPath: string | null) {
+  const { error } = await supabase
+    .from("guide_certs")
+    .upsert({ guide_id: guideId, cert, expires_on: expiresOn, card_path: cardPath }, { onConflict: "guide_id,cert" });
+  if (error) throw error;
+}
+
+// Admin: verify (confirming the expiry date) or take the verification back
+export async function verifyCert(id: string, expiresOn: string | null) {
+  const { error } = await supabase
+    .from("guide_certs")
+    .update({ verified_at: new Date().toISOString(), verified_by: null, expires_on: expiresOn })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function unverifyCert(id: string) {
+  const { error } = await supabase.from("guide_certs").update({ verified_at: null, verified_by: null }).eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteCert(id: string) {
+  const { error } = await supabase.from("guide_certs").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function removeCardPhoto(path: string) {
+  await supabase.storage.from(CERT_BUCKET).remove([path]);
+}
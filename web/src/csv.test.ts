@@ -0,0 +1,26 @@
+// csv.test.ts — quoting, and cells a spreadsheet would otherwise run as formulas
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseCsv, toCsv } from "./csv";
+
+test("commas, quotes and line breaks are quoted", () => {
+  assert.equal(toCsv([["a,b", 'say "hi"', "two\nlines", null, 3]]), '"a,b","say ""hi""","two\nlines",,3\n');
+});
+
+test("text starting like a formula is prefixed with '", () => {
+  const row = ["=HYPERLINK(\"http://x\")", "+1 555 0100", "-2+3", "@SUM(A1)", "\tcmd", "\rcmd", "plain"];
+  assert.equal(
+    toCsv([row]),
+    `"'=HYPERLINK(""http://x"")",'+1 555 0100,'-2+3,'@SUM(A1),'\tcmd,"'\rcmd",plain\n`
+  );
+});
+
+test("numbers are left as numbers", () => {
+  assert.equal(toCsv([[-12.5, 0]]), "-12.5,0\n");
+});
+
+test("an exported row parses back to what went out", () => {
+  const row = ["=1+1", "+1 555 0100", "'quoted already", "-", "Reef, north"];
+  assert.deepEqual(parseCsv(toCsv([row])), [row]);
+});
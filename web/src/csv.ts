@@ -0,0 +1,69 @@
+// csv.ts — CSV in and out, for the payroll export and the jobs import/export.
+// RFC 4180: comma-separated, fields with commas, quotes or line breaks in double quotes.
+// Text a spreadsheet would run as a formula (=, +, -, @, tab, CR first) goes out with a
+// leading ', which parseCsv takes off again so an exported file imports unchanged.
+
+const FORMULA = /^[=+\-@\t\r]/;
+
+function cell(v: unknown): string {
+  let s = v == null ? "" : String(v);
+  if (typeof v === "string" && FORMULA.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((r) => r.map(cell).join(",")).join("\n") + "\n";
+}
+
+// Rows of raw cells. Blank lines are dropped; a UTF-8 BOM (Excel) is ignored.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const s = text.replace(/^\uFEFF/, "");
+
+  const unescape = (f: string) => (f[0] === "'" && FORMULA.test(f.slice(1)) ? f.slice(1) : f);
+
+  const endRow = () => {
+    row.push(unescape(field));
+    if (row.some((c) => c.trim())) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (quoted) {
+      if (ch === '"' && s[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && !field) {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(unescape(field));
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && s[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) endRow();
+  return rows;
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
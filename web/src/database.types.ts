@@ -0,0 +1,1874 @@
+// database.types.ts — generated from supabase/migrations by `npm run gen:types` in supabase/.
+// Don't edit by hand: change the schema, then regenerate.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+export type Database = {
+  __InternalSupabase: {
+    PostgrestVersion: "12"
+  }
+  public: {
+    Tables: {
+      app_settings: {
+        Row: {
+          default_trip_length: string
+          id: boolean
+          require_dive_log: boolean
+          standby_offer_window: string
+          time_zone: string
+          unclaim_cutoff: string
+          updated_at: string | null
+        }
+        Insert: {
+          default_trip_length?: string
+          id?: boolean
+          require_dive_log?: boolean
+          standby_offer_window?: string
+          time_zone?: string
+          unclaim_cutoff?: string
+          updated_at?: string | null
+        }
+        Update: {
+          default_trip_length?: string
+          id?: boolean
+          require_dive_log?: boolean
+          standby_offer_window?: string
+          time_zone?: string
+          unclaim_cutoff?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      boats: {
+        Row: {
+          capacity: number | null
+          created_at: string | null
+          guides_needed: number
+          home_port: string | null
+          id: string
+          is_active: boolean
+          name: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string | null
+          guides_needed?: number
+          home_port?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string | null
+          guides_needed?: number
+          home_port?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      booking_challenges: {
+        Row: {
+          answer: number
+          client_ip: string | null
+          created_at: string
+          id: string
+        }
+        Insert: {
+          answer: number
+          client_ip?: string | null
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          answer?: number
+          client_ip?: string | null
+          created_at?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      booking_requests: {
+        Row: {
+          client_ip: string | null
+          created_at: string
+          customer_email: string | null
+          customer_name: string
+          customer_phone: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decline_reason: string | null
+          dive_type: string
+          id: string
+          job_id: string | null
+          message: string | null
+          party_size: number
+          preferred_date: string
+          status: string
+          token: string
+        }
+        Insert: {
+          client_ip?: string | null
+          created_at?: string
+          customer_email?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decline_reason?: string | null
+          dive_type: string
+          id?: string
+          job_id?: string | null
+          message?: string | null
+          party_size: number
+          preferred_date: string
+          status?: string
+          token?: string
+        }
+        Update: {
+          client_ip?: string | null
+          created_at?: string
+          customer_email?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decline_reason?: string | null
+          dive_type?: string
+          id?: string
+          job_id?: string | null
+          message?: string | null
+          party_size?: number
+          preferred_date?: string
+          status?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_requests_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          guide_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          guide_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          guide_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claims: {
+        Row: {
+          availability_override: Json | null
+          created_at: string | null
+          guide_id: string
+          id: string
+          job_id: string
+          schedule_override: Json | null
+        }
+        Insert: {
+          availability_override?: Json | null
+          created_at?: string | null
+          guide_id: string
+          id?: string
+          job_id: string
+          schedule_override?: Json | null
+        }
+        Update: {
+          availability_override?: Json | null
+          created_at?: string | null
+          guide_id?: string
+          id?: string
+          job_id?: string
+          schedule_override?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claims_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claims_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dive_logs: {
+        Row: {
+          bottom_time_min: number
+          diver_count: number
+          gas: string
+          had_incident: boolean
+          job_id: string
+          logged_at: string
+          logged_by: string | null
+          max_depth_m: number
+        }
+        Insert: {
+          bottom_time_min: number
+          diver_count: number
+          gas: string
+          had_incident?: boolean
+          job_id: string
+          logged_at?: string
+          logged_by?: string | null
+          max_depth_m: number
+        }
+        Update: {
+          bottom_time_min?: number
+          diver_count?: number
+          gas?: string
+          had_incident?: boolean
+          job_id?: string
+          logged_at?: string
+          logged_by?: string | null
+          max_depth_m?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dive_logs_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dive_logs_logged_by_fkey"
+            columns: ["logged_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drop_requests: {
+        Row: {
+          decided_at: string | null
+          decided_by: string | null
+          guide_id: string
+          id: number
+          job_id: string
+          note: string | null
+          requested_at: string
+          status: string
+        }
+        Insert: {
+          decided_at?: string | null
+          decided_by?: string | null
+          guide_id: string
+          id?: number
+          job_id: string
+          note?: string | null
+          requested_at?: string
+          status?: string
+        }
+        Update: {
+          decided_at?: string | null
+          decided_by?: string | null
+          guide_id?: string
+          id?: number
+          job_id?: string
+          note?: string | null
+          requested_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drop_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drop_requests_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "drop_requests_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guide_availability: {
+        Row: {
+          ends_at: string | null
+          guide_id: string
+          starts_at: string | null
+          weekday: number
+        }
+        Insert: {
+          ends_at?: string | null
+          guide_id: string
+          starts_at?: string | null
+          weekday: number
+        }
+        Update: {
+          ends_at?: string | null
+          guide_id?: string
+          starts_at?: string | null
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guide_availability_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guide_blackouts: {
+        Row: {
+          created_at: string
+          ends_on: string
+          guide_id: string
+          id: number
+          note: string | null
+          starts_on: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          guide_id: string
+          id?: number
+          note?: string | null
+          starts_on: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          guide_id?: string
+          id?: number
+          note?: string | null
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guide_blackouts_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guide_certs: {
+        Row: {
+          card_path: string | null
+          cert: string
+          created_at: string | null
+          expires_on: string | null
+          guide_id: string
+          id: string
+          verified_at: string | null
+          verified_by: string | null
+        }
+        Insert: {
+          card_path?: string | null
+          cert: string
+          created_at?: string | null
+          expires_on?: string | null
+          guide_id: string
+          id?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Update: {
+          card_path?: string | null
+          cert?: string
+          created_at?: string | null
+          expires_on?: string | null
+          guide_id?: string
+          id?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guide_certs_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guide_certs_verified_by_fkey"
+            columns: ["verified_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incidents: {
+        Row: {
+          actions_taken: string
+          description: string | null
+          id: number
+          job_id: string | null
+          kind: string
+          people_involved: string
+          reported_at: string
+          reported_by: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          severity: string
+          status: string
+        }
+        Insert: {
+          actions_taken: string
+          description?: string | null
+          id?: number
+          job_id?: string | null
+          kind: string
+          people_involved: string
+          reported_at?: string
+          reported_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          severity: string
+          status?: string
+        }
+        Update: {
+          actions_taken?: string
+          description?: string | null
+          id?: number
+          job_id?: string | null
+          kind?: string
+          people_involved?: string
+          reported_at?: string
+          reported_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          severity?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incidents_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_reported_by_fkey"
+            columns: ["reported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_contacts: {
+        Row: {
+          created_at: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_phone: string | null
+          job_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          customer_email?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          job_id: string
+        }
+        Update: {
+          created_at?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          job_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_contacts_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_events: {
+        Row: {
+          action: string
+          actor: string | null
+          created_at: string
+          details: Json | null
+          id: number
+          job_id: string
+          new_claimed_by: string | null
+          new_status: Database["public"]["Enums"]["job_status"] | null
+          old_claimed_by: string | null
+          old_status: Database["public"]["Enums"]["job_status"] | null
+        }
+        Insert: {
+          action: string
+          actor?: string | null
+          created_at?: string
+          details?: Json | null
+          id?: number
+          job_id: string
+          new_claimed_by?: string | null
+          new_status?: Database["public"]["Enums"]["job_status"] | null
+          old_claimed_by?: string | null
+          old_status?: Database["public"]["Enums"]["job_status"] | null
+        }
+        Update: {
+          action?: string
+          actor?: string | null
+          created_at?: string
+          details?: Json | null
+          id?: number
+          job_id?: string
+          new_claimed_by?: string | null
+          new_status?: Database["public"]["Enums"]["job_status"] | null
+          old_claimed_by?: string | null
+          old_status?: Database["public"]["Enums"]["job_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_events_actor_fkey"
+            columns: ["actor"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_events_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_message_reads: {
+        Row: {
+          job_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          job_id: string
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          job_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_message_reads_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_message_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_messages: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: number
+          job_id: string
+        }
+        Insert: {
+          author_id?: string
+          body: string
+          created_at?: string
+          id?: number
+          job_id: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: number
+          job_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_messages_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_messages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_reports: {
+        Row: {
+          conditions: string | null
+          created_at: string
+          customer_no_show: boolean
+          dive_sites: string[]
+          guide_id: string
+          job_id: string
+          updated_at: string
+        }
+        Insert: {
+          conditions?: string | null
+          created_at?: string
+          customer_no_show?: boolean
+          dive_sites?: string[]
+          guide_id: string
+          job_id: string
+          updated_at?: string
+        }
+        Update: {
+          conditions?: string | null
+          created_at?: string
+          customer_no_show?: boolean
+          dive_sites?: string[]
+          guide_id?: string
+          job_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_reports_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_reports_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_series: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          ends_on: string
+          id: string
+          starts_on: string
+          template_id: string | null
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          ends_on: string
+          id?: string
+          starts_on: string
+          template_id?: string | null
+          weekdays: number[]
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          ends_on?: string
+          id?: string
+          starts_on?: string
+          template_id?: string | null
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_series_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_series_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "job_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_standby: {
+        Row: {
+          created_at: string
+          guide_id: string
+          job_id: string
+          offer_expires_at: string | null
+          position: number
+        }
+        Insert: {
+          created_at?: string
+          guide_id: string
+          job_id: string
+          offer_expires_at?: string | null
+          position: number
+        }
+        Update: {
+          created_at?: string
+          guide_id?: string
+          job_id?: string
+          offer_expires_at?: string | null
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_standby_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_standby_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["job_status"]
+          to_status: Database["public"]["Enums"]["job_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["job_status"]
+          to_status: Database["public"]["Enums"]["job_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["job_status"]
+          to_status?: Database["public"]["Enums"]["job_status"]
+        }
+        Relationships: []
+      }
+      job_templates: {
+        Row: {
+          boat: string | null
+          boat_id: string | null
+          call_time: string
+          created_at: string | null
+          created_by: string | null
+          customer_email: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          dock_time: string | null
+          id: string
+          location: string | null
+          name: string
+          notes: string | null
+          pay: number | null
+          requirements: string[] | null
+          slots: number
+          title: string
+        }
+        Insert: {
+          boat?: string | null
+          boat_id?: string | null
+          call_time: string
+          created_at?: string | null
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          dock_time?: string | null
+          id?: string
+          location?: string | null
+          name: string
+          notes?: string | null
+          pay?: number | null
+          requirements?: string[] | null
+          slots?: number
+          title: string
+        }
+        Update: {
+          boat?: string | null
+          boat_id?: string | null
+          call_time?: string
+          created_at?: string | null
+          created_by?: string | null
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          dock_time?: string | null
+          id?: string
+          location?: string | null
+          name?: string
+          notes?: string | null
+          pay?: number | null
+          requirements?: string[] | null
+          slots?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_templates_boat_id_fkey"
+            columns: ["boat_id"]
+            isOneToOne: false
+            referencedRelation: "boats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          boat: string | null
+          boat_id: string | null
+          call_time: string
+          claimed_at: string | null
+          claimed_by: string | null
+          created_at: string | null
+          created_by: string
+          date: string
+          dock_time: string | null
+          id: string
+          job_summary: string | null
+          location: string | null
+          my_unavailability: Json | null
+          notes: string | null
+          pay: number | null
+          requirements: string[] | null
+          search: unknown | null
+          series_id: string | null
+          slots: number
+          status: Database["public"]["Enums"]["job_status"]
+          title: string
+          unclaim_deadline: string | null
+          unread_messages: number | null
+        }
+        Insert: {
+          boat?: string | null
+          boat_id?: string | null
+          call_time: string
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string | null
+          created_by: string
+          date: string
+          dock_time?: string | null
+          id?: string
+          location?: string | null
+          notes?: string | null
+          pay?: number | null
+          requirements?: string[] | null
+          search?: never
+          series_id?: string | null
+          slots?: number
+          status?: Database["public"]["Enums"]["job_status"]
+          title: string
+        }
+        Update: {
+          boat?: string | null
+          boat_id?: string | null
+          call_time?: string
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string | null
+          created_by?: string
+          date?: string
+          dock_time?: string | null
+          id?: string
+          location?: string | null
+          notes?: string | null
+          pay?: number | null
+          requirements?: string[] | null
+          search?: never
+          series_id?: string | null
+          slots?: number
+          status?: Database["public"]["Enums"]["job_status"]
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_boat_id_fkey"
+            columns: ["boat_id"]
+            isOneToOne: false
+            referencedRelation: "boats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_claimed_by_fkey"
+            columns: ["claimed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "job_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_prefs: {
+        Row: {
+          email: boolean
+          guide_id: string
+          phone: string | null
+          push: boolean
+          sms: boolean
+          updated_at: string
+        }
+        Insert: {
+          email?: boolean
+          guide_id: string
+          phone?: string | null
+          push?: boolean
+          sms?: boolean
+          updated_at?: string
+        }
+        Update: {
+          email?: boolean
+          guide_id?: string
+          phone?: string | null
+          push?: boolean
+          sms?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_prefs_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          attempts: number
+          body: string
+          channel: string
+          created_at: string
+          guide_id: string
+          id: number
+          job_id: string | null
+          kind: string
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          status: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          body: string
+          channel: string
+          created_at?: string
+          guide_id: string
+          id?: number
+          job_id?: string | null
+          kind: string
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          body?: string
+          channel?: string
+          created_at?: string
+          guide_id?: string
+          id?: number
+          job_id?: string | null
+          kind?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pay_entries: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          guide_id: string
+          id: number
+          job_id: string | null
+          kind: string
+          note: string | null
+          period_id: string | null
+          work_date: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          guide_id: string
+          id?: number
+          job_id?: string | null
+          kind: string
+          note?: string | null
+          period_id?: string | null
+          work_date: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          guide_id?: string
+          id?: number
+          job_id?: string | null
+          kind?: string
+          note?: string | null
+          period_id?: string | null
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pay_entries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pay_entries_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pay_entries_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pay_entries_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "pay_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pay_periods: {
+        Row: {
+          ends_on: string
+          id: string
+          paid_at: string
+          paid_by: string | null
+          starts_on: string
+        }
+        Insert: {
+          ends_on: string
+          id?: string
+          paid_at?: string
+          paid_by?: string | null
+          starts_on: string
+        }
+        Update: {
+          ends_on?: string
+          id?: string
+          paid_at?: string
+          paid_by?: string | null
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pay_periods_paid_by_fkey"
+            columns: ["paid_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          full_name: string | null
+          invited_by: string | null
+          role: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          full_name?: string | null
+          invited_by?: string | null
+          role?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          invited_by?: string | null
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          certs: string[] | null
+          created_at: string | null
+          full_name: string | null
+          id: string
+          is_active: boolean
+          role: string | null
+        }
+        Insert: {
+          certs?: string[] | null
+          created_at?: string | null
+          full_name?: string | null
+          id: string
+          is_active?: boolean
+          role?: string | null
+        }
+        Update: {
+          certs?: string[] | null
+          created_at?: string | null
+          full_name?: string | null
+          id?: string
+          is_active?: boolean
+          role?: string | null
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          guide_id: string
+          id: number
+          p256dh: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          guide_id: string
+          id?: number
+          p256dh: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          guide_id?: string
+          id?: number
+          p256dh?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_guide_id_fkey"
+            columns: ["guide_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: { [_ in never]: never }
+    Functions: {
+      advance_standby: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: undefined
+      }
+      approve_booking_request: {
+        Args: {
+          p_id: string
+          p_title: string
+          p_date: string
+          p_call_time: string
+          p_dock_time?: string
+          p_location?: string
+          p_boat_id?: string
+          p_pay?: number
+          p_slots?: number
+          p_requirements?: string[]
+          p_notes?: string
+        }
+        Returns: Json
+      }
+      assign_job: {
+        Args: {
+          p_job_id: string
+          p_guide_id: string
+        }
+        Returns: boolean
+      }
+      assign_job_v2: {
+        Args: {
+          p_job_id: string
+          p_guide_id: string
+          p_override?: boolean
+        }
+        Returns: Json
+      }
+      boat_conflicts: {
+        Args: {
+          p_boat_id: string
+          p_date: string
+          p_call: string
+          p_dock: string
+          p_job_id?: string
+        }
+        Returns: Json
+      }
+      booking_challenge: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      booking_request_status: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+      calendar_feed_token: {
+        Args: {
+          p_rotate?: boolean
+        }
+        Returns: string
+      }
+      cancel_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: boolean
+      }
+      cancel_job_v2: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Json
+      }
+      cancel_series_jobs: {
+        Args: {
+          p_job_id: string
+          p_scope: string
+        }
+        Returns: Json
+      }
+      claim_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: boolean
+      }
+      claim_job_v2: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Json
+      }
+      clear_standby: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Json
+      }
+      complete_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: boolean
+      }
+      complete_job_v2:
+        | {
+            Args: {
+              p_job_id: string
+            }
+            Returns: Json
+          }
+        | {
+            Args: {
+              p_job_id: string
+              p_dive_log: Json
+              p_incident?: Json
+            }
+            Returns: Json
+          }
+      create_job: {
+        Args: {
+          p_job: Json
+        }
+        Returns: Json
+      }
+      crew_status: {
+        Args: {
+          p_status: Database["public"]["Enums"]["job_status"]
+          p_filled: number
+          p_slots: number
+        }
+        Returns: Database["public"]["Enums"]["job_status"]
+      }
+      decide_drop: {
+        Args: {
+          p_request_id: number
+          p_approve: boolean
+        }
+        Returns: Json
+      }
+      decline_booking_request: {
+        Args: {
+          p_id: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      enqueue_job_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      enqueue_notification: {
+        Args: {
+          p_guide_id: string
+          p_kind: string
+          p_job_id: string
+          p_subject: string
+          p_body: string
+        }
+        Returns: undefined
+      }
+      expire_standby_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      fill_job_slot: {
+        Args: {
+          p_job_id: string
+          p_guide_id: string
+          p_override?: boolean
+        }
+        Returns: Json
+      }
+      generate_series_jobs: {
+        Args: {
+          p_template_id: string
+          p_weekdays: number[]
+          p_starts_on: string
+          p_ends_on: string
+        }
+        Returns: Json
+      }
+      guide_missing_certs: {
+        Args: {
+          p_guide_id: string
+          p_job_id: string
+        }
+        Returns: string[]
+      }
+      guide_schedule_conflicts: {
+        Args: {
+          p_guide_id: string
+          p_job_id: string
+        }
+        Returns: Json
+      }
+      guide_unavailability: {
+        Args: {
+          p_guide_id: string
+          p_job_id: string
+        }
+        Returns: Json
+      }
+      ical_feed: {
+        Args: {
+          p_token: string
+        }
+        Returns: unknown
+      }
+      ical_fold: {
+        Args: {
+          p_line: string
+        }
+        Returns: string
+      }
+      ical_text: {
+        Args: {
+          p_value: string
+        }
+        Returns: string
+      }
+      ical_utc: {
+        Args: {
+          p_local: string
+          p_time_zone: string
+        }
+        Returns: string
+      }
+      import_duplicate: {
+        Args: {
+          p_row: Json
+        }
+        Returns: string
+      }
+      import_jobs: {
+        Args: {
+          p_rows: Json
+        }
+        Returns: Json
+      }
+      invite_user: {
+        Args: {
+          p_email: string
+          p_full_name?: string
+          p_role?: string
+        }
+        Returns: Json
+      }
+      is_active_user: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_on_job:
+        | {
+            Args: {
+              p_job_id: string
+            }
+            Returns: boolean
+          }
+        | {
+            Args: {
+              p_job_id: string
+              p_guide_id: string
+            }
+            Returns: boolean
+          }
+      job_guides: {
+        Args: {
+          p_job_ids: string[]
+        }
+        Returns: {
+          job_id: string
+          guide_id: string
+          full_name: string
+          claimed_at: string
+        }[]
+      }
+      job_next_statuses: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Database["public"]["Enums"]["job_status"][]
+      }
+      job_result: {
+        Args: {
+          p_ok: boolean
+          p_reason: string
+          p_job_id: string
+          p_extra?: Json
+        }
+        Returns: Json
+      }
+      job_summary: {
+        Args: {
+          "": Database["public"]["Tables"]["jobs"]["Row"]
+        }
+        Returns: string
+      }
+      job_taken_slots: {
+        Args: {
+          p_job_id: string
+          p_except?: string
+        }
+        Returns: number
+      }
+      job_thread: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: {
+          id: number
+          author_id: string
+          author_name: string
+          author_is_admin: boolean
+          body: string
+          created_at: string
+        }[]
+      }
+      job_transition_allowed: {
+        Args: {
+          p_from: Database["public"]["Enums"]["job_status"]
+          p_to: Database["public"]["Enums"]["job_status"]
+        }
+        Returns: boolean
+      }
+      job_window: {
+        Args: {
+          p_date: string
+          p_call: string
+          p_dock: string
+        }
+        Returns: unknown
+      }
+      join_standby: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Json
+      }
+      leave_standby: {
+        Args: {
+          p_job_id: string
+          p_guide_id?: string
+        }
+        Returns: Json
+      }
+      list_users: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          full_name: string
+          email: string
+          role: string
+          is_active: boolean
+          created_at: string
+          last_sign_in_at: string
+          upcoming_jobs: number
+        }[]
+      }
+      mark_job_messages_read: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: undefined
+      }
+      mark_period_paid: {
+        Args: {
+          p_starts_on: string
+          p_ends_on: string
+        }
+        Returns: Json
+      }
+      my_unavailability: {
+        Args: {
+          "": Database["public"]["Tables"]["jobs"]["Row"]
+        }
+        Returns: Json
+      }
+      next_notifications: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database["public"]["Tables"]["notifications"]["Row"][]
+      }
+      preview_job_import: {
+        Args: {
+          p_rows: Json
+        }
+        Returns: {
+          idx: number
+          existing_job_id: string
+        }[]
+      }
+      preview_series_jobs: {
+        Args: {
+          p_template_id: string
+          p_weekdays: number[]
+          p_starts_on: string
+          p_ends_on: string
+        }
+        Returns: {
+          date: string
+          title: string
+          call_time: string
+          existing_job_id: string
+        }[]
+      }
+      rank_guides: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: {
+          guide_id: string
+          full_name: string
+          unavailable: Json
+          missing: string[]
+          conflicts: Json
+          jobs_that_day: number
+          jobs_that_week: number
+        }[]
+      }
+      renumber_standby: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: undefined
+      }
+      reorder_standby: {
+        Args: {
+          p_job_id: string
+          p_guide_ids: string[]
+        }
+        Returns: Json
+      }
+      request_drop: {
+        Args: {
+          p_job_id: string
+          p_note?: string
+        }
+        Returns: Json
+      }
+      request_ip: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      review_incident: {
+        Args: {
+          p_incident_id: number
+          p_status: string
+          p_notes: string
+        }
+        Returns: Json
+      }
+      save_job_report: {
+        Args: {
+          p_job_id: string
+          p_dive_sites: string[]
+          p_conditions: string
+          p_customer_no_show: boolean
+        }
+        Returns: Json
+      }
+      series_dates: {
+        Args: {
+          p_weekdays: number[]
+          p_starts_on: string
+          p_ends_on: string
+        }
+        Returns: string[]
+      }
+      series_scope_jobs: {
+        Args: {
+          p_job_id: string
+          p_scope: string
+        }
+        Returns: string[]
+      }
+      set_job_status: {
+        Args: {
+          p_job_id: string
+          p_status: Database["public"]["Enums"]["job_status"]
+        }
+        Returns: Json
+      }
+      set_user_active: {
+        Args: {
+          p_user_id: string
+          p_active: boolean
+          p_release_jobs?: boolean
+        }
+        Returns: Json
+      }
+      set_user_role: {
+        Args: {
+          p_user_id: string
+          p_role: string
+        }
+        Returns: Json
+      }
+      submit_booking_request: {
+        Args: {
+          p_challenge_id: string
+          p_answer: number
+          p_customer_name: string
+          p_customer_phone: string
+          p_customer_email: string
+          p_party_size: number
+          p_preferred_date: string
+          p_dive_type: string
+          p_message?: string
+        }
+        Returns: Json
+      }
+      sync_job_crew: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: undefined
+      }
+      unclaim_deadline: {
+        Args: {
+          "": Database["public"]["Tables"]["jobs"]["Row"]
+        }
+        Returns: string
+      }
+      unclaim_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: boolean
+      }
+      unclaim_job_v2: {
+        Args: {
+          p_job_id: string
+          p_guide_id?: string
+        }
+        Returns: Json
+      }
+      unread_messages: {
+        Args: {
+          "": Database["public"]["Tables"]["jobs"]["Row"]
+        }
+        Returns: number
+      }
+      withdraw_drop: {
+        Args: {
+          p_request_id: number
+        }
+        Returns: Json
+      }
+    }
+    Enums: {
+      job_status: "open" | "assigned" | "complete" | "canceled"
+    }
+    CompositeTypes: { [_ in never]: never }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
+
+export const Constants = {
+  public: {
+    Enums: {
+      job_status: ["open", "assigned", "complete", "canceled"],
+    },
+  },
+} as const
@@ -0,0 +1,79 @@
+// diveLogs.ts — the dive log filed with "Mark complete" (supabase/migrations/0023_dive_logs.sql):
+// max depth, bottom time, gas and divers. complete_job_v2 takes it, with an incident
+// report when the log says something happened, and checks both; admins can make the
+// log required in Settings.
+
+import { supabase } from "./supabase";
+import type { DiveLog } from "./types";
+import type { IncidentDraft } from "./incidents";
+
+export type Gas = "air" | "nitrox" | "trimix" | "rebreather";
+
+export const GAS_LABELS: Record<Gas, string> = {
+  air: "Air",
+  nitrox: "Nitrox",
+  trimix: "Trimix",
+  rebreather: "Rebreather",
+};
+
+// Form state: numbers as typed
+export type DiveLogDraft = {
+  max_depth_m: string;
+  bottom_time_min: string;
+  gas: Gas;
+  diver_count: string;
+  had_incident: boolean;
+};
+
+// What complete_job_v2 takes as p_dive_log
+export type DiveLogPayload = {
+  max_depth_m: number;
+  bottom_time_min: number;
+  gas: Gas;
+  diver_count: number;
+  had_incident: boolean;
+};
+
+export function emptyDiveLog(): DiveLogDraft {
+  return { max_depth_m: "", bottom_time_min: "", gas: "air", diver_count: "", had_incident: false };
+}
+
+// Same limits as the table; returns an error message or the payload
+export function diveLogPayload(d: DiveLogDraft): DiveLogPayload | string {
+  const depth = Number(d.max_depth_m);
+  const time = Number(d.bottom_time_min);
+  const divers = Number(d.diver_count);
+  if (!d.max_depth_m.trim() || !Number.isFinite(depth) || depth <= 0 || depth > 150) {
+    return "Max depth must be between 0 and 150 m.";
+  }
+  if (!d.bottom_time_min.trim() || !Number.isInteger(time) || time < 1 || time > 600) {
+    return "Bottom time must be a whole number of minutes, 1 to 600.";
+  }
+  if (!d.diver_count.trim() || !Number.isInteger(divers) || divers < 0 || divers > 200) {
+    return "Number of divers must be a whole number, 0 to 200.";
+  }
+  return { max_depth_m: depth, bottom_time_min: time, gas: d.gas, diver_count: divers, had_incident: d.had_incident };
+}
+
+// What "Mark complete" sends along; both null = complete without a log
+export type Completion = {
+  log: DiveLogPayload | null;
+  incident: IncidentDraft | null;
+};
+
+// null when none was filed, or the caller can't see it (not admin, not on the crew)
+export async function loadDiveLog(jobId: string): Promise<DiveLog | null> {
+  const { data, error } = await supabase.from("dive_logs").select("*").eq("job_id", jobId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// "18.5 m · 42 min · Nitrox · 6 divers"
+export function describeDiveLog(l: Pick<DiveLog, "max_depth_m" | "bottom_time_min" | "gas" | "diver_count">): string {
+  return [
+    `${l.max_depth_m} m`,
+    `${l.bottom_time_min} min`,
+    GAS_LABELS[l.gas as Gas] || l.gas,
+    `${l.diver_count} diver${l.diver_count === 1 ? "" : "s"}`,
+  ].join(" · ");
+}
@@ -0,0 +1,52 @@
+// drops.ts — unclaim cutoff and drop requests (public.drop_requests); writes go through jobRpc
+
+import { supabase } from "./supabase";
+import type { DropRequest, Job } from "./types";
+
+const DROP_COLUMNS = "id,job_id,guide_id,note,status,requested_at,decided_at,decided_by";
+
+// A guide's pending requests, by job
+export async function loadMyDropRequests(guideId: string): Promise<Record<string, DropRequest>> {
+  const { data, error } = await supabase
+    .from("drop_requests")
+    .select(DROP_COLUMNS)
+    .eq("guide_id", guideId)
+    .eq("status", "pending");
+  if (error) throw error;
+  return Object.fromEntries(((data as DropRequest[]) || []).map((r) => [r.job_id, r]));
+}
+
+// Admin: requests with their job and guide, newest first
+export async function loadDropRequests(status: DropRequest["status"] | "" = "pending"): Promise<DropRequest[]> {
+  let q = supabase
+    .from("drop_requests")
+    .select(`${DROP_COLUMNS}, jobs(id,title,date,call_time,location,pay,status,claimed_by,slots), profiles!drop_requests_guide_id_fkey(full_name)`)
+    .order("requested_at", { ascending: false })
+    .limit(200);
+  if (status) q = q.eq("status", status);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data as unknown as DropRequest[]) || [];
+}
+
+// Late drops = approved drop requests, per guide (admins see everyone, guides themselves)
+export async function loadLateDropCounts(guideIds: string[]): Promise<Record<string, number>> {
+  if (!guideIds.length) return {};
+  const { data, error } = await supabase
+    .from("drop_requests")
+    .select("guide_id")
+    .eq("status", "approved")
+    .in("guide_id", guideIds);
+  if (error) throw error;
+  const counts: Record<string, number> = {};
+  for (const r of (data as { guide_id: string }[]) || []) counts[r.guide_id] = (counts[r.guide_id] || 0) + 1;
+  return counts;
+}
+
+export function pastCutoff(job: Job): boolean {
+  return !!job.unclaim_deadline && new Date(job.unclaim_deadline).getTime() <= Date.now();
+}
+
+export function formatDeadline(iso: string): string {
+  return new Date(iso).toLocaleString([], { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
@@ -0,0 +1,128 @@
+// incidents.ts — incident reports (supabase/migrations/0023_dive_logs.sql). Filed with
+// "Mark complete" by whoever completes the job; only admins read them, move them
+// through review (open -> in_review -> closed) and export them for the insurer.
+
+import { supabase } from "./supabase";
+import type { DiveLog, Incident, IncidentKind, IncidentSeverity, IncidentStatus } from "./types";
+import { toCsv } from "./csv";
+import { GAS_LABELS, type Gas } from "./diveLogs";
+
+export const INCIDENT_KINDS: Record<IncidentKind, string> = {
+  injury: "Injury",
+  dci_suspected: "Suspected DCI",
+  equipment_failure: "Equipment failure",
+  out_of_air: "Out of air",
+  lost_diver: "Lost / separated diver",
+  near_miss: "Near miss",
+  other: "Other",
+};
+
+export const SEVERITIES: Record<IncidentSeverity, string> = {
+  minor: "Minor",
+  moderate: "Moderate",
+  serious: "Serious",
+  critical: "Critical",
+};
+
+export const REVIEW_STATUSES: Record<IncidentStatus, string> = {
+  open: "Open",
+  in_review: "In review",
+  closed: "Closed",
+};
+
+// The report form, and what complete_job_v2 takes as p_incident
+export type IncidentDraft = {
+  kind: IncidentKind;
+  severity: IncidentSeverity;
+  people_involved: string;
+  actions_taken: string;
+  description: string;
+};
+
+export function emptyIncident(): IncidentDraft {
+  return { kind: "near_miss", severity: "minor", people_involved: "", actions_taken: "", description: "" };
+}
+
+export function incidentError(d: IncidentDraft): string | null {
+  if (!d.people_involved.trim()) return "Say who was involved.";
+  if (!d.actions_taken.trim()) return "Say what was done about it.";
+  return null;
+}
+
+// With the job, its dive log and the names of who reported and reviewed it
+export type IncidentRow = Incident & {
+  jobs: {
+    title: string;
+    date: string;
+    location: string | null;
+    dive_logs: Pick<DiveLog, "max_depth_m" | "bottom_time_min" | "gas" | "diver_count"> | null;
+  } | null;
+  reporter: { full_name: string | null } | null;
+  reviewer: { full_name: string | null } | null;
+};
+
+export type IncidentFilters = {
+  status: IncidentStatus | "";   // "" = any
+  from: string;                  // reported on or after (YYYY-MM-DD, local)
+  to: string;                    // reported on or before
+};
+
+// Newest first
+export async function loadIncidents(f: IncidentFilters): Promise<IncidentRow[]> {
+  let q = supabase
+    .from("incidents")
+    .select(`*,
+      jobs(title, date, location, dive_logs(max_depth_m, bottom_time_min, gas, diver_count)),
+      reporter:profiles!incidents_reported_by_fkey(full_name),
+      reviewer:profiles!incidents_reviewed_by_fkey(full_name)`)
+    .order("reported_at", { ascending: false });
+  if (f.status) q = q.eq("status", f.status);
+  if (f.from) q = q.gte("reported_at", new Date(`${f.from}T00:00`).toISOString());
+  if (f.to) q = q.lt("reported_at", new Date(new Date(`${f.to}T00:00`).getTime() + 86_400_000).toISOString());
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data as unknown as IncidentRow[]) || [];
+}
+
+export type ReviewResult = {
+  ok: boolean;
+  reason: "forbidden" | "not_found" | "invalid_status" | null;
+};
+
+// Blank notes keep the ones already there
+export async function reviewIncident(id: number, status: IncidentStatus, notes: string): Promise<ReviewResult> {
+  const { data, error } = await supabase.rpc("review_incident", { p_incident_id: id, p_status: status, p_notes: notes });
+  if (error) throw error;
+  return data as unknown as ReviewResult;
+}
+
+export function reviewMessage(r: ReviewResult): string {
+  switch (r.reason) {
+    case "forbidden": return "Only admins can review incidents.";
+    case "not_found": return "This incident no longer exists.";
+    case "invalid_status": return "Pick open, in review or closed.";
+    default: return "Couldn't save the review.";
+  }
+}
+
+// One row per incident, with the trip and its dive log, for the insurer
+export function incidentsCsv(rows: IncidentRow[]): string {
+  return toCsv([
+    [
+      "id", "reported_at", "reported_by", "job", "job_date", "location",
+      "kind", "severity", "people_involved", "actions_taken", "description",
+      "max_depth_m", "bottom_time_min", "gas", "divers",
+      "status", "reviewed_by", "reviewed_at", "review_notes",
+    ],
+    ...rows.map((r) => {
+      const log = r.jobs?.dive_logs;
+      return [
+        r.id, r.reported_at, r.reporter?.full_name, r.jobs?.title ?? "(job deleted)", r.jobs?.date, r.jobs?.location,
+        INCIDENT_KINDS[r.kind as IncidentKind] || r.kind, SEVERITIES[r.severity as IncidentSeverity] || r.severity,
+        r.people_involved, r.actions_taken, r.description,
+        log?.max_depth_m, log?.bottom_time_min, log ? GAS_LABELS[log.gas as Gas] || log.gas : null, log?.diver_count,
+        REVIEW_STATUSES[r.status as IncidentStatus] || r.status, r.reviewer?.full_name, r.reviewed_at, r.review_notes,
+      ];
+    }),
+  ]);
+}
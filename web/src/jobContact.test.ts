@@ -0,0 +1,24 @@
+// jobContact.test.ts — what saving the job form does to the job's contact
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { contactChange } from "./jobContact";
+
+const blank = { customer_name: "", customer_phone: "", customer_email: "" };
+
+test("a form without a customer saves no contact", () => {
+  assert.deepEqual(contactChange(blank), { kind: "clear" });
+  assert.deepEqual(contactChange({ ...blank, customer_name: "  " }), { kind: "clear" });
+});
+
+test("a customer name saves the contact, blank phone and email as null", () => {
+  assert.deepEqual(contactChange({ ...blank, customer_name: " Pat Diver ", customer_phone: "555-0100" }), {
+    kind: "save",
+    contact: { customer_name: "Pat Diver", customer_phone: "555-0100", customer_email: null },
+  });
+});
+
+test("a phone or email without a name is refused before anything is written", () => {
+  assert.throws(() => contactChange({ ...blank, customer_email: "pat@example.com" }), /customer's name/);
+  assert.throws(() => contactChange({ ...blank, customer_phone: "555-0100" }), /customer's name/);
+});
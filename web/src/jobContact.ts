@@ -0,0 +1,23 @@
+// jobContact.ts — what saving the job form does to the job's job_contacts row, kept apart
+// from supabase so it can be tested. Not every job has a contact (series without a
+// customer, imported rows without one), and customer_name is required when there is.
+
+import type { JobContact } from "./types";
+import type { JobDraft } from "./jobs";
+
+export type ContactChange =
+  | { kind: "save"; contact: JobContact }
+  | { kind: "clear" };
+
+// Blank name, phone and email = no contact. Throws when there's a phone or email but no
+// name, so callers can check before they write anything.
+export function contactChange(d: Pick<JobDraft, "customer_name" | "customer_phone" | "customer_email">): ContactChange {
+  const name = d.customer_name.trim();
+  const phone = d.customer_phone.trim();
+  const email = d.customer_email.trim();
+  if (!name) {
+    if (phone || email) throw new Error("Add the customer's name to save their phone or email.");
+    return { kind: "clear" };
+  }
+  return { kind: "save", contact: { customer_name: name, customer_phone: phone || null, customer_email: email || null } };
+}
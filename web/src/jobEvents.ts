@@ -0,0 +1,85 @@
+// jobEvents.ts — reads the append-only job_events log (supabase/migrations/0005_job_events.sql)
+
+import { supabase } from "./supabase";
+import type { JobEvent, JobEventAction } from "./types";
+
+const EVENT_COLUMNS = "id,job_id,actor,action,old_status,new_status,old_claimed_by,new_claimed_by,details,created_at";
+
+export const EVENT_ACTIONS: JobEventAction[] = [
+  "created", "claimed", "assigned", "reassigned", "unclaimed",
+  "completed", "canceled", "status_changed", "edited",
+  "offered", "offer_expired",
+  "drop_requested", "drop_approved", "drop_denied",
+];
+
+export type AuditFilters = {
+  action?: JobEventAction | "";
+  actor?: string;      // profile id
+  from?: string;       // YYYY-MM-DD, inclusive
+  to?: string;         // YYYY-MM-DD, inclusive
+};
+
+export async function loadJobEvents(jobId: string): Promise<JobEvent[]> {
+  const { data, error } = await supabase
+    .from("job_events")
+    .select(EVENT_COLUMNS)
+    .eq("job_id", jobId)
+    .order("created_at");
+  if (error) throw error;
+  return (data as JobEvent[]) || [];
+}
+
+export async function loadAuditEvents(f: AuditFilters, limit = 200): Promise<JobEvent[]> {
+  let q = supabase
+    .from("job_events")
+    .select(`${EVENT_COLUMNS}, jobs(title,date)`)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (f.action) q = q.eq("action", f.action);
+  if (f.actor) q = q.eq("actor", f.actor);
+  // day boundaries in the viewer's timezone
+  if (f.from) q = q.gte("created_at", new Date(`${f.from}T00:00:00`).toISOString());
+  if (f.to) q = q.lte("created_at", new Date(`${f.to}T23:59:59.999`).toISOString());
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data as unknown as JobEvent[]) || [];
+}
+
+// Everyone an event mentions (actor + old/new claimer)
+export function eventPeople(events: JobEvent[]): string[] {
+  const ids = new Set<string>();
+  for (const e of events) {
+    for (const id of [e.actor, e.old_claimed_by, e.new_claimed_by]) if (id) ids.add(id);
+  }
+  return Array.from(ids);
+}
+
+// "Alice claimed", "Admin assigned Bob", "Bob unclaimed (was Alice)"
+export function describeEvent(e: JobEvent, names: Record<string, string>): string {
+  const who = (id: string | null) => (id ? names[id] || id.slice(0, 8) : "system");
+  const actor = who(e.actor);
+  switch (e.action) {
+    case "created": return `${actor} created the job`;
+    case "claimed": return `${actor} claimed`;
+    case "assigned":
+      return `${actor} assigned ${who(e.new_claimed_by)}`
+        + (e.details?.schedule_override ? " (overrode a schedule conflict)" : "")
+        + (e.details?.availability_override ? " (guide was marked unavailable)" : "");
+    case "reassigned": return `${actor} reassigned ${who(e.old_claimed_by)} → ${who(e.new_claimed_by)}`;
+    case "unclaimed":
+      return e.actor && e.actor === e.old_claimed_by
+        ? `${actor} unclaimed`
+        : `${actor} removed ${who(e.old_claimed_by)}`;
+    case "completed": return `${actor} marked complete`;
+    case "canceled": return `${actor} canceled the job`;
+    case "status_changed": return `${actor} changed status ${e.old_status} → ${e.new_status}`;
+    case "offered": return `Freed slot offered to ${who(e.new_claimed_by)} from standby`;
+    case "offer_expired": return `Standby offer to ${who(e.old_claimed_by)} ran out`;
+    case "drop_requested":
+      return `${who(e.old_claimed_by)} asked to drop (inside the cutoff)`
+        + (e.details?.note ? `: "${e.details.note}"` : "");
+    case "drop_approved": return `${actor} approved ${who(e.old_claimed_by)}'s drop`;
+    case "drop_denied": return `${actor} denied ${who(e.old_claimed_by)}'s drop`;
+    case "edited": return `${actor} edited ${Object.keys(e.details || {}).join(", ")}`;
+  }
+}
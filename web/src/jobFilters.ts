@@ -0,0 +1,171 @@
+// jobFilters.ts — filter bar state for the Open and All Jobs lists: parsed from and
+// written to the URL (so a filtered view can be shared), and pushed down to PostgREST
+// as one paged query. Full-text search uses jobs.search (0016_job_search.sql).
+
+import { supabase } from "./supabase";
+import type { Job } from "./types";
+import { JOB_SELECT, JOB_WITH_CLAIMS_SELECT, type JobRow } from "./jobs";
+import { attachCrew } from "./jobStore";
+
+export type JobSort = "date" | "pay" | "call_time";
+
+export type JobFilters = {
+  q: string;             // words in title or notes (web search syntax: "exact phrase", -not)
+  from: string;          // YYYY-MM-DD
+  to: string;
+  location: string;      // substring
+  boatId: string;
+  minPay: string;
+  requirements: string[]; // job requires all of these
+  statuses: Job["status"][]; // All Jobs only; Open Jobs is always open
+  claimer: string;       // guide id on the crew (admin)
+  sort: JobSort;
+  desc: boolean;
+  page: number;          // 0-based
+};
+
+export const PAGE_SIZE = 25;
+
+export const DEFAULT_FILTERS: JobFilters = {
+  q: "",
+  from: "",
+  to: "",
+  location: "",
+  boatId: "",
+  minPay: "",
+  requirements: [],
+  statuses: ["open", "assigned"],
+  claimer: "",
+  sort: "date",
+  desc: false,
+  page: 0,
+};
+
+export const SORT_LABELS: Record<JobSort, string> = {
+  date: "Date",
+  pay: "Pay",
+  call_time: "Call time",
+};
+
+const STATUSES: Job["status"][] = ["open", "assigned", "complete", "canceled"];
+
+// ---- URL ----
+
+export function filtersFromUrl(search = window.location.search): JobFilters {
+  const p = new URLSearchParams(search);
+  const list = (k: string) => (p.get(k) || "").split(",").map((s) => s.trim()).filter(Boolean);
+  const statuses = list("status").filter((s): s is Job["status"] => STATUSES.includes(s as Job["status"]));
+  const sort = p.get("sort") as JobSort | null;
+  return {
+    q: p.get("q") || "",
+    from: p.get("from") || "",
+    to: p.get("to") || "",
+    location: p.get("location") || "",
+    boatId: p.get("boat") || "",
+    minPay: p.get("min_pay") || "",
+    requirements: list("req"),
+    statuses: statuses.length ? statuses : DEFAULT_FILTERS.statuses,
+    claimer: p.get("claimer") || "",
+    sort: sort && sort in SORT_LABELS ? sort : "date",
+    desc: p.get("dir") === "desc",
+    page: Math.max(0, (Number(p.get("page")) || 1) - 1),
+  };
+}
+
+// Only what differs from the defaults, so a plain view keeps a plain URL
+export function filtersToParams(f: JobFilters): URLSearchParams {
+  const p = new URLSearchParams();
+  if (f.q) p.set("q", f.q);
+  if (f.from) p.set("from", f.from);
+  if (f.to) p.set("to", f.to);
+  if (f.location) p.set("location", f.location);
+  if (f.boatId) p.set("boat", f.boatId);
+  if (f.minPay) p.set("min_pay", f.minPay);
+  if (f.requirements.length) p.set("req", f.requirements.join(","));
+  if (f.statuses.join(",") !== DEFAULT_FILTERS.statuses.join(",")) p.set("status", f.statuses.join(","));
+  if (f.claimer) p.set("claimer", f.claimer);
+  if (f.sort !== "date") p.set("sort", f.sort);
+  if (f.desc) p.set("dir", "desc");
+  if (f.page) p.set("page", String(f.page + 1));
+  return p;
+}
+
+// Write the filters onto the list's path (router.ts) without adding history entries
+export function writeFiltersToUrl(f: JobFilters, path: string) {
+  const qs = filtersToParams(f).toString();
+  window.history.replaceState(window.history.state, "", `${path}${qs ? `?${qs}` : ""}${window.location.hash}`);
+}
+
+// Anything narrowing the list (sorting and paging don't count)
+export function filtersActive(f: JobFilters): boolean {
+  return filtersToParams({ ...f, sort: DEFAULT_FILTERS.sort, desc: false, page: 0 }).toString() !== "";
+}
+
+// ---- Query ----
+
+export type JobPage = { jobs: Job[]; total: number };
+
+// view "open": claimable jobs (status open, today on unless a date range is set),
+// leaving out the ones in excludeIds (jobs I'm already on).
+// view "all": admin list, with the status filter.
+function filteredQuery(f: JobFilters, view: "open" | "all", excludeIds: string[], count?: "exact") {
+  // typed as the plain select either way: toRows drops the claims again
+  let q = supabase
+    .from("jobs")
+    .select((f.claimer ? JOB_WITH_CLAIMS_SELECT : JOB_SELECT) as typeof JOB_SELECT, count ? { count } : undefined);
+
+  if (view === "open") {
+    q = q.eq("status", "open").gte("date", f.from || new Date().toLocaleDateString("en-CA"));
+    if (excludeIds.length) q = q.not("id", "in", `(${excludeIds.join(",")})`);
+  } else {
+    q = q.in("status", f.statuses);
+    if (f.from) q = q.gte("date", f.from);
+  }
+  if (f.to) q = q.lte("date", f.to);
+  if (f.location.trim()) q = q.ilike("location", `%${f.location.trim()}%`);
+  if (f.boatId) q = q.eq("boat_id", f.boatId);
+  if (f.minPay && Number.isFinite(Number(f.minPay))) q = q.gte("pay", Number(f.minPay));
+  if (f.requirements.length) q = q.contains("requirements", f.requirements);
+  if (f.claimer) q = q.eq("claims.guide_id", f.claimer);
+  if (f.q.trim()) q = q.textSearch("search", f.q.trim(), { type: "websearch", config: "english" });
+
+  const asc = !f.desc;
+  if (f.sort === "pay") q = q.order("pay", { ascending: asc, nullsFirst: false }).order("date");
+  else if (f.sort === "call_time") q = q.order("call_time", { ascending: asc }).order("date");
+  else q = q.order("date", { ascending: asc }).order("call_time", { ascending: asc });
+  return q.order("id"); // stable pages
+}
+
+// The claimer filter embeds claims to filter on; the rows don't keep them
+function toRows(data: (JobRow & { claims?: unknown })[] | null): JobRow[] {
+  return (data || []).map(({ claims: _claims, ...j }) => j);
+}
+
+export async function queryJobs(f: JobFilters, view: "open" | "all", excludeIds: string[] = []): Promise<JobPage> {
+  const start = f.page * PAGE_SIZE;
+  const { data, error, count } = await filteredQuery(f, view, excludeIds, "exact").range(start, start + PAGE_SIZE - 1);
+  if (error) throw error;
+  const rows = toRows(data);
+  return { jobs: await attachCrew(rows), total: count ?? rows.length };
+}
+
+// Every page at once (CSV export), fetched in chunks under PostgREST's row limit
+export async function queryAllJobs(f: JobFilters, view: "open" | "all"): Promise<Job[]> {
+  const CHUNK = 1000;
+  const rows: JobRow[] = [];
+  for (let start = 0; ; start += CHUNK) {
+    const { data, error } = await filteredQuery(f, view, []).range(start, start + CHUNK - 1);
+    if (error) throw error;
+    const chunk = toRows(data);
+    rows.push(...chunk);
+    if (chunk.length < CHUNK) break;
+  }
+  return attachCrew(rows);
+}
+
+// Client-side check for rows already on the page: a job that stopped matching (claimed,
+// canceled, filled) drops out right away instead of waiting for the next query
+export function stillMatches(job: Job, f: JobFilters, view: "open" | "all"): boolean {
+  if (view === "open") return job.status === "open";
+  return f.statuses.includes(job.status);
+}
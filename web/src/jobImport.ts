@@ -0,0 +1,295 @@
+// jobImport.ts — bulk jobs + customer contacts from the reservation system's CSV, and
+// the matching export of the admin All Jobs view. The export's columns are the
+// import's defaults, so a file can go out, be edited and come back in.
+// Rows are checked here; the DB skips duplicates (0017_job_import.sql).
+
+import { supabase } from "./supabase";
+import type { Boat, Job } from "./types";
+import { parseCsv, toCsv } from "./csv";
+
+export type ImportField =
+  | "title" | "date" | "call_time" | "dock_time" | "location" | "boat" | "pay" | "slots"
+  | "requirements" | "notes" | "customer_name" | "customer_phone" | "customer_email";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: "title", label: "Title", required: true, aliases: ["trip", "activity", "product", "name"] },
+  { field: "date", label: "Date", required: true, aliases: ["trip date", "day"] },
+  { field: "call_time", label: "Call time", required: true, aliases: ["call", "start", "start time", "time", "check in"] },
+  { field: "dock_time", label: "Dock time", aliases: ["dock", "end", "end time", "return"] },
+  { field: "location", label: "Location", aliases: ["site", "dive site", "port"] },
+  { field: "boat", label: "Boat", aliases: ["vessel"] },
+  { field: "pay", label: "Pay", aliases: ["rate", "guide pay"] },
+  { field: "slots", label: "Guides needed", aliases: ["guides", "guides needed", "crew"] },
+  { field: "requirements", label: "Requirements", aliases: ["requires", "certs", "certifications"] },
+  { field: "notes", label: "Notes", aliases: ["description", "comments"] },
+  { field: "customer_name", label: "Customer name", aliases: ["customer", "client", "lead name", "booked by"] },
+  { field: "customer_phone", label: "Customer phone", aliases: ["phone", "mobile"] },
+  { field: "customer_email", label: "Customer email", aliases: ["email"] },
+];
+
+// Field -> column index in the file (-1 = not in the file)
+export type ColumnMap = Record<ImportField, number>;
+
+export type DateFormat = "ymd" | "dmy" | "mdy";
+
+export const DATE_FORMATS: Record<DateFormat, string> = {
+  ymd: "YYYY-MM-DD",
+  dmy: "DD/MM/YYYY",
+  mdy: "MM/DD/YYYY",
+};
+
+// What import_jobs() takes for one row
+export type ImportJob = {
+  title: string;
+  date: string;
+  call_time: string;
+  dock_time: string | null;
+  location: string | null;
+  boat_id: string | null;
+  pay: number | null;
+  slots: number;
+  requirements: string[];
+  notes: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  customer_email: string | null;
+};
+
+export type ImportRow = {
+  line: number;          // row number in the file, header = 1
+  job: ImportJob;
+  errors: string[];      // row can't be imported
+  warnings: string[];    // imported anyway
+  existingJobId?: string | null; // duplicate of a job already in the schedule
+};
+
+export type CsvFile = { headers: string[]; rows: string[][] };
+
+export function readCsv(text: string): CsvFile {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Guess which column holds each field from the header names
+export function guessColumns(headers: string[]): ColumnMap {
+  const names = headers.map(norm);
+  const map = {} as ColumnMap;
+  const used = new Set<number>();
+  for (const f of IMPORT_FIELDS) {
+    const wanted = [norm(f.field), norm(f.label), ...f.aliases];
+    const i = names.findIndex((n, idx) => !used.has(idx) && wanted.includes(n));
+    map[f.field] = i;
+    if (i >= 0) used.add(i);
+  }
+  return map;
+}
+
+// ---- Validation ----
+
+function parseDate(s: string, fmt: DateFormat): string | null {
+  const parts = s.split(/[-/.]/).map((p) => p.trim());
+  if (parts.length !== 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  const [y, m, d] =
+    fmt === "ymd" ? [parts[0], parts[1], parts[2]]
+    : fmt === "dmy" ? [parts[2], parts[1], parts[0]]
+    : [parts[2], parts[0], parts[1]];
+  if (y.length !== 4) return null;
+  const iso = `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+  const dt = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(dt.getTime()) && dt.toISOString().slice(0, 10) === iso ? iso : null;
+}
+
+// "7:30", "07:30:00", "7:30 am", "7pm" -> "HH:MM"
+function parseTime(s: string): string | null {
+  const m = s.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm)?$/);
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = Number(m[2] || 0);
+  if (!m[2] && !m[3]) return null; // a bare number is more likely a typo than a time
+  if (m[3]) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (m[3] === "pm" ? 12 : 0);
+  }
+  if (h > 23 || min > 59) return null;
+  return `${String(h).padStart(2, "0")}:${String(min).padStart(2, "0")}`;
+}
+
+// Pay as a plain amount ("$1,200.00" is fine); undefined = not a valid amount
+function parseMoney(s: string): number | null | undefined {
+  const t = s.replace(/[$,\s]/g, "");
+  if (!t) return null;
+  const n = Number(t);
+  return /^\d+(\.\d{1,2})?$/.test(t) && Number.isFinite(n) ? n : undefined;
+}
+
+// Requirements within one cell: "Nitrox; Deep" (commas and | also work)
+function parseList(s: string): string[] {
+  const seen = new Set<string>();
+  return s.split(/[;,|]/).map((r) => r.trim()).filter((r) => {
+    const k = r.toLowerCase();
+    if (!r || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Check every row. knownCerts: cert names guides hold or jobs already require;
+// anything else is likely a typo nobody could ever meet.
+export function validateRows(
+  file: CsvFile,
+  columns: ColumnMap,
+  opts: { dateFormat: DateFormat; boats: Boat[]; knownCerts: string[] }
+): ImportRow[] {
+  const boatsByName = new Map(opts.boats.map((b) => [b.name.trim().toLowerCase(), b]));
+  const certs = new Set(opts.knownCerts.map((c) => c.trim().toLowerCase()));
+  const seen = new Map<string, number>(); // date|call|title -> first line
+  const today = new Date().toLocaleDateString("en-CA");
+
+  return file.rows.map((cells, i) => {
+    const line = i + 2;
+    const get = (f: ImportField) => (columns[f] >= 0 ? (cells[columns[f]] || "").trim() : "");
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const title = get("title");
+    if (!title) errors.push("Title is missing.");
+
+    const rawDate = get("date");
+    const date = rawDate ? parseDate(rawDate, opts.dateFormat) : null;
+    if (!rawDate) errors.push("Date is missing.");
+    else if (!date) errors.push(`"${rawDate}" isn't a ${DATE_FORMATS[opts.dateFormat]} date.`);
+    else if (date < today) warnings.push("Date is in the past.");
+
+    const rawCall = get("call_time");
+    const call = rawCall ? parseTime(rawCall) : null;
+    if (!rawCall) errors.push("Call time is missing.");
+    else if (!call) errors.push(`Call time "${rawCall}" isn't a time.`);
+
+    const rawDock = get("dock_time");
+    const dock = rawDock ? parseTime(rawDock) : null;
+    if (rawDock && !dock) errors.push(`Dock time "${rawDock}" isn't a time.`);
+    else if (dock && call && dock === call) errors.push("Dock time is the same as call time.");
+
+    const pay = parseMoney(get("pay"));
+    if (pay === undefined) errors.push(`Pay "${get("pay")}" isn't an amount.`);
+
+    const rawSlots = get("slots");
+    const slots = rawSlots ? Number(rawSlots) : 1;
+    if (!Number.isInteger(slots) || slots < 1) errors.push(`Guides needed "${rawSlots}" isn't a whole number of 1 or more.`);
+
+    const requirements = parseList(get("requirements"));
+    const unknown = requirements.filter((r) => !certs.has(r.toLowerCase()));
+    if (unknown.length) warnings.push(`No guide holds ${unknown.join(", ")}.`);
+
+    const boatName = get("boat");
+    const boat = boatName ? boatsByName.get(boatName.toLowerCase()) : undefined;
+    if (boatName && !boat) errors.push(`No boat called "${boatName}" (add it under Boats first).`);
+    else if (boat && !boat.is_active) warnings.push(`${boat.name} is retired.`);
+
+    const customerName = get("customer_name");
+    const phone = get("customer_phone");
+    const email = get("customer_email");
+    if (!customerName && (phone || email)) errors.push("Customer phone or email without a customer name.");
+    if (email && !EMAIL.test(email)) errors.push(`"${email}" isn't an email address.`);
+
+    if (title && date && call) {
+      const key = `${date}|${call}|${title.toLowerCase()}`;
+      const first = seen.get(key);
+      if (first) errors.push(`Same job as row ${first}.`);
+      else seen.set(key, line);
+    }
+
+    return {
+      line,
+      errors,
+      warnings,
+      job: {
+        title,
+        date: date || "",
+        call_time: call || "",
+        dock_time: dock,
+        location: get("location") || null,
+        boat_id: boat?.id || null,
+        pay: pay ?? null,
+        slots: Number.isInteger(slots) && slots >= 1 ? slots : 1,
+        requirements,
+        notes: get("notes") || null,
+        customer_name: customerName || null,
+        customer_phone: phone || null,
+        customer_email: email || null,
+      },
+    };
+  });
+}
+
+// ---- DB ----
+
+// Cert names in use: held by guides or required by jobs
+export async function loadKnownCerts(): Promise<string[]> {
+  const [c, j] = await Promise.all([
+    supabase.from("guide_certs").select("cert"),
+    supabase.from("jobs").select("requirements").not("requirements", "is", null),
+  ]);
+  if (c.error) throw c.error;
+  if (j.error) throw j.error;
+  return [
+    ...((c.data as { cert: string }[]) || []).map((r) => r.cert),
+    ...((j.data as { requirements: string[] }[]) || []).flatMap((r) => r.requirements || []),
+  ];
+}
+
+// Marks rows that duplicate a job already in the schedule (valid rows only)
+export async function findDuplicates(rows: ImportRow[]): Promise<ImportRow[]> {
+  const valid = rows.filter((r) => !r.errors.length);
+  if (!valid.length) return rows;
+  const { data, error } = await supabase.rpc("preview_job_import", { p_rows: valid.map((r) => r.job) });
+  if (error) throw error;
+  const existing = new Map(((data as { idx: number; existing_job_id: string | null }[]) || [])
+    .map((d) => [valid[d.idx].line, d.existing_job_id]));
+  return rows.map((r) => (existing.has(r.line) ? { ...r, existingJobId: existing.get(r.line) } : r));
+}
+
+export type ImportResult = {
+  ok: boolean;
+  reason: "forbidden" | "empty" | null;
+  created?: number;
+  skipped?: number;
+};
+
+export async function importJobs(jobs: ImportJob[]): Promise<ImportResult> {
+  const { data, error } = await supabase.rpc("import_jobs", { p_rows: jobs });
+  if (error) throw error;
+  return data as ImportResult;
+}
+
+export function importMessage(r: ImportResult): string {
+  switch (r.reason) {
+    case "forbidden": return "❌ You need admin access to import jobs.";
+    case "empty": return "⚠️ Nothing to import.";
+    default:
+      return `✅ Imported ${r.created} job${r.created === 1 ? "" : "s"}` +
+        (r.skipped ? `; ${r.skipped} already in the schedule, skipped.` : ".");
+  }
+}
+
+// ---- Export ----
+
+// All Jobs as CSV: the import columns, plus status and the guides on each job
+export function jobsCsv(jobs: Job[], claimerMap: Record<string, string>): string {
+  return toCsv([
+    [...IMPORT_FIELDS.map((f) => f.field), "status", "guides"],
+    ...jobs.map((j) => {
+      const c = j.job_contacts;
+      return [
+        j.title, j.date, j.call_time?.slice(0, 5), j.dock_time?.slice(0, 5), j.location, j.boats?.name,
+        j.pay != null ? Number(j.pay).toFixed(2) : "", j.slots ?? 1, (j.requirements || []).join("; "), j.notes,
+        c?.customer_name, c?.customer_phone, c?.customer_email,
+        j.status, (j.crew || []).map((g) => claimerMap[g.guide_id] || g.full_name || g.guide_id).join("; "),
+      ];
+    }),
+  ]);
+}
@@ -0,0 +1,26 @@
+// jobMessages.ts — a job's message thread between admins and the guides on it
+// (supabase/migrations/0022_job_messages.sql). New messages arrive through App's
+// realtime channel, which refreshes the job and so its unread_messages count.
+
+import { supabase } from "./supabase";
+import type { JobMessage } from "./types";
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export async function loadThread(jobId: string): Promise<JobMessage[]> {
+  const { data, error } = await supabase.rpc("job_thread", { p_job_id: jobId });
+  if (error) throw error;
+  return data || [];
+}
+
+// Author and time are set by the database
+export async function postMessage(jobId: string, body: string): Promise<void> {
+  const { error } = await supabase.from("job_messages").insert({ job_id: jobId, body: body.trim() });
+  if (error) throw error;
+}
+
+// Everything in the thread so far no longer counts as unread for me
+export async function markThreadRead(jobId: string): Promise<void> {
+  const { error } = await supabase.rpc("mark_job_messages_read", { p_job_id: jobId });
+  if (error) throw error;
+}
@@ -0,0 +1,57 @@
+// jobReports.ts — post-trip reports, one per guide per job
+// (supabase/migrations/0022_job_messages.sql). Guides on the job file them from the
+// trip's date on; admins and the rest of the crew read them.
+
+import { supabase } from "./supabase";
+import type { Job, JobReport } from "./types";
+
+export type ReportDraft = {
+  dive_sites: string; // comma-separated
+  conditions: string;
+  customer_no_show: boolean;
+};
+
+export type ReportResult = {
+  ok: boolean;
+  reason: "not_found" | "forbidden" | "too_early" | null;
+  report?: JobReport;
+};
+
+export function draftFromReport(r: JobReport | null | undefined): ReportDraft {
+  return {
+    dive_sites: (r?.dive_sites || []).join(", "),
+    conditions: r?.conditions || "",
+    customer_no_show: r?.customer_no_show ?? false,
+  };
+}
+
+// From the trip's date on (the database checks it against the shop's time zone)
+export function reportDue(job: Pick<Job, "date" | "status">): boolean {
+  return (job.status === "assigned" || job.status === "complete") && job.date <= new Date().toLocaleDateString("en-CA");
+}
+
+export async function loadReports(jobId: string): Promise<JobReport[]> {
+  const { data, error } = await supabase.from("job_reports").select("*").eq("job_id", jobId).order("created_at");
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveReport(jobId: string, d: ReportDraft): Promise<ReportResult> {
+  const { data, error } = await supabase.rpc("save_job_report", {
+    p_job_id: jobId,
+    p_dive_sites: d.dive_sites.split(","),
+    p_conditions: d.conditions,
+    p_customer_no_show: d.customer_no_show,
+  });
+  if (error) throw error;
+  return data as unknown as ReportResult;
+}
+
+export function reportMessage(r: ReportResult): string {
+  switch (r.reason) {
+    case "not_found": return "This job no longer exists.";
+    case "forbidden": return "Only the guides on the job can file a report.";
+    case "too_early": return "The report can be filed from the day of the trip.";
+    default: return "Couldn't save the report.";
+  }
+}
@@ -0,0 +1,198 @@
+// jobRpc.ts — typed wrappers for the job RPC family (supabase/migrations/0004_job_rpcs_v2.sql)
+// Every call resolves to a JobResult; transport/SQL errors are thrown.
+
+import { supabase } from "./supabase";
+import type { Database } from "./database.types";
+import type { DropRequest, Job, JobGuide, ScheduleConflict, Unavailability } from "./types";
+import { describeUnavailability } from "./availability";
+import type { Completion } from "./diveLogs";
+
+export type JobReason =
+  | "not_found"
+  | "forbidden"
+  | "not_open"
+  | "already_claimed"
+  | "already_on_job"
+  | "not_claimed"
+  | "missing_cert"
+  | "schedule_conflict"
+  | "unavailable"
+  | "not_full"
+  | "already_on_standby"
+  | "not_on_standby"
+  | "drop_requested"
+  | "before_cutoff"
+  | "not_pending"
+  | "inactive"
+  | "illegal_transition"
+  | "dive_log_required"
+  | "incident_required"
+  | "invalid_dive_log"
+  | "invalid_incident";
+
+export type JobResult = {
+  ok: boolean;
+  reason: JobReason | null;
+  job: Job | null;        // the row after the call (null for not_found / forbidden)
+  crew?: JobGuide[];      // everyone on the job after the call
+  missing?: string[];     // missing_cert: requirements the guide lacks
+  conflicts?: ScheduleConflict[]; // schedule_conflict: overlapping jobs the guide holds
+  unavailable?: Unavailability;   // unavailable (or alongside a conflict): why the guide is off
+  position?: number;      // join_standby: place in line
+  drop_request?: DropRequest; // drop RPCs, and unclaim inside the cutoff
+  from?: Job["status"];   // illegal_transition: the job's status and the one asked for,
+  to?: Job["status"];     // plus where it can go from here
+  allowed?: Job["status"][];
+  already_complete?: boolean; // complete_job_v2 on a job that was already complete: the log and
+  dive_log_kept?: boolean;    // incident still filed, an existing dive log kept
+};
+
+type Functions = Database["public"]["Functions"];
+
+// The RPCs return job_result() jsonb, which the generated types only know as Json
+async function call<F extends keyof Functions>(fn: F, args: Functions[F]["Args"]): Promise<JobResult> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw error;
+  if (!data || typeof data !== "object") throw new Error(`Unexpected response from ${fn}.`);
+  return data as unknown as JobResult;
+}
+
+export function claimJob(jobId: string) {
+  return call("claim_job_v2", { p_job_id: jobId });
+}
+
+// Without guideId: the caller's own slot (for an admin not on the crew: every slot)
+export function unclaimJob(jobId: string, guideId?: string) {
+  return call("unclaim_job_v2", guideId ? { p_job_id: jobId, p_guide_id: guideId } : { p_job_id: jobId });
+}
+
+// override: book the guide even if it overlaps their other jobs or they marked themselves
+// unavailable (recorded on the claim)
+export function assignJob(jobId: string, guideId: string, override = false) {
+  return call("assign_job_v2", { p_job_id: jobId, p_guide_id: guideId, p_override: override });
+}
+
+// With a completion: the dive log and incident report go in with it (0023_dive_logs.sql)
+export function completeJob(jobId: string, c?: Completion) {
+  return call("complete_job_v2", c
+    ? { p_job_id: jobId, p_dive_log: c.log, p_incident: c.incident }
+    : { p_job_id: jobId });
+}
+
+export function cancelJob(jobId: string) {
+  return call("cancel_job_v2", { p_job_id: jobId });
+}
+
+// Status select in the edit form (0020_job_state_machine.sql): same rules as the trigger;
+// complete and canceled run complete_job_v2 / cancel_job_v2
+export function setJobStatus(jobId: string, status: Job["status"]) {
+  return call("set_job_status", { p_job_id: jobId, p_status: status });
+}
+
+// Statuses the job can move to now (not including its current one)
+export async function nextStatuses(jobId: string): Promise<Job["status"][]> {
+  const { data, error } = await supabase.rpc("job_next_statuses", { p_job_id: jobId });
+  if (error) throw error;
+  return (data as Job["status"][]) || [];
+}
+
+// Drop requests (0009_drop_requests.sql): unclaiming inside the cutoff needs an admin
+export function requestDrop(jobId: string, note?: string) {
+  return call("request_drop", { p_job_id: jobId, p_note: note ?? null });
+}
+
+export function decideDrop(requestId: number, approve: boolean) {
+  return call("decide_drop", { p_request_id: requestId, p_approve: approve });
+}
+
+export function withdrawDrop(requestId: number) {
+  return call("withdraw_drop", { p_request_id: requestId });
+}
+
+// Standby queue (0008_standby.sql): guides line up for a full job
+export function joinStandby(jobId: string) {
+  return call("join_standby", { p_job_id: jobId });
+}
+
+// Without guideId: leave (or decline an offer) yourself; admins may remove anyone
+export function leaveStandby(jobId: string, guideId?: string) {
+  return call("leave_standby", guideId ? { p_job_id: jobId, p_guide_id: guideId } : { p_job_id: jobId });
+}
+
+export function reorderStandby(jobId: string, guideIds: string[]) {
+  return call("reorder_standby", { p_job_id: jobId, p_guide_ids: guideIds });
+}
+
+export function clearStandby(jobId: string) {
+  return call("clear_standby", { p_job_id: jobId });
+}
+
+// Passes on standby offers that ran out; returns how many jobs moved on
+export async function expireStandbyOffers(): Promise<number> {
+  const { data, error } = await supabase.rpc("expire_standby_offers");
+  if (error) throw error;
+  return (data as number) ?? 0;
+}
+
+// "Morning charter (2030-01-01 06:30), Night dive (2030-01-01 19:00)"
+export function describeConflicts(conflicts: ScheduleConflict[]): string {
+  if (!conflicts.length) return "another job on the schedule";
+  return conflicts.map((c) => `${c.title} (${c.date} ${c.call_time.slice(0, 5)})`).join(", ");
+}
+
+const CREW_STATUSES: Job["status"][] = ["open", "assigned"];
+
+// Human-readable explanation of a failed result
+export function reasonMessage(r: JobResult): string {
+  switch (r.reason) {
+    case "not_found": return "This job no longer exists.";
+    case "forbidden": return "You don't have permission to do that.";
+    case "not_open": return `This job is ${r.job?.status ?? "no longer open"}.`;
+    case "already_claimed":
+      return (r.job?.slots ?? 1) > 1
+        ? `All ${r.job!.slots} slots are already filled.`
+        : "Someone else already claimed this job.";
+    case "already_on_job": return "That guide is already on this job.";
+    case "not_claimed": return "This job isn't claimed by anyone.";
+    case "missing_cert": return `Missing certification: ${(r.missing || []).join(", ")}`;
+    case "schedule_conflict":
+      return `Overlaps ${describeConflicts(r.conflicts || [])}.`
+        + (r.unavailable ? ` Also not available: ${describeUnavailability(r.unavailable)}.` : "");
+    case "unavailable":
+      return r.unavailable ? `Not available: ${describeUnavailability(r.unavailable)}.` : "Not available then.";
+    case "not_full": return "This job still has a free slot. Claim it instead.";
+    case "already_on_standby": return "You're already on standby for this job.";
+    case "not_on_standby": return "That guide isn't on standby for this job.";
+    case "drop_requested": return "It's too close to call time to unclaim. A drop request was sent to an admin.";
+    case "before_cutoff": return "You can still unclaim this job without a request.";
+    case "not_pending": return "That drop request was already decided.";
+    case "inactive": return "That account is deactivated. An admin can reactivate it under Users.";
+    case "illegal_transition":
+      return `A ${r.from} job can't be set to ${r.to}.`
+        + (r.from && r.to && CREW_STATUSES.includes(r.from) && CREW_STATUSES.includes(r.to)
+          ? " Open and assigned follow the crew: assign or remove guides instead." : "")
+        + (r.allowed?.length ? ` It can go to: ${r.allowed.join(", ")}.` : "");
+    case "dive_log_required": return "A dive log is required to complete this job. Use “Mark complete” in the job's details.";
+    case "incident_required": return "The dive log says something happened: add the incident report.";
+    case "invalid_dive_log": return "Check the dive log: depth, bottom time, gas and number of divers.";
+    case "invalid_incident": return "Check the incident report: type, severity, who was involved and what was done.";
+    default: return "Something went wrong.";
+  }
+}
+
+// Crew (claims + names) for the given jobs, via the job_guides() RPC
+export async function loadCrew(jobIds: string[]): Promise<Record<string, JobGuide[]>> {
+  if (!jobIds.length) return {};
+  const { data, error } = await supabase.rpc("job_guides", { p_job_ids: jobIds });
+  if (error) throw error;
+  const byJob: Record<string, JobGuide[]> = {};
+  for (const r of (data as (JobGuide & { job_id: string })[]) || []) {
+    (byJob[r.job_id] ||= []).push({ guide_id: r.guide_id, full_name: r.full_name, claimed_at: r.claimed_at });
+  }
+  return byJob;
+}
+
+export async function withCrew<T extends Job>(jobs: T[]): Promise<T[]> {
+  const crew = await loadCrew(jobs.map((j) => j.id));
+  return jobs.map((j) => ({ ...j, crew: crew[j.id] || [] }));
+}
@@ -0,0 +1,160 @@
+// jobStore.ts — normalized client-side copy of the jobs the user can see (id -> Job,
+// crew attached), kept current from realtime payloads one job at a time. Calendar,
+// standby and My Jobs are views over it (openJobsFrom / fullJobsFrom / myJobsFrom), so
+// one change to a job moves it between lists without reloading any. The filtered,
+// paged Open and All Jobs lists (jobFilters.ts) put their rows here and keep the ids.
+//
+// Guides don't receive realtime events for jobs that stop being visible to them (an
+// open job canceled or filled by others), so App resyncs the whole store on
+// reconnect and when the tab comes back to the foreground.
+
+import { supabase } from "./supabase";
+import type { Job, JobGuide } from "./types";
+import { loadCrew } from "./jobRpc";
+import { JOB_SELECT, JOB_WITH_CLAIMS_SELECT, type JobRow } from "./jobs";
+
+export type JobMap = Record<string, Job>;
+
+function today(): string {
+  return new Date().toLocaleDateString("en-CA");
+}
+
+// my_unavailability is jsonb, so the generated row only knows it as Json
+export async function attachCrew(rows: JobRow[]): Promise<Job[]> {
+  const crew = await loadCrew(rows.map((j) => j.id));
+  return rows.map((j) => ({ ...(j as Job), crew: crew[j.id] || [] }));
+}
+
+// Full load: live jobs (guides: upcoming only) and the jobs I'm on
+export async function fetchAllJobs({ myId, isAdmin }: { myId: string; isAdmin: boolean }): Promise<JobMap> {
+  let live = supabase
+    .from("jobs")
+    .select(JOB_SELECT)
+    .in("status", ["open", "assigned"]);
+  if (!isAdmin) live = live.gte("date", today());
+  const mine = supabase
+    .from("jobs")
+    .select(JOB_WITH_CLAIMS_SELECT)
+    .eq("claims.guide_id", myId);
+  const [a, b] = await Promise.all([live, mine]);
+  if (a.error) throw a.error;
+  if (b.error) throw b.error;
+  const rows = [...(a.data || []), ...(b.data || []).map(({ claims: _claims, ...j }) => j)];
+  return indexById(await attachCrew(rows));
+}
+
+// Fresh copies of some jobs; ids missing from the result are no longer visible
+export async function fetchJobs(ids: string[]): Promise<Job[]> {
+  if (!ids.length) return [];
+  const { data, error } = await supabase.from("jobs").select(JOB_SELECT).in("id", ids);
+  if (error) throw error;
+  return attachCrew(data || []);
+}
+
+export function indexById(jobs: Job[]): JobMap {
+  const map: JobMap = {};
+  for (const j of jobs) map[j.id] = j;
+  return map;
+}
+
+// Replace the given jobs; ids asked for but not returned are dropped
+export function upsertJobs(map: JobMap, jobs: Job[], askedFor: string[] = []): JobMap {
+  const next = { ...map };
+  for (const id of askedFor) delete next[id];
+  for (const j of jobs) next[j.id] = j;
+  return next;
+}
+
+export function removeJob(map: JobMap, id: string): JobMap {
+  if (!map[id]) return map;
+  const { [id]: _gone, ...rest } = map;
+  return rest;
+}
+
+// A realtime jobs row: table columns only, so keep what we already had for the
+// embeds, computed columns and crew until the refetch fills them in
+export function mergeJobRow(map: JobMap, row: Partial<Job> & { id: string }): JobMap {
+  const prev = map[row.id];
+  const merged = { ...prev, ...row } as Job;
+  if (prev && row.boat_id !== undefined && row.boat_id !== prev.boat_id) merged.boats = null;
+  return { ...map, [row.id]: merged };
+}
+
+// ---- Optimistic edits (undone with restoreJob when the RPC says no) ----
+
+export function withGuide(map: JobMap, jobId: string, guide: JobGuide): JobMap {
+  const job = map[jobId];
+  if (!job || job.crew?.some((g) => g.guide_id === guide.guide_id)) return map;
+  const crew = [...(job.crew || []), guide];
+  return {
+    ...map,
+    [jobId]: { ...job, crew, status: job.status === "open" && crew.length >= (job.slots ?? 1) ? "assigned" : job.status },
+  };
+}
+
+// guideId null: everyone (an admin returning the job to the pool)
+export function withoutGuide(map: JobMap, jobId: string, guideId: string | null): JobMap {
+  const job = map[jobId];
+  if (!job) return map;
+  const crew = guideId ? (job.crew || []).filter((g) => g.guide_id !== guideId) : [];
+  return { ...map, [jobId]: { ...job, crew, status: job.status === "assigned" ? "open" : job.status } };
+}
+
+export function restoreJob(map: JobMap, jobId: string, job: Job | undefined): JobMap {
+  return job ? { ...map, [jobId]: job } : removeJob(map, jobId);
+}
+
+// ---- Views ----
+
+function byDate(a: Job, b: Job) {
+  return a.date.localeCompare(b.date) || a.call_time.localeCompare(b.call_time);
+}
+
+export function onCrew(job: Job, guideId?: string | null) {
+  return !!guideId && !!job.crew?.some((g) => g.guide_id === guideId);
+}
+
+// Upcoming jobs with a free slot that I'm not on
+export function openJobsFrom(map: JobMap, myId?: string | null): Job[] {
+  const from = today();
+  return Object.values(map).filter((j) => j.status === "open" && j.date >= from && !onCrew(j, myId)).sort(byDate);
+}
+
+// Upcoming full jobs I could queue for
+export function fullJobsFrom(map: JobMap, myId?: string | null): Job[] {
+  const from = today();
+  return Object.values(map).filter((j) => j.status === "assigned" && j.date >= from && !onCrew(j, myId)).sort(byDate);
+}
+
+export function myJobsFrom(map: JobMap, myId?: string | null): Job[] {
+  return Object.values(map).filter((j) => onCrew(j, myId)).sort(byDate);
+}
+
+// Collects job ids from a burst of realtime events and refetches them in one go
+export function createRefresher(apply: (jobs: Job[], ids: string[]) => void, delayMs = 250) {
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function flush() {
+    timer = null;
+    const ids = [...pending];
+    pending = new Set();
+    try {
+      apply(await fetchJobs(ids), ids);
+    } catch {
+      // offline: the resync after reconnecting catches up
+    }
+  }
+
+  return {
+    queue(id: string) {
+      pending.add(id);
+      if (!timer) timer = setTimeout(flush, delayMs);
+    },
+    cancel() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = new Set();
+    },
+  };
+}
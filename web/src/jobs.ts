@@ -0,0 +1,171 @@
+// jobs.ts — the jobs table as the app reads and writes it directly (the RPCs are in
+// jobRpc.ts): the one select every list and the Details modal use, and the admin
+// create / edit writes, which carry the job's customer contact along.
+//
+// JobRow is what PostgREST returns for JOB_SELECT, inferred from database.types.ts, so
+// a column added to the select (or dropped from the schema) changes Job everywhere.
+
+import type { QueryData } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import type { TablesUpdate } from "./database.types";
+import type { Job, JobContact, JobStatus, JobTemplate } from "./types";
+import { contactChange, type ContactChange } from "./jobContact";
+
+// Every field any list or the Details modal shows
+export const JOB_SELECT =
+  "id,title,date,call_time,dock_time,location,pay,status,claimed_by,notes,requirements,slots,unclaim_deadline,series_id,boat_id, boats(name), job_contacts(customer_name,customer_phone,customer_email), my_unavailability, unread_messages";
+
+// The same, inner-joined to claims so it can be filtered by guide (claims.guide_id)
+export const JOB_WITH_CLAIMS_SELECT = `${JOB_SELECT}, claims!inner(guide_id)` as const;
+
+const jobQuery = () => supabase.from("jobs").select(JOB_SELECT);
+
+export type JobRow = QueryData<ReturnType<typeof jobQuery>>[number];
+
+// The Create Job / Edit Job form: one value per field, as typed (numbers and the
+// requirements list are still text until saved)
+export type JobDraft = {
+  title: string;
+  date: string;
+  call_time: string;
+  dock_time: string;
+  boat_id: string;
+  location: string;
+  pay: string;
+  slots: string;
+  requirements: string; // comma-separated
+  notes: string;
+  status: JobStatus;    // edit only; a new job is always open
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string;
+};
+
+function tomorrow(): string {
+  return new Date(Date.now() + 24 * 3600 * 1000).toISOString().slice(0, 10);
+}
+
+export function emptyDraft(): JobDraft {
+  return {
+    title: "",
+    date: tomorrow(),
+    call_time: "",
+    dock_time: "",
+    boat_id: "",
+    location: "",
+    pay: "",
+    slots: "1",
+    requirements: "",
+    notes: "",
+    status: "open",
+    customer_name: "",
+    customer_phone: "",
+    customer_email: "",
+  };
+}
+
+export function draftFromJob(job: Job): JobDraft {
+  const c = job.job_contacts;
+  return {
+    title: job.title || "",
+    date: job.date || "",
+    call_time: job.call_time || "",
+    dock_time: job.dock_time?.slice(0, 5) || "",
+    boat_id: job.boat_id || "",
+    location: job.location || "",
+    pay: job.pay != null ? String(job.pay) : "",
+    slots: String(job.slots ?? 1),
+    requirements: (job.requirements || []).join(", "),
+    notes: job.notes || "",
+    status: job.status,
+    customer_name: c?.customer_name || "",
+    customer_phone: c?.customer_phone || "",
+    customer_email: c?.customer_email || "",
+  };
+}
+
+// Everything but the date comes from the template
+export function draftFromTemplate(t: JobTemplate, date: string): JobDraft {
+  return {
+    ...emptyDraft(),
+    date,
+    title: t.title,
+    call_time: t.call_time.slice(0, 5),
+    dock_time: t.dock_time?.slice(0, 5) || "",
+    boat_id: t.boat_id || "",
+    location: t.location || "",
+    pay: t.pay != null ? String(t.pay) : "",
+    slots: String(t.slots ?? 1),
+    requirements: (t.requirements || []).join(", "),
+    notes: t.notes || "",
+    customer_name: t.customer_name || "",
+    customer_phone: t.customer_phone || "",
+    customer_email: t.customer_email || "",
+  };
+}
+
+export function draftRequirements(d: JobDraft): string[] {
+  return d.requirements.split(",").map((r) => r.trim()).filter(Boolean);
+}
+
+// The jobs columns the form edits (status goes through jobRpc.setJobStatus)
+export function draftColumns(d: JobDraft) {
+  const requirements = draftRequirements(d);
+  return {
+    title: d.title,
+    date: d.date,
+    call_time: d.call_time,
+    dock_time: d.dock_time || null,
+    boat_id: d.boat_id || null,
+    location: d.location || null,
+    pay: d.pay ? Number(d.pay) : null,
+    requirements: requirements.length ? requirements : null,
+    notes: d.notes || null,
+    slots: Math.max(1, Number(d.slots) || 1),
+  } satisfies TablesUpdate<"jobs">;
+}
+
+export function draftContact(d: JobDraft): JobContact {
+  return {
+    customer_name: d.customer_name || null,
+    customer_phone: d.customer_phone || null,
+    customer_email: d.customer_email || null,
+  };
+}
+
+// A new open job plus its contact, if the form has one; returns the job id. create_job
+// saves both in one transaction, so a failed contact leaves no job behind.
+export async function createJob(d: JobDraft): Promise<string> {
+  const contact = contactChange(d);
+  const { data, error } = await supabase.rpc("create_job", {
+    p_job: { ...draftColumns(d), ...(contact.kind === "save" ? contact.contact : {}) },
+  });
+  if (error) throw error;
+  const r = data as { ok: boolean; reason: "forbidden" | null; job_id: string | null };
+  if (!r.ok) throw new Error("You need admin access to create jobs.");
+  return r.job_id!;
+}
+
+// Save the form to jobId. ids: the series jobs in the chosen scope (jobId among them),
+// which get every field but the date; the contact goes to all of them.
+export async function updateJob(jobId: string, ids: string[], d: JobDraft): Promise<void> {
+  const columns = draftColumns(d);
+  if (ids.length > 1) {
+    const { date: _date, ...shared } = columns;
+    const { error } = await supabase.from("jobs").update(shared).in("id", ids);
+    if (error) throw error;
+  }
+  const { error } = await supabase.from("jobs").update(columns).eq("id", jobId);
+  if (error) throw error;
+}
+
+// Apply a contactChange to every job in ids: upsert the contact, or delete it when the
+// form's customer fields were cleared (or the jobs never had one)
+export async function saveContacts(ids: string[], change: ContactChange): Promise<void> {
+  const { error } = change.kind === "clear"
+    ? await supabase.from("job_contacts").delete().in("job_id", ids)
+    : await supabase
+      .from("job_contacts")
+      .upsert(ids.map((id) => ({ job_id: id, ...change.contact })), { onConflict: "job_id" });
+  if (error) throw error;
+}
@@ -1,9 +1,20 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import BookingPage from "./BookingPage";
+
+// /book is the public booking form; everything else is the signed-in app
+const isBooking = window.location.pathname.replace(/\/+$/, "") === "/book";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <App />
+    {isBooking ? <BookingPage /> : <App />}
   </React.StrictMode>
 );
+
+// Installable, and opens with no signal (public/sw.js). Not in dev, where it would cache Vite's modules.
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(() => {});
+  });
+}
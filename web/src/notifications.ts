@@ -0,0 +1,77 @@
+// notifications.ts — the guide's notification channels, browser push subscription,
+// and recent outbox rows. Delivery itself is supabase/tools/notify.ts.
+
+import { supabase } from "./supabase";
+import type { NotificationPrefs, QueuedNotification } from "./types";
+
+export const DEFAULT_PREFS: Omit<NotificationPrefs, "guide_id"> = { email: true, sms: false, push: false, phone: null };
+
+export async function loadNotificationPrefs(guideId: string): Promise<NotificationPrefs> {
+  const { data, error } = await supabase
+    .from("notification_prefs")
+    .select("guide_id,email,sms,push,phone")
+    .eq("guide_id", guideId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as NotificationPrefs) || { guide_id: guideId, ...DEFAULT_PREFS };
+}
+
+export async function saveNotificationPrefs(p: NotificationPrefs) {
+  const { error } = await supabase
+    .from("notification_prefs")
+    .upsert({ ...p, updated_at: new Date().toISOString() }, { onConflict: "guide_id" });
+  if (error) throw error;
+}
+
+export async function loadRecentNotifications(guideId: string, limit = 20): Promise<QueuedNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id,job_id,kind,channel,subject,status,attempts,last_error,sent_at,created_at")
+    .eq("guide_id", guideId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as QueuedNotification[]) || [];
+}
+
+// --- Web push ---------------------------------------------------------------
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export function pushSupported(): boolean {
+  return !!VAPID_PUBLIC_KEY && "serviceWorker" in navigator && "PushManager" in window;
+}
+
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+// Ask the browser for a subscription and store it for this guide
+export async function subscribeToPush(guideId: string) {
+  if (!pushSupported()) throw new Error("Push notifications aren't available in this browser.");
+  if ((await Notification.requestPermission()) !== "granted") throw new Error("Notifications are blocked for this site.");
+  const reg = await navigator.serviceWorker.register("/sw.js");
+  await navigator.serviceWorker.ready;
+  const sub = (await reg.pushManager.getSubscription())
+    || (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!) }));
+  const json = sub.toJSON();
+  const { error } = await supabase.from("push_subscriptions").upsert({
+    guide_id: guideId,
+    endpoint: sub.endpoint,
+    p256dh: json.keys?.p256dh,
+    auth: json.keys?.auth,
+  }, { onConflict: "endpoint" });
+  if (error) throw error;
+}
+
+// Forget this browser's subscription (other devices keep theirs)
+export async function unsubscribeFromPush() {
+  if (!("serviceWorker" in navigator)) return;
+  const reg = await navigator.serviceWorker.getRegistration("/sw.js");
+  const sub = await reg?.pushManager.getSubscription();
+  if (!sub) return;
+  const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", sub.endpoint);
+  if (error) throw error;
+  await sub.unsubscribe();
+}
@@ -0,0 +1,147 @@
+// offline.ts — what a guide needs at the harbor with no signal. A copy of My Jobs
+// (customer contacts included) and their profile live in IndexedDB. Actions taken
+// offline are queued there too and replayed in order once the connection is back,
+// each checked against the server's copy of the job first.
+//
+// Only "Mark complete" is queued. Claiming stays online-only: a claim counts once the
+// server has accepted it, so there's nothing meaningful to promise offline.
+
+import type { Job, Profile } from "./types";
+import type { Completion } from "./diveLogs";
+import * as jobRpc from "./jobRpc";
+import { fetchJobs } from "./jobStore";
+import { lateDetail, replayConflict } from "./offlineReplay";
+
+const DB_NAME = "dive-guide-claim";
+const DB_VERSION = 1;
+const KV = "kv";        // snapshot:<guideId>, profile:<guideId>
+const QUEUE = "queue";  // QueuedAction, auto-increment id = replay order
+
+export type Snapshot = { guideId: string; jobs: Job[]; syncedAt: string };
+
+export type QueuedAction = {
+  id?: number;
+  kind: "complete";
+  jobId: string;
+  guideId: string;
+  title: string;      // for messages, the job may be gone by replay time
+  completion?: Completion; // the dive log and incident report filled in offline
+  queuedAt: string;
+};
+
+export type ReplayOutcome = {
+  action: QueuedAction;
+  result: "done" | "late" | "skipped" | "failed"; // late = a crewmate completed it first
+  detail: string;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ||= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(KV)) db.createObjectStore(KV);
+      if (!db.objectStoreNames.contains(QUEUE)) db.createObjectStore(QUEUE, { keyPath: "id", autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(store, mode).objectStore(store));
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Fetch failed because we couldn't reach the server (as opposed to the server saying no)
+export function isNetworkError(e: any): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const text = String(e?.message || e || "");
+  return e instanceof TypeError || /failed to fetch|network|load failed/i.test(text);
+}
+
+// ---- Cached data ----
+
+export function saveSnapshot(guideId: string, jobs: Job[], syncedAt: string) {
+  return run<IDBValidKey>(KV, "readwrite", (s) => s.put({ guideId, jobs, syncedAt } satisfies Snapshot, `snapshot:${guideId}`));
+}
+
+export async function loadSnapshot(guideId: string): Promise<Snapshot | null> {
+  return (await run<Snapshot | undefined>(KV, "readonly", (s) => s.get(`snapshot:${guideId}`))) || null;
+}
+
+export function saveCachedProfile(p: Profile) {
+  return run<IDBValidKey>(KV, "readwrite", (s) => s.put(p, `profile:${p.id}`));
+}
+
+export async function loadCachedProfile(guideId: string): Promise<Profile | null> {
+  return (await run<Profile | undefined>(KV, "readonly", (s) => s.get(`profile:${guideId}`))) || null;
+}
+
+// Sign-out: customer contacts shouldn't outlive the session on a shared device
+export async function clearOfflineData() {
+  await run<undefined>(KV, "readwrite", (s) => s.clear());
+  await run<undefined>(QUEUE, "readwrite", (s) => s.clear());
+}
+
+// ---- Queue ----
+
+export function queueAction(a: Omit<QueuedAction, "id">) {
+  return run<IDBValidKey>(QUEUE, "readwrite", (s) => s.add(a));
+}
+
+export async function loadQueue(guideId: string): Promise<QueuedAction[]> {
+  const all = await run<QueuedAction[]>(QUEUE, "readonly", (s) => s.getAll());
+  return all.filter((a) => a.guideId === guideId);
+}
+
+function removeAction(id: number) {
+  return run<undefined>(QUEUE, "readwrite", (s) => s.delete(id));
+}
+
+let replaying = false; // "online", realtime reconnect and tab focus can all fire at once
+
+// Replay in order. Stops at the first network failure, leaving the rest queued;
+// everything else (sent, no longer applicable, refused) leaves the queue.
+export async function replayQueue(guideId: string): Promise<ReplayOutcome[]> {
+  if (replaying) return [];
+  replaying = true;
+  try {
+    return await replay(guideId);
+  } finally {
+    replaying = false;
+  }
+}
+
+async function replay(guideId: string): Promise<ReplayOutcome[]> {
+  const outcomes: ReplayOutcome[] = [];
+  for (const a of await loadQueue(guideId)) {
+    try {
+      const [job] = await fetchJobs([a.jobId]);
+      const why = replayConflict(a, job);
+      if (why) {
+        outcomes.push({ action: a, result: "skipped", detail: why });
+      } else {
+        const r = await jobRpc.completeJob(a.jobId, a.completion);
+        outcomes.push(!r.ok ? { action: a, result: "failed", detail: jobRpc.reasonMessage(r) }
+          : r.already_complete ? { action: a, result: "late", detail: lateDetail(a.completion, !!r.dive_log_kept) }
+          : { action: a, result: "done", detail: "" });
+      }
+    } catch (e: any) {
+      if (isNetworkError(e)) break;
+      outcomes.push({ action: a, result: "failed", detail: e?.message || "Something went wrong." });
+    }
+    await removeAction(a.id!);
+  }
+  return outcomes;
+}
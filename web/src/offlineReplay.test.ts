@@ -0,0 +1,58 @@
+// offlineReplay.test.ts — what becomes of a queued "Mark complete" once the app is back online
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Job } from "./types";
+import type { QueuedAction } from "./offline";
+import type { Completion } from "./diveLogs";
+import { lateDetail, replayConflict, replayMessage } from "./offlineReplay";
+
+const log: Completion["log"] = { max_depth_m: 18, bottom_time_min: 40, gas: "air", diver_count: 4, had_incident: true };
+const incident: Completion["incident"] = {
+  kind: "near_miss", severity: "minor", people_involved: "Pat", actions_taken: "Surfaced together", description: "",
+};
+
+function action(completion?: Completion): QueuedAction {
+  return { id: 1, kind: "complete", jobId: "j1", guideId: "g1", title: "Reef", completion, queuedAt: "2031-06-02T10:00:00Z" };
+}
+
+function job(status: Job["status"], crew = ["g1"]): Job {
+  return { id: "j1", status, crew: crew.map((guide_id) => ({ guide_id, full_name: null, claimed_at: "" })) } as Job;
+}
+
+test("an open job on this guide's crew is completed", () => {
+  assert.equal(replayConflict(action(), job("assigned")), null);
+});
+
+test("a job a crewmate completed meanwhile still gets the dive log and incident report", () => {
+  assert.equal(replayConflict(action({ log, incident }), job("complete")), null);
+  assert.equal(replayConflict(action({ log: null, incident }), job("complete")), null);
+  assert.equal(replayConflict(action({ log: null, incident: null }), job("complete")), "it was already marked complete");
+  assert.equal(replayConflict(action(), job("complete")), "it was already marked complete");
+});
+
+test("gone, canceled, or off the crew: skipped", () => {
+  assert.equal(replayConflict(action({ log, incident }), undefined), "you can no longer see this job");
+  assert.equal(replayConflict(action({ log, incident }), job("canceled")), "it was canceled");
+  assert.equal(replayConflict(action({ log, incident }), job("assigned", ["g2"])), "you're no longer on this job");
+});
+
+test("the guide hears what happened to the log and the report", () => {
+  assert.equal(lateDetail({ log, incident }, false), "your dive log was added and your incident report went to the admins");
+  assert.equal(lateDetail({ log, incident: null }, true), "the dive log already filed was kept");
+
+  const a = action({ log, incident });
+  assert.equal(
+    replayMessage([{ action: a, result: "late", detail: lateDetail(a.completion, true) }]),
+    "✅ Reef was already marked complete; the dive log already filed was kept and your incident report went to the admins."
+  );
+  assert.equal(
+    replayMessage([{ action: a, result: "skipped", detail: "it was canceled" }]),
+    "↩️ Not marked complete: Reef (it was canceled). Your dive log and incident report weren't sent: give them to an admin."
+  );
+  assert.equal(
+    replayMessage([{ action: action({ log: null, incident }), result: "failed", detail: "This job no longer exists." }]),
+    "❌ Couldn't mark complete: Reef. This job no longer exists. Your incident report wasn't sent: give it to an admin."
+  );
+  assert.equal(replayMessage([{ action: action(), result: "done", detail: "" }]), "✅ Marked complete: Reef.");
+});
@@ -0,0 +1,50 @@
+// offlineReplay.ts — the decisions behind replaying the offline queue (offline.ts), kept
+// apart from IndexedDB and the network so they can be tested: whether a queued "Mark
+// complete" still goes out, and what the guide is told afterwards.
+
+import type { Job } from "./types";
+import type { Completion } from "./diveLogs";
+import type { QueuedAction, ReplayOutcome } from "./offline";
+
+// What the server's copy of the job says about replaying the action; null = go ahead.
+// A job a crewmate completed meanwhile still gets this guide's dive log and incident
+// report: complete_job_v2 files them and leaves the job as it is.
+export function replayConflict(a: QueuedAction, job: Job | undefined): string | null {
+  if (!job) return "you can no longer see this job";
+  if (!job.crew?.some((g) => g.guide_id === a.guideId)) return "you're no longer on this job";
+  if (job.status === "canceled") return "it was canceled";
+  if (job.status === "complete" && !queuedReports(a.completion)) return "it was already marked complete";
+  return null;
+}
+
+// "dive log", "incident report", both, or null when the completion carries neither
+function queuedReports(c: Completion | undefined): string | null {
+  const parts = [c?.log && "dive log", c?.incident && "incident report"].filter(Boolean);
+  return parts.length ? parts.join(" and ") : null;
+}
+
+// A late completion (the job was already complete): what happened to what it carried
+export function lateDetail(c: Completion | undefined, logKept: boolean): string {
+  return [
+    c?.log && (logKept ? "the dive log already filed was kept" : "your dive log was added"),
+    c?.incident && "your incident report went to the admins",
+  ].filter(Boolean).join(" and ");
+}
+
+// Anything not sent is named, so it can be passed on another way
+function unsent(a: QueuedAction): string {
+  const what = queuedReports(a.completion);
+  if (!what) return "";
+  const both = what.includes(" and ");
+  return ` Your ${what} ${both ? "weren't" : "wasn't"} sent: give ${both ? "them" : "it"} to an admin.`;
+}
+
+export function replayMessage(outcomes: ReplayOutcome[]): string {
+  return outcomes
+    .map((o) =>
+      o.result === "done" ? `✅ Marked complete: ${o.action.title}.`
+      : o.result === "late" ? `✅ ${o.action.title} was already marked complete${o.detail ? `; ${o.detail}` : ""}.`
+      : o.result === "skipped" ? `↩️ Not marked complete: ${o.action.title} (${o.detail}).${unsent(o.action)}`
+      : `❌ Couldn't mark complete: ${o.action.title}. ${o.detail}${unsent(o.action)}`)
+    .join(" ");
+}
@@ -0,0 +1,128 @@
+// payroll.ts — pay ledger (public.pay_entries) and paid periods (public.pay_periods)
+// 'job' lines are written by the DB when a job is completed; admins add the adjustments.
+
+import { supabase } from "./supabase";
+import { toCsv } from "./csv";
+import type { PayEntry, PayKind, PayPeriod } from "./types";
+
+export const PAY_KINDS: Record<PayKind, string> = {
+  job: "Job",
+  tip: "Tip",
+  cancellation_fee: "Cancellation fee",
+  mileage: "Mileage",
+  other: "Other",
+};
+
+const ENTRY_COLUMNS = "id,guide_id,job_id,kind,amount,work_date,note,period_id,created_at, jobs(title)";
+
+// A guide's own ledger, newest first
+export async function loadMyPayEntries(guideId: string): Promise<PayEntry[]> {
+  const { data, error } = await supabase
+    .from("pay_entries")
+    .select(ENTRY_COLUMNS)
+    .eq("guide_id", guideId)
+    .order("work_date", { ascending: false })
+    .limit(500);
+  if (error) throw error;
+  return (data as unknown as PayEntry[]) || [];
+}
+
+export async function loadPayPeriods(): Promise<PayPeriod[]> {
+  const { data, error } = await supabase
+    .from("pay_periods")
+    .select("id,starts_on,ends_on,paid_at,paid_by")
+    .order("starts_on", { ascending: false });
+  if (error) throw error;
+  return (data as PayPeriod[]) || [];
+}
+
+// Admin: a paid period's entries, or (period = null) everything still pending up to endsOn
+export async function loadPayReport(period: PayPeriod | null, endsOn: string): Promise<PayEntry[]> {
+  let q = supabase
+    .from("pay_entries")
+    .select(`${ENTRY_COLUMNS}, profiles!pay_entries_guide_id_fkey(full_name)`)
+    .order("work_date");
+  q = period ? q.eq("period_id", period.id) : q.is("period_id", null).lte("work_date", endsOn);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data as unknown as PayEntry[]) || [];
+}
+
+export async function addAdjustment(a: Pick<PayEntry, "guide_id" | "kind" | "amount" | "work_date" | "note">) {
+  const { error } = await supabase.from("pay_entries").insert(a);
+  if (error) throw error;
+}
+
+export async function deleteAdjustment(id: number) {
+  const { error } = await supabase.from("pay_entries").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export type PayrollResult = {
+  ok: boolean;
+  reason: "forbidden" | "invalid_range" | "period_overlaps" | null;
+  period?: PayPeriod;
+  entries?: number;
+  total?: number;
+};
+
+export async function markPeriodPaid(from: string, to: string): Promise<PayrollResult> {
+  const { data, error } = await supabase.rpc("mark_period_paid", { p_starts_on: from, p_ends_on: to });
+  if (error) throw error;
+  return data as PayrollResult;
+}
+
+export function payrollMessage(r: PayrollResult): string {
+  switch (r.reason) {
+    case "forbidden": return "You don't have permission to do that.";
+    case "invalid_range": return "The period has to end on or after its start.";
+    case "period_overlaps": return "That period overlaps one that's already paid.";
+    default: return "Something went wrong.";
+  }
+}
+
+export type GuidePay = {
+  guide_id: string;
+  name: string;
+  jobs: number;
+  jobPay: number;
+  adjustments: number;
+  total: number;
+  entries: PayEntry[];
+};
+
+// Report rows per guide, by name
+export function summarizeByGuide(entries: PayEntry[]): GuidePay[] {
+  const byGuide: Record<string, GuidePay> = {};
+  for (const e of entries) {
+    const g = byGuide[e.guide_id] || (byGuide[e.guide_id] = {
+      guide_id: e.guide_id,
+      name: e.profiles?.full_name || e.guide_id.slice(0, 8),
+      jobs: 0, jobPay: 0, adjustments: 0, total: 0, entries: [],
+    });
+    const amount = Number(e.amount);
+    if (e.kind === "job") {
+      g.jobs += 1;
+      g.jobPay += amount;
+    } else {
+      g.adjustments += amount;
+    }
+    g.total += amount;
+    g.entries.push(e);
+  }
+  return Object.values(byGuide).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function money(n: number): string {
+  return `${n < 0 ? "-" : ""}$${Math.abs(n).toFixed(2)}`;
+}
+
+// One line per entry, so the file can be totalled or pivoted in a spreadsheet
+export function payrollCsv(entries: PayEntry[]): string {
+  return toCsv([
+    ["guide", "date", "kind", "job", "note", "amount"],
+    ...entries.map((e) => [
+      e.profiles?.full_name || e.guide_id, e.work_date, PAY_KINDS[e.kind], e.jobs?.title, e.note, Number(e.amount).toFixed(2),
+    ]),
+  ]);
+}
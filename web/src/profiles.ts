@@ -0,0 +1,57 @@
+// profiles.ts — profile lookups: the signed-in user's own, guide pickers and names
+
+import { supabase } from "./supabase";
+import type { Profile } from "./types";
+
+// userId -> display name; ids the caller can't read (RLS) are simply absent
+export async function loadProfileNames(ids: string[]): Promise<Record<string, string>> {
+  if (!ids.length) return {};
+  const { data, error } = await supabase.from("profiles").select("id, full_name").in("id", ids);
+  if (error || !data) return {};
+  const names: Record<string, string> = {};
+  for (const p of data as { id: string; full_name: string | null }[]) names[p.id] = p.full_name || "(no name)";
+  return names;
+}
+
+export async function loadProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, full_name, role, is_active")
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as Profile | null;
+}
+
+// Straight from the database, not the profile in memory (which may be the offline copy)
+export async function isActiveAdmin(userId: string): Promise<boolean> {
+  const { data } = await supabase.from("profiles").select("role, is_active").eq("id", userId).maybeSingle();
+  return data?.role === "admin" && data.is_active;
+}
+
+// Guides who can take work, for the assign, filter and payroll pickers
+export async function loadActiveGuides(): Promise<Profile[]> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, full_name, role, is_active")
+    .eq("role", "guide")
+    .eq("is_active", true)
+    .order("full_name", { nullsFirst: true, ascending: true });
+  if (error) throw error;
+  return (data as Profile[]) || [];
+}
+
+// Everyone, for pickers that include admins (the audit log's person filter)
+export async function loadAllProfiles(): Promise<Profile[]> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, full_name, role, is_active")
+    .order("full_name", { nullsFirst: true, ascending: true });
+  if (error) throw error;
+  return (data as Profile[]) || [];
+}
+
+export async function saveFullName(userId: string, fullName: string | null) {
+  const { error } = await supabase.from("profiles").update({ full_name: fullName }).eq("id", userId);
+  if (error) throw error;
+}
@@ -0,0 +1,91 @@
+// router.ts — client-side routes: each screen has a path, and /jobs/:id opens a job's
+// Details over the list it was opened from, so any screen or job can be linked to.
+// Plain History API; the host serves index.html for every path (see README).
+// /book (the public booking form) is outside the signed-in app, in main.tsx.
+
+import { useSyncExternalStore } from "react";
+
+export type Screen =
+  | "open" | "my" | "calendar" | "earnings" | "profile"
+  | "all" | "create" | "certs" | "audit" | "templates" | "import" | "bookings"
+  | "users" | "boats" | "drops" | "payroll" | "incidents" | "settings";
+
+// Tab order; admin screens are only listed (and only open) for admins
+export const SCREENS: { screen: Screen; path: string; label: string; admin?: boolean }[] = [
+  { screen: "open", path: "/", label: "Open Jobs" },
+  { screen: "my", path: "/my", label: "My Jobs" },
+  { screen: "calendar", path: "/calendar", label: "Calendar" },
+  { screen: "earnings", path: "/earnings", label: "Earnings" },
+  { screen: "all", path: "/admin/jobs", label: "All Jobs (admin)", admin: true },
+  { screen: "create", path: "/admin/create", label: "Create Job", admin: true },
+  { screen: "certs", path: "/admin/certs", label: "Certs (admin)", admin: true },
+  { screen: "audit", path: "/admin/audit", label: "Audit (admin)", admin: true },
+  { screen: "templates", path: "/admin/templates", label: "Templates (admin)", admin: true },
+  { screen: "import", path: "/admin/import", label: "Import (admin)", admin: true },
+  { screen: "bookings", path: "/admin/bookings", label: "Bookings (admin)", admin: true },
+  { screen: "users", path: "/admin/users", label: "Users (admin)", admin: true },
+  { screen: "boats", path: "/admin/boats", label: "Boats (admin)", admin: true },
+  { screen: "drops", path: "/admin/drops", label: "Drops (admin)", admin: true },
+  { screen: "payroll", path: "/admin/payroll", label: "Payroll (admin)", admin: true },
+  { screen: "incidents", path: "/admin/incidents", label: "Incidents (admin)", admin: true },
+  { screen: "settings", path: "/admin/settings", label: "Settings (admin)", admin: true },
+  { screen: "profile", path: "/profile", label: "Profile" },
+];
+
+// screen null: a job's Details (jobId set) over whichever list was showing;
+// unknown paths land on Open Jobs
+export type Route = { screen: Screen | null; jobId: string | null };
+
+export function parseRoute(pathname: string, search = ""): Route {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  const job = path.match(/^\/jobs\/([0-9a-f-]{36})$/i);
+  if (job) return { screen: null, jobId: job[1].toLowerCase() };
+  const screen = SCREENS.find((s) => s.path === path)?.screen ?? "open";
+  // links from before routing: /?tab=all
+  if (screen === "open" && new URLSearchParams(search).get("tab") === "all") return { screen: "all", jobId: null };
+  return { screen, jobId: null };
+}
+
+export function screenPath(screen: Screen): string {
+  return SCREENS.find((s) => s.screen === screen)?.path ?? "/";
+}
+
+export function jobPath(jobId: string): string {
+  return `/jobs/${jobId}`;
+}
+
+export function isAdminScreen(screen: Screen): boolean {
+  return !!SCREENS.find((s) => s.screen === screen)?.admin;
+}
+
+const CHANGE = "routechange";
+
+// inApp marks entries pushed by the app itself, so closing Details can go back to the
+// list (and its filters) instead of adding another entry
+export function navigate(to: string, { replace = false } = {}) {
+  if (to === window.location.pathname + window.location.search) return;
+  if (replace) window.history.replaceState(window.history.state, "", to);
+  else window.history.pushState({ inApp: true }, "", to);
+  window.dispatchEvent(new Event(CHANGE));
+}
+
+// Back to where the app was before, if it was the app; otherwise to `fallback`
+export function goBack(fallback: string) {
+  if (window.history.state?.inApp) window.history.back();
+  else navigate(fallback, { replace: true });
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(CHANGE, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(CHANGE, onChange);
+  };
+}
+
+// The path, re-read on every navigation (query-string-only changes don't re-render)
+export function useRoute(): Route {
+  const path = useSyncExternalStore(subscribe, () => window.location.pathname);
+  return parseRoute(path, window.location.search);
+}
@@ -0,0 +1,25 @@
+// settings.ts — app-wide settings (public.app_settings, one row; admins update it)
+
+import { supabase } from "./supabase";
+import type { AppSettings } from "./types";
+
+export async function loadSettings(): Promise<AppSettings> {
+  const { data, error } = await supabase.from("app_settings").select("*").single();
+  if (error) throw error;
+  return data as AppSettings;
+}
+
+export async function saveSettings(patch: Partial<Omit<AppSettings, "updated_at">>) {
+  const { error } = await supabase
+    .from("app_settings")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", true);
+  if (error) throw error;
+}
+
+// Postgres interval text ("08:00:00", "1 day 02:30:00") -> hours
+export function intervalHours(v: string): number {
+  const days = Number(/(-?\d+) days?/.exec(v)?.[1] || 0);
+  const [h = 0, m = 0, s = 0] = (/(-?\d+):(\d+)(?::(\d+))?/.exec(v)?.slice(1) || []).map(Number);
+  return days * 24 + h + m / 60 + s / 3600;
+}
@@ -0,0 +1,37 @@
+// standby.ts — reads of the standby queue (public.job_standby); writes go through jobRpc
+
+import { supabase } from "./supabase";
+import type { StandbyEntry } from "./types";
+
+// Admin: everyone waiting on a job, in order
+export async function loadStandby(jobId: string): Promise<StandbyEntry[]> {
+  const { data, error } = await supabase
+    .from("job_standby")
+    .select("job_id,guide_id,position,offer_expires_at,created_at, profiles(full_name)")
+    .eq("job_id", jobId)
+    .order("position");
+  if (error) throw error;
+  return (data as unknown as StandbyEntry[]) || [];
+}
+
+// A guide's own places in line, with the jobs
+export async function loadMyStandby(guideId: string): Promise<StandbyEntry[]> {
+  const { data, error } = await supabase
+    .from("job_standby")
+    .select("job_id,guide_id,position,offer_expires_at,created_at, jobs(id,title,date,call_time,dock_time,location,pay,status,claimed_by,requirements,slots,boat_id, boats(name))")
+    .eq("guide_id", guideId)
+    .order("created_at");
+  if (error) throw error;
+  return (data as unknown as StandbyEntry[]) || [];
+}
+
+// A freed slot is being held for this guide right now
+export function hasOffer(e: StandbyEntry): boolean {
+  return !!e.offer_expires_at && new Date(e.offer_expires_at).getTime() > Date.now();
+}
+
+export function offerDeadline(e: StandbyEntry): string {
+  return e.offer_expires_at
+    ? new Date(e.offer_expires_at).toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" })
+    : "";
+}
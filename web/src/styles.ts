@@ -0,0 +1,21 @@
+// Shared inline styles for every screen
+import type { CSSProperties } from "react";
+
+export const styles = {
+  wrap: { padding: 16, maxWidth: 860, margin: "0 auto", fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif" },
+  header: { display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 16 },
+  h1: { fontSize: 24, fontWeight: 700 },
+  subtle: { opacity: 0.8, fontSize: 14 },
+  tabs: { display: "flex", gap: 8, marginBottom: 12, flexWrap: "wrap" },
+  tabBtn: { padding: "8px 12px", border: "1px solid #ddd", borderRadius: 10, background: "#fff", cursor: "pointer" },
+  tabActive: { background: "#f4f4f5", borderColor: "#bbb", fontWeight: 600 },
+  card: { border: "1px solid #ddd", borderRadius: 12, padding: 12, background: "#fff" },
+  ghostBtn: { padding: "8px 10px", border: "1px solid #ddd", borderRadius: 10, background: "#fff", cursor: "pointer" },
+  primaryBtn: { padding: "8px 12px", border: "1px solid #0a7", borderRadius: 10, background: "#eafff6", cursor: "pointer" },
+  primaryBtnFull: { padding: "10px 12px", border: "1px solid #0a7", borderRadius: 10, background: "#eafff6", cursor: "pointer", width: "100%" },
+  label: { display: "grid", gap: 6, fontSize: 14 },
+  input: { border: "1px solid #ccc", borderRadius: 8, padding: 10, width: "100%" },
+  modalOverlay: { position: "fixed", inset: 0, background: "rgba(0,0,0,0.35)", display: "grid", placeItems: "center", padding: 16, zIndex: 50, overflowY: "auto" },
+  modal: { width: "min(680px, 95vw)", background: "#fff", borderRadius: 12, padding: 14, boxShadow: "0 10px 30px rgba(0,0,0,0.2)", maxHeight: "90vh", overflowY: "auto", overscrollBehavior: "contain", WebkitOverflowScrolling: "touch" },
+  dangerBtn: { padding: "8px 12px", border: "1px solid #b91c1c", borderRadius: 10, background: "#fee2e2", cursor: "pointer" },
+} satisfies Record<string, CSSProperties>;
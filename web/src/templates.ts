@@ -0,0 +1,85 @@
+// templates.ts — job templates and recurring series (supabase/migrations/0010_job_templates.sql)
+
+import { supabase } from "./supabase";
+import type { JobTemplate, SeriesPreviewDay, SeriesScope } from "./types";
+
+// ISO weekdays, as stored in job_series.weekdays
+export const WEEKDAYS: { iso: number; label: string }[] = [
+  { iso: 1, label: "Mon" }, { iso: 2, label: "Tue" }, { iso: 3, label: "Wed" }, { iso: 4, label: "Thu" },
+  { iso: 5, label: "Fri" }, { iso: 6, label: "Sat" }, { iso: 7, label: "Sun" },
+];
+
+export const SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: "This job only",
+  future: "This and future jobs in the series",
+  all: "All open jobs in the series",
+};
+
+export async function loadTemplates(): Promise<JobTemplate[]> {
+  const { data, error } = await supabase.from("job_templates").select("*").order("name");
+  if (error) throw error;
+  return (data as JobTemplate[]) || [];
+}
+
+// Insert when t.id is missing, otherwise update
+export async function saveTemplate(t: Omit<JobTemplate, "id"> & { id?: string }): Promise<JobTemplate> {
+  const { data, error } = t.id
+    ? await supabase.from("job_templates").update(t).eq("id", t.id).select("*").single()
+    : await supabase.from("job_templates").insert(t).select("*").single();
+  if (error) throw error;
+  return data as JobTemplate;
+}
+
+export async function deleteTemplate(id: string) {
+  const { error } = await supabase.from("job_templates").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function previewSeries(templateId: string, weekdays: number[], from: string, to: string): Promise<SeriesPreviewDay[]> {
+  const { data, error } = await supabase.rpc("preview_series_jobs", {
+    p_template_id: templateId, p_weekdays: weekdays, p_starts_on: from, p_ends_on: to,
+  });
+  if (error) throw error;
+  return (data as SeriesPreviewDay[]) || [];
+}
+
+export type SeriesResult = {
+  ok: boolean;
+  reason: "forbidden" | "not_found" | "invalid_rule" | "invalid_scope" | null;
+  series_id?: string;
+  created?: number;
+  skipped?: number;
+  canceled?: number;
+};
+
+export async function generateSeries(templateId: string, weekdays: number[], from: string, to: string): Promise<SeriesResult> {
+  const { data, error } = await supabase.rpc("generate_series_jobs", {
+    p_template_id: templateId, p_weekdays: weekdays, p_starts_on: from, p_ends_on: to,
+  });
+  if (error) throw error;
+  return data as SeriesResult;
+}
+
+export async function cancelSeries(jobId: string, scope: SeriesScope): Promise<SeriesResult> {
+  const { data, error } = await supabase.rpc("cancel_series_jobs", { p_job_id: jobId, p_scope: scope });
+  if (error) throw error;
+  return data as SeriesResult;
+}
+
+// Ids of the open/assigned jobs an edit with this scope covers (always includes jobId)
+export async function seriesJobIds(jobId: string, scope: SeriesScope): Promise<string[]> {
+  if (scope === "this") return [jobId];
+  const { data, error } = await supabase.rpc("series_scope_jobs", { p_job_id: jobId, p_scope: scope });
+  if (error) throw error;
+  return ((data as string[]) || []);
+}
+
+export function seriesMessage(r: SeriesResult): string {
+  switch (r.reason) {
+    case "forbidden": return "You don't have permission to do that.";
+    case "not_found": return "That template or job no longer exists.";
+    case "invalid_rule": return "Pick at least one weekday and an end date after the start.";
+    case "invalid_scope": return "Unknown series scope.";
+    default: return "Something went wrong.";
+  }
+}
@@ -0,0 +1,270 @@
+// Row shapes shared by the screens. Table rows come from database.types.ts (generated
+// from the migrations: `npm run gen:types` in supabase/); the rest are RPC results and
+// jsonb payloads the generator only knows as Json.
+
+import type { Database, Enums, Json, Tables } from "./database.types";
+import type { JobRow } from "./jobs";
+
+export type JobContact = Pick<Tables<"job_contacts">, "customer_name" | "customer_phone" | "customer_email">;
+
+export type JobStatus = Enums<"job_status">;
+
+// A job as every list and the Details modal load it (jobs.JOB_SELECT). Dates are
+// YYYY-MM-DD, times HH:MM[:SS]; a dock_time earlier than call_time means back after
+// midnight. job_contacts is null unless the caller is an admin or on the crew (RLS).
+export type Job = Omit<JobRow, "my_unavailability"> & {
+  my_unavailability: Unavailability | null; // computed column: why I can't work it (null = I can)
+  crew?: JobGuide[];                        // guides on the job, attached client-side (jobRpc.withCrew)
+};
+
+// One filled slot on a job (claims row + the guide's name)
+export type JobGuide = {
+  guide_id: string;
+  full_name: string | null;
+  claimed_at: string;
+};
+
+// profiles.role is text with a check constraint, so the generated type is just string
+export type Role = "admin" | "guide";
+
+// is_active false = deactivated: can't take jobs, hidden from guide lists
+export type Profile = Pick<Tables<"profiles">, "id" | "full_name" | "is_active"> & { role: Role };
+
+// A message in a job's thread, with its author (job_thread(), 0022_job_messages.sql)
+export type JobMessage = Database["public"]["Functions"]["job_thread"]["Returns"][number];
+
+// One guide's post-trip report on a job
+export type JobReport = Tables<"job_reports">;
+
+// The dive log filed when the job was completed (0023_dive_logs.sql)
+export type DiveLog = Tables<"dive_logs">;
+
+// An incident report from a completed job, with its review (admins only)
+export type Incident = Tables<"incidents">;
+export type IncidentKind = "injury" | "dci_suspected" | "equipment_failure" | "out_of_air" | "lost_diver" | "near_miss" | "other";
+export type IncidentSeverity = "minor" | "moderate" | "serious" | "critical";
+export type IncidentStatus = "open" | "in_review" | "closed";
+
+// A guide's certification; card_path is the object path in the "cert-cards" bucket
+export type GuideCert = Tables<"guide_certs">;
+
+export type JobEventAction =
+  | "created" | "claimed" | "assigned" | "reassigned" | "unclaimed"
+  | "completed" | "canceled" | "status_changed" | "edited"
+  | "offered" | "offer_expired"
+  | "drop_requested" | "drop_approved" | "drop_denied";
+
+// Edits: { column: { old, new } }; otherwise extra context (note, schedule_override, …)
+export type JobEventDetails = { [key: string]: Json | undefined };
+
+export type JobEvent = Omit<Tables<"job_events">, "action" | "details"> & {
+  action: JobEventAction;
+  details: JobEventDetails | null;
+  jobs?: { title: string; date: string } | null; // embedded in the audit view
+};
+
+// A job that overlaps the one being claimed/assigned (schedule_conflict results)
+export type ScheduleConflict = {
+  id: string;
+  title: string;
+  date: string;
+  call_time: string;
+  dock_time: string | null;
+};
+
+// public.app_settings (single row). Intervals are Postgres text, e.g. "08:00:00";
+// unclaim_cutoff is before call time, inside it an unclaim becomes a drop request;
+// time_zone is the IANA zone call times are in.
+export type AppSettings = Omit<Tables<"app_settings">, "id">;
+
+// public.job_standby: a guide's place in line for a full job. position 1 = next in
+// line; offer_expires_at is set while a freed slot is held for this guide.
+export type StandbyEntry = Tables<"job_standby"> & {
+  profiles?: { full_name: string | null } | null; // embedded in the admin queue
+  jobs?: Job | null;                              // embedded in My Jobs
+};
+
+// public.drop_requests: a guide asking off a job inside the unclaim cutoff. status is
+// text with a check constraint, like profiles.role.
+export type DropRequest = Omit<Tables<"drop_requests">, "status"> & {
+  status: "pending" | "approved" | "denied" | "withdrawn";
+  jobs?: Job | null;                              // embedded in the admin list
+  profiles?: { full_name: string | null } | null; // the guide, embedded in the admin list
+};
+
+// public.job_templates: saved Create Job values (admin only)
+export type JobTemplate = {
+  id: string;
+  name: string;
+  title: string;
+  call_time: string;
+  dock_time: string | null;
+  location: string | null;
+  boat: string | null;      // legacy free text; boat_id is used now
+  boat_id: string | null;
+  requirements: string[] | null;
+  pay: number | null;
+  slots: number;
+  notes: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  customer_email: string | null;
+};
+
+// Which jobs of a series an edit/cancel covers
+export type SeriesScope = "this" | "future" | "all";
+
+// One day preview_series_jobs would create (existing_job_id set = skipped)
+export type SeriesPreviewDay = {
+  date: string;
+  title: string;
+  call_time: string;
+  existing_job_id: string | null;
+};
+
+// public.boats: the vessel registry
+export type Boat = {
+  id: string;
+  name: string;
+  capacity: number | null; // passengers
+  home_port: string | null;
+  guides_needed: number;
+  is_active: boolean;
+};
+
+// public.pay_entries: the payroll ledger. 'job' lines come from completed jobs,
+// the rest are admin adjustments. period_id set = paid (and locked).
+export type PayKind = "job" | "tip" | "cancellation_fee" | "mileage" | "other";
+
+export type PayEntry = {
+  id: number;
+  guide_id: string;
+  job_id: string | null;
+  kind: PayKind;
+  amount: number;
+  work_date: string;
+  note: string | null;
+  period_id: string | null;
+  created_at: string;
+  jobs?: { title: string } | null;                 // embedded
+  profiles?: { full_name: string | null } | null;  // the guide, embedded in the admin report
+};
+
+// public.pay_periods: a payout; only paid periods exist
+export type PayPeriod = {
+  id: string;
+  starts_on: string;
+  ends_on: string;
+  paid_at: string;
+  paid_by: string | null;
+};
+
+// Why a guide can't work a job (guide_unavailability); null means they can.
+// weekly with no hours = a weekday they don't work.
+export type Unavailability =
+  | { reason: "blackout"; starts_on: string; ends_on: string; note: string | null }
+  | { reason: "weekly"; weekday: number; starts_at: string | null; ends_at: string | null };
+
+// public.guide_availability: a weekday the guide works (no hours = all day)
+export type GuideAvailability = {
+  guide_id: string;
+  weekday: number; // ISO, 1 = Mon … 7 = Sun
+  starts_at: string | null;
+  ends_at: string | null;
+};
+
+// public.guide_blackouts: days off, inclusive
+export type GuideBlackout = {
+  id: number;
+  guide_id: string;
+  starts_on: string;
+  ends_on: string;
+  note: string | null;
+};
+
+// One row of rank_guides(): assign picker candidates, best fit first
+export type RankedGuide = {
+  guide_id: string;
+  full_name: string | null;
+  unavailable: Unavailability | null;
+  missing: string[];
+  conflicts: ScheduleConflict[];
+  jobs_that_day: number;
+  jobs_that_week: number;
+};
+
+// public.notification_prefs: channels the guide wants (no row = email only)
+export type NotificationPrefs = {
+  guide_id: string;
+  email: boolean;
+  sms: boolean;
+  push: boolean;
+  phone: string | null;
+};
+
+export type NotificationKind = "new_job" | "assigned" | "canceled" | "time_changed" | "reminder";
+
+// public.notifications: one outbox row per guide, message and channel
+export type QueuedNotification = {
+  id: number;
+  job_id: string | null;
+  kind: NotificationKind;
+  channel: "email" | "sms" | "push";
+  subject: string;
+  status: "pending" | "sending" | "sent" | "failed" | "skipped";
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+};
+
+// public.booking_requests: a customer's request from the public /book form
+export type BookingRequest = {
+  id: string;
+  customer_name: string;
+  customer_phone: string | null;
+  customer_email: string | null;
+  party_size: number;
+  preferred_date: string;   // YYYY-MM-DD
+  dive_type: string;
+  message: string | null;
+  status: "pending" | "approved" | "declined";
+  decline_reason: string | null;
+  job_id: string | null;
+  created_at: string;
+  decided_at: string | null;
+};
+
+// booking_request_status(): what the customer's status link shows
+export type BookingStatus = {
+  status: BookingRequest["status"] | "canceled"; // canceled = approved, then the job was canceled
+  party_size: number;
+  preferred_date: string;
+  dive_type: string;
+  created_at: string;
+  decline_reason: string | null;
+  job_date: string | null;
+  call_time: string | null;
+  location: string | null;
+};
+
+// list_users(): the Users screen (admin)
+export type ManagedUser = {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  role: Profile["role"];
+  is_active: boolean;
+  created_at: string;
+  last_sign_in_at: string | null;
+  upcoming_jobs: number;    // open/assigned jobs from today on
+};
+
+// public.profile_invites: emailed sign-in links not used yet (accepted_at null)
+export type ProfileInvite = {
+  email: string;
+  full_name: string | null;
+  role: Profile["role"];
+  created_at: string;
+  accepted_at: string | null;
+};
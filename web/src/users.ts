@@ -0,0 +1,74 @@
+// users.ts — the admin Users screen: profiles with roles and active flag, and invites
+// (supabase/migrations/0019_user_admin.sql)
+
+import { supabase } from "./supabase";
+import type { ManagedUser, Profile, ProfileInvite } from "./types";
+
+export type UserResult = {
+  ok: boolean;
+  reason: "forbidden" | "invalid" | "already_user" | "not_found" | "last_admin" | "self" | null;
+  released?: number; // set_user_active: upcoming jobs the guide was taken off
+};
+
+export async function listUsers(): Promise<ManagedUser[]> {
+  const { data, error } = await supabase.rpc("list_users");
+  if (error) throw error;
+  return (data as ManagedUser[]) || [];
+}
+
+export async function loadInvites(): Promise<ProfileInvite[]> {
+  const { data, error } = await supabase
+    .from("profile_invites")
+    .select("email,full_name,role,created_at,accepted_at")
+    .is("accepted_at", null)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data as ProfileInvite[]) || [];
+}
+
+// Record the invite (so the new profile gets the name and role), then email the
+// sign-in link. The link creates the account on first use.
+export async function inviteUser(email: string, fullName: string, role: Profile["role"]): Promise<UserResult> {
+  const { data, error } = await supabase.rpc("invite_user", { p_email: email, p_full_name: fullName || null, p_role: role });
+  if (error) throw error;
+  const r = data as UserResult;
+  if (!r.ok) return r;
+  const { error: mailErr } = await supabase.auth.signInWithOtp({
+    email: email.trim().toLowerCase(),
+    options: { shouldCreateUser: true, emailRedirectTo: window.location.origin },
+  });
+  if (mailErr) throw mailErr;
+  return r;
+}
+
+export async function cancelInvite(email: string) {
+  const { error } = await supabase.from("profile_invites").delete().eq("email", email);
+  if (error) throw error;
+}
+
+export async function setUserRole(userId: string, role: Profile["role"]): Promise<UserResult> {
+  const { data, error } = await supabase.rpc("set_user_role", { p_user_id: userId, p_role: role });
+  if (error) throw error;
+  return data as UserResult;
+}
+
+// Deactivating with releaseJobs also takes the guide off their upcoming jobs
+export async function setUserActive(userId: string, active: boolean, releaseJobs = false): Promise<UserResult> {
+  const { data, error } = await supabase.rpc("set_user_active", {
+    p_user_id: userId, p_active: active, p_release_jobs: releaseJobs,
+  });
+  if (error) throw error;
+  return data as UserResult;
+}
+
+export function userMessage(r: UserResult): string {
+  switch (r.reason) {
+    case "forbidden": return "You don't have permission to do that.";
+    case "invalid": return "That doesn't look like an email address.";
+    case "already_user": return "Someone with that email already has an account.";
+    case "not_found": return "That user no longer exists.";
+    case "last_admin": return "There has to be at least one active admin.";
+    case "self": return "You can't deactivate your own account.";
+    default: return "Something went wrong.";
+  }
+}